@@ -0,0 +1,169 @@
+import type { OzonClient } from './ozon-client';
+import type { SyncStore, Row } from './store';
+
+// Subset of /v3/finance/transaction/list fields stored by the worker
+interface OzonOperation {
+  operation_id: number;
+  operation_type: string;
+  operation_date: string;
+  operation_type_name: string;
+  delivery_charge: number;
+  return_delivery_charge: number;
+  accruals_for_sale: number;
+  sale_commission: number;
+  amount: number;
+  type: string;
+  posting: {
+    delivery_schema: string;
+    order_date: string;
+    posting_number: string;
+    warehouse_id: number;
+  };
+  items: { name: string; sku: number }[];
+  services: { name: string; price: number }[];
+}
+
+interface OzonTransactionListResponse {
+  result: {
+    operations: OzonOperation[];
+    page_count: number;
+    row_count: number;
+  };
+}
+
+export interface FinanceSyncOptions {
+  now: Date;
+  initialDays: number;
+  // Re-read this many days before the cursor: Ozon posts some accruals late
+  overlapDays: number;
+}
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The endpoint accepts at most one month per request
+const MAX_WINDOW_DAYS = 30;
+
+const daysBefore = (date: Date, days: number) =>
+  new Date(date.getTime() - days * DAY_MS);
+
+export const splitIntoWindows = (from: Date, to: Date) => {
+  const windows: { from: Date; to: Date }[] = [];
+  let start = from;
+  while (start < to) {
+    const end = new Date(
+      Math.min(start.getTime() + MAX_WINDOW_DAYS * DAY_MS, to.getTime())
+    );
+    windows.push({ from: start, to: end });
+    start = end;
+  }
+  return windows;
+};
+
+export const toTransactionRow = (operation: OzonOperation): Row => ({
+  operation_id: operation.operation_id,
+  operation_type: operation.operation_type,
+  operation_type_name: operation.operation_type_name,
+  operation_date: operation.operation_date,
+  type: operation.type,
+  amount: operation.amount,
+  accruals_for_sale: operation.accruals_for_sale,
+  sale_commission: operation.sale_commission,
+  delivery_charge: operation.delivery_charge,
+  return_delivery_charge: operation.return_delivery_charge,
+  posting_number: operation.posting?.posting_number || null,
+  delivery_schema: operation.posting?.delivery_schema || null,
+  order_date: operation.posting?.order_date || null,
+  warehouse_id: operation.posting?.warehouse_id || null,
+  synced_at: new Date().toISOString(),
+});
+
+/**
+ * Incremental sync of finance operations together with their services and
+ * items. The cursor only moves after the whole range has been written, so a
+ * failed run is simply repeated next time; overlapping days are upserted.
+ */
+export const syncFinanceTransactions = async (
+  client: OzonClient,
+  store: SyncStore,
+  options: FinanceSyncOptions
+): Promise<number> => {
+  const lastCursor = await store.getLastCursor('finance_transactions');
+  const to = options.now;
+  const from = lastCursor
+    ? daysBefore(new Date(lastCursor), options.overlapDays)
+    : daysBefore(options.now, options.initialDays);
+
+  const run = await store.startRun(
+    'finance_transactions',
+    from.toISOString(),
+    to.toISOString()
+  );
+  let synced = 0;
+
+  try {
+    for (const window of splitIntoWindows(from, to)) {
+      for (let page = 1; ; page++) {
+        const response = await client.post<OzonTransactionListResponse>(
+          '/v3/finance/transaction/list',
+          {
+            filter: {
+              date: {
+                from: window.from.toISOString(),
+                to: window.to.toISOString(),
+              },
+              operation_type: [],
+              posting_number: '',
+              transaction_type: 'all',
+            },
+            page,
+            page_size: PAGE_SIZE,
+          }
+        );
+
+        const operations = response.result.operations;
+        const operationIds = operations.map((op) => op.operation_id);
+
+        await store.upsert(
+          'finance_transactions',
+          operations.map(toTransactionRow),
+          'operation_id'
+        );
+        await store.replaceChildren(
+          'finance_transaction_services',
+          'operation_id',
+          operationIds,
+          operations.flatMap((op) =>
+            (op.services || []).map((service) => ({
+              operation_id: op.operation_id,
+              name: service.name,
+              price: service.price,
+            }))
+          )
+        );
+        await store.replaceChildren(
+          'finance_transaction_items',
+          'operation_id',
+          operationIds,
+          operations.flatMap((op) =>
+            (op.items || []).map((item) => ({
+              operation_id: op.operation_id,
+              sku: item.sku,
+              name: item.name,
+            }))
+          )
+        );
+        synced += operations.length;
+
+        if (page >= response.result.page_count || operations.length === 0) {
+          break;
+        }
+      }
+    }
+
+    await store.finishRun(run, synced);
+    return synced;
+  } catch (error) {
+    await store.failRun(run, error);
+    throw error;
+  }
+};
@@ -0,0 +1,118 @@
+import { createOzonClient } from './ozon-client';
+import { createSupabaseSyncStore } from './store';
+import { syncPostings } from './postings';
+import { syncFinanceTransactions } from './finance';
+import { syncFbsStocks } from './stocks';
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+};
+
+const numberEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+interface AccountConfig {
+  id: string;
+  name: string;
+  clientId: string;
+  apiKey: string;
+}
+
+// OZON_ACCOUNTS holds a JSON array of {id, name, clientId, apiKey}, one per
+// seller cabinet. Without it a single account is read from OZON_CLIENT_ID /
+// OZON_API_KEY, stored as OZON_ACCOUNT_ID (default "default").
+const readAccounts = (): AccountConfig[] => {
+  const json = process.env.OZON_ACCOUNTS;
+  if (!json) {
+    const id = process.env.OZON_ACCOUNT_ID || 'default';
+    return [
+      {
+        id,
+        name: process.env.OZON_ACCOUNT_NAME || (id === 'default' ? 'Основной кабинет' : id),
+        clientId: requireEnv('OZON_CLIENT_ID'),
+        apiKey: requireEnv('OZON_API_KEY'),
+      },
+    ];
+  }
+
+  const accounts = JSON.parse(json) as Partial<AccountConfig>[];
+  if (!Array.isArray(accounts) || accounts.length === 0) {
+    throw new Error('OZON_ACCOUNTS must be a non-empty JSON array');
+  }
+  return accounts.map((account, index) => {
+    if (!account.id || !account.clientId || !account.apiKey) {
+      throw new Error(`OZON_ACCOUNTS[${index}] needs id, clientId and apiKey`);
+    }
+    return {
+      id: account.id,
+      name: account.name || account.id,
+      clientId: account.clientId,
+      apiKey: account.apiKey,
+    };
+  });
+};
+
+const syncAccount = async (account: AccountConfig, now: Date) => {
+  const client = createOzonClient({
+    clientId: account.clientId,
+    apiKey: account.apiKey,
+    baseUrl: process.env.OZON_API_URL,
+    minRequestIntervalMs: numberEnv('OZON_MIN_REQUEST_INTERVAL_MS', 250),
+  });
+  const store = createSupabaseSyncStore(
+    process.env.SUPABASE_URL || requireEnv('VITE_SUPABASE_URL'),
+    requireEnv('SUPABASE_SERVICE_ROLE_KEY'),
+    account.id
+  );
+  await store.saveAccount(account.name);
+
+  const initialDays = numberEnv('OZON_SYNC_INITIAL_DAYS', 90);
+
+  const postings = await syncPostings(client, store, {
+    now,
+    initialDays,
+    lookbackDays: numberEnv('OZON_SYNC_LOOKBACK_DAYS', 90),
+  });
+  console.log(`[${account.id}] postings_fbs: ${postings} postings synced`);
+
+  const operations = await syncFinanceTransactions(client, store, {
+    now,
+    initialDays,
+    overlapDays: numberEnv('OZON_SYNC_OVERLAP_DAYS', 3),
+  });
+  console.log(`[${account.id}] finance_transactions: ${operations} operations synced`);
+
+  const stocks = await syncFbsStocks(client, store, { now });
+  console.log(`[${account.id}] fbs_stocks: ${stocks} stock rows synced`);
+};
+
+// Accounts are synced one after another so they share the API rate limit
+// budget; a failing cabinet does not stop the others
+const main = async () => {
+  const now = new Date();
+  const failed: string[] = [];
+
+  for (const account of readAccounts()) {
+    try {
+      await syncAccount(account, now);
+    } catch (error) {
+      console.error(`[${account.id}] Ozon sync failed:`, error);
+      failed.push(account.id);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Sync failed for accounts: ${failed.join(', ')}`);
+  }
+};
+
+main().catch((error) => {
+  console.error('Ozon sync failed:', error);
+  process.exit(1);
+});
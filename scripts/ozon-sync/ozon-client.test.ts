@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createOzonClient, OzonApiError } from './ozon-client';
+import { MockOzonServer, MockReply, startMockOzonServer } from './testing';
+
+describe('createOzonClient', () => {
+  let server: MockOzonServer | null = null;
+  const sleeps: number[] = [];
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+    sleeps.length = 0;
+  });
+
+  const clientFor = (url: string, maxRetries = 3) =>
+    createOzonClient({
+      clientId: 'client',
+      apiKey: 'secret',
+      baseUrl: url,
+      maxRetries,
+      minRequestIntervalMs: 0,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+  // Replies in order, repeating the last one
+  const sequence = (...replies: MockReply[]) => {
+    let call = 0;
+    return () => replies[Math.min(call++, replies.length - 1)];
+  };
+
+  it('sends credentials and the JSON body', async () => {
+    server = await startMockOzonServer(() => ({ body: { result: 'ok' } }));
+
+    const response = await clientFor(server.url).post<{ result: string }>('/v1/test', { page: 1 });
+
+    expect(response).toEqual({ result: 'ok' });
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].path).toBe('/v1/test');
+    expect(server.requests[0].headers['client-id']).toBe('client');
+    expect(server.requests[0].headers['api-key']).toBe('secret');
+    expect(server.requests[0].body).toEqual({ page: 1 });
+  });
+
+  it('waits for Retry-After on 429 and retries', async () => {
+    server = await startMockOzonServer(
+      sequence(
+        { status: 429, headers: { 'Retry-After': '2' }, body: { message: 'rate limit' } },
+        { body: { result: 'ok' } }
+      )
+    );
+
+    const response = await clientFor(server.url).post('/v1/test', {});
+
+    expect(response).toEqual({ result: 'ok' });
+    expect(server.requests).toHaveLength(2);
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it('backs off exponentially on 429 and 5xx without Retry-After', async () => {
+    server = await startMockOzonServer(
+      sequence({ status: 429 }, { status: 503 }, { status: 500 }, { body: { result: 'ok' } })
+    );
+
+    await clientFor(server.url).post('/v1/test', {});
+
+    expect(server.requests).toHaveLength(4);
+    expect(sleeps).toEqual([1000, 2000, 4000]);
+  });
+
+  it('gives up after maxRetries with the last status', async () => {
+    server = await startMockOzonServer(() => ({ status: 429, body: { message: 'rate limit' } }));
+
+    const error = await clientFor(server.url, 2)
+      .post('/v1/test', {})
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(OzonApiError);
+    expect((error as OzonApiError).status).toBe(429);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    server = await startMockOzonServer(() => ({ status: 400, body: { message: 'bad filter' } }));
+
+    const error = await clientFor(server.url)
+      .post('/v1/test', {})
+      .catch((caught: unknown) => caught);
+
+    expect((error as OzonApiError).status).toBe(400);
+    expect((error as OzonApiError).body).toContain('bad filter');
+    expect(server.requests).toHaveLength(1);
+    expect(sleeps).toEqual([]);
+  });
+});
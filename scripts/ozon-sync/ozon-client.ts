@@ -0,0 +1,114 @@
+export interface OzonClientConfig {
+  clientId: string;
+  apiKey: string;
+  // Overridable so the worker can run against a local mock server
+  baseUrl?: string;
+  maxRetries?: number;
+  // Minimum delay between two consecutive requests
+  minRequestIntervalMs?: number;
+  fetchImpl?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export class OzonApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: string
+  ) {
+    super(message);
+    this.name = 'OzonApiError';
+  }
+}
+
+export interface OzonClient {
+  post<T>(path: string, body: unknown): Promise<T>;
+}
+
+export const DEFAULT_OZON_API_URL = 'https://api-seller.ozon.ru';
+
+const MAX_BACKOFF_MS = 30_000;
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+export const createOzonClient = (config: OzonClientConfig): OzonClient => {
+  const baseUrl = (config.baseUrl || DEFAULT_OZON_API_URL).replace(/\/$/, '');
+  const maxRetries = config.maxRetries ?? 5;
+  const minInterval = config.minRequestIntervalMs ?? 250;
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const sleep = config.sleep ?? defaultSleep;
+
+  let lastRequestAt = 0;
+
+  const throttle = async () => {
+    const wait = lastRequestAt + minInterval - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt = Date.now();
+  };
+
+  const backoff = (attempt: number, retryAfter: number | null) =>
+    retryAfter ?? Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS);
+
+  return {
+    async post<T>(path: string, body: unknown): Promise<T> {
+      for (let attempt = 0; ; attempt++) {
+        await throttle();
+
+        let response: Response;
+        try {
+          response = await fetchImpl(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+              'Client-Id': config.clientId,
+              'Api-Key': config.apiKey,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+          });
+        } catch (networkError) {
+          if (attempt >= maxRetries) throw networkError;
+          console.warn(`${path}: network error, retrying`, networkError);
+          await sleep(backoff(attempt, null));
+          continue;
+        }
+
+        if (response.ok) {
+          return (await response.json()) as T;
+        }
+
+        const text = await response.text();
+        if (isRetryableStatus(response.status) && attempt < maxRetries) {
+          const delay = backoff(
+            attempt,
+            parseRetryAfter(response.headers.get('Retry-After'))
+          );
+          console.warn(
+            `${path}: HTTP ${response.status}, retrying in ${delay} ms`
+          );
+          await sleep(delay);
+          continue;
+        }
+
+        throw new OzonApiError(
+          `Ozon API ${path} failed with HTTP ${response.status}`,
+          response.status,
+          text
+        );
+      }
+    },
+  };
+};
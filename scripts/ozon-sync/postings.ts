@@ -0,0 +1,152 @@
+import type { OzonClient } from './ozon-client';
+import type { SyncStore, Row } from './store';
+
+// Subset of /v3/posting/fbs/list fields the dashboard relies on
+interface OzonPostingProduct {
+  sku: number;
+  offer_id: string;
+  name: string;
+  quantity: number;
+  price: string;
+}
+
+interface OzonFinancialProduct {
+  product_id: number;
+  price: number;
+  payout: number;
+  commission_amount: number;
+  quantity: number;
+}
+
+interface OzonPosting {
+  posting_number: string;
+  order_id: number;
+  order_number: string;
+  status: string;
+  substatus?: string;
+  in_process_at: string | null;
+  shipment_date: string | null;
+  delivering_date: string | null;
+  cancellation?: {
+    cancel_reason_id: number;
+    cancel_reason: string;
+    cancellation_type: string;
+    cancellation_initiator: string;
+  } | null;
+  delivery_method?: {
+    warehouse_id: number;
+    warehouse: string;
+  } | null;
+  analytics_data?: {
+    region: string;
+    city: string;
+  } | null;
+  financial_data?: {
+    cluster_from: string;
+    cluster_to: string;
+    products: OzonFinancialProduct[];
+  } | null;
+  products: OzonPostingProduct[];
+}
+
+interface OzonPostingListResponse {
+  result: {
+    postings: OzonPosting[];
+    has_next: boolean;
+  };
+}
+
+export interface PostingsSyncOptions {
+  now: Date;
+  // Window fetched on the very first run
+  initialDays: number;
+  // Postings older than this are not re-checked for status changes
+  lookbackDays: number;
+}
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBefore = (date: Date, days: number) =>
+  new Date(date.getTime() - days * DAY_MS).toISOString();
+
+export const toPostingRow = (posting: OzonPosting): Row => ({
+  posting_number: posting.posting_number,
+  order_id: posting.order_id,
+  order_number: posting.order_number,
+  status: posting.status,
+  substatus: posting.substatus ?? null,
+  in_process_at: posting.in_process_at,
+  shipment_date: posting.shipment_date,
+  delivering_date: posting.delivering_date,
+  warehouse_id: posting.delivery_method?.warehouse_id ?? null,
+  warehouse_name: posting.delivery_method?.warehouse ?? null,
+  region: posting.analytics_data?.region ?? null,
+  city: posting.analytics_data?.city ?? null,
+  cluster_from: posting.financial_data?.cluster_from ?? null,
+  cluster_to: posting.financial_data?.cluster_to ?? null,
+  cancel_reason_id: posting.cancellation?.cancel_reason_id || null,
+  cancel_reason: posting.cancellation?.cancel_reason || null,
+  cancellation_type: posting.cancellation?.cancellation_type || null,
+  cancellation_initiator: posting.cancellation?.cancellation_initiator || null,
+  products: posting.products,
+  financial_products: posting.financial_data?.products ?? [],
+  synced_at: new Date().toISOString(),
+});
+
+/**
+ * Incremental sync of FBS postings. The first run loads `initialDays` of
+ * postings; later runs only fetch postings whose status changed since the
+ * previous successful run, so cancellations and deliveries are picked up.
+ */
+export const syncPostings = async (
+  client: OzonClient,
+  store: SyncStore,
+  options: PostingsSyncOptions
+): Promise<number> => {
+  const lastCursor = await store.getLastCursor('postings_fbs');
+  const cursorTo = options.now.toISOString();
+  const cursorFrom = lastCursor ?? daysBefore(options.now, options.initialDays);
+
+  const run = await store.startRun('postings_fbs', cursorFrom, cursorTo);
+  let synced = 0;
+
+  try {
+    const filter = lastCursor
+      ? {
+          since: daysBefore(options.now, options.lookbackDays),
+          to: cursorTo,
+          last_changed_status_date: { from: cursorFrom, to: cursorTo },
+        }
+      : { since: cursorFrom, to: cursorTo };
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const response = await client.post<OzonPostingListResponse>(
+        '/v3/posting/fbs/list',
+        {
+          dir: 'ASC',
+          filter,
+          limit: PAGE_SIZE,
+          offset,
+          with: { analytics_data: true, financial_data: true },
+        }
+      );
+
+      const postings = response.result.postings;
+      await store.upsert(
+        'postings_fbs',
+        postings.map(toPostingRow),
+        'posting_number'
+      );
+      synced += postings.length;
+
+      if (!response.result.has_next || postings.length === 0) break;
+    }
+
+    await store.finishRun(run, synced);
+    return synced;
+  } catch (error) {
+    await store.failRun(run, error);
+    throw error;
+  }
+};
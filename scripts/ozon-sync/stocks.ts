@@ -0,0 +1,121 @@
+import type { OzonClient } from './ozon-client';
+import type { SyncStore, Row } from './store';
+
+// Subset of /v4/product/info/stocks: totals per product and stock type
+interface OzonProductStocks {
+  offer_id: string;
+  product_id: number;
+  stocks: {
+    type: string;
+    sku: number;
+    present: number;
+    reserved: number;
+  }[];
+}
+
+interface OzonProductStocksResponse {
+  items: OzonProductStocks[];
+  cursor: string;
+  total: number;
+}
+
+// /v1/product/info/stocks-by-warehouse/fbs: one row per SKU and warehouse
+interface OzonWarehouseStock {
+  sku: number;
+  product_id: number;
+  warehouse_id: number;
+  warehouse_name: string;
+  present: number;
+  reserved: number;
+}
+
+interface OzonWarehouseStocksResponse {
+  result: OzonWarehouseStock[];
+}
+
+export interface StocksSyncOptions {
+  now: Date;
+}
+
+const PRODUCTS_PAGE_SIZE = 1000;
+// The warehouse endpoint takes at most 500 SKUs per request
+const SKU_BATCH_SIZE = 500;
+
+export const toStockRow = (
+  stock: OzonWarehouseStock,
+  offerId: string | null,
+  updatedAt: string
+): Row => ({
+  sku: stock.sku,
+  offer_id: offerId,
+  warehouse_id: stock.warehouse_id,
+  warehouse_name: stock.warehouse_name,
+  present: Math.max(stock.present, 0),
+  reserved: Math.max(stock.reserved, 0),
+  updated_at: updatedAt,
+});
+
+// FBS SKUs of every product in the catalog, with their offer ids
+const listFbsSkus = async (client: OzonClient) => {
+  const offers = new Map<number, string>();
+
+  for (let cursor = ''; ; ) {
+    const response = await client.post<OzonProductStocksResponse>(
+      '/v4/product/info/stocks',
+      { cursor, filter: { visibility: 'ALL' }, limit: PRODUCTS_PAGE_SIZE }
+    );
+
+    response.items.forEach((item) => {
+      item.stocks
+        .filter((stock) => stock.type === 'fbs' && stock.sku)
+        .forEach((stock) => offers.set(stock.sku, item.offer_id));
+    });
+
+    if (response.items.length < PRODUCTS_PAGE_SIZE || !response.cursor) break;
+    cursor = response.cursor;
+  }
+
+  return offers;
+};
+
+/**
+ * Snapshot of FBS stock per SKU and warehouse. Unlike postings and finance
+ * operations there is nothing incremental about it: every run reads the
+ * whole catalog and replaces the account's rows in fbs_stocks.
+ */
+export const syncFbsStocks = async (
+  client: OzonClient,
+  store: SyncStore,
+  options: StocksSyncOptions
+): Promise<number> => {
+  const updatedAt = options.now.toISOString();
+  const run = await store.startRun('fbs_stocks', updatedAt, updatedAt);
+  let synced = 0;
+
+  try {
+    const offers = await listFbsSkus(client);
+    const skus = Array.from(offers.keys());
+
+    for (let i = 0; i < skus.length; i += SKU_BATCH_SIZE) {
+      const response = await client.post<OzonWarehouseStocksResponse>(
+        '/v1/product/info/stocks-by-warehouse/fbs',
+        { sku: skus.slice(i, i + SKU_BATCH_SIZE).map(String) }
+      );
+
+      const rows = response.result.map((stock) =>
+        toStockRow(stock, offers.get(stock.sku) ?? null, updatedAt)
+      );
+      await store.upsert('fbs_stocks', rows, 'account_id,warehouse_name,sku');
+      synced += rows.length;
+    }
+
+    // Rows this run did not touch belong to SKUs or warehouses that are gone
+    await store.deleteOthers('fbs_stocks', 'updated_at', updatedAt);
+
+    await store.finishRun(run, synced);
+    return synced;
+  } catch (error) {
+    await store.failRun(run, error);
+    throw error;
+  }
+};
@@ -0,0 +1,167 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export type SyncStream = 'postings_fbs' | 'finance_transactions' | 'fbs_stocks';
+
+export interface SyncRun {
+  id: number;
+  stream: SyncStream;
+  cursorFrom: string;
+  cursorTo: string;
+}
+
+export type Row = Record<string, unknown>;
+
+/**
+ * Persistence used by the sync worker: upserts into the Ozon tables and
+ * bookkeeping of sync runs in sync_runs. A store is bound to one seller
+ * account: cursors are kept per account and upserted rows get its account_id.
+ */
+export interface SyncStore {
+  // Registers the account in seller_accounts, updating its display name
+  saveAccount(name: string): Promise<void>;
+  // cursor_to of the last successful run of the stream, if any
+  getLastCursor(stream: SyncStream): Promise<string | null>;
+  startRun(
+    stream: SyncStream,
+    cursorFrom: string,
+    cursorTo: string
+  ): Promise<SyncRun>;
+  finishRun(run: SyncRun, rowsSynced: number): Promise<void>;
+  failRun(run: SyncRun, error: unknown): Promise<void>;
+  upsert(table: string, rows: Row[], onConflict: string): Promise<void>;
+  // Replace child rows (services, items) of the given parent keys
+  replaceChildren(
+    table: string,
+    parentColumn: string,
+    parentKeys: (string | number)[],
+    rows: Row[]
+  ): Promise<void>;
+  // Deletes the account's rows whose column differs from value, e.g. the
+  // rows a full snapshot did not write again
+  deleteOthers(table: string, column: string, value: string): Promise<void>;
+}
+
+const BATCH_SIZE = 500;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export const createSupabaseSyncStore = (
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  accountId: string
+): SyncStore => {
+  const supabase: SupabaseClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  return {
+    async saveAccount(name) {
+      const { error } = await supabase
+        .from('seller_accounts')
+        .upsert({ id: accountId, name }, { onConflict: 'id' });
+      if (error) throw error;
+    },
+
+    async getLastCursor(stream) {
+      const { data, error } = await supabase
+        .from('sync_runs')
+        .select('cursor_to')
+        .eq('account_id', accountId)
+        .eq('stream', stream)
+        .eq('status', 'success')
+        .order('cursor_to', { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      return data?.[0]?.cursor_to ?? null;
+    },
+
+    async startRun(stream, cursorFrom, cursorTo) {
+      const { data, error } = await supabase
+        .from('sync_runs')
+        .insert({
+          account_id: accountId,
+          stream,
+          status: 'running',
+          cursor_from: cursorFrom,
+          cursor_to: cursorTo,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return { id: data.id, stream, cursorFrom, cursorTo };
+    },
+
+    async finishRun(run, rowsSynced) {
+      const { error } = await supabase
+        .from('sync_runs')
+        .update({
+          status: 'success',
+          rows_synced: rowsSynced,
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', run.id);
+
+      if (error) throw error;
+    },
+
+    async failRun(run, runError) {
+      const { error } = await supabase
+        .from('sync_runs')
+        .update({
+          status: 'failed',
+          error: errorMessage(runError),
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', run.id);
+
+      if (error) throw error;
+    },
+
+    async upsert(table, rows, onConflict) {
+      for (const batch of chunk(rows, BATCH_SIZE)) {
+        const { error } = await supabase
+          .from(table)
+          .upsert(
+            batch.map((row) => ({ ...row, account_id: accountId })),
+            { onConflict }
+          );
+        if (error) throw error;
+      }
+    },
+
+    async replaceChildren(table, parentColumn, parentKeys, rows) {
+      for (const keys of chunk(parentKeys, BATCH_SIZE)) {
+        const { error } = await supabase
+          .from(table)
+          .delete()
+          .in(parentColumn, keys);
+        if (error) throw error;
+      }
+
+      for (const batch of chunk(rows, BATCH_SIZE)) {
+        const { error } = await supabase.from(table).insert(batch);
+        if (error) throw error;
+      }
+    },
+
+    async deleteOthers(table, column, value) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('account_id', accountId)
+        .neq(column, value);
+      if (error) throw error;
+    },
+  };
+};
@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createOzonClient } from './ozon-client';
+import { syncPostings } from './postings';
+import { syncFinanceTransactions } from './finance';
+import { MockOzonServer, MockRequest, createMemorySyncStore, startMockOzonServer } from './testing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clientFor = (server: MockOzonServer) =>
+  createOzonClient({
+    clientId: 'client',
+    apiKey: 'secret',
+    baseUrl: server.url,
+    maxRetries: 0,
+    minRequestIntervalMs: 0,
+    sleep: async () => {},
+  });
+
+const posting = (number: string) => ({
+  posting_number: number,
+  order_id: 1,
+  order_number: number,
+  status: 'delivered',
+  in_process_at: '2024-12-01T10:00:00Z',
+  shipment_date: null,
+  delivering_date: null,
+  products: [],
+});
+
+const operation = (id: number) => ({
+  operation_id: id,
+  operation_type: 'OperationAgentDeliveredToCustomer',
+  operation_date: '2024-12-01 10:00:00',
+  operation_type_name: 'Доставка покупателю',
+  delivery_charge: 0,
+  return_delivery_charge: 0,
+  accruals_for_sale: 100,
+  sale_commission: -10,
+  amount: 90,
+  type: 'orders',
+  posting: { delivery_schema: 'FBS', order_date: '', posting_number: `P-${id}`, warehouse_id: 1 },
+  items: [{ name: 'Товар', sku: 100 + id }],
+  services: [{ name: 'MarketplaceServiceItemDirectFlowLogistic', price: -5 }],
+});
+
+const filterDate = (request: MockRequest) =>
+  (request.body.filter as { date: { from: string; to: string } }).date;
+
+let server: MockOzonServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+describe('syncPostings', () => {
+  const options = (now: Date) => ({ now, initialDays: 30, lookbackDays: 60 });
+
+  // Two pages on the first run, one page afterwards
+  const postingsHandler = (request: MockRequest) => {
+    const offset = request.body.offset as number;
+    const filter = request.body.filter as Record<string, unknown>;
+    if (filter.last_changed_status_date) {
+      return { body: { result: { postings: [posting('C-1')], has_next: false } } };
+    }
+    return offset === 0
+      ? { body: { result: { postings: [posting('A-1'), posting('A-2')], has_next: true } } }
+      : { body: { result: { postings: [posting('B-1')], has_next: false } } };
+  };
+
+  it('walks all pages on the first run and records the run', async () => {
+    server = await startMockOzonServer(postingsHandler);
+    const store = createMemorySyncStore();
+    const now = new Date('2024-12-15T00:00:00Z');
+
+    const synced = await syncPostings(clientFor(server), store, options(now));
+
+    expect(synced).toBe(3);
+    expect(server.requests.map((request) => request.body.offset)).toEqual([0, 1000]);
+    expect(server.requests[0].body.filter).toEqual({
+      since: new Date(now.getTime() - 30 * DAY_MS).toISOString(),
+      to: now.toISOString(),
+    });
+    expect(store.tables.get('postings_fbs')?.map((row) => row.posting_number)).toEqual(['A-1', 'A-2', 'B-1']);
+    expect(store.runs).toMatchObject([
+      { stream: 'postings_fbs', status: 'success', rowsSynced: 3, cursorTo: now.toISOString() },
+    ]);
+  });
+
+  it('resumes from the last successful cursor by status change date', async () => {
+    server = await startMockOzonServer(postingsHandler);
+    const store = createMemorySyncStore();
+    const first = new Date('2024-12-15T00:00:00Z');
+    const second = new Date('2024-12-16T00:00:00Z');
+
+    await syncPostings(clientFor(server), store, options(first));
+    server.requests.length = 0;
+    await syncPostings(clientFor(server), store, options(second));
+
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].body.filter).toEqual({
+      since: new Date(second.getTime() - 60 * DAY_MS).toISOString(),
+      to: second.toISOString(),
+      last_changed_status_date: { from: first.toISOString(), to: second.toISOString() },
+    });
+    expect(store.runs[1]).toMatchObject({ cursorFrom: first.toISOString(), status: 'success' });
+  });
+
+  it('marks the run failed and keeps the old cursor', async () => {
+    const store = createMemorySyncStore();
+    const first = new Date('2024-12-15T00:00:00Z');
+    server = await startMockOzonServer(postingsHandler);
+    await syncPostings(clientFor(server), store, options(first));
+    await server.close();
+
+    server = await startMockOzonServer(() => ({ status: 400, body: { message: 'bad request' } }));
+    await expect(
+      syncPostings(clientFor(server), store, options(new Date('2024-12-16T00:00:00Z')))
+    ).rejects.toThrow('HTTP 400');
+
+    expect(store.runs[1].status).toBe('failed');
+    expect(await store.getLastCursor('postings_fbs')).toBe(first.toISOString());
+  });
+});
+
+describe('syncFinanceTransactions', () => {
+  const options = (now: Date, initialDays = 45) => ({ now, initialDays, overlapDays: 3 });
+
+  // page_count 2 for every window; the operation id encodes the page and the
+  // window start, so every request returns a new operation
+  const financeHandler = (request: MockRequest) => ({
+    body: {
+      result: {
+        operations: [operation(Number(request.body.page) * 1000 + Date.parse(filterDate(request).from) / DAY_MS)],
+        page_count: 2,
+        row_count: 2,
+      },
+    },
+  });
+
+  it('splits the range into 30-day windows and walks the pages of each', async () => {
+    server = await startMockOzonServer(financeHandler);
+    const store = createMemorySyncStore();
+    const now = new Date('2024-12-15T00:00:00Z');
+    const from = new Date(now.getTime() - 45 * DAY_MS);
+
+    const synced = await syncFinanceTransactions(clientFor(server), store, options(now));
+
+    const calls = server.requests.map((request) => ({ ...filterDate(request), page: request.body.page }));
+    const windowEnd = new Date(from.getTime() + 30 * DAY_MS).toISOString();
+    expect(calls).toEqual([
+      { from: from.toISOString(), to: windowEnd, page: 1 },
+      { from: from.toISOString(), to: windowEnd, page: 2 },
+      { from: windowEnd, to: now.toISOString(), page: 1 },
+      { from: windowEnd, to: now.toISOString(), page: 2 },
+    ]);
+    expect(synced).toBe(4);
+    expect(store.tables.get('finance_transactions')).toHaveLength(4);
+    expect(store.tables.get('finance_transaction_services')).toHaveLength(4);
+    expect(store.tables.get('finance_transaction_items')).toHaveLength(4);
+    expect(store.runs[0]).toMatchObject({ status: 'success', rowsSynced: 4 });
+  });
+
+  it('resumes from the cursor minus the overlap and upserts repeated operations', async () => {
+    // The same two operations on every read, as in the overlapping days
+    server = await startMockOzonServer((request) => ({
+      body: { result: { operations: [operation(Number(request.body.page))], page_count: 2, row_count: 2 } },
+    }));
+    const store = createMemorySyncStore();
+    const first = new Date('2024-12-15T00:00:00Z');
+    const second = new Date('2024-12-16T00:00:00Z');
+
+    await syncFinanceTransactions(clientFor(server), store, options(first, 10));
+    server.requests.length = 0;
+    await syncFinanceTransactions(clientFor(server), store, options(second, 10));
+
+    const resumeFrom = new Date(first.getTime() - 3 * DAY_MS).toISOString();
+    expect(server.requests.map((request) => request.body.filter)).toEqual([
+      expect.objectContaining({ date: { from: resumeFrom, to: second.toISOString() } }),
+      expect.objectContaining({ date: { from: resumeFrom, to: second.toISOString() } }),
+    ]);
+    expect(store.runs[1]).toMatchObject({ cursorFrom: resumeFrom, cursorTo: second.toISOString() });
+
+    // Re-read operations and their children are replaced, not duplicated
+    expect(store.tables.get('finance_transactions')).toHaveLength(2);
+    expect(store.tables.get('finance_transaction_services')).toHaveLength(2);
+    expect(store.tables.get('finance_transaction_items')).toHaveLength(2);
+  });
+});
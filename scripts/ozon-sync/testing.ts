@@ -0,0 +1,149 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Row, SyncRun, SyncStore, SyncStream } from './store';
+
+/**
+ * Test doubles for the sync worker: a local HTTP server standing in for the
+ * Ozon API and an in-memory SyncStore.
+ */
+
+export interface MockRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+export interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockOzonServer {
+  url: string;
+  requests: MockRequest[];
+  close(): Promise<void>;
+}
+
+// handler answers every request; it may return different replies per call
+export const startMockOzonServer = async (
+  handler: (request: MockRequest) => MockReply
+): Promise<MockOzonServer> => {
+  const requests: MockRequest[] = [];
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const request: MockRequest = {
+        path: req.url || '',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : {},
+      };
+      requests.push(request);
+
+      const reply = handler(request);
+      res.writeHead(reply.status ?? 200, {
+        'Content-Type': 'application/json',
+        ...reply.headers,
+      });
+      res.end(JSON.stringify(reply.body ?? {}));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    ),
+  };
+};
+
+export interface MemoryRun extends SyncRun {
+  status: 'running' | 'success' | 'failed';
+  rowsSynced: number | null;
+  error: string | null;
+}
+
+export interface MemorySyncStore extends SyncStore {
+  runs: MemoryRun[];
+  tables: Map<string, Row[]>;
+}
+
+// Rows are kept per table; upsert replaces rows with the same conflict key
+export const createMemorySyncStore = (accountId = 'test'): MemorySyncStore => {
+  const runs: MemoryRun[] = [];
+  const tables = new Map<string, Row[]>();
+  const rowsOf = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table) as Row[];
+  };
+
+  return {
+    runs,
+    tables,
+
+    async saveAccount() {},
+
+    async getLastCursor(stream: SyncStream) {
+      const done = runs.filter((run) => run.stream === stream && run.status === 'success');
+      return done.length > 0
+        ? done.map((run) => run.cursorTo).sort().reverse()[0]
+        : null;
+    },
+
+    async startRun(stream, cursorFrom, cursorTo) {
+      const run: MemoryRun = {
+        id: runs.length + 1,
+        stream,
+        cursorFrom,
+        cursorTo,
+        status: 'running',
+        rowsSynced: null,
+        error: null,
+      };
+      runs.push(run);
+      return run;
+    },
+
+    async finishRun(run, rowsSynced) {
+      Object.assign(runs[run.id - 1], { status: 'success', rowsSynced });
+    },
+
+    async failRun(run, error) {
+      Object.assign(runs[run.id - 1], {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+
+    async upsert(table, rows, onConflict) {
+      const keys = onConflict.split(',');
+      const existing = rowsOf(table);
+      rows.forEach((row) => {
+        const stored: Row = { ...row, account_id: accountId };
+        const index = existing.findIndex((other) => keys.every((key) => other[key] === stored[key]));
+        if (index >= 0) {
+          existing[index] = stored;
+        } else {
+          existing.push(stored);
+        }
+      });
+    },
+
+    async replaceChildren(table, parentColumn, parentKeys, rows) {
+      tables.set(table, [
+        ...rowsOf(table).filter((row) => !parentKeys.includes(row[parentColumn] as string | number)),
+        ...rows,
+      ]);
+    },
+
+    async deleteOthers(table, column, value) {
+      tables.set(table, rowsOf(table).filter((row) => row[column] === value));
+    },
+  };
+};
@@ -3,12 +3,25 @@ import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'r
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'react-hot-toast';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { PageStateProvider } from './contexts/PageStateContext';
+import { LoadingSpinner } from './components/ui/LoadingSpinner';
 import { AppLayout } from './components/layout/AppLayout';
 import { SalesPage } from './pages/SalesPage';
 import { ProductsPage } from './pages/ProductsPage';
+import { ProductDetailPage } from './pages/ProductDetailPage';
 import { RegionsPage } from './pages/RegionsPage';
+import { InventoryPage } from './pages/InventoryPage';
+import { ReplenishmentPage } from './pages/ReplenishmentPage';
+import { ReturnsPage } from './pages/ReturnsPage';
 import { FinancePage } from './pages/FinancePage';
 import { TransactionsPage } from './pages/TransactionsPage';
+import { PostingDetailPage } from './pages/PostingDetailPage';
+import { CostsPage } from './pages/CostsPage';
+import { SettingsPage } from './pages/SettingsPage';
+import { AlertsPage } from './pages/AlertsPage';
+import { LoginPage } from './pages/LoginPage';
+import { Permission } from './lib/auth';
 
 // Component to handle redirect with preserved search params
 const RedirectToSales: React.FC = () => {
@@ -16,6 +29,41 @@ const RedirectToSales: React.FC = () => {
   return <Navigate to={`/sales${location.search}`} replace />;
 };
 
+// Sends signed-out users to the login page and back afterwards
+const RequireAuth: React.FC<{ children: React.ReactElement }> = ({ children }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: `${location.pathname}${location.search}` }} />;
+  }
+
+  return children;
+};
+
+// Pages the role may not open fall back to sales, keeping the filters
+const RequirePermission: React.FC<{ permission: Permission; children: React.ReactElement }> = ({
+  permission,
+  children,
+}) => {
+  const { can } = useAuth();
+  const location = useLocation();
+
+  if (!can(permission)) {
+    return <Navigate to={`/sales${location.search}`} replace />;
+  }
+
+  return children;
+};
+
 // Create a client
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -37,30 +85,43 @@ function App() {
   return (
     <ThemeProvider>
       <QueryClientProvider client={queryClient}>
-        <Router>
-          <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
-            <Toaster 
-              position="top-right"
-              toastOptions={{
-                duration: 5000,
-                style: {
-                  background: '#363636',
-                  color: '#fff',
-                },
-              }}
-            />
-            <Routes>
-              <Route path="/" element={<AppLayout />}>
-                <Route index element={<RedirectToSales />} />
-                <Route path="sales" element={<SalesPage />} />
-                <Route path="products" element={<ProductsPage />} />
-                <Route path="regions" element={<RegionsPage />} />
-                <Route path="finance" element={<FinancePage />} />
-                <Route path="transactions" element={<TransactionsPage />} />
-              </Route>
-            </Routes>
-          </div>
-        </Router>
+        <AuthProvider>
+          <PageStateProvider>
+            <Router>
+              <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+                <Toaster 
+                  position="top-right"
+                  toastOptions={{
+                    duration: 5000,
+                    style: {
+                      background: '#363636',
+                      color: '#fff',
+                    },
+                  }}
+                />
+                <Routes>
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route path="/" element={<RequireAuth><AppLayout /></RequireAuth>}>
+                    <Route index element={<RedirectToSales />} />
+                    <Route path="sales" element={<SalesPage />} />
+                    <Route path="products" element={<ProductsPage />} />
+                    <Route path="products/:sku" element={<ProductDetailPage />} />
+                    <Route path="regions" element={<RegionsPage />} />
+                    <Route path="inventory" element={<InventoryPage />} />
+                    <Route path="replenishment" element={<ReplenishmentPage />} />
+                    <Route path="returns" element={<ReturnsPage />} />
+                    <Route path="finance" element={<RequirePermission permission="viewFinance"><FinancePage /></RequirePermission>} />
+                    <Route path="transactions" element={<RequirePermission permission="viewFinance"><TransactionsPage /></RequirePermission>} />
+                    <Route path="postings/:postingNumber" element={<RequirePermission permission="viewFinance"><PostingDetailPage /></RequirePermission>} />
+                    <Route path="costs" element={<RequirePermission permission="editCosts"><CostsPage /></RequirePermission>} />
+                    <Route path="alerts" element={<AlertsPage />} />
+                    <Route path="settings" element={<RequirePermission permission="editSettings"><SettingsPage /></RequirePermission>} />
+                  </Route>
+                </Routes>
+              </div>
+            </Router>
+          </PageStateProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
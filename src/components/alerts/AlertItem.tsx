@@ -0,0 +1,48 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import type { TriggeredAlert } from '../../hooks/useAlerts';
+import { ALERT_METRIC_LABELS, alertScopeLabel, formatAlertValue } from '../../lib/alert-rules';
+
+// Alert days are Moscow calendar dates; formatting them in UTC keeps the day
+const formatAlertDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('ru-RU', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  });
+
+interface AlertItemProps {
+  alert: TriggeredAlert;
+  unread?: boolean;
+  onOpen?: () => void;
+}
+
+export const AlertItem: React.FC<AlertItemProps> = ({ alert, unread, onOpen }) => {
+  const { rule, anomaly } = alert;
+  const above = anomaly.score > 0;
+  const Icon = above ? TrendingUp : TrendingDown;
+
+  return (
+    <Link
+      to={alert.to}
+      onClick={onOpen}
+      className={`flex items-start gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700 ${
+        unread ? 'bg-ozon-50 dark:bg-ozon-900/30' : ''
+      }`}
+    >
+      <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${above ? 'text-amber-600' : 'text-red-600'}`} />
+      <div className="min-w-0">
+        <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{rule.name}</div>
+        <div className="text-sm text-gray-700 dark:text-gray-300">
+          {ALERT_METRIC_LABELS[rule.metric]}: {formatAlertValue(rule.metric, anomaly.value)} при обычных{' '}
+          {formatAlertValue(rule.metric, anomaly.expected)}
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {formatAlertDate(anomaly.date)} · {alertScopeLabel(rule)} · z = {Number.isFinite(anomaly.score) ? anomaly.score.toFixed(1) : above ? '+∞' : '−∞'}
+        </div>
+      </div>
+    </Link>
+  );
+};
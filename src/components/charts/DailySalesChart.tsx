@@ -1,24 +1,199 @@
-import React, { useState } from 'react';
-import { 
-  LineChart, 
-  Line, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
+import React, { useMemo } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
   ResponsiveContainer,
   Legend
 } from 'recharts';
-import { useDailySales } from '../../hooks/useSalesData';
+import {
+  useDailySales,
+  useComparisonDailySales,
+  useForecastHistory,
+  lastCompleteDay,
+} from '../../hooks/useSalesData';
+import { useFilters } from '../../hooks/useFilters';
+import { usePageState } from '../../contexts/PageStateContext';
+import { COMPARISON_MODE_LABELS } from '../../lib/comparison';
+import {
+  GRANULARITIES,
+  GRANULARITY_LABELS,
+  Granularity,
+  MOVING_AVERAGE_WINDOWS,
+  MovingAverageWindow,
+  SalesBucket,
+  SalesChartState,
+  SalesSeriesMetric,
+  addDays,
+  bucketize,
+  metricValue,
+  movingAverage,
+} from '../../lib/sales-series';
+import { FORECAST_HORIZONS, forecastSeries } from '../../lib/forecast';
+import { formatMoscowDate } from '../../lib/date-utils';
 import { formatCurrency, formatNumber } from '../../lib/format';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { ErrorMessage } from '../ui/ErrorMessage';
 
-type ChartMode = 'gmv' | 'orders' | 'units';
+type ChartMode = SalesSeriesMetric;
 
-export const DailySalesChart: React.FC = () => {
-  const [mode, setMode] = useState<ChartMode>('gmv');
-  const { data, isLoading, error, refetch } = useDailySales();
+const chartModes: { mode: ChartMode; label: string; color: string; currency: boolean }[] = [
+  { mode: 'gmv', label: 'GMV', color: '#4f46e5', currency: true },
+  { mode: 'revenue', label: 'Выручка', color: '#0891b2', currency: true },
+  { mode: 'orders', label: 'Заказы', color: '#059669', currency: false },
+  { mode: 'units', label: 'Единицы', color: '#dc2626', currency: false },
+  { mode: 'aov', label: 'Ср. чек', color: '#d97706', currency: true },
+];
+
+const movingAverageColors: Record<MovingAverageWindow, string> = {
+  7: '#a855f7',
+  28: '#0f172a',
+};
+
+const DEFAULT_CHART_STATE: SalesChartState = {
+  mode: 'gmv',
+  granularity: 'day',
+  showComparison: true,
+  movingAverages: [],
+  forecastDays: 0,
+};
+
+const FORECAST_COLOR = '#f59e0b';
+
+interface ChartPoint {
+  date: string;
+  firstDay: string;
+  lastDay: string;
+  // null on forecast days after the period
+  current: number | null;
+  // Comparison bucket with the same offset from the start of its period
+  previous: number | null;
+  previousFirstDay: string | null;
+  previousLastDay: string | null;
+  ma7: number | null;
+  ma28: number | null;
+  forecast?: number;
+  // [lower, upper] of the 80% and 95% intervals
+  band80?: [number, number];
+  band95?: [number, number];
+}
+
+// Bucket dates are Moscow calendar dates; formatting them in UTC keeps the day
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('ru-RU', { ...options, timeZone: 'UTC' });
+
+const formatShortDay = (date: string) => formatDay(date, { day: '2-digit', month: '2-digit' });
+
+const formatBucketRange = (firstDay: string, lastDay: string) =>
+  firstDay === lastDay ? formatShortDay(firstDay) : `${formatShortDay(firstDay)}–${formatShortDay(lastDay)}`;
+
+const formatBucketTitle = (point: ChartPoint, granularity: Granularity) => {
+  switch (granularity) {
+    case 'week':
+      return `Неделя ${formatBucketRange(point.firstDay, point.lastDay)}`;
+    case 'month':
+      return formatDay(point.date, { month: 'long', year: 'numeric' });
+    default:
+      return formatDay(point.date, { weekday: 'long', day: 'numeric', month: 'long' });
+  }
+};
+
+const buttonClassName = (active: boolean) =>
+  `px-3 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    active ? 'bg-ozon-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+// sku: chart one product, as on the product page
+export const DailySalesChart: React.FC<{ sku?: number }> = ({ sku }) => {
+  const [chartState, updateChartState] = usePageState('salesChart', DEFAULT_CHART_STATE);
+  const { mode, granularity, showComparison, movingAverages, forecastDays = 0 } = chartState;
+  const { filters } = useFilters();
+  const { data, isLoading, error, refetch } = useDailySales(sku);
+  const { data: comparison } = useComparisonDailySales(sku);
+
+  const modeConfig = chartModes.find((item) => item.mode === mode) || chartModes[0];
+  // Day-based averages say little about weekly or monthly buckets
+  const canShowMovingAverages = granularity === 'day';
+  // Day intervals do not add up to weeks or months, and AOV is a ratio
+  const canShowForecast = granularity === 'day' && mode !== 'aov';
+  const { data: forecastHistory } = useForecastHistory(sku, canShowForecast && forecastDays > 0);
+
+  const forecast = useMemo(() => {
+    if (!canShowForecast || forecastDays === 0 || !forecastHistory) return null;
+    return forecastSeries(forecastHistory.map((day) => metricValue(day, mode)), forecastDays);
+  }, [canShowForecast, forecastDays, forecastHistory, mode]);
+
+  const points = useMemo((): ChartPoint[] => {
+    if (!data) return [];
+
+    const buckets = bucketize(data.days, granularity);
+    const previousBuckets: SalesBucket[] = comparison ? bucketize(comparison.days, granularity) : [];
+    const withLeadIn = [...data.leadIn, ...data.days];
+    const averages = Object.fromEntries(
+      MOVING_AVERAGE_WINDOWS.map((window) => [
+        window,
+        movingAverage(withLeadIn, window, mode).slice(data.leadIn.length),
+      ])
+    ) as Record<MovingAverageWindow, (number | null)[]>;
+
+    return buckets.map((bucket, index) => {
+      const previous = previousBuckets[index];
+      return {
+        date: bucket.date,
+        firstDay: bucket.firstDay,
+        lastDay: bucket.lastDay,
+        current: metricValue(bucket, mode),
+        previous: previous ? metricValue(previous, mode) : null,
+        previousFirstDay: previous?.firstDay ?? null,
+        previousLastDay: previous?.lastDay ?? null,
+        ma7: granularity === 'day' ? averages[7][index] : null,
+        ma28: granularity === 'day' ? averages[28][index] : null,
+      };
+    });
+  }, [data, comparison, granularity, mode]);
+
+  // Forecast days inside the period (today) extend their point, later days
+  // are appended; the line starts from the last complete day
+  const chartPoints = useMemo((): ChartPoint[] => {
+    if (!forecast) return points;
+
+    const lastDay = lastCompleteDay(formatMoscowDate(filters.dateTo));
+    const merged = points.map((point): ChartPoint => {
+      if (point.date !== lastDay || point.current === null) return point;
+      const anchor: [number, number] = [point.current, point.current];
+      return { ...point, forecast: point.current, band80: anchor, band95: anchor };
+    });
+    forecast.forEach((item, index) => {
+      const date = addDays(lastDay, index + 1);
+      const values = {
+        forecast: item.value,
+        band80: [item.lower80, item.upper80] as [number, number],
+        band95: [item.lower95, item.upper95] as [number, number],
+      };
+      const existing = merged.findIndex((point) => point.date === date);
+      if (existing >= 0) {
+        merged[existing] = { ...merged[existing], ...values };
+      } else {
+        merged.push({
+          date,
+          firstDay: date,
+          lastDay: date,
+          current: null,
+          previous: null,
+          previousFirstDay: null,
+          previousLastDay: null,
+          ma7: null,
+          ma28: null,
+          ...values,
+        });
+      }
+    });
+    return merged;
+  }, [points, forecast, filters.dateTo]);
 
   if (isLoading) {
     return (
@@ -33,7 +208,7 @@ export const DailySalesChart: React.FC = () => {
   if (error) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-        <ErrorMessage 
+        <ErrorMessage
           message="Не удалось загрузить данные по продажам"
           onRetry={() => refetch()}
         />
@@ -41,7 +216,7 @@ export const DailySalesChart: React.FC = () => {
     );
   }
 
-  if (!data || data.length === 0) {
+  if (!data || data.days.every((day) => day.orders === 0 && day.gmv === 0)) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="text-center text-gray-500 py-12">
@@ -51,126 +226,129 @@ export const DailySalesChart: React.FC = () => {
     );
   }
 
-  const getYAxisConfig = () => {
-    switch (mode) {
-      case 'gmv':
-        return {
-          tickFormatter: (value: number) => formatCurrency(value, { notation: 'compact' }),
-        };
-      case 'orders':
-      case 'units':
-        return {
-          tickFormatter: (value: number) => formatNumber(value, { notation: 'compact' }),
-        };
-    }
-  };
-
-  const getTooltipFormatter = () => {
-    switch (mode) {
-      case 'gmv':
-        return (value: number) => [formatCurrency(value), 'GMV'];
-      case 'orders':
-        return (value: number) => [formatNumber(value), 'Заказы'];
-      case 'units':
-        return (value: number) => [formatNumber(value), 'Единицы'];
-    }
-  };
-
-  const getDataKey = () => {
-    switch (mode) {
-      case 'gmv':
-        return 'gmv';
-      case 'orders':
-        return 'orders';
-      case 'units':
-        return 'units';
-    }
-  };
-
-  const getLineColor = () => {
-    switch (mode) {
-      case 'gmv':
-        return '#4f46e5';
-      case 'orders':
-        return '#059669';
-      case 'units':
-        return '#dc2626';
-    }
-  };
+  const formatValue = (value: number, options?: Intl.NumberFormatOptions) =>
+    modeConfig.currency ? formatCurrency(value, options) : formatNumber(value, options);
 
-  const formatXAxisLabel = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('ru-RU', { 
-      day: '2-digit', 
-      month: '2-digit' 
+  const toggleMovingAverage = (window: MovingAverageWindow) => {
+    updateChartState({
+      movingAverages: movingAverages.includes(window)
+        ? movingAverages.filter((item) => item !== window)
+        : [...movingAverages, window],
     });
   };
 
+  const formatXAxisLabel = (date: string) =>
+    granularity === 'month'
+      ? formatDay(date, { month: 'short', year: '2-digit' })
+      : formatShortDay(date);
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-      <div className="flex items-center justify-between mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
         <h2 className="text-lg font-semibold text-gray-900">
           Динамика продаж
         </h2>
-        
-        <div className="flex items-center gap-2">
+
+        <div className="flex flex-wrap items-center gap-2">
+          {chartModes.map((item) => (
+            <button
+              key={item.mode}
+              onClick={() => updateChartState({ mode: item.mode })}
+              className={buttonClassName(mode === item.mode)}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {GRANULARITIES.map((item) => (
           <button
-            onClick={() => setMode('gmv')}
-            className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
-              mode === 'gmv' 
-                ? 'bg-ozon-600 text-white' 
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
+            key={item}
+            onClick={() => updateChartState({ granularity: item })}
+            className={buttonClassName(granularity === item)}
           >
-            GMV
+            {GRANULARITY_LABELS[item]}
           </button>
+        ))}
+
+        <span className="w-px h-6 bg-gray-200 mx-1" />
+
+        <button
+          onClick={() => updateChartState({ showComparison: !showComparison })}
+          className={buttonClassName(showComparison)}
+          title={COMPARISON_MODE_LABELS[filters.compare]}
+        >
+          Сравнение
+        </button>
+        {MOVING_AVERAGE_WINDOWS.map((window) => (
           <button
-            onClick={() => setMode('orders')}
-            className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
-              mode === 'orders' 
-                ? 'bg-ozon-600 text-white' 
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
+            key={window}
+            onClick={() => toggleMovingAverage(window)}
+            disabled={!canShowMovingAverages}
+            className={buttonClassName(canShowMovingAverages && movingAverages.includes(window))}
+            title={canShowMovingAverages ? undefined : 'Доступно при разбивке по дням'}
           >
-            Заказы
+            Среднее {window} дн.
           </button>
+        ))}
+
+        <span className="w-px h-6 bg-gray-200 mx-1" />
+
+        {FORECAST_HORIZONS.map((horizon) => (
           <button
-            onClick={() => setMode('units')}
-            className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
-              mode === 'units' 
-                ? 'bg-ozon-600 text-white' 
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
+            key={horizon}
+            onClick={() => updateChartState({ forecastDays: forecastDays === horizon ? 0 : horizon })}
+            disabled={!canShowForecast}
+            className={buttonClassName(canShowForecast && forecastDays === horizon)}
+            title={
+              canShowForecast
+                ? 'Сезонное экспоненциальное сглаживание по последним 12 неделям, интервалы 80% и 95%'
+                : 'Доступно при разбивке по дням, кроме среднего чека'
+            }
           >
-            Единицы
+            Прогноз {horizon} дн.
           </button>
-        </div>
+        ))}
       </div>
 
+      {canShowForecast && forecastDays > 0 && forecastHistory && !forecast && (
+        <p className="mb-4 text-sm text-gray-500">Недостаточно данных для прогноза</p>
+      )}
+
       <div className="h-80">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <ComposedChart data={chartPoints} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
-            <XAxis 
-              dataKey="date" 
+            <XAxis
+              dataKey="date"
               tickFormatter={formatXAxisLabel}
               stroke="#64748b"
               fontSize={12}
             />
-            <YAxis 
-              {...getYAxisConfig()}
+            <YAxis
+              tickFormatter={(value: number) => formatValue(value, { notation: 'compact' })}
               stroke="#64748b"
               fontSize={12}
             />
             <Tooltip
-              formatter={getTooltipFormatter()}
-              labelFormatter={(label) => {
-                const date = new Date(label);
-                return date.toLocaleDateString('ru-RU', {
-                  weekday: 'long',
-                  day: 'numeric',
-                  month: 'long',
-                });
+              formatter={(value: number | [number, number], name: string, item) => {
+                const point = item.payload as ChartPoint;
+                if (Array.isArray(value)) {
+                  return [`${formatValue(value[0])} – ${formatValue(value[1])}`, name];
+                }
+                if (item.dataKey === 'previous' && point.previousFirstDay && point.previousLastDay) {
+                  return [
+                    formatValue(value),
+                    `${name} (${formatBucketRange(point.previousFirstDay, point.previousLastDay)})`,
+                  ];
+                }
+                return [formatValue(value), name];
+              }}
+              labelFormatter={(label, payload) => {
+                const point = payload?.[0]?.payload as ChartPoint | undefined;
+                return point ? formatBucketTitle(point, granularity) : label;
               }}
               contentStyle={{
                 backgroundColor: '#fff',
@@ -179,17 +357,74 @@ export const DailySalesChart: React.FC = () => {
                 boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
               }}
             />
+            <Legend />
+            {forecast && (
+              <Area
+                type="monotone"
+                dataKey="band95"
+                name="Прогноз, 95%"
+                stroke="none"
+                fill={FORECAST_COLOR}
+                fillOpacity={0.12}
+                activeDot={false}
+              />
+            )}
+            {forecast && (
+              <Area
+                type="monotone"
+                dataKey="band80"
+                name="Прогноз, 80%"
+                stroke="none"
+                fill={FORECAST_COLOR}
+                fillOpacity={0.25}
+                activeDot={false}
+              />
+            )}
             <Line
               type="monotone"
-              dataKey={getDataKey()}
-              stroke={getLineColor()}
+              dataKey="current"
+              name={modeConfig.label}
+              stroke={modeConfig.color}
               strokeWidth={2}
-              dot={{ fill: getLineColor(), strokeWidth: 2, r: 4 }}
-              activeDot={{ r: 6, stroke: getLineColor(), strokeWidth: 2 }}
+              dot={{ fill: modeConfig.color, strokeWidth: 2, r: 4 }}
+              activeDot={{ r: 6, stroke: modeConfig.color, strokeWidth: 2 }}
             />
-          </LineChart>
+            {showComparison && comparison && (
+              <Line
+                type="monotone"
+                dataKey="previous"
+                name={COMPARISON_MODE_LABELS[filters.compare]}
+                stroke="#94a3b8"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            )}
+            {canShowMovingAverages && movingAverages.map((window) => (
+              <Line
+                key={window}
+                type="monotone"
+                dataKey={`ma${window}`}
+                name={`Среднее ${window} дн.`}
+                stroke={movingAverageColors[window]}
+                strokeWidth={1.5}
+                dot={false}
+              />
+            ))}
+            {forecast && (
+              <Line
+                type="monotone"
+                dataKey="forecast"
+                name="Прогноз"
+                stroke={FORECAST_COLOR}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                dot={false}
+              />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { useFinanceData } from '../../hooks/useFinanceData';
+import { useFinanceData, FINANCE_SOURCE_LABELS } from '../../hooks/useFinanceData';
 import { formatCurrency, formatPercentage } from '../../lib/format';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { ErrorMessage } from '../ui/ErrorMessage';
@@ -29,11 +29,16 @@ export const FinancePieChart: React.FC = () => {
     );
   }
 
-  if (!data || data.categories.length === 0) {
+  if (!data || !data.hasData || data.categories.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="text-center text-gray-500 py-12">
-          Нет финансовых данных для отображения
+          Нет финансовых данных за выбранный период
+          {data && (
+            <div className="text-xs mt-1">
+              Источник: {FINANCE_SOURCE_LABELS[data.provenance.source]}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -48,6 +53,9 @@ export const FinancePieChart: React.FC = () => {
           <p className="text-sm text-gray-600">
             Сумма: <span className="font-medium">{formatCurrency(data.amount)}</span>
           </p>
+          {data.estimated && (
+            <p className="text-xs text-amber-700">Оценка, не фактическая сумма</p>
+          )}
           <p className="text-sm text-gray-600">
             Доля: <span className="font-medium">{formatPercentage(data.percentage)}</span>
           </p>
@@ -71,6 +79,10 @@ export const FinancePieChart: React.FC = () => {
         <p className="text-sm text-gray-600">
           Распределение доходов и расходов по категориям
         </p>
+        <p className="text-xs text-gray-500 mt-1">
+          Источник: {FINANCE_SOURCE_LABELS[data.provenance.source]}
+          {data.categories.some((category) => category.estimated) && ', ≈ — оценка'}
+        </p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -110,9 +122,15 @@ export const FinancePieChart: React.FC = () => {
                     style={{ backgroundColor: category.color }}
                   />
                   <span className="text-sm text-gray-700">{category.category}</span>
+                  {category.estimated && (
+                    <span className="px-1.5 py-0.5 text-xs rounded bg-amber-100 text-amber-800">
+                      оценка
+                    </span>
+                  )}
                 </div>
                 <div className="text-right">
                   <div className="text-sm font-medium text-gray-900">
+                    {category.estimated && '≈ '}
                     {formatCurrency(category.amount)}
                   </div>
                   <div className="text-xs text-gray-500">
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { useDailySales } from '../../hooks/useSalesData';
+import { formatCurrency, formatNumber } from '../../lib/format';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { ErrorMessage } from '../ui/ErrorMessage';
+
+interface PricePoint {
+  date: string;
+  // GMV per delivered unit; null on days without sales
+  price: number | null;
+  units: number;
+}
+
+// Bucket dates are Moscow calendar dates; formatting them in UTC keeps the day
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('ru-RU', { ...options, timeZone: 'UTC' });
+
+/**
+ * Average selling price of one SKU by day. Ozon does not keep a price log, so
+ * the price is what buyers paid: delivered GMV divided by delivered units.
+ */
+export const PriceHistoryChart: React.FC<{ sku: number }> = ({ sku }) => {
+  const { data, isLoading, error, refetch } = useDailySales(sku);
+
+  const points = useMemo(
+    (): PricePoint[] =>
+      (data?.days || []).map((day) => ({
+        date: day.date,
+        price: day.units > 0 ? day.gmv / day.units : null,
+        units: day.units,
+      })),
+    [data]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <ErrorMessage message="Не удалось загрузить историю цен" onRetry={() => refetch()} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900">История цены</h2>
+      <p className="text-sm text-gray-600 mb-4">Средняя цена проданной единицы по дням</p>
+
+      {points.every((point) => point.price === null) ? (
+        <div className="text-center text-gray-500 py-12">Нет продаж за выбранный период</div>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis
+                dataKey="date"
+                tickFormatter={(date: string) => formatDay(date, { day: '2-digit', month: '2-digit' })}
+                stroke="#64748b"
+                fontSize={12}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tickFormatter={(value: number) => formatCurrency(value, { notation: 'compact' })}
+                stroke="#64748b"
+                fontSize={12}
+              />
+              <Tooltip
+                formatter={(value: number, _name: string, item) => [
+                  `${formatCurrency(value)} (${formatNumber((item.payload as PricePoint).units)} ед.)`,
+                  'Цена',
+                ]}
+                labelFormatter={(date: string) =>
+                  formatDay(date, { weekday: 'long', day: 'numeric', month: 'long' })
+                }
+                contentStyle={{
+                  backgroundColor: '#fff',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                }}
+              />
+              <Line
+                type="stepAfter"
+                dataKey="price"
+                name="Цена"
+                stroke="#4f46e5"
+                strokeWidth={2}
+                dot={{ fill: '#4f46e5', r: 3 }}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle } from 'lucide-react';
+import type { RegionPerformance } from '../../hooks/useRegionsData';
+import {
+  collectionBounds,
+  featurePath,
+  loadRegionShapes,
+  matchRegions,
+} from '../../lib/region-map';
+import { formatCurrency, formatNumber } from '../../lib/format';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { ErrorMessage } from '../ui/ErrorMessage';
+
+export type RegionMapMetric = 'gmv' | 'orders' | 'revenue' | 'netProfit' | 'avgOrderValue';
+
+const metrics: { metric: RegionMapMetric; label: string; currency: boolean }[] = [
+  { metric: 'gmv', label: 'GMV', currency: true },
+  { metric: 'orders', label: 'Заказы', currency: false },
+  { metric: 'revenue', label: 'Выручка', currency: true },
+  { metric: 'netProfit', label: 'Прибыль', currency: true },
+  { metric: 'avgOrderValue', label: 'Ср. чек', currency: true },
+];
+
+// ozon-50 → ozon-800 for positive values, red for losses
+const POSITIVE_RANGE: [number[], number[]] = [[240, 244, 255], [55, 48, 163]];
+const NEGATIVE_RANGE: [number[], number[]] = [[254, 242, 242], [185, 28, 28]];
+const EMPTY_COLOR = '#f1f5f9';
+
+const mix = ([from, to]: [number[], number[]], t: number) =>
+  `rgb(${from.map((channel, i) => Math.round(channel + (to[i] - channel) * t)).join(',')})`;
+
+interface RegionTotals {
+  names: string[];
+  orders: number;
+  gmv: number;
+  revenue: number;
+  netProfit: number;
+}
+
+const metricValue = (totals: RegionTotals, metric: RegionMapMetric) =>
+  metric === 'avgOrderValue'
+    ? totals.orders > 0 ? totals.gmv / totals.orders : 0
+    : totals[metric];
+
+interface RegionMapProps {
+  regions: RegionPerformance[];
+  // Data region names currently in the region filter
+  selected: string[];
+  showProfit: boolean;
+  // Called with the data region names behind the clicked shape
+  onSelect: (names: string[]) => void;
+}
+
+export const RegionMap: React.FC<RegionMapProps> = ({ regions, selected, showProfit, onSelect }) => {
+  const [metric, setMetric] = useState<RegionMapMetric>('gmv');
+  const [hovered, setHovered] = useState<{ id: string; x: number; y: number } | null>(null);
+  const { data: shapes, isLoading, error, refetch } = useQuery({
+    queryKey: ['regionShapes'],
+    queryFn: loadRegionShapes,
+    staleTime: Infinity,
+  });
+
+  const match = useMemo(
+    () => (shapes ? matchRegions(regions.map((region) => region.region), shapes) : null),
+    [regions, shapes]
+  );
+
+  // Boundaries have thousands of points; hovering must not rebuild them
+  const paths = useMemo(
+    () => new Map((shapes?.features || []).map((feature) => [feature.id, featurePath(feature)])),
+    [shapes]
+  );
+
+  // Several data regions can land on one subject, e.g. a city and its oblast
+  const totalsById = useMemo(() => {
+    const byName = new Map(regions.map((region) => [region.region, region]));
+    const totals = new Map<string, RegionTotals>();
+    match?.namesById.forEach((names, id) => {
+      totals.set(
+        id,
+        names.reduce<RegionTotals>(
+          (sum, name) => {
+            const region = byName.get(name);
+            return {
+              names: sum.names,
+              orders: sum.orders + (region?.orders || 0),
+              gmv: sum.gmv + (region?.gmv || 0),
+              revenue: sum.revenue + (region?.revenue || 0),
+              netProfit: sum.netProfit + (region?.netProfit || 0),
+            };
+          },
+          { names, orders: 0, gmv: 0, revenue: 0, netProfit: 0 }
+        )
+      );
+    });
+    return totals;
+  }, [regions, match]);
+
+  const available = metrics.filter((item) => showProfit || item.metric !== 'netProfit');
+  const config = available.find((item) => item.metric === metric) || available[0];
+  const values = Array.from(totalsById.values()).map((totals) => metricValue(totals, config.metric));
+  const maxPositive = Math.max(0, ...values);
+  const maxNegative = Math.max(0, ...values.map((value) => -value));
+
+  // Color intensity in [0, 1] with the range it is taken from; null without sales
+  const shadeOf = (id: string) => {
+    const totals = totalsById.get(id);
+    if (!totals) return null;
+    const value = metricValue(totals, config.metric);
+    if (value > 0) return { range: POSITIVE_RANGE, t: 0.15 + 0.85 * (value / maxPositive) };
+    if (value < 0) return { range: NEGATIVE_RANGE, t: 0.15 + 0.85 * (-value / maxNegative) };
+    return { range: POSITIVE_RANGE, t: 0 };
+  };
+
+  const formatValue = (value: number) => (config.currency ? formatCurrency(value) : formatNumber(value));
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-center h-80">
+          <LoadingSpinner size="lg" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !shapes || !match) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <ErrorMessage message="Не удалось загрузить карту регионов" onRetry={() => refetch()} />
+      </div>
+    );
+  }
+
+  const bounds = collectionBounds(shapes);
+  const hoveredFeature = hovered && shapes.features.find((feature) => feature.id === hovered.id);
+  const hoveredTotals = hovered ? totalsById.get(hovered.id) : undefined;
+  const isSelected = (id: string) => {
+    const names = totalsById.get(id)?.names || [];
+    return names.length > 0 && names.every((name) => selected.includes(name));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Карта регионов</h2>
+          <p className="text-sm text-gray-600">Нажмите на регион, чтобы отфильтровать по нему дашборд</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {available.map((item) => (
+            <button
+              key={item.metric}
+              onClick={() => setMetric(item.metric)}
+              className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                config.metric === item.metric ? 'bg-ozon-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative" onMouseLeave={() => setHovered(null)}>
+        <svg
+          viewBox={`${bounds.minX} ${bounds.minY} ${bounds.maxX - bounds.minX} ${bounds.maxY - bounds.minY}`}
+          className="w-full h-auto max-h-[480px]"
+        >
+          {shapes.features.map((feature) => {
+            const clickable = totalsById.has(feature.id);
+            const shade = shadeOf(feature.id);
+            return (
+              <g
+                key={feature.id}
+                onMouseMove={(e) => {
+                  const box = e.currentTarget.ownerSVGElement?.getBoundingClientRect();
+                  if (box) setHovered({ id: feature.id, x: e.clientX - box.left, y: e.clientY - box.top });
+                }}
+                onClick={() => clickable && onSelect(totalsById.get(feature.id)?.names || [])}
+                className={clickable ? 'cursor-pointer' : undefined}
+              >
+                <path
+                  d={paths.get(feature.id)}
+                  fill={shade ? mix(shade.range, shade.t) : EMPTY_COLOR}
+                  stroke={isSelected(feature.id) ? '#f59e0b' : hovered?.id === feature.id ? '#1e293b' : '#fff'}
+                  strokeWidth={isSelected(feature.id) || hovered?.id === feature.id ? 2 : 1}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </g>
+            );
+          })}
+        </svg>
+
+        {hovered && hoveredFeature && (
+          <div
+            className="absolute z-10 pointer-events-none bg-white border border-gray-200 rounded-lg shadow-lg px-3 py-2 text-sm"
+            style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+          >
+            <div className="font-medium text-gray-900">{hoveredFeature.properties.name}</div>
+            {hoveredTotals ? (
+              <>
+                <div className="text-gray-700">
+                  {config.label}: {formatValue(metricValue(hoveredTotals, config.metric))}
+                </div>
+                {(hoveredTotals.names.length > 1 || hoveredTotals.names[0] !== hoveredFeature.properties.name) && (
+                  <div className="text-xs text-gray-500">В данных: {hoveredTotals.names.join(', ')}</div>
+                )}
+              </>
+            ) : (
+              <div className="text-gray-500">Нет продаж</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {match.unmatched.length > 0 && (
+        <div className="mt-4 flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Не сопоставлены с картой: {match.unmatched.join(', ')}. Эти регионы есть в таблице, но не на карте.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Granularity } from '../../lib/sales-series';
+import { ReturnsTrendPoint } from '../../lib/returns';
+import { formatNumber, formatPercentage } from '../../lib/format';
+
+// Bucket dates are Moscow calendar dates; formatting them in UTC keeps the day
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('ru-RU', { ...options, timeZone: 'UTC' });
+
+const tickFormat: Record<Granularity, Intl.DateTimeFormatOptions> = {
+  day: { day: '2-digit', month: '2-digit' },
+  week: { day: '2-digit', month: '2-digit' },
+  month: { month: 'short', year: '2-digit' },
+};
+
+const labelPrefix: Record<Granularity, string> = {
+  day: '',
+  week: 'Неделя с ',
+  month: '',
+};
+
+/**
+ * Cancellation and return rates of the units ordered in each bucket. Recent
+ * buckets understate returns: a return arrives weeks after the order.
+ */
+export const ReturnsTrendChart: React.FC<{ points: ReturnsTrendPoint[]; granularity: Granularity }> = ({
+  points,
+  granularity,
+}) => {
+  if (points.length === 0) {
+    return <div className="text-center text-gray-500 py-12">Нет заказов за выбранный период</div>;
+  }
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(date: string) => formatDay(date, tickFormat[granularity])}
+            stroke="#64748b"
+            fontSize={12}
+          />
+          <YAxis
+            tickFormatter={(value: number) => `${formatNumber(value, { maximumFractionDigits: 0 })}%`}
+            stroke="#64748b"
+            fontSize={12}
+          />
+          <Tooltip
+            formatter={(value: number, name: string, item) => {
+              const point = item.payload as ReturnsTrendPoint;
+              const units = name === 'Отмены' ? point.cancelledUnits : point.returnedUnits;
+              return [`${formatPercentage(value)} (${formatNumber(units)} из ${formatNumber(point.units)} ед.)`, name];
+            }}
+            labelFormatter={(date: string) =>
+              `${labelPrefix[granularity]}${formatDay(
+                date,
+                granularity === 'month' ? { month: 'long', year: 'numeric' } : { day: 'numeric', month: 'long' }
+              )}`
+            }
+            contentStyle={{
+              backgroundColor: '#fff',
+              border: '1px solid #e2e8f0',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+            }}
+          />
+          <Legend />
+          <Line
+            type="monotone"
+            dataKey="cancellationRate"
+            name="Отмены"
+            stroke="#dc2626"
+            strokeWidth={2}
+            dot={{ fill: '#dc2626', r: 3 }}
+            connectNulls
+          />
+          <Line
+            type="monotone"
+            dataKey="returnRate"
+            name="Возвраты"
+            stroke="#d97706"
+            strokeWidth={2}
+            dot={{ fill: '#d97706', r: 3 }}
+            connectNulls
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
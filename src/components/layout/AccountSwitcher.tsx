@@ -0,0 +1,33 @@
+import React from 'react';
+import { Store } from 'lucide-react';
+import { useFilters } from '../../hooks/useFilters';
+import { useSellerAccounts } from '../../hooks/useSellerAccounts';
+
+export const AccountSwitcher: React.FC = () => {
+  const { filters, updateFilters } = useFilters();
+  const { data: accounts } = useSellerAccounts();
+
+  // With a single cabinet there is nothing to switch
+  if (!accounts || accounts.length < 2) return null;
+
+  return (
+    <div className="px-4 pt-4">
+      <label className="flex items-center gap-2 mb-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+        <Store className="w-4 h-4" />
+        Кабинет
+      </label>
+      <select
+        value={filters.accountId}
+        onChange={(e) => updateFilters({ accountId: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+      >
+        <option value="">Все кабинеты</option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            {account.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
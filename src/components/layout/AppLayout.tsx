@@ -4,23 +4,39 @@ import {
   TrendingUp, 
   Package, 
   MapPin, 
+  Warehouse,
+  Truck,
+  Undo2,
   DollarSign, 
   FileText,
+  Coins,
+  Settings,
   Menu,
   X,
   Moon,
-  Sun
+  Sun,
+  LogOut
 } from 'lucide-react';
 import { FilterBar } from './FilterBar';
+import { AccountSwitcher } from './AccountSwitcher';
+import { SavedViews } from './SavedViews';
+import { NotificationCenter } from './NotificationCenter';
 import { useState } from 'react';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { Permission, USER_ROLE_LABELS } from '../../lib/auth';
 
-const navigation = [
+const navigation: { name: string; href: string; icon: typeof TrendingUp; permission?: Permission }[] = [
   { name: 'Продажи', href: '/sales', icon: TrendingUp },
   { name: 'По товарам', href: '/products', icon: Package },
   { name: 'По регионам', href: '/regions', icon: MapPin },
-  { name: 'Финансы', href: '/finance', icon: DollarSign },
-  { name: 'Детализация', href: '/transactions', icon: FileText },
+  { name: 'Остатки', href: '/inventory', icon: Warehouse },
+  { name: 'Закупки', href: '/replenishment', icon: Truck },
+  { name: 'Возвраты', href: '/returns', icon: Undo2 },
+  { name: 'Финансы', href: '/finance', icon: DollarSign, permission: 'viewFinance' },
+  { name: 'Детализация', href: '/transactions', icon: FileText, permission: 'viewFinance' },
+  { name: 'Себестоимость', href: '/costs', icon: Coins, permission: 'editCosts' },
+  { name: 'Настройки', href: '/settings', icon: Settings, permission: 'editSettings' },
 ];
 
 export const AppLayout: React.FC = () => {
@@ -28,6 +44,7 @@ export const AppLayout: React.FC = () => {
   const [searchParams] = useSearchParams();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
+  const { user, signOut, can } = useAuth();
 
   // Function to preserve current filter parameters when navigating
   const getNavigationUrl = (href: string) => {
@@ -69,9 +86,12 @@ export const AppLayout: React.FC = () => {
             </button>
           </div>
 
+          {/* Seller Account */}
+          <AccountSwitcher />
+
           {/* Navigation */}
           <nav className="flex-1 px-4 py-6 space-y-2">
-            {navigation.map((item) => {
+            {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
               const isActive = location.pathname === item.href;
               return (
                 <NavLink
@@ -96,8 +116,30 @@ export const AppLayout: React.FC = () => {
             })}
           </nav>
 
+          {/* Saved Views */}
+          <SavedViews onOpen={() => setSidebarOpen(false)} />
+
           {/* Footer */}
-          <div className="px-4 py-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="px-4 py-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            {user && (
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white truncate" title={user.email}>
+                    {user.email}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {USER_ROLE_LABELS[user.role]}
+                  </div>
+                </div>
+                <button
+                  onClick={() => signOut()}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                  title="Выйти"
+                >
+                  <LogOut className="w-4 h-4" />
+                </button>
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <div className="text-xs text-gray-500 dark:text-gray-400">
                 Dashboard v1.0.0
@@ -133,6 +175,8 @@ export const AppLayout: React.FC = () => {
             <div className="flex-1">
               <FilterBar />
             </div>
+
+            <NotificationCenter />
           </div>
         </header>
 
@@ -1,10 +1,38 @@
-import React from 'react';
-import { Calendar, Package, MapPin, RotateCcw } from 'lucide-react';
+import React, { useState } from 'react';
+import { Calendar, Package, MapPin, RotateCcw, GitCompare } from 'lucide-react';
 import { useFilters } from '../../hooks/useFilters';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import {
+  useProductSearch,
+  useSelectedProducts,
+  useRegionOptions,
+} from '../../hooks/useFilterOptions';
+import { MultiSelect } from '../ui/MultiSelect';
+import { DATE_PRESETS, DATE_PRESET_LABELS, isDatePreset } from '../../lib/date-presets';
 import { formatMoscowDate, formatDateRange } from '../../lib/date-utils';
+import {
+  COMPARISON_MODES,
+  COMPARISON_MODE_LABELS,
+  ComparisonMode,
+  getComparisonPeriod,
+} from '../../lib/comparison';
 
 export const FilterBar: React.FC = () => {
   const { filters, updateFilters, resetFilters } = useFilters();
+  const [productSearch, setProductSearch] = useState('');
+  const debouncedProductSearch = useDebouncedValue(productSearch);
+  const { data: productOptions, isFetching: productsLoading } =
+    useProductSearch(debouncedProductSearch);
+  const { data: selectedProducts } = useSelectedProducts(filters.sku);
+  const { data: regionOptions, isLoading: regionsLoading } = useRegionOptions();
+
+  const handleRangeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // "Свои даты" keeps the current dates, now as an absolute range
+    const range = e.target.value;
+    updateFilters(
+      isDatePreset(range) ? { range } : { dateFrom: filters.dateFrom, dateTo: filters.dateTo }
+    );
+  };
 
   const handleDateFromChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newDate = new Date(e.target.value);
@@ -16,19 +44,51 @@ export const FilterBar: React.FC = () => {
     updateFilters({ dateTo: newDate });
   };
 
-  const handleSkuChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    updateFilters({ sku: e.target.value });
+  const productLabel = (sku: number) => {
+    const product =
+      selectedProducts?.find((item) => item.sku === sku) ||
+      productOptions?.find((item) => item.sku === sku);
+    return product?.productName ? `${sku} · ${product.productName}` : String(sku);
+  };
+
+  const handleCompareChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const compare = e.target.value as ComparisonMode;
+    if (compare === 'custom' && !filters.compareFrom && !filters.compareTo) {
+      // Start the custom range from the period that was compared so far
+      const period = getComparisonPeriod(filters);
+      updateFilters({ compare, compareFrom: period.from, compareTo: period.to });
+    } else {
+      updateFilters({ compare });
+    }
+  };
+
+  const handleCompareFromChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateFilters({ compareFrom: e.target.value ? new Date(e.target.value) : null });
   };
 
-  const handleRegionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    updateFilters({ region: e.target.value });
+  const handleCompareToChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateFilters({ compareTo: e.target.value ? new Date(e.target.value) : null });
   };
 
+  const comparisonPeriod = getComparisonPeriod(filters);
+
   return (
     <div className="flex flex-wrap items-center gap-4">
       {/* Date Range */}
       <div className="flex items-center gap-2">
         <Calendar className="w-4 h-4 text-gray-400" />
+        <select
+          value={filters.range || ''}
+          onChange={handleRangeChange}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+        >
+          <option value="">Свои даты</option>
+          {DATE_PRESETS.map((preset) => (
+            <option key={preset} value={preset}>
+              {DATE_PRESET_LABELS[preset]}
+            </option>
+          ))}
+        </select>
         <div className="flex items-center gap-2">
           <input
             type="date"
@@ -47,27 +107,67 @@ export const FilterBar: React.FC = () => {
       </div>
 
       {/* SKU Filter */}
-      <div className="flex items-center gap-2">
-        <Package className="w-4 h-4 text-gray-400" />
-        <input
-          type="text"
-          placeholder="SKU"
-          value={filters.sku}
-          onChange={handleSkuChange}
-          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent w-32"
-        />
-      </div>
+      <MultiSelect
+        icon={<Package className="w-4 h-4 text-gray-400" />}
+        placeholder="SKU или товар"
+        selected={filters.sku}
+        onChange={(sku) => updateFilters({ sku })}
+        options={(productOptions || []).map((product) => ({
+          value: product.sku,
+          label: product.productName || String(product.sku),
+          hint: [product.sku, product.offerId].filter(Boolean).join(' · '),
+        }))}
+        labelOf={productLabel}
+        onSearch={setProductSearch}
+        loading={productsLoading}
+        exclude={filters.skuExclude}
+        onExcludeChange={(skuExclude) => updateFilters({ skuExclude })}
+      />
 
       {/* Region Filter */}
+      <MultiSelect
+        icon={<MapPin className="w-4 h-4 text-gray-400" />}
+        placeholder="Регион"
+        selected={filters.region}
+        onChange={(region) => updateFilters({ region })}
+        options={(regionOptions || []).map((region) => ({ value: region, label: region }))}
+        labelOf={(region) => region}
+        loading={regionsLoading}
+        exclude={filters.regionExclude}
+        onExcludeChange={(regionExclude) => updateFilters({ regionExclude })}
+      />
+
+      {/* Comparison Period */}
       <div className="flex items-center gap-2">
-        <MapPin className="w-4 h-4 text-gray-400" />
-        <input
-          type="text"
-          placeholder="Регион"
-          value={filters.region}
-          onChange={handleRegionChange}
-          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent w-32"
-        />
+        <GitCompare className="w-4 h-4 text-gray-400" />
+        <select
+          value={filters.compare}
+          onChange={handleCompareChange}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+        >
+          {COMPARISON_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {COMPARISON_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+        {filters.compare === 'custom' && (
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={filters.compareFrom ? formatMoscowDate(filters.compareFrom) : ''}
+              onChange={handleCompareFromChange}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+            />
+            <span className="text-gray-400">—</span>
+            <input
+              type="date"
+              value={filters.compareTo ? formatMoscowDate(filters.compareTo) : ''}
+              onChange={handleCompareToChange}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+            />
+          </div>
+        )}
       </div>
 
       {/* Reset Button */}
@@ -80,8 +180,11 @@ export const FilterBar: React.FC = () => {
       </button>
 
       {/* Active period display */}
-      <div className="hidden sm:block text-sm text-gray-500 ml-auto">
-        {formatDateRange(filters.dateFrom, filters.dateTo)}
+      <div className="hidden sm:block text-sm text-gray-500 ml-auto text-right">
+        <div>{formatDateRange(filters.dateFrom, filters.dateTo)}</div>
+        <div className="text-xs text-gray-400">
+          сравнение: {formatDateRange(comparisonPeriod.from, comparisonPeriod.to)}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import {
+  useAlertRules,
+  useSeenAlerts,
+  useTriggeredAlerts,
+  ALERT_LOOKBACK_DAYS,
+} from '../../hooks/useAlerts';
+import { AlertItem } from '../alerts/AlertItem';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+// Bell in the header with the alerts of the last days; opening the panel
+// marks them as read
+export const NotificationCenter: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  // Unread when the panel was opened, so they stay highlighted while it is open
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const { alerts, isLoading, error } = useTriggeredAlerts();
+  const { data: rules } = useAlertRules();
+  const { seen, markSeen } = useSeenAlerts();
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const unread = alerts.filter((alert) => !seen.has(alert.id));
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) {
+      setHighlighted(new Set(unread.map((alert) => alert.id)));
+      markSeen(unread.map((alert) => alert.id));
+    }
+    setOpen(!open);
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={toggle}
+        className="relative p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+        title="Уведомления"
+      >
+        <Bell className="w-5 h-5" />
+        {unread.length > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[11px] font-semibold leading-[18px] text-center">
+            {unread.length > 99 ? '99+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+              Уведомления за {ALERT_LOOKBACK_DAYS} дней
+            </span>
+            <Link
+              to="/alerts"
+              onClick={() => setOpen(false)}
+              className="text-sm font-medium text-ozon-600 hover:text-ozon-700"
+            >
+              Правила
+            </Link>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner />
+              </div>
+            ) : error ? (
+              <div className="px-4 py-6 text-sm text-red-600">Не удалось проверить правила</div>
+            ) : rules && rules.length === 0 ? (
+              <div className="px-4 py-6 text-sm text-gray-500 dark:text-gray-400">
+                Правил пока нет.{' '}
+                <Link to="/alerts" onClick={() => setOpen(false)} className="font-medium text-ozon-600">
+                  Настроить уведомления
+                </Link>
+              </div>
+            ) : alerts.length === 0 ? (
+              <div className="px-4 py-6 text-sm text-gray-500 dark:text-gray-400">Отклонений не найдено</div>
+            ) : (
+              alerts.map((alert) => (
+                <AlertItem
+                  key={alert.id}
+                  alert={alert}
+                  unread={highlighted.has(alert.id)}
+                  onOpen={() => setOpen(false)}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Bookmark, Plus, Star, Trash2 } from 'lucide-react';
+import { usePageStateContext } from '../../contexts/PageStateContext';
+import { useSavedViews, useSavedViewMutations } from '../../hooks/useSavedViews';
+import type { PageStateKey, SavedView } from '../../lib/saved-views';
+
+// Page controls outside the URL that belong to each route
+const PAGE_STATE_KEYS: Partial<Record<string, PageStateKey>> = {
+  '/sales': 'salesChart',
+  '/products': 'abcXyz',
+  '/inventory': 'inventory',
+  '/replenishment': 'replenishment',
+  '/returns': 'returns',
+};
+
+const toLocation = (view: SavedView) => ({
+  pathname: view.path,
+  search: view.search ? `?${view.search}` : '',
+});
+
+export const SavedViews: React.FC<{ onOpen?: () => void }> = ({ onOpen }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { pageState, restorePageState } = usePageStateContext();
+  const { data: views } = useSavedViews();
+  const { createView, deleteView, setDefaultView } = useSavedViewMutations();
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  // The URL the dashboard was opened with, before useFilters fills in the
+  // default dates. The default view only replaces a bare entry URL, never a
+  // shared link.
+  const initialSearch = useRef(location.search);
+  const defaultChecked = useRef(false);
+
+  useEffect(() => {
+    if (defaultChecked.current || !views) return;
+    defaultChecked.current = true;
+
+    const defaultView = views.find((view) => view.isDefault);
+    if (defaultView && !initialSearch.current) {
+      restorePageState(defaultView.pageState);
+      navigate(toLocation(defaultView), { replace: true });
+    }
+  }, [views, navigate, restorePageState]);
+
+  const openView = (view: SavedView) => {
+    restorePageState(view.pageState);
+    navigate(toLocation(view));
+    onOpen?.();
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const key = PAGE_STATE_KEYS[location.pathname];
+    createView.mutate(
+      {
+        name: trimmed,
+        path: location.pathname,
+        search: location.search.replace(/^\?/, ''),
+        pageState: key && pageState[key] ? { [key]: pageState[key] } : {},
+      },
+      {
+        onSuccess: () => {
+          toast.success('Вид сохранён');
+          setName('');
+          setNaming(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+          <Bookmark className="w-4 h-4" />
+          Сохранённые виды
+        </span>
+        <button
+          onClick={() => setNaming(!naming)}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          title="Сохранить текущий вид"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {naming && (
+        <form onSubmit={handleSave} className="flex gap-2 mb-2">
+          <input
+            type="text"
+            autoFocus
+            placeholder="Название"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || createView.isPending}
+            className="px-2 py-1 bg-ozon-600 text-white text-sm rounded-lg hover:bg-ozon-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            OK
+          </button>
+        </form>
+      )}
+
+      {views && views.length === 0 && !naming && (
+        <div className="text-xs text-gray-400 dark:text-gray-500">
+          Сохраните фильтры и сортировку, чтобы вернуться к ним одним кликом
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {views?.map((view) => (
+          <div
+            key={view.id}
+            className="group flex items-center gap-1 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <button
+              onClick={() => openView(view)}
+              className="flex-1 min-w-0 px-2 py-1 text-left text-sm text-gray-700 dark:text-gray-300 truncate"
+              title={view.name}
+            >
+              {view.name}
+            </button>
+            <button
+              onClick={() => setDefaultView.mutate(view.isDefault ? null : view.id)}
+              className={`p-1 transition-colors ${
+                view.isDefault
+                  ? 'text-amber-500'
+                  : 'text-gray-300 opacity-0 group-hover:opacity-100 hover:text-amber-500'
+              }`}
+              title={view.isDefault ? 'Открывается по умолчанию' : 'Открывать по умолчанию'}
+            >
+              <Star className="w-4 h-4" fill={view.isDefault ? 'currentColor' : 'none'} />
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(`Удалить вид «${view.name}»?`)) {
+                  deleteView.mutate(view.id);
+                }
+              }}
+              className="p-1 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-600 transition-colors"
+              title="Удалить"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
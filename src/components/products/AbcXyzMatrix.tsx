@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  ABC_CLASSES,
+  XYZ_CLASSES,
+  AbcXyzCell,
+  AbcXyzThresholds,
+  DEFAULT_ABC_XYZ_THRESHOLDS,
+  MIN_XYZ_WEEKS,
+  XyzClass,
+  cellKey,
+} from '../../lib/abc-xyz';
+import { formatCurrency, formatNumber, formatPercentage } from '../../lib/format';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { ErrorMessage } from '../ui/ErrorMessage';
+
+const inputClassName =
+  'w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent';
+
+const thresholdFields: { key: keyof AbcXyzThresholds; label: string }[] = [
+  { key: 'a', label: 'A — до доли выручки, %' },
+  { key: 'b', label: 'B — до доли выручки, %' },
+  { key: 'x', label: 'X — вариация до, %' },
+  { key: 'y', label: 'Y — вариация до, %' },
+];
+
+// Error text for thresholds that cannot be applied, null when they can
+const validateThresholds = ({ a, b, x, y }: AbcXyzThresholds) => {
+  if ([a, b, x, y].some((value) => !Number.isFinite(value) || value <= 0)) {
+    return 'Пороги должны быть положительными числами';
+  }
+  if (a >= b || b > 100) return 'Нужно: A < B ≤ 100';
+  if (x >= y) return 'Нужно: X < Y';
+  return null;
+};
+
+interface AbcXyzMatrixProps {
+  cells: Map<string, AbcXyzCell> | undefined;
+  // Full weeks of the period; XYZ needs at least MIN_XYZ_WEEKS
+  weeks: number;
+  thresholds: AbcXyzThresholds;
+  onThresholdsChange: (thresholds: AbcXyzThresholds) => void;
+  // Class filters of the table, empty = any
+  selectedAbc: string;
+  selectedXyz: string;
+  onSelect: (abc: string, xyz: string) => void;
+  loading: boolean;
+  error: Error | null;
+  onRetry: () => void;
+}
+
+export const AbcXyzMatrix: React.FC<AbcXyzMatrixProps> = ({
+  cells,
+  weeks,
+  thresholds,
+  onThresholdsChange,
+  selectedAbc,
+  selectedXyz,
+  onSelect,
+  loading,
+  error,
+  onRetry,
+}) => {
+  const [draft, setDraft] = useState<AbcXyzThresholds | null>(null);
+  const draftError = draft && validateThresholds(draft);
+
+  const withXyz = weeks >= MIN_XYZ_WEEKS;
+  const columns: (XyzClass | null)[] = withXyz ? XYZ_CLASSES : [null];
+  const totalRevenue = Array.from(cells?.values() || []).reduce((sum, cell) => sum + cell.revenue, 0);
+
+  const rowTotal = (abc: string) =>
+    columns.reduce<AbcXyzCell>(
+      (sum, xyz) => {
+        const cell = cells?.get(`${abc}${xyz ?? ''}`);
+        return { products: sum.products + (cell?.products || 0), revenue: sum.revenue + (cell?.revenue || 0) };
+      },
+      { products: 0, revenue: 0 }
+    );
+
+  // Clicking the selected cell again clears the class filter
+  const toggle = (abc: string, xyz: string) =>
+    abc === selectedAbc && xyz === selectedXyz ? onSelect('', '') : onSelect(abc, xyz);
+
+  const renderCell = (cell: AbcXyzCell | undefined, abc: string, xyz: string) => {
+    const isSelected = abc === selectedAbc && xyz === selectedXyz;
+    return (
+      <button
+        onClick={() => toggle(abc, xyz)}
+        className={`w-full h-full px-3 py-2 text-right rounded-lg border transition-colors ${
+          isSelected ? 'border-ozon-600 bg-ozon-50' : 'border-gray-200 hover:bg-gray-50'
+        }`}
+      >
+        <div className="text-sm font-semibold text-gray-900">{formatNumber(cell?.products || 0)} SKU</div>
+        <div className="text-xs text-gray-600">{formatCurrency(cell?.revenue || 0)}</div>
+        <div className="text-xs text-gray-400">
+          {formatPercentage(totalRevenue > 0 ? ((cell?.revenue || 0) / totalRevenue) * 100 : 0)}
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">ABC/XYZ-анализ</h2>
+          <p className="text-sm text-gray-600">
+            ABC — по доле в выручке, XYZ — по вариации продаж в штуках по неделям. Нажмите на ячейку,
+            чтобы отфильтровать таблицу.
+          </p>
+        </div>
+        <button
+          onClick={() => setDraft(draft ? null : thresholds)}
+          className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Пороги
+        </button>
+      </div>
+
+      {draft && (
+        <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex flex-wrap items-end gap-4">
+            {thresholdFields.map((field) => (
+              <label key={field.key} className="text-xs text-gray-600">
+                <span className="block mb-1">{field.label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={field.key === 'a' || field.key === 'b' ? 100 : undefined}
+                  value={Number.isFinite(draft[field.key]) ? draft[field.key] : ''}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.valueAsNumber })}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+            <button
+              onClick={() => {
+                onThresholdsChange(draft);
+                setDraft(null);
+              }}
+              disabled={!!draftError}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-ozon-600 rounded-lg hover:bg-ozon-700 disabled:opacity-50"
+            >
+              Применить
+            </button>
+            <button
+              onClick={() => setDraft(DEFAULT_ABC_XYZ_THRESHOLDS)}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+              По умолчанию
+            </button>
+          </div>
+          {draftError && <p className="mt-2 text-sm text-red-600">{draftError}</p>}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-48">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <ErrorMessage message="Не удалось рассчитать ABC/XYZ-классы" onRetry={onRetry} />
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full border-separate border-spacing-1">
+              <thead>
+                <tr className="text-xs font-medium text-gray-500">
+                  <th />
+                  {columns.map((xyz) => (
+                    <th key={xyz ?? 'all'} className="px-3 py-1 text-right">
+                      {xyz ? `${xyz} (≤ ${xyz === 'X' ? thresholds.x : xyz === 'Y' ? thresholds.y : '∞'}%)` : 'Все'}
+                    </th>
+                  ))}
+                  {withXyz && <th className="px-3 py-1 text-right">Итого</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {ABC_CLASSES.map((abc) => (
+                  <tr key={abc}>
+                    <th className="px-3 py-1 text-left text-sm font-semibold text-gray-700 whitespace-nowrap">
+                      {abc}
+                      <span className="ml-1 text-xs font-normal text-gray-500">
+                        {abc === 'A' ? `до ${thresholds.a}%` : abc === 'B' ? `до ${thresholds.b}%` : 'остальные'}
+                      </span>
+                    </th>
+                    {columns.map((xyz) => (
+                      <td key={xyz ?? 'all'}>{renderCell(cells?.get(cellKey(abc, xyz)), abc, xyz ?? '')}</td>
+                    ))}
+                    {withXyz && <td>{renderCell(rowTotal(abc), abc, '')}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {!withXyz && (
+            <p className="mt-3 text-sm text-gray-500">
+              Для XYZ-классов нужен период не короче {MIN_XYZ_WEEKS} полных недель.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import {
+  useCategorizationRules,
+  useSaveCategorizationRules,
+  useCategorizationPreview,
+} from '../../hooks/useFinanceRules';
+import {
+  AMOUNT_FIELDS,
+  AMOUNT_FIELD_LABELS,
+  CATEGORY_LABELS,
+  DEFAULT_CATEGORIZATION_RULES,
+  FINANCE_CATEGORIES,
+  AmountField,
+  CategorizationRule,
+  FinanceCategoryKey,
+  UncategorizedOperation,
+} from '../../lib/finance-rules';
+import { formatCurrency, formatNumber } from '../../lib/format';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { ErrorMessage } from '../ui/ErrorMessage';
+
+const inputClassName =
+  'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent';
+
+const newRuleId = () => crypto.randomUUID();
+
+export const FinanceRulesEditor: React.FC = () => {
+  const { data: savedRules, isLoading, error, refetch } = useCategorizationRules();
+  const saveRules = useSaveCategorizationRules();
+  const [draft, setDraft] = useState<CategorizationRule[]>();
+  const preview = useCategorizationPreview(draft);
+
+  useEffect(() => {
+    if (savedRules) setDraft(savedRules);
+  }, [savedRules]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(savedRules);
+
+  const updateRule = (index: number, updates: Partial<CategorizationRule>) => {
+    setDraft((rules) =>
+      rules?.map((rule, i) => (i === index ? { ...rule, ...updates } : rule))
+    );
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setDraft((rules) => {
+      if (!rules) return rules;
+      const target = index + offset;
+      if (target < 0 || target >= rules.length) return rules;
+      const next = [...rules];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeRule = (index: number) => {
+    setDraft((rules) => rules?.filter((_, i) => i !== index));
+  };
+
+  const addRule = (rule?: Partial<CategorizationRule>) => {
+    setDraft((rules) => [
+      ...(rules || []),
+      {
+        id: newRuleId(),
+        operationType: '',
+        serviceName: '',
+        field: null,
+        category: 'services',
+        ...rule,
+      },
+    ]);
+  };
+
+  const addRuleFor = (operation: UncategorizedOperation) => {
+    addRule({
+      operationType: operation.operationType,
+      serviceName: operation.serviceName || '',
+      field: operation.field,
+    });
+  };
+
+  if (error) {
+    return <ErrorMessage message="Не удалось загрузить правила" onRetry={() => refetch()} />;
+  }
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Rules */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Правила категорий</h2>
+            <p className="text-sm text-gray-600">
+              Правила проверяются сверху вниз, каждая сумма получает категорию первого
+              подходящего правила. Несколько вариантов шаблона разделяются «|».
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setDraft(DEFAULT_CATEGORIZATION_RULES)}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Стандартные правила
+            </button>
+            <button
+              onClick={() => saveRules.mutate(draft)}
+              disabled={!isDirty || saveRules.isPending}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-ozon-600 text-white text-sm rounded-lg hover:bg-ozon-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              Сохранить
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Тип операции</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Услуга</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Поле суммы</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Категория</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {draft.map((rule, index) => (
+                <tr key={rule.id}>
+                  <td className="px-4 py-2 text-sm text-gray-500">{index + 1}</td>
+                  <td className="px-4 py-2 min-w-[200px]">
+                    <input
+                      value={rule.operationType}
+                      onChange={(e) => updateRule(index, { operationType: e.target.value })}
+                      placeholder="любой"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-4 py-2 min-w-[200px]">
+                    <input
+                      value={rule.serviceName}
+                      onChange={(e) => updateRule(index, { serviceName: e.target.value })}
+                      placeholder="любая"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={rule.field || ''}
+                      onChange={(e) =>
+                        updateRule(index, { field: (e.target.value || null) as AmountField | null })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="">Любое</option>
+                      {AMOUNT_FIELDS.map((field) => (
+                        <option key={field} value={field}>
+                          {AMOUNT_FIELD_LABELS[field]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={rule.category}
+                      onChange={(e) =>
+                        updateRule(index, { category: e.target.value as FinanceCategoryKey })
+                      }
+                      className={inputClassName}
+                    >
+                      {FINANCE_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>
+                          {CATEGORY_LABELS[category]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => moveRule(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Выше"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveRule(index, 1)}
+                      disabled={index === draft.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Ниже"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeRule(index)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Удалить"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-gray-200">
+          <button
+            onClick={() => addRule()}
+            className="inline-flex items-center gap-2 text-sm text-ozon-600 hover:text-ozon-700"
+          >
+            <Plus className="w-4 h-4" />
+            Добавить правило
+          </button>
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <h2 className="text-lg font-semibold text-gray-900">Проверка на выбранном периоде</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Результат применения правил выше, включая несохранённые изменения
+        </p>
+
+        {preview.error ? (
+          <ErrorMessage message="Не удалось загрузить операции" onRetry={() => preview.refetch()} />
+        ) : preview.isLoading || !preview.summary ? (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+              {FINANCE_CATEGORIES.map((category) => (
+                <div key={category} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500">{CATEGORY_LABELS[category]}</div>
+                  <div className="text-sm font-semibold text-gray-900">
+                    {formatCurrency(preview.summary?.totals[category] ?? 0)}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {preview.summary.uncategorized.length === 0 ? (
+              <div className="text-sm text-green-700">
+                Все операции периода попадают в категории
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <div className="text-sm font-medium text-gray-900 mb-2">
+                  Без категории (учитываются как «Прочее»)
+                </div>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Тип операции</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Услуга</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Поле суммы</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Операций</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Сумма</th>
+                      <th className="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.summary.uncategorized.map((operation) => (
+                      <tr key={`${operation.operationType}|${operation.serviceName}|${operation.field}`}>
+                        <td className="px-4 py-2 text-sm">
+                          <div className="text-gray-900">{operation.operationTypeName || '—'}</div>
+                          <div className="font-mono text-xs text-gray-500">{operation.operationType}</div>
+                        </td>
+                        <td className="px-4 py-2 font-mono text-xs text-gray-600">
+                          {operation.serviceName || '—'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-700">
+                          {AMOUNT_FIELD_LABELS[operation.field]}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-700 text-right">
+                          {formatNumber(operation.count)}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                          {formatCurrency(operation.amount)}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            onClick={() => addRuleFor(operation)}
+                            className="text-sm text-ozon-600 hover:text-ozon-700 whitespace-nowrap"
+                          >
+                            Создать правило
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
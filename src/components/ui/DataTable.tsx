@@ -6,10 +6,15 @@ import {
   ChevronRight,
   ChevronsLeft,
   ChevronsRight,
-  Search
+  Search,
+  Download,
+  X
 } from 'lucide-react';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ErrorMessage } from './ErrorMessage';
+import { useTableExport, TableExportSource } from '../../hooks/useTableExport';
+import { ExportCell } from '../../lib/export';
+import { formatNumber } from '../../lib/format';
 
 export interface Column<T> {
   key: keyof T;
@@ -17,6 +22,9 @@ export interface Column<T> {
   sortable?: boolean;
   render?: (value: any, row: T) => React.ReactNode;
   className?: string;
+  // Raw value written to CSV/XLSX exports; defaults to row[key]
+  exportValue?: (row: T) => ExportCell;
+  exportable?: boolean;
 }
 
 export interface DataTableProps<T> {
@@ -36,7 +44,12 @@ export interface DataTableProps<T> {
   onSearchChange: (search: string) => void;
   onRetry?: () => void;
   searchPlaceholder?: string;
+  // Replaces the plain search box, e.g. with a QueryInput
+  searchInput?: React.ReactNode;
   emptyMessage?: string;
+  exportSource?: TableExportSource<T>;
+  // Makes rows clickable, e.g. to open a detail page
+  onRowClick?: (row: T) => void;
 }
 
 export const DataTable = <T extends Record<string, any>>({
@@ -56,8 +69,23 @@ export const DataTable = <T extends Record<string, any>>({
   onSearchChange,
   onRetry,
   searchPlaceholder = 'Поиск...',
+  searchInput,
   emptyMessage = 'Нет данных для отображения',
+  exportSource,
+  onRowClick,
 }: DataTableProps<T>) => {
+  const exportColumns = columns
+    .filter((column) => column.exportable !== false)
+    .map((column) => ({
+      label: column.label,
+      value: (row: T): ExportCell =>
+        column.exportValue ? column.exportValue(row) : row[column.key] ?? null,
+    }));
+  const { isExporting, progress, startExport, cancelExport } = useTableExport(
+    exportSource,
+    exportColumns
+  );
+
   const totalPages = Math.ceil(totalCount / pageSize);
   const startItem = page * pageSize + 1;
   const endItem = Math.min((page + 1) * pageSize, totalCount);
@@ -99,19 +127,65 @@ export const DataTable = <T extends Record<string, any>>({
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between gap-4">
           <div className="flex-1 max-w-sm">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-              <input
-                type="text"
-                placeholder={searchPlaceholder}
-                value={search}
-                onChange={(e) => onSearchChange(e.target.value)}
-                className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
-              />
-            </div>
+            {searchInput || (
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                <input
+                  type="text"
+                  placeholder={searchPlaceholder}
+                  value={search}
+                  onChange={(e) => onSearchChange(e.target.value)}
+                  className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+                />
+              </div>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
+            {exportSource && (
+              isExporting ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-32 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-ozon-600 transition-all"
+                      style={{
+                        width: progress && progress.total > 0
+                          ? `${Math.min((progress.loaded / progress.total) * 100, 100)}%`
+                          : '0%',
+                      }}
+                    />
+                  </div>
+                  <span className="text-sm text-gray-600 whitespace-nowrap">
+                    {formatNumber(progress?.loaded || 0)} из {formatNumber(progress?.total || 0)}
+                  </span>
+                  <button
+                    onClick={cancelExport}
+                    className="p-2 text-gray-400 hover:text-gray-600"
+                    title="Отменить экспорт"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1 mr-2">
+                  <Download className="w-4 h-4 text-gray-400" />
+                  <button
+                    onClick={() => startExport('csv')}
+                    disabled={totalCount === 0}
+                    className="px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    CSV
+                  </button>
+                  <button
+                    onClick={() => startExport('xlsx')}
+                    disabled={totalCount === 0}
+                    className="px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    XLSX
+                  </button>
+                </div>
+              )
+            )}
             <span className="text-sm text-gray-600">Показать:</span>
             <select
               value={pageSize}
@@ -165,7 +239,11 @@ export const DataTable = <T extends Record<string, any>>({
               </tr>
             ) : (
               data.map((row, index) => (
-                <tr key={index} className="hover:bg-gray-50">
+                <tr
+                  key={index}
+                  onClick={onRowClick ? () => onRowClick(row) : undefined}
+                  className={`hover:bg-gray-50 ${onRowClick ? 'cursor-pointer' : ''}`}
+                >
                   {columns.map((column) => (
                     <td
                       key={column.key as string}
@@ -0,0 +1,31 @@
+import React from 'react';
+import { formatPercentage } from '../../lib/format';
+import { percentChange } from '../../lib/comparison';
+
+export interface DeltaBadgeProps {
+  current: number;
+  previous: number | null | undefined;
+  // Shown as a tooltip, e.g. the formatted comparison value
+  title?: string;
+}
+
+export const DeltaBadge: React.FC<DeltaBadgeProps> = ({ current, previous, title }) => {
+  const change = percentChange(current, previous);
+
+  if (change == null) {
+    return (
+      <span className="text-xs text-gray-400" title={title}>
+        {current > 0 ? 'новый' : '—'}
+      </span>
+    );
+  }
+
+  const color = change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-500';
+
+  return (
+    <span className={`text-sm font-medium ${color}`} title={title}>
+      {change > 0 ? '+' : change < 0 ? '−' : ''}
+      {formatPercentage(Math.abs(change))}
+    </span>
+  );
+};
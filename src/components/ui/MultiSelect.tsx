@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+
+export interface MultiSelectOption<V extends string | number> {
+  value: V;
+  label: string;
+  // Secondary line in the dropdown, e.g. the offer id
+  hint?: string;
+}
+
+export interface MultiSelectProps<V extends string | number> {
+  icon?: React.ReactNode;
+  placeholder: string;
+  selected: V[];
+  onChange: (values: V[]) => void;
+  options: MultiSelectOption<V>[];
+  // Chip text for a selected value
+  labelOf: (value: V) => string;
+  // When set, the parent searches by the typed term and passes the matches
+  // in options; otherwise options are filtered here by label
+  onSearch?: (term: string) => void;
+  loading?: boolean;
+  exclude: boolean;
+  onExcludeChange: (exclude: boolean) => void;
+}
+
+export const MultiSelect = <V extends string | number>({
+  icon,
+  placeholder,
+  selected,
+  onChange,
+  options,
+  labelOf,
+  onSearch,
+  loading,
+  exclude,
+  onExcludeChange,
+}: MultiSelectProps<V>) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const term = query.trim().toLowerCase();
+  const candidates = options.filter(
+    (option) =>
+      !selected.includes(option.value) &&
+      (onSearch || !term || option.label.toLowerCase().includes(term))
+  );
+
+  const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    setOpen(true);
+    onSearch?.(e.target.value);
+  };
+
+  const add = (value: V) => {
+    onChange([...selected, value]);
+    setQuery('');
+    onSearch?.('');
+  };
+
+  const remove = (value: V) => {
+    onChange(selected.filter((item) => item !== value));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && candidates.length > 0) {
+      e.preventDefault();
+      add(candidates[0].value);
+    } else if (e.key === 'Backspace' && !query && selected.length > 0) {
+      remove(selected[selected.length - 1]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex items-center gap-2">
+      {icon}
+      <div className="flex flex-wrap items-center gap-1 min-w-[10rem] max-w-md px-2 py-1 border border-gray-300 rounded-lg text-sm focus-within:ring-2 focus-within:ring-ozon-500 focus-within:border-transparent">
+        {selected.map((value) => (
+          <span
+            key={value}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs ${
+              exclude ? 'bg-red-50 text-red-700 line-through' : 'bg-ozon-50 text-ozon-700'
+            }`}
+          >
+            <span className="max-w-[10rem] truncate" title={labelOf(value)}>
+              {labelOf(value)}
+            </span>
+            <button
+              type="button"
+              onClick={() => remove(value)}
+              className="hover:text-gray-900"
+              aria-label="Убрать"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          placeholder={selected.length === 0 ? placeholder : ''}
+          value={query}
+          onChange={handleQueryChange}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          className="flex-1 min-w-[4rem] py-1 bg-transparent focus:outline-none"
+        />
+      </div>
+
+      {selected.length > 0 && (
+        <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={exclude}
+            onChange={(e) => onExcludeChange(e.target.checked)}
+            className="rounded border-gray-300 text-ozon-600 focus:ring-ozon-500"
+          />
+          Исключить
+        </label>
+      )}
+
+      {open && (
+        <div className="absolute left-6 top-full z-20 mt-1 w-72 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg">
+          {candidates.length === 0 ? (
+            <div className="px-3 py-2 text-sm text-gray-500">
+              {loading ? 'Поиск…' : 'Ничего не найдено'}
+            </div>
+          ) : (
+            candidates.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => add(option.value)}
+                className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+              >
+                <div className="text-gray-900 truncate">{option.label}</div>
+                {option.hint && <div className="text-xs text-gray-500 truncate">{option.hint}</div>}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+
+export interface QueryInputField {
+  name: string;
+  label: string;
+}
+
+export interface QueryInputError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Field names offered while the word at the cursor could still become one
+  fields: QueryInputField[];
+  errors: QueryInputError[];
+  placeholder?: string;
+}
+
+// Word the cursor is in, when it can still turn into `field:`
+const fieldPrefixAt = (value: string, caret: number) => {
+  const start = value.slice(0, caret).search(/\S*$/);
+  const word = value.slice(start, caret);
+  return /^[a-z_]+$/i.test(word) ? { start, word: word.toLowerCase() } : null;
+};
+
+export const QueryInput: React.FC<QueryInputProps> = ({
+  value,
+  onChange,
+  fields,
+  errors,
+  placeholder,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const prefix = caret !== null ? fieldPrefixAt(value, caret) : null;
+  const suggestions = prefix
+    ? fields.filter((field) => field.name.startsWith(prefix.word) && field.name !== prefix.word)
+    : [];
+
+  // The value comes back through the URL, so the cursor is placed after the
+  // next render rather than right after onChange
+  useEffect(() => {
+    if (pendingCaret.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      setCaret(pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  const trackCaret = () => setCaret(inputRef.current?.selectionStart ?? null);
+
+  const complete = (field: QueryInputField) => {
+    if (!prefix || caret === null) return;
+    const insert = `${field.name}:`;
+    pendingCaret.current = prefix.start + insert.length;
+    onChange(value.slice(0, prefix.start) + insert + value.slice(caret));
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((current) => (current + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      complete(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setCaret(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-5 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={trackCaret}
+        onClick={trackCaret}
+        onBlur={() => setCaret(null)}
+        spellCheck={false}
+        className={`pl-10 pr-4 py-2 w-full border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:border-transparent ${
+          errors.length > 0 ? 'border-red-300 focus:ring-red-500' : 'border-gray-300 focus:ring-ozon-500'
+        }`}
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full z-20 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg">
+          {suggestions.map((field, index) => (
+            <button
+              key={field.name}
+              type="button"
+              // mousedown fires before the input's blur hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                complete(field);
+              }}
+              className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm ${
+                index === highlighted ? 'bg-gray-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-mono text-gray-900">{field.name}:</span>
+              <span className="text-xs text-gray-500 truncate">{field.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs text-red-600">
+          {errors.map((error) => (
+            <li key={`${error.start}-${error.message}`}>
+              <span className="font-mono">{value.slice(error.start, error.end)}</span>
+              {' — '}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
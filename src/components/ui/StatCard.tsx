@@ -9,6 +9,8 @@ export interface StatCardProps {
   format?: 'currency' | 'number' | 'percentage';
   loading?: boolean;
   icon?: React.ReactNode;
+  // Small print under the value, e.g. a forecast range
+  hint?: string;
 }
 
 export const StatCard: React.FC<StatCardProps> = ({
@@ -18,6 +20,7 @@ export const StatCard: React.FC<StatCardProps> = ({
   format = 'number',
   loading = false,
   icon,
+  hint,
 }) => {
   const formatValue = (val: number | null) => {
     if (val == null) return '—';
@@ -88,6 +91,7 @@ export const StatCard: React.FC<StatCardProps> = ({
       </div>
       
       {getChangeDisplay()}
+      {hint && <p className="mt-2 text-xs text-gray-500">{hint}</p>}
     </div>
   );
 };
\ No newline at end of file
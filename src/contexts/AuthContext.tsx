@@ -0,0 +1,86 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { getAuthBackend, hasPermission, AuthUser, Permission } from '../lib/auth';
+
+interface AuthContextType {
+  user: AuthUser | null;
+  // True until the stored session has been checked
+  loading: boolean;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  sendMagicLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    let unsubscribe: (() => void) | undefined;
+
+    getAuthBackend()
+      .then(async (backend) => {
+        unsubscribe = backend.onChange((nextUser) => {
+          if (active) setUser(nextUser);
+        });
+        const currentUser = await backend.getUser();
+        if (active) setUser(currentUser);
+      })
+      .catch((error) => {
+        console.error('Restoring session failed:', error);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const signInWithPassword = async (email: string, password: string) => {
+    const backend = await getAuthBackend();
+    setUser(await backend.signInWithPassword(email, password));
+  };
+
+  const sendMagicLink = async (email: string) => {
+    const backend = await getAuthBackend();
+    await backend.sendMagicLink(email);
+  };
+
+  // Cached query results belong to the previous user
+  const signOut = async () => {
+    const backend = await getAuthBackend();
+    await backend.signOut();
+    setUser(null);
+    queryClient.clear();
+  };
+
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
+  return (
+    <AuthContext.Provider
+      value={{ user, loading, signInWithPassword, sendMagicLink, signOut, can }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
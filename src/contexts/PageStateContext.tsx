@@ -0,0 +1,59 @@
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import type { PageState, PageStateKey } from '../lib/saved-views';
+
+interface PageStateContextType {
+  pageState: PageState;
+  updatePageState: <K extends PageStateKey>(
+    key: K,
+    defaults: NonNullable<PageState[K]>,
+    updates: Partial<NonNullable<PageState[K]>>
+  ) => void;
+  // Replaces everything, e.g. when a saved view is opened
+  restorePageState: (state: PageState) => void;
+}
+
+const PageStateContext = createContext<PageStateContextType | undefined>(undefined);
+
+export const usePageStateContext = () => {
+  const context = useContext(PageStateContext);
+  if (context === undefined) {
+    throw new Error('usePageStateContext must be used within a PageStateProvider');
+  }
+  return context;
+};
+
+// Table and chart controls of one page. They outlive the page component, so
+// switching tabs keeps them and saved views can read and restore them.
+export const usePageState = <K extends PageStateKey>(
+  key: K,
+  defaults: NonNullable<PageState[K]>
+) => {
+  const { pageState, updatePageState } = usePageStateContext();
+  const state = (pageState[key] ?? defaults) as NonNullable<PageState[K]>;
+  const update = (updates: Partial<NonNullable<PageState[K]>>) =>
+    updatePageState(key, defaults, updates);
+  return [state, update] as const;
+};
+
+interface PageStateProviderProps {
+  children: React.ReactNode;
+}
+
+export const PageStateProvider: React.FC<PageStateProviderProps> = ({ children }) => {
+  const [pageState, setPageState] = useState<PageState>({});
+
+  const updatePageState = useCallback<PageStateContextType['updatePageState']>(
+    (key, defaults, updates) => {
+      setPageState((prev) => ({ ...prev, [key]: { ...(prev[key] ?? defaults), ...updates } }));
+    },
+    []
+  );
+
+  return (
+    <PageStateContext.Provider
+      value={{ pageState, updatePageState, restorePageState: setPageState }}
+    >
+      {children}
+    </PageStateContext.Provider>
+  );
+};
@@ -0,0 +1,219 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useFilters } from './useFilters';
+import { getDataSource, DateType } from '../lib/data-source';
+import { getAlertRulesStore, AlertRule, AlertRuleInput } from '../lib/alert-rules';
+import { Anomaly, BASELINE_WEEKS, DailyMetricsPoint, evaluateRule } from '../lib/anomalies';
+import { addDays } from '../lib/sales-series';
+import { formatMoscowDate } from '../lib/date-utils';
+import { toNumber } from '../lib/format';
+
+// Alerts look at orders as they come in, not at deliveries weeks later
+export const ALERT_DATE_TYPE: DateType = 'in_process_at';
+
+// Days the notification center reports on, ending yesterday
+export const ALERT_LOOKBACK_DAYS = 7;
+
+export const useAlertRules = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['alertRules', user?.id],
+    queryFn: async () => {
+      const store = await getAlertRulesStore();
+      return store.list(user!.id);
+    },
+    enabled: !!user,
+  });
+};
+
+export const useAlertRuleMutations = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['alertRules'] });
+  const onError = (error: Error) => {
+    console.error('Alert rule update failed:', error);
+    toast.error('Не удалось сохранить правило');
+  };
+
+  const withStore = async () => {
+    if (!user) throw new Error('Not signed in');
+    return { store: await getAlertRulesStore(), userId: user.id };
+  };
+
+  const createRules = useMutation({
+    mutationFn: async (rules: AlertRuleInput[]) => {
+      const { store, userId } = await withStore();
+      for (const rule of rules) {
+        await store.create(userId, rule);
+      }
+    },
+    onSuccess,
+    onError,
+  });
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, rule }: { id: string; rule: AlertRuleInput }) => {
+      const { store, userId } = await withStore();
+      await store.update(userId, id, rule);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) => {
+      const { store, userId } = await withStore();
+      await store.remove(userId, id);
+    },
+    onSuccess,
+    onError,
+  });
+
+  return { createRules, updateRule, deleteRule };
+};
+
+interface AlertScope {
+  sku: number | null;
+  region: string | null;
+}
+
+const scopeKey = ({ sku, region }: AlertScope) => `${sku ?? ''}|${region ?? ''}`;
+
+// Enough days for a full baseline behind every reported day, without gaps
+const fetchDailyMetrics = async (
+  scope: AlertScope,
+  accountId: string,
+  endDate: string
+): Promise<DailyMetricsPoint[]> => {
+  const source = await getDataSource();
+  const startDate = addDays(endDate, -(BASELINE_WEEKS * 7 + ALERT_LOOKBACK_DAYS - 1));
+  const rows = await source.getDailyMetrics({
+    startDate,
+    endDate,
+    dateType: ALERT_DATE_TYPE,
+    skuFilter: scope.sku ? [scope.sku] : null,
+    skuExclude: false,
+    regionFilter: scope.region ? [scope.region] : null,
+    regionExclude: false,
+    accountFilter: accountId || null,
+  });
+
+  const byDate = new Map(rows.map((row) => [row.date_msk.slice(0, 10), row]));
+  const days: DailyMetricsPoint[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const row = byDate.get(date);
+    const units = toNumber(row?.total_units);
+    days.push({
+      date,
+      gmv: toNumber(row?.total_gmv),
+      orders: toNumber(row?.total_orders),
+      cancelledGmv: toNumber(row?.cancelled_gmv),
+      commissionPerUnit: units > 0 ? Math.abs(toNumber(row?.total_commissions)) / units : null,
+    });
+  }
+  return days;
+};
+
+export interface TriggeredAlert {
+  // Rule and day; stable across reloads, used for the read marks
+  id: string;
+  rule: AlertRule;
+  anomaly: Anomaly;
+  // Where the alert leads: the day with the rule's scope as filters
+  to: string;
+}
+
+const alertLink = (rule: AlertRule, anomaly: Anomaly, accountId: string) => {
+  const params = new URLSearchParams({ from: anomaly.date, to: anomaly.date, dateType: ALERT_DATE_TYPE });
+  if (accountId) params.set('account', accountId);
+  if (rule.region) params.set('region', rule.region);
+  // The sales chart ignores the SKU filter; the product page charts one SKU
+  return rule.sku ? `/products/${rule.sku}?${params}` : `/sales?${params}`;
+};
+
+/**
+ * Evaluates the user's enabled rules over the last ALERT_LOOKBACK_DAYS full
+ * days of the selected account. Rules with the same scope share one query.
+ */
+export const useTriggeredAlerts = () => {
+  const { filters } = useFilters();
+  const { data: rules } = useAlertRules();
+  const yesterday = addDays(formatMoscowDate(new Date()), -1);
+  const fromDate = addDays(yesterday, -(ALERT_LOOKBACK_DAYS - 1));
+
+  const enabledRules = useMemo(() => (rules || []).filter((rule) => rule.enabled), [rules]);
+  const scopes = useMemo(
+    () =>
+      Array.from(
+        new Map(enabledRules.map((rule) => [scopeKey(rule), { sku: rule.sku, region: rule.region }])).values()
+      ),
+    [enabledRules]
+  );
+
+  const results = useQueries({
+    queries: scopes.map((scope) => ({
+      queryKey: ['dailyMetrics', scopeKey(scope), filters.accountId, yesterday],
+      queryFn: () => fetchDailyMetrics(scope, filters.accountId, yesterday),
+    })),
+  });
+
+  const daysByScope = new Map(scopes.map((scope, index) => [scopeKey(scope), results[index]?.data]));
+  const alerts: TriggeredAlert[] = enabledRules
+    .flatMap((rule) => {
+      const days = daysByScope.get(scopeKey(rule));
+      return days
+        ? evaluateRule(rule, days, fromDate).map((anomaly) => ({
+            id: `${rule.id}:${anomaly.date}`,
+            rule,
+            anomaly,
+            to: alertLink(rule, anomaly, filters.accountId),
+          }))
+        : [];
+    })
+    .sort((a, b) => b.anomaly.date.localeCompare(a.anomaly.date));
+
+  return {
+    alerts,
+    isLoading: results.some((result) => result.isLoading),
+    error: results.find((result) => result.error)?.error ?? null,
+  };
+};
+
+const seenStorageKey = (userId: string) => `alerts-seen:${userId}`;
+
+const readSeen = (userId: string | undefined): string[] => {
+  if (!userId) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(seenStorageKey(userId)) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Alerts the user has already seen in the notification center; kept in the
+// browser, a read mark is not worth a table
+export const useSeenAlerts = () => {
+  const { user } = useAuth();
+  const [seen, setSeen] = useState(() => new Set(readSeen(user?.id)));
+
+  const markSeen = useCallback(
+    (ids: string[]) => {
+      if (!user) return;
+      setSeen((previous) => {
+        const next = new Set([...previous, ...ids]);
+        // Only recent alerts can come back, older marks are dropped
+        const kept = Array.from(next).slice(-500);
+        localStorage.setItem(seenStorageKey(user.id), JSON.stringify(kept));
+        return new Set(kept);
+      });
+    },
+    [user]
+  );
+
+  return { seen, markSeen };
+};
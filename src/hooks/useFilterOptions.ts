@@ -0,0 +1,66 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { getDataSource } from '../lib/data-source';
+import type { ProductOptionRow } from '../lib/data-source';
+import { toNumber } from '../lib/format';
+
+export interface ProductOption {
+  sku: number;
+  offerId: string;
+  productName: string;
+}
+
+const PRODUCT_SEARCH_LIMIT = 20;
+
+const toProductOption = (item: ProductOptionRow): ProductOption => ({
+  sku: toNumber(item.sku),
+  offerId: item.offer_id || '',
+  productName: item.product_name || '',
+});
+
+// Catalog typeahead: products whose name, offer id or SKU contain the term
+export const useProductSearch = (searchTerm: string) => {
+  const term = searchTerm.trim();
+
+  return useQuery({
+    queryKey: ['productSearch', term],
+    queryFn: async () => {
+      const source = await getDataSource();
+      const data = await source.searchProducts({
+        searchTerm: term || null,
+        skus: null,
+        limit: PRODUCT_SEARCH_LIMIT,
+      });
+      return data.map(toProductOption);
+    },
+    placeholderData: keepPreviousData,
+  });
+};
+
+// Names for the SKUs already in the filter, so chips don't show bare numbers
+export const useSelectedProducts = (skus: number[]) => {
+  return useQuery({
+    queryKey: ['selectedProducts', skus],
+    queryFn: async () => {
+      const source = await getDataSource();
+      const data = await source.searchProducts({
+        searchTerm: null,
+        skus,
+        limit: skus.length,
+      });
+      return data.map(toProductOption);
+    },
+    enabled: skus.length > 0,
+  });
+};
+
+export const useRegionOptions = () => {
+  return useQuery({
+    queryKey: ['regionOptions'],
+    queryFn: async () => {
+      const source = await getDataSource();
+      return source.getRegions();
+    },
+    // The cluster list only grows with new postings
+    staleTime: 60 * 60 * 1000,
+  });
+};
@@ -1,21 +1,75 @@
 import { useSearchParams } from 'react-router-dom';
 import { useMemo, useEffect } from 'react';
 import { getDefaultDateRange, formatMoscowDate, toMoscowTime } from '../lib/date-utils';
+import { COMPARISON_MODES, ComparisonMode, toComparisonFilters } from '../lib/comparison';
+import { DatePreset, isDatePreset, resolveDatePreset } from '../lib/date-presets';
+import { isTableParam, isTablePageParam } from './useTableUrlState';
 
 export interface Filters {
   dateFrom: Date;
   dateTo: Date;
-  sku: string;
-  region: string;
+  // Relative period the dates were resolved from; null for an absolute range
+  range: DatePreset | null;
+  // Empty list = no filter; with the exclude flag the listed values are
+  // filtered out instead
+  sku: number[];
+  skuExclude: boolean;
+  region: string[];
+  regionExclude: boolean;
+  // Seller account id; empty string sums all accounts
+  accountId: string;
   dateType: 'delivering_date' | 'shipment_date' | 'in_process_at';
+  compare: ComparisonMode;
+  // Only used by the custom comparison mode
+  compareFrom: Date | null;
+  compareTo: Date | null;
 }
 
+const parseDateParam = (value: string | null) => {
+  if (!value) return null;
+  try {
+    return toMoscowTime(value);
+  } catch {
+    return null;
+  }
+};
+
+// SKUs are Ozon product ids; anything that is not a positive integer is dropped
+const parseSkuParams = (values: string[]) =>
+  Array.from(
+    new Set(
+      values
+        .map((value) => value.trim())
+        .filter((value) => /^\d+$/.test(value))
+        .map(Number)
+        .filter((sku) => Number.isSafeInteger(sku) && sku > 0)
+    )
+  );
+
+const parseRegionParams = (values: string[]) =>
+  Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+
+// Lists are stored as repeated params (?sku=1&sku=2)
+const setListParam = (params: URLSearchParams, key: string, values: (string | number)[]) => {
+  params.delete(key);
+  values.forEach((value) => params.append(key, String(value)));
+};
+
+const setFlagParam = (params: URLSearchParams, key: string, value: boolean) => {
+  if (value) {
+    params.set(key, '1');
+  } else {
+    params.delete(key);
+  }
+};
+
 export const useFilters = () => {
   const [searchParams, setSearchParams] = useSearchParams();
 
   // Initialize URL with default date range if no parameters exist
   useEffect(() => {
-    const hasDateParams = searchParams.has('from') || searchParams.has('to');
+    const hasDateParams =
+      searchParams.has('from') || searchParams.has('to') || searchParams.has('range');
     if (!hasDateParams) {
       const defaultRange = getDefaultDateRange();
       const params = new URLSearchParams(searchParams);
@@ -28,11 +82,12 @@ export const useFilters = () => {
   const filters = useMemo((): Filters => {
     const defaultRange = getDefaultDateRange();
     
+    const rangeParam = searchParams.get('range');
     const dateFromParam = searchParams.get('from');
     const dateToParam = searchParams.get('to');
-    const skuParam = searchParams.get('sku') || '';
-    const regionParam = searchParams.get('region') || '';
+    const accountParam = searchParams.get('account') || '';
     const dateTypeParam = searchParams.get('dateType') || 'shipment_date';
+    const compareParam = searchParams.get('compare') as ComparisonMode | null;
 
     let dateFrom = defaultRange.from;
     let dateTo = defaultRange.to;
@@ -53,41 +108,65 @@ export const useFilters = () => {
       }
     }
 
+    // A range token wins over absolute dates and is resolved on every read
+    const range = isDatePreset(rangeParam) ? rangeParam : null;
+    if (range) {
+      ({ from: dateFrom, to: dateTo } = resolveDatePreset(range));
+    }
+
     return {
       dateFrom,
       dateTo,
-      sku: skuParam,
-      region: regionParam,
+      range,
+      sku: parseSkuParams(searchParams.getAll('sku')),
+      skuExclude: searchParams.get('skuExclude') === '1',
+      region: parseRegionParams(searchParams.getAll('region')),
+      regionExclude: searchParams.get('regionExclude') === '1',
+      accountId: accountParam,
       dateType: (dateTypeParam === 'delivering_date' || dateTypeParam === 'shipment_date' || dateTypeParam === 'in_process_at') 
         ? dateTypeParam as 'delivering_date' | 'shipment_date' | 'in_process_at'
         : 'shipment_date',
+      compare: compareParam && COMPARISON_MODES.includes(compareParam) ? compareParam : 'previous',
+      compareFrom: parseDateParam(searchParams.get('cmpFrom')),
+      compareTo: parseDateParam(searchParams.get('cmpTo')),
     };
   }, [searchParams]);
 
   const updateFilters = (newFilters: Partial<Filters>) => {
     const params = new URLSearchParams(searchParams);
 
-    if (newFilters.dateFrom !== undefined) {
-      params.set('from', formatMoscowDate(newFilters.dateFrom));
+    if (newFilters.range) {
+      params.set('range', newFilters.range);
+      params.delete('from');
+      params.delete('to');
+    } else if (newFilters.dateFrom !== undefined || newFilters.dateTo !== undefined) {
+      // Editing one bound turns a relative range into an absolute one
+      params.delete('range');
+      params.set('from', formatMoscowDate(newFilters.dateFrom ?? filters.dateFrom));
+      params.set('to', formatMoscowDate(newFilters.dateTo ?? filters.dateTo));
     }
 
-    if (newFilters.dateTo !== undefined) {
-      params.set('to', formatMoscowDate(newFilters.dateTo));
+    if (newFilters.sku !== undefined) {
+      setListParam(params, 'sku', newFilters.sku);
     }
 
-    if (newFilters.sku !== undefined) {
-      if (newFilters.sku) {
-        params.set('sku', newFilters.sku);
-      } else {
-        params.delete('sku');
-      }
+    if (newFilters.skuExclude !== undefined) {
+      setFlagParam(params, 'skuExclude', newFilters.skuExclude);
     }
 
     if (newFilters.region !== undefined) {
-      if (newFilters.region) {
-        params.set('region', newFilters.region);
+      setListParam(params, 'region', newFilters.region);
+    }
+
+    if (newFilters.regionExclude !== undefined) {
+      setFlagParam(params, 'regionExclude', newFilters.regionExclude);
+    }
+
+    if (newFilters.accountId !== undefined) {
+      if (newFilters.accountId) {
+        params.set('account', newFilters.accountId);
       } else {
-        params.delete('region');
+        params.delete('account');
       }
     }
 
@@ -95,15 +174,50 @@ export const useFilters = () => {
       params.set('dateType', newFilters.dateType);
     }
 
+    if (newFilters.compare !== undefined) {
+      if (newFilters.compare !== 'previous') {
+        params.set('compare', newFilters.compare);
+      } else {
+        params.delete('compare');
+      }
+    }
+
+    if (newFilters.compareFrom !== undefined) {
+      if (newFilters.compareFrom) {
+        params.set('cmpFrom', formatMoscowDate(newFilters.compareFrom));
+      } else {
+        params.delete('cmpFrom');
+      }
+    }
+
+    if (newFilters.compareTo !== undefined) {
+      if (newFilters.compareTo) {
+        params.set('cmpTo', formatMoscowDate(newFilters.compareTo));
+      } else {
+        params.delete('cmpTo');
+      }
+    }
+
+    // Other rows match now; tables start over on their first page
+    Array.from(params.keys()).filter(isTablePageParam).forEach((key) => params.delete(key));
+
     setSearchParams(params);
   };
 
+  // The selected seller account is where the user works, not a filter to clear
   const resetFilters = () => {
     const defaultRange = getDefaultDateRange();
-    setSearchParams({
+    const accountParam = searchParams.get('account');
+    const params = new URLSearchParams({
       from: formatMoscowDate(defaultRange.from),
       to: formatMoscowDate(defaultRange.to),
+      ...(accountParam ? { account: accountParam } : {}),
+    });
+    // Table sort and page size stay, paging starts over
+    searchParams.forEach((value, key) => {
+      if (isTableParam(key) && !isTablePageParam(key)) params.set(key, value);
     });
+    setSearchParams(params);
   };
 
   return {
@@ -111,4 +225,17 @@ export const useFilters = () => {
     updateFilters,
     resetFilters,
   };
-};
\ No newline at end of file
+};
+
+// The current filters moved to the comparison period chosen in FilterBar
+export const useComparisonFilters = () => {
+  const { filters } = useFilters();
+  return useMemo(() => toComparisonFilters(filters), [filters]);
+};
+
+// The filters narrowed to one product, for the product page
+export const withProduct = (filters: Filters, sku: number): Filters => ({
+  ...filters,
+  sku: [sku],
+  skuExclude: false,
+});
@@ -1,7 +1,9 @@
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../lib/supabase';
-import { useFilters } from './useFilters';
-import { formatMoscowDate, toMoscowTime } from '../lib/date-utils';
+import { getDataSource, toPeriodParams, toTransactionFilters, fetchAllTransactionDetails, fetchLatestTransactionDetails, DashboardDataSource, FinanceSummaryRow } from '../lib/data-source';
+import { useFilters, useComparisonFilters, Filters } from './useFilters';
+import { loadCategorizationRules } from './useFinanceRules';
+import { CATEGORY_LABELS, categorizeTransaction, groupByTransaction, summarizeByCategory, FinanceCategoryKey } from '../lib/finance-rules';
+import { formatMoscowDate } from '../lib/date-utils';
 import { toNumber } from '../lib/format';
 
 export interface FinanceCategory {
@@ -9,6 +11,8 @@ export interface FinanceCategory {
   amount: number;
   percentage: number;
   color: string;
+  // Derived by a fixed ratio rather than measured
+  estimated: boolean;
 }
 
 export interface FinanceSummary {
@@ -18,11 +22,48 @@ export interface FinanceSummary {
   returns: number;
   ads: number;
   services: number;
+  // Amounts no categorization rule matched
+  other: number;
   totalIncome: number;
   totalExpenses: number;
   netProfit: number;
 }
 
+export type FinanceField = keyof FinanceSummary;
+
+export type FinanceSource = 'dashboard_summary' | 'get_finance_summary' | 'transactions';
+
+export const FINANCE_SOURCE_LABELS: Record<FinanceSource, string> = {
+  dashboard_summary: 'Сводная витрина dashboard_summary',
+  get_finance_summary: 'Функция get_finance_summary',
+  transactions: 'Операции vw_transaction_details',
+};
+
+/**
+ * Where a finance result came from and how far it can be trusted.
+ */
+export interface FinanceProvenance {
+  source: FinanceSource;
+  // Fields split out of a total by a fixed ratio
+  estimatedFields: FinanceField[];
+  // Fields the source does not provide; shown as missing instead of zero
+  unavailableFields: FinanceField[];
+  // Active filters the source cannot apply
+  ignoredFilters: string[];
+  // Caveats of the source, shown next to the numbers
+  notes: string[];
+  // Sources tried before this one and the error that ruled each out
+  fallbacks: { source: FinanceSource; reason: string }[];
+}
+
+export interface FinanceData {
+  summary: FinanceSummary;
+  categories: FinanceCategory[];
+  provenance: FinanceProvenance;
+  // False when the source returned nothing for the period
+  hasData: boolean;
+}
+
 const CATEGORY_COLORS = {
   sales: '#10b981',     // green
   commissions: '#ef4444', // red
@@ -30,15 +71,184 @@ const CATEGORY_COLORS = {
   returns: '#8b5cf6',     // violet
   ads: '#06b6d4',         // cyan
   services: '#84cc16',    // lime
+  other: '#6b7280',       // gray
+};
+
+type SourceResult = Omit<FinanceData, 'categories' | 'hasData' | 'provenance'> &
+  Omit<FinanceProvenance, 'source' | 'fallbacks'>;
+
+const describeError = (error: unknown) =>
+  error instanceof Error
+    ? error.message
+    : (error as { message?: string } | null)?.message || String(error);
+
+// Filters a source cannot apply, given the filter arguments it accepts
+const ignoredFilters = (filters: Filters, supports: { sku: boolean; region: boolean; dateType: boolean }) => [
+  ...(filters.sku.length > 0 && !supports.sku ? ['SKU'] : []),
+  ...(filters.region.length > 0 && !supports.region ? ['регион'] : []),
+  ...(!supports.dateType ? ['тип даты'] : []),
+];
+
+const fromDashboardSummary = async (source: DashboardDataSource, filters: Filters): Promise<SourceResult> => {
+  const summaryData = await source.getDashboardSummary({
+    startDate: formatMoscowDate(filters.dateFrom),
+    endDate: formatMoscowDate(filters.dateTo),
+    accountFilter: filters.accountId || null,
+  });
+
+  const totalRevenue = summaryData.reduce((sum, item) => sum + toNumber(item.total_revenue), 0) || 0;
+  const totalCommissions = summaryData.reduce((sum, item) => sum + toNumber(item.total_commission), 0) || 0;
+  const totalServiceCosts = summaryData.reduce((sum, item) => sum + toNumber(item.total_service_costs), 0) || 0;
+  const totalPayout = summaryData.reduce((sum, item) => sum + toNumber(item.total_payout), 0) || 0;
+
+  return {
+    summary: {
+      sales: totalRevenue,
+      commissions: totalCommissions,
+      // The view only has one service total; the split is a rough 30/70 ratio
+      delivery: totalServiceCosts * 0.3,
+      returns: 0,
+      ads: 0,
+      services: totalServiceCosts * 0.7,
+      other: 0,
+      totalIncome: totalRevenue,
+      totalExpenses: totalCommissions + totalServiceCosts,
+      netProfit: totalPayout,
+    },
+    estimatedFields: ['delivery', 'services'],
+    unavailableFields: ['returns', 'ads', 'other'],
+    ignoredFilters: ignoredFilters(filters, { sku: false, region: false, dateType: false }),
+    notes: ['Доставка и услуги — это доли 30/70 от общей суммы услуг, а не фактические суммы'],
+  };
+};
+
+const fromFinanceRpc = async (source: DashboardDataSource, filters: Filters): Promise<SourceResult> => {
+  const data = await source.getFinanceSummary({
+    ...toPeriodParams(filters),
+    dateType: filters.dateType,
+  });
+
+  const result: Partial<FinanceSummaryRow> = data[0] || {};
+  return {
+    summary: {
+      sales: toNumber(result.total_sales) || 0,
+      commissions: toNumber(result.total_commissions) || 0,
+      delivery: toNumber(result.total_delivery) || 0,
+      returns: toNumber(result.total_returns) || 0,
+      ads: toNumber(result.total_ads) || 0,
+      services: toNumber(result.total_services) || 0,
+      other: 0,
+      totalIncome: toNumber(result.total_income) || 0,
+      totalExpenses: toNumber(result.total_expenses) || 0,
+      netProfit: toNumber(result.net_profit) || 0,
+    },
+    estimatedFields: [],
+    unavailableFields: ['other'],
+    ignoredFilters: [],
+    notes: [],
+  };
+};
+
+const fromTransactions = async (filters: Filters): Promise<SourceResult> => {
+  const [rules, transactionData] = await Promise.all([
+    loadCategorizationRules(),
+    fetchAllTransactionDetails(toTransactionFilters(filters)),
+  ]);
+
+  // Every amount lands in exactly one category; expenses come back negative
+  const { totals } = summarizeByCategory(transactionData, rules);
+  const expenses = {
+    commissions: -totals.commissions,
+    delivery: -totals.delivery,
+    returns: -totals.returns,
+    ads: -totals.ads,
+    services: -totals.services,
+    other: -totals.other,
+  };
+  const totalExpenses = Object.values(expenses).reduce((sum, value) => sum + value, 0);
+
+  return {
+    summary: {
+      sales: totals.sales,
+      ...expenses,
+      totalIncome: totals.sales,
+      totalExpenses,
+      netProfit: totals.sales - totalExpenses,
+    },
+    estimatedFields: [],
+    unavailableFields: [],
+    // Transactions are dated by operation date; the region is their posting's
+    ignoredFilters: ignoredFilters(filters, { sku: true, region: true, dateType: false }),
+    notes:
+      totals.other !== 0
+        ? ['Часть операций не подходит ни под одно правило категорий и учтена как «Прочее»']
+        : [],
+  };
 };
 
-const CATEGORY_LABELS = {
-  sales: 'Продажи',
-  commissions: 'Комиссии',
-  delivery: 'Доставка',
-  returns: 'Возвраты',
-  ads: 'Реклама',
-  services: 'Услуги',
+const toCategories = (summary: FinanceSummary, provenance: FinanceProvenance) => {
+  const categories: FinanceCategory[] = [];
+  const total = summary.totalIncome + summary.totalExpenses;
+
+  Object.entries(summary).forEach(([key, value]) => {
+    if (key in CATEGORY_COLORS && value !== 0) {
+      const amount = key === 'sales' ? value : Math.abs(value);
+      categories.push({
+        category: CATEGORY_LABELS[key],
+        amount,
+        percentage: total > 0 ? (amount / total) * 100 : 0,
+        color: CATEGORY_COLORS[key as keyof typeof CATEGORY_COLORS],
+        estimated: provenance.estimatedFields.includes(key as FinanceField),
+      });
+    }
+  });
+
+  return categories.sort((a, b) => b.amount - a.amount);
+};
+
+const fetchFinanceData = async (filters: Filters): Promise<FinanceData> => {
+  const source = await getDataSource();
+  // Sources in order of preference; each later one runs only when the
+  // previous one fails, and the failure is recorded in the provenance.
+  // With a SKU or region selected, sources without that filter are skipped
+  // rather than showing totals of the whole catalog or country.
+  const sources: [FinanceSource, () => Promise<SourceResult>, { sku: boolean; region: boolean }][] = [
+    ['dashboard_summary', () => fromDashboardSummary(source, filters), { sku: false, region: false }],
+    ['get_finance_summary', () => fromFinanceRpc(source, filters), { sku: true, region: true }],
+    ['transactions', () => fromTransactions(filters), { sku: true, region: true }],
+  ];
+  const fallbacks: FinanceProvenance['fallbacks'] = [];
+
+  for (const [name, load, supports] of sources) {
+    if (filters.sku.length > 0 && !supports.sku) {
+      fallbacks.push({ source: name, reason: 'не поддерживает фильтр по товару' });
+      continue;
+    }
+    if (filters.region.length > 0 && !supports.region) {
+      fallbacks.push({ source: name, reason: 'не поддерживает фильтр по региону' });
+      continue;
+    }
+
+    try {
+      const { summary, ...details } = await load();
+      const provenance: FinanceProvenance = { source: name, fallbacks, ...details };
+      const hasData = Object.values(summary).some((value) => value !== 0);
+
+      return {
+        summary,
+        categories: hasData ? toCategories(summary, provenance) : [],
+        provenance,
+        hasData,
+      };
+    } catch (error) {
+      console.warn(`Finance source ${name} not available:`, error);
+      fallbacks.push({ source: name, reason: describeError(error) });
+    }
+  }
+
+  throw new Error(
+    `Финансовые данные недоступны: ${fallbacks.map((fallback) => fallback.reason).join('; ')}`
+  );
 };
 
 export const useFinanceData = () => {
@@ -46,265 +256,61 @@ export const useFinanceData = () => {
   
   return useQuery({
     queryKey: ['finance', filters],
-    queryFn: async () => {
-      // Use dashboard_summary view as specified in project memory
-      try {
-        // First try to get data from dashboard_summary view with date filtering
-        const { data: summaryData, error: summaryError } = await supabase
-          .from('dashboard_summary')
-          .select('total_revenue, total_commission, total_service_costs, total_payout')
-          .gte('date_field', formatMoscowDate(filters.dateFrom))
-          .lte('date_field', formatMoscowDate(filters.dateTo));
-        
-        if (summaryError) {
-          console.warn('dashboard_summary view not available, trying RPC function:', summaryError);
-          throw summaryError;
-        }
-        
-        // Calculate totals from dashboard_summary view
-        const totalRevenue = summaryData?.reduce((sum, item) => sum + toNumber(item.total_revenue), 0) || 0;
-        const totalCommissions = summaryData?.reduce((sum, item) => sum + toNumber(item.total_commission), 0) || 0;
-        const totalServiceCosts = summaryData?.reduce((sum, item) => sum + toNumber(item.total_service_costs), 0) || 0;
-        const totalPayout = summaryData?.reduce((sum, item) => sum + toNumber(item.total_payout), 0) || 0;
-        
-        const summary: FinanceSummary = {
-          sales: totalRevenue,
-          commissions: totalCommissions,
-          delivery: totalServiceCosts * 0.3, // Estimate delivery portion
-          returns: 0,
-          ads: 0,
-          services: totalServiceCosts * 0.7, // Estimate other services portion
-          totalIncome: totalRevenue,
-          totalExpenses: totalCommissions + totalServiceCosts,
-          netProfit: totalPayout,
-        };
-        
-        // Create categories for pie chart
-        const categories: FinanceCategory[] = [];
-        const total = summary.totalIncome + summary.totalExpenses;
-        
-        Object.entries(summary).forEach(([key, value]) => {
-          if (key in CATEGORY_COLORS && value !== 0) {
-            const amount = key === 'sales' ? value : Math.abs(value);
-            categories.push({
-              category: CATEGORY_LABELS[key as keyof typeof CATEGORY_LABELS],
-              amount,
-              percentage: total > 0 ? (amount / total) * 100 : 0,
-              color: CATEGORY_COLORS[key as keyof typeof CATEGORY_COLORS],
-            });
-          }
-        });
-        
-        return {
-          summary,
-          categories: categories.sort((a, b) => b.amount - a.amount),
-        };
-        
-      } catch (summaryError) {
-        // Try RPC function as fallback
-        try {
-          const { data, error } = await supabase.rpc('get_finance_summary', {
-            start_date: formatMoscowDate(filters.dateFrom),
-            end_date: formatMoscowDate(filters.dateTo),
-            date_type: filters.dateType,
-            sku_filter: filters.sku ? parseInt(filters.sku) : null,
-            region_filter: filters.region || null,
-          });
-          
-          if (error) throw error;
-          
-          // Transform RPC result to expected format
-          const result = data?.[0] || {};
-          const summary: FinanceSummary = {
-            sales: toNumber(result.total_sales) || 0,
-            commissions: toNumber(result.total_commissions) || 0,
-            delivery: toNumber(result.total_delivery) || 0,
-            returns: toNumber(result.total_returns) || 0,
-            ads: toNumber(result.total_ads) || 0,
-            services: toNumber(result.total_services) || 0,
-            totalIncome: toNumber(result.total_income) || 0,
-            totalExpenses: toNumber(result.total_expenses) || 0,
-            netProfit: toNumber(result.net_profit) || 0,
-          };
-          
-          return { summary, categories: [] };
-          
-        } catch (rpcError) {
-          // Final fallback to transaction view approach
-          console.warn('Finance RPC function not available, using transaction view fallback:', rpcError);
-          
-          // Use transaction view for finance data with proper date_type handling
-          let query = supabase
-            .from('vw_transaction_details')
-            .select('*')
-            .gte('operation_date_msk', formatMoscowDate(filters.dateFrom))
-            .lte('operation_date_msk', formatMoscowDate(filters.dateTo));
-          
-          // Apply SKU filter if specified
-          if (filters.sku) {
-            query = query.eq('item_sku', parseInt(filters.sku));
-          }
-          
-          const { data: transactionData, error: transactionError } = await query;
-          
-          if (transactionError) throw transactionError;
-          
-          // Calculate summary from transaction data with improved categorization
-          let totalSales = 0;
-          let totalCommissions = 0;
-          let totalDelivery = 0;
-          let totalReturns = 0;
-          let totalAds = 0;
-          let totalServices = 0;
-          
-          (transactionData || []).forEach(item => {
-            const accrualsForSale = toNumber(item.accruals_for_sale) || 0;
-            const saleCommission = Math.abs(toNumber(item.sale_commission)) || 0;
-            const deliveryCharge = Math.abs(toNumber(item.delivery_charge)) || 0;
-            const returnDeliveryCharge = Math.abs(toNumber(item.return_delivery_charge)) || 0;
-            const amount = Math.abs(toNumber(item.amount)) || 0;
-            const operationType = item.operation_type_name?.toLowerCase() || '';
-            
-            // Sales - prioritize accruals_for_sale, then check operation type
-            if (accrualsForSale > 0) {
-              totalSales += accrualsForSale;
-            } else if (operationType.includes('продаж') || operationType.includes('sale') || 
-                      operationType.includes('оплат') || operationType.includes('payment')) {
-              totalSales += amount;
-            }
-            
-            // Commissions - prioritize sale_commission field
-            if (saleCommission > 0) {
-              totalCommissions += saleCommission;
-            } else if (operationType.includes('комисс') || operationType.includes('commission') ||
-                      operationType.includes('сбор') || operationType.includes('fee')) {
-              totalCommissions += amount;
-            }
-            
-            // Delivery - prioritize delivery_charge field
-            if (deliveryCharge > 0) {
-              totalDelivery += deliveryCharge;
-            } else if (operationType.includes('доставк') || operationType.includes('delivery') ||
-                      operationType.includes('логистик') || operationType.includes('shipping')) {
-              totalDelivery += amount;
-            }
-            
-            // Returns - prioritize return_delivery_charge field
-            if (returnDeliveryCharge > 0) {
-              totalReturns += returnDeliveryCharge;
-            } else if (operationType.includes('возврат') || operationType.includes('return') ||
-                      operationType.includes('отмен') || operationType.includes('cancel')) {
-              totalReturns += amount;
-            }
-            
-            // Ads - check operation type
-            if (operationType.includes('реклам') || operationType.includes('ads') ||
-                operationType.includes('продвиж') || operationType.includes('promotion')) {
-              totalAds += amount;
-            }
-            
-            // Services - other service-related operations
-            if (operationType.includes('услуг') || operationType.includes('service') ||
-                operationType.includes('обслуж') || operationType.includes('processing')) {
-              // Exclude already categorized delivery services
-              if (!operationType.includes('доставк') && !operationType.includes('delivery')) {
-                totalServices += amount;
-              }
-            }
-            
-            // Catch-all for uncategorized transactions with positive amounts
-            if (amount > 0 && accrualsForSale === 0 && saleCommission === 0 && 
-                deliveryCharge === 0 && returnDeliveryCharge === 0 &&
-                !operationType.includes('продаж') && !operationType.includes('sale') &&
-                !operationType.includes('комисс') && !operationType.includes('commission') &&
-                !operationType.includes('доставк') && !operationType.includes('delivery') &&
-                !operationType.includes('возврат') && !operationType.includes('return') &&
-                !operationType.includes('реклам') && !operationType.includes('ads')) {
-              totalServices += amount;
-            }
-          });
-          
-          // Ensure minimum values for demonstration if all categories are zero
-          if (totalSales === 0 && totalCommissions === 0 && totalDelivery === 0 && 
-              totalReturns === 0 && totalAds === 0 && totalServices === 0) {
-            // Add some sample data to show categories
-            totalSales = 10000;
-            totalCommissions = 1500;
-            totalDelivery = 800;
-            totalReturns = 200;
-            totalAds = 300;
-            totalServices = 500;
-          }
-          
-          const summary: FinanceSummary = {
-            sales: totalSales,
-            commissions: totalCommissions,
-            delivery: totalDelivery,
-            returns: totalReturns,
-            ads: totalAds,
-            services: totalServices,
-            totalIncome: totalSales,
-            totalExpenses: totalCommissions + totalDelivery + totalReturns + totalAds + totalServices,
-            netProfit: totalSales - (totalCommissions + totalDelivery + totalReturns + totalAds + totalServices),
-          };
-
-          // Create categories array for pie chart (excluding zero values)
-          const categories: FinanceCategory[] = [];
-          const total = summary.totalIncome + summary.totalExpenses;
-          
-          Object.entries(summary).forEach(([key, value]) => {
-            if (key in CATEGORY_COLORS && value !== 0) {
-              const amount = key === 'sales' ? value : Math.abs(value);
-              categories.push({
-                category: CATEGORY_LABELS[key as keyof typeof CATEGORY_LABELS],
-                amount,
-                percentage: total > 0 ? (amount / total) * 100 : 0,
-                color: CATEGORY_COLORS[key as keyof typeof CATEGORY_COLORS],
-              });
-            }
-          });
-
-          return {
-            summary,
-            categories: categories.sort((a, b) => b.amount - a.amount),
-          };
-        }
-      }
-    },
+    queryFn: () => fetchFinanceData(filters),
     enabled: !!filters.dateFrom && !!filters.dateTo,
   });
 };
 
+export const useComparisonFinanceData = () => {
+  const comparisonFilters = useComparisonFilters();
+  
+  return useQuery({
+    queryKey: ['finance', comparisonFilters],
+    queryFn: () => fetchFinanceData(comparisonFilters),
+    enabled: !!comparisonFilters.dateFrom && !!comparisonFilters.dateTo,
+  });
+};
+
+// Transactions listed in the breakdown table
+const BREAKDOWN_TRANSACTIONS = 100;
+
 export const useFinanceBreakdown = () => {
   const { filters } = useFilters();
   
   return useQuery({
     queryKey: ['financeBreakdown', filters],
     queryFn: async () => {
-      // Use transaction details view for breakdown data
-      const { data, error } = await supabase
-        .from('vw_transaction_details')
-        .select('*')
-        .gte('operation_date_msk', formatMoscowDate(filters.dateFrom))
-        .lte('operation_date_msk', formatMoscowDate(filters.dateTo))
-        .order('operation_date_msk', { ascending: false })
-        .limit(100);
-      
-      if (error) throw error;
-
-      return (data || []).map(item => ({
-        date_msk: item.operation_date_msk || formatMoscowDate(new Date()),
-        posting_number: item.posting_number || 'N/A',
-        sales: toNumber(item.accruals_for_sale) || 0,
-        commissions: Math.abs(toNumber(item.sale_commission)) || 0,
-        delivery: Math.abs(toNumber(item.delivery_charge)) || 0,
-        returns: Math.abs(toNumber(item.return_delivery_charge)) || 0,
-        ads: 0, // No ads data in this table
-        services: Math.abs(toNumber(item.amount)) || 0,
-        net_profit: toNumber(item.amount) || 0,
-        operation_type: item.operation_type_name,
-      }));
+      // vw_transaction_details repeats a transaction once per service and
+      // item, so a row limit could cut the last transaction short
+      const [rules, rows] = await Promise.all([
+        loadCategorizationRules(),
+        fetchLatestTransactionDetails(toTransactionFilters(filters), BREAKDOWN_TRANSACTIONS),
+      ]);
+
+      return groupByTransaction(rows).map((transactionRows) => {
+        const [item] = transactionRows;
+        const parts = categorizeTransaction(transactionRows, rules);
+        // Expenses are negative, reported as positive costs like in the summary
+        const total = (category: FinanceCategoryKey) =>
+          parts
+            .filter((part) => (part.category ?? 'other') === category)
+            .reduce((sum, part) => sum + part.amount, 0);
+
+        return {
+          date_msk: item.operation_date_msk || formatMoscowDate(new Date()),
+          posting_number: item.posting_number || 'N/A',
+          sales: total('sales'),
+          commissions: -total('commissions'),
+          delivery: -total('delivery'),
+          returns: -total('returns'),
+          ads: -total('ads'),
+          services: -total('services'),
+          other: -total('other'),
+          net_profit: toNumber(item.amount) || 0,
+          operation_type: item.operation_type_name,
+        };
+      });
     },
     enabled: !!filters.dateFrom && !!filters.dateTo,
   });
-};
\ No newline at end of file
+};
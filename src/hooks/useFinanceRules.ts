@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { getDataSource, toTransactionFilters, fetchAllTransactionDetails } from '../lib/data-source';
+import {
+  CategorizationRule,
+  DEFAULT_CATEGORIZATION_RULES,
+  fromRuleRows,
+  toRuleRows,
+  summarizeByCategory,
+} from '../lib/finance-rules';
+import { useFilters } from './useFilters';
+
+// An empty rule table means the built-in defaults are in effect
+export const loadCategorizationRules = async (): Promise<CategorizationRule[]> => {
+  const source = await getDataSource();
+  const rows = await source.getCategorizationRules();
+  return rows.length > 0 ? fromRuleRows(rows) : DEFAULT_CATEGORIZATION_RULES;
+};
+
+export const useCategorizationRules = () => {
+  return useQuery({
+    queryKey: ['categorizationRules'],
+    queryFn: loadCategorizationRules,
+  });
+};
+
+export const useSaveCategorizationRules = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rules: CategorizationRule[]) => {
+      const source = await getDataSource();
+      await source.saveCategorizationRules(toRuleRows(rules));
+    },
+    // Finance totals and transaction categories both depend on the rules
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      toast.success('Правила сохранены');
+    },
+    onError: (error: Error) => {
+      console.error('Saving categorization rules failed:', error);
+      toast.error('Не удалось сохранить правила');
+    },
+  });
+};
+
+// Runs a (possibly unsaved) rule set over the selected period so the settings
+// screen can show what would stay uncategorized. The rows are fetched once per
+// period; edits to the rules only re-run the engine.
+export const useCategorizationPreview = (rules: CategorizationRule[] | undefined) => {
+  const { filters } = useFilters();
+
+  const rowsQuery = useQuery({
+    queryKey: ['categorizationPreviewRows', filters],
+    queryFn: () => fetchAllTransactionDetails(toTransactionFilters(filters)),
+    enabled: !!filters.dateFrom && !!filters.dateTo,
+  });
+
+  const summary = useMemo(
+    () => (rowsQuery.data && rules ? summarizeByCategory(rowsQuery.data, rules) : undefined),
+    [rowsQuery.data, rules]
+  );
+
+  return {
+    summary,
+    isLoading: rowsQuery.isLoading,
+    error: rowsQuery.error,
+    refetch: rowsQuery.refetch,
+  };
+};
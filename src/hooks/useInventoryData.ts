@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { getDataSource, toPeriodParams, FbsStockInput } from '../lib/data-source';
+import { useFilters, Filters } from './useFilters';
+import { usePageState } from '../contexts/PageStateContext';
+import { buildInventory, DEFAULT_INVENTORY_SETTINGS } from '../lib/inventory';
+import { daysBetween } from '../lib/sales-series';
+import { formatMoscowDate } from '../lib/date-utils';
+import { toNumber } from '../lib/format';
+
+const fetchInventory = async (filters: Filters) => {
+  const source = await getDataSource();
+  // Stock is not kept per region, so the velocity counts every region too
+  const periodParams = toPeriodParams({ ...filters, region: [], regionExclude: false });
+
+  const [stocks, metrics] = await Promise.all([
+    source.getFbsStocks(periodParams),
+    source.getProductsMetrics(periodParams),
+  ]);
+  const totalProducts = toNumber(metrics[0]?.total_products);
+  const stockSkus = Array.from(new Set(stocks.map((row) => toNumber(row.sku))));
+
+  const [products, options] = await Promise.all([
+    totalProducts > 0
+      ? source.getProductsPerformance({
+          ...periodParams,
+          searchTerm: null,
+          sortBy: 'revenue',
+          sortOrder: 'desc',
+          pageOffset: 0,
+          pageSize: totalProducts,
+        })
+      : [],
+    // Names of the SKUs in stock that did not sell in the period
+    stockSkus.length > 0
+      ? source.searchProducts({ searchTerm: null, skus: stockSkus, limit: stockSkus.length })
+      : [],
+  ]);
+
+  // Days of the period up to today; a period reaching into the future would
+  // otherwise dilute the velocity
+  const today = formatMoscowDate(new Date());
+  const periodEnd = periodParams.endDate < today ? periodParams.endDate : today;
+  const periodDays = Math.max(daysBetween(periodParams.startDate, periodEnd) + 1, 0);
+
+  const items = buildInventory(
+    stocks,
+    products.map((item) => ({
+      sku: toNumber(item.sku),
+      offerId: item.offer_id || '',
+      productName: item.product_name || '',
+      units: toNumber(item.delivered_units),
+    })),
+    periodDays,
+    new Map(options.map((option) => [toNumber(option.sku), option.product_name || ''] as const))
+  );
+
+  return {
+    items,
+    periodDays,
+    hasStocks: stocks.length > 0,
+    // Latest stock update, ISO timestamp
+    updatedAt: stocks.reduce<string | null>(
+      (latest, row) => (!latest || row.updated_at > latest ? row.updated_at : latest),
+      null
+    ),
+  };
+};
+
+export const useInventoryData = () => {
+  const { filters } = useFilters();
+
+  return useQuery({
+    queryKey: ['inventory', filters],
+    queryFn: () => fetchInventory(filters),
+    enabled: !!filters.dateFrom && !!filters.dateTo,
+  });
+};
+
+export const useInventorySettings = () => usePageState('inventory', DEFAULT_INVENTORY_SETTINGS);
+
+export const useFbsStockMutations = () => {
+  const queryClient = useQueryClient();
+
+  const replaceStocks = useMutation({
+    mutationFn: async ({ accountId, stocks }: { accountId: string; stocks: FbsStockInput[] }) => {
+      const source = await getDataSource();
+      await source.replaceFbsStocks(accountId, stocks);
+      return stocks.length;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['inventory'] }),
+    onError: (error: Error) => {
+      console.error('Stock upload failed:', error);
+      toast.error('Не удалось загрузить остатки');
+    },
+  });
+
+  return { replaceStocks };
+};
@@ -0,0 +1,126 @@
+import { useQuery } from '@tanstack/react-query';
+import { getDataSource, DateType, PostingRow } from '../lib/data-source';
+import { loadCategorizationRules } from './useFinanceRules';
+import { transformTransactionData, TransactionDetail } from './useTransactionsData';
+import { toNumber } from '../lib/format';
+import { summarizeByCategory } from '../lib/finance-rules';
+
+export interface PostingItem {
+  sku: number;
+  offerId: string;
+  name: string;
+  quantity: number;
+  price: number;
+  priceTotal: number;
+  // From financial_products: what Ozon expects to charge and pay out
+  commission: number;
+  payout: number;
+}
+
+export interface PostingPnl {
+  // What buyers paid for the items
+  priceTotal: number;
+  // Booked operations by finance category: income positive, expenses negative
+  accruals: number;
+  commission: number;
+  logistics: number;
+  returns: number;
+  // Ads, other services and operations no rule matched
+  other: number;
+  // Sum of all booked operations
+  payout: number;
+  // Payout according to financial_products, known before Ozon books anything
+  expectedPayout: number;
+}
+
+export interface PostingDetail {
+  postingNumber: string;
+  // null when only finance operations of the posting have been synced
+  posting: {
+    status: string;
+    substatus: string;
+    dates: Record<DateType, string | null>;
+    warehouseId: number;
+    warehouseName: string;
+    clusterFrom: string;
+    clusterTo: string;
+    cancelReason: string;
+  } | null;
+  items: PostingItem[];
+  transactions: TransactionDetail[];
+  pnl: PostingPnl;
+}
+
+export const transformPostingItems = (posting: PostingRow): PostingItem[] =>
+  posting.products.map((product, index) => {
+    const sku = toNumber(product.sku);
+    // financial_products lists the same items; matched by SKU, then by position
+    const finance =
+      posting.financial_products.find((item) => toNumber(item.product_id) === sku) ||
+      posting.financial_products[index];
+    const quantity = toNumber(product.quantity);
+    const price = toNumber(product.price);
+
+    return {
+      sku,
+      offerId: product.offer_id || '',
+      name: product.name || '',
+      quantity,
+      price,
+      priceTotal: price * quantity,
+      commission: Math.abs(toNumber(finance?.commission_amount)),
+      payout: toNumber(finance?.payout),
+    };
+  });
+
+const fetchPostingDetail = async (postingNumber: string): Promise<PostingDetail | null> => {
+  const source = await getDataSource();
+  const [posting, rows, rules] = await Promise.all([
+    source.getPosting(postingNumber),
+    source.getPostingTransactions(postingNumber),
+    loadCategorizationRules(),
+  ]);
+
+  if (!posting && rows.length === 0) return null;
+
+  const items = posting ? transformPostingItems(posting) : [];
+  const { totals } = summarizeByCategory(rows, rules);
+
+  return {
+    postingNumber,
+    posting: posting && {
+      status: posting.status || '',
+      substatus: posting.substatus || '',
+      dates: {
+        in_process_at: posting.in_process_at,
+        shipment_date: posting.shipment_date,
+        delivering_date: posting.delivering_date,
+      },
+      warehouseId: toNumber(posting.warehouse_id),
+      warehouseName: posting.warehouse_name || '',
+      clusterFrom: posting.cluster_from || '',
+      clusterTo: posting.cluster_to || '',
+      cancelReason: posting.cancel_reason || '',
+    },
+    items,
+    transactions: rows.map((row) => transformTransactionData(row, rules)),
+    pnl: {
+      priceTotal: items.reduce((sum, item) => sum + item.priceTotal, 0),
+      accruals: totals.sales,
+      commission: totals.commissions,
+      logistics: totals.delivery,
+      returns: totals.returns,
+      other: totals.ads + totals.services + totals.other,
+      payout: Object.values(totals).reduce((sum, value) => sum + value, 0),
+      expectedPayout: items.reduce((sum, item) => sum + item.payout, 0),
+    },
+  };
+};
+
+export const usePostingDetail = (postingNumber: string) => {
+  return useQuery({
+    queryKey: ['posting', postingNumber],
+    queryFn: () => fetchPostingDetail(postingNumber),
+    enabled: !!postingNumber,
+  });
+};
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { getDataSource, ProductCostInput } from '../lib/data-source';
+import { toNumber } from '../lib/format';
+
+export interface ProductCost {
+  id: number;
+  sku: number;
+  cost: number;
+  effectiveFrom: string;
+}
+
+export const useProductCosts = () => {
+  return useQuery({
+    queryKey: ['productCosts'],
+    queryFn: async () => {
+      const source = await getDataSource();
+      const data = await source.getProductCosts();
+
+      return data.map((item): ProductCost => ({
+        id: item.id,
+        sku: toNumber(item.sku),
+        cost: toNumber(item.cost),
+        effectiveFrom: item.effective_from,
+      }));
+    },
+  });
+};
+
+export const useProductCostMutations = () => {
+  const queryClient = useQueryClient();
+
+  // Costs feed into every profit figure, so all cached metrics are refreshed
+  const onSuccess = () => queryClient.invalidateQueries();
+  const onError = (error: Error) => {
+    console.error('Product cost update failed:', error);
+    toast.error('Не удалось сохранить себестоимость');
+  };
+
+  const upsertCosts = useMutation({
+    mutationFn: async (entries: ProductCostInput[]) => {
+      const source = await getDataSource();
+      await source.upsertProductCosts(entries);
+      return entries.length;
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteCost = useMutation({
+    mutationFn: async (id: number) => {
+      const source = await getDataSource();
+      await source.deleteProductCost(id);
+    },
+    onSuccess,
+    onError,
+  });
+
+  return { upsertCosts, deleteCost };
+};
@@ -0,0 +1,100 @@
+import { useQuery } from '@tanstack/react-query';
+import { getDataSource, toPeriodParams, toTransactionFilters, fetchAllTransactionDetails } from '../lib/data-source';
+import { useFilters, withProduct, Filters } from './useFilters';
+import { loadCategorizationRules } from './useFinanceRules';
+import { transformProductData, ProductPerformance } from './useProductsData';
+import { transformTransactionData, TransactionDetail } from './useTransactionsData';
+import { summarizeCogs } from '../lib/cogs';
+import { toComparisonFilters } from '../lib/comparison';
+import { FinanceCategoryKey, groupByTransaction, summarizeByCategory } from '../lib/finance-rules';
+
+export interface ProductSummary {
+  current: ProductPerformance | null;
+  previous: ProductPerformance | null;
+  unitsWithoutCost: number;
+}
+
+export interface ProductFinance {
+  // Signed category totals of the SKU's transactions: income positive,
+  // expenses negative
+  totals: Record<FinanceCategoryKey, number>;
+  transactionCount: number;
+  // Newest first
+  recent: TransactionDetail[];
+}
+
+const RECENT_TRANSACTIONS = 10;
+
+// Row of get_products_performance for one SKU; null when it had no sales
+const fetchProductPerformance = async (filters: Filters) => {
+  const source = await getDataSource();
+  const periodParams = toPeriodParams(filters);
+  const [data, cogsRows] = await Promise.all([
+    source.getProductsPerformance({
+      ...periodParams,
+      searchTerm: null,
+      sortBy: 'revenue',
+      sortOrder: 'desc',
+      pageOffset: 0,
+      pageSize: 1,
+    }),
+    source.getCogsBreakdown({ ...periodParams, dateType: filters.dateType }),
+  ]);
+  const cogs = summarizeCogs(cogsRows);
+
+  return {
+    performance: data[0] ? transformProductData(data[0], cogs.total) : null,
+    unitsWithoutCost: cogs.unitsWithoutCost,
+  };
+};
+
+export const useProductSummary = (sku: number) => {
+  const { filters: globalFilters } = useFilters();
+  const filters = withProduct(globalFilters, sku);
+
+  return useQuery({
+    queryKey: ['productSummary', filters],
+    queryFn: async (): Promise<ProductSummary> => {
+      const [current, previous] = await Promise.all([
+        fetchProductPerformance(filters),
+        fetchProductPerformance(toComparisonFilters(filters)),
+      ]);
+      return {
+        current: current.performance,
+        previous: previous.performance,
+        unitsWithoutCost: current.unitsWithoutCost,
+      };
+    },
+    enabled: !!filters.dateFrom && !!filters.dateTo,
+  });
+};
+
+// Transactions of vw_transaction_details that mention the SKU, split into
+// finance categories by the same rules as the finance page
+export const useProductFinance = (sku: number, enabled = true) => {
+  const { filters: globalFilters } = useFilters();
+  const filters = withProduct(globalFilters, sku);
+
+  return useQuery({
+    queryKey: ['productFinance', filters],
+    queryFn: async (): Promise<ProductFinance> => {
+      const [rules, rows] = await Promise.all([
+        loadCategorizationRules(),
+        fetchAllTransactionDetails(toTransactionFilters(filters)),
+      ]);
+      const { totals } = summarizeByCategory(rows, rules);
+      // The view repeats a transaction once per service and item
+      const transactions = groupByTransaction(rows).map(([first]) => first);
+      const recent = transactions
+        .sort((a, b) => (b.operation_date_msk || '').localeCompare(a.operation_date_msk || ''))
+        .slice(0, RECENT_TRANSACTIONS);
+
+      return {
+        totals,
+        transactionCount: transactions.length,
+        recent: recent.map((row) => transformTransactionData(row, rules)),
+      };
+    },
+    enabled: enabled && !!filters.dateFrom && !!filters.dateTo,
+  });
+};
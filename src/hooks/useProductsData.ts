@@ -1,9 +1,25 @@
+import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../lib/supabase';
-import { useFilters } from './useFilters';
+import { getDataSource, toPeriodParams, ProductPerformanceRow } from '../lib/data-source';
+import { useFilters, useComparisonFilters, Filters } from './useFilters';
+import { TableExportSource } from './useTableExport';
 import { formatMoscowDate } from '../lib/date-utils';
 import { toNumber } from '../lib/format';
-import { useState } from 'react';
+import { summarizeCogs } from '../lib/cogs';
+import { percentChange } from '../lib/comparison';
+import { useTableUrlState } from './useTableUrlState';
+import { usePageState } from '../contexts/PageStateContext';
+import {
+  ABC_CLASSES,
+  XYZ_CLASSES,
+  AbcXyzClassification,
+  DEFAULT_ABC_XYZ_THRESHOLDS,
+  classifyAbcXyz,
+  fullWeeks,
+  skusInClass,
+  summarizeAbcXyz,
+  toWeeklyUnits,
+} from '../lib/abc-xyz';
 
 export interface ProductPerformance {
   sku: number;
@@ -14,8 +30,16 @@ export interface ProductPerformance {
   gmv: number;
   revenue: number;
   commissions: number;
+  cogs: number;
   netProfit: number;
   avgPrice: number;
+  // Comparison period values; null until loaded or when the SKU had no sales
+  previousRevenue: number | null;
+  previousUnits: number | null;
+  revenueChange: number | null;
+  unitsChange: number | null;
+  // ABC/XYZ class such as "AX"; null until classified
+  abcXyz: string | null;
 }
 
 export interface ProductsTableState {
@@ -24,9 +48,12 @@ export interface ProductsTableState {
   search: string;
   sortBy: string;
   sortOrder: 'asc' | 'desc';
+  // ABC and XYZ class filters; empty = any class
+  abc: string;
+  xyz: string;
 }
 
-const transformProductData = (item: any): ProductPerformance => ({
+export const transformProductData = (item: ProductPerformanceRow, cogs = 0): ProductPerformance => ({
   sku: toNumber(item.sku),
   offer_id: item.offer_id || '',
   product_name: item.product_name || '',
@@ -35,72 +62,181 @@ const transformProductData = (item: any): ProductPerformance => ({
   gmv: toNumber(item.delivered_gmv),
   revenue: toNumber(item.delivered_revenue),
   commissions: Math.abs(toNumber(item.delivered_commissions)),
-  netProfit: toNumber(item.delivered_revenue) - Math.abs(toNumber(item.delivered_commissions)),
+  cogs,
+  netProfit: toNumber(item.delivered_revenue) - Math.abs(toNumber(item.delivered_commissions)) - cogs,
   avgPrice: toNumber(item.avg_price),
+  previousRevenue: null,
+  previousUnits: null,
+  revenueChange: null,
+  unitsChange: null,
+  abcXyz: null,
 });
 
-export const useProductsTable = () => {
-  const [tableState, setTableState] = useState<ProductsTableState>({
-    page: 0,
-    pageSize: 20,
-    search: '',
-    sortBy: 'revenue',
-    sortOrder: 'desc',
-  });
+const withComparison = (
+  rows: ProductPerformance[],
+  comparison: Map<number, ProductPerformance> | undefined
+) =>
+  comparison
+    ? rows.map((row): ProductPerformance => {
+        const before = comparison.get(row.sku);
+        return {
+          ...row,
+          previousRevenue: before?.revenue ?? null,
+          previousUnits: before?.units ?? null,
+          revenueChange: percentChange(row.revenue, before?.revenue),
+          unitsChange: percentChange(row.units, before?.units),
+        };
+      })
+    : rows;
 
-  const updateTableState = (updates: Partial<ProductsTableState>) => {
-    setTableState(prev => ({ ...prev, ...updates }));
-  };
+const withClasses = (
+  rows: ProductPerformance[],
+  classes: Map<number, AbcXyzClassification> | undefined
+) =>
+  classes
+    ? rows.map((row): ProductPerformance => {
+        const classification = classes.get(row.sku);
+        return {
+          ...row,
+          abcXyz: classification ? `${classification.abc}${classification.xyz ?? ''}` : null,
+        };
+      })
+    : rows;
+
+const DEFAULT_PRODUCTS_TABLE_STATE: ProductsTableState = {
+  page: 0,
+  pageSize: 20,
+  search: '',
+  sortBy: 'revenue',
+  sortOrder: 'desc',
+  abc: '',
+  xyz: '',
+};
+
+// Columns with sortable: true on the products page
+const SORTABLE_PRODUCTS_COLUMNS = ['sku', 'units', 'gmv', 'revenue'];
+
+export const useProductsTable = () =>
+  useTableUrlState('products', DEFAULT_PRODUCTS_TABLE_STATE, SORTABLE_PRODUCTS_COLUMNS);
+
+// SKUs matching the class filters of the table: null without class filters,
+// undefined while the classes are loading
+const useClassFilterSkus = (tableState: ProductsTableState) => {
+  const { classes } = useProductsAbcXyz();
+  const abc = ABC_CLASSES.find((value) => value === tableState.abc) || '';
+  const xyz = XYZ_CLASSES.find((value) => value === tableState.xyz) || '';
+
+  return useMemo(() => {
+    if (!abc && !xyz) return null;
+    return classes ? skusInClass(classes, abc, xyz) : undefined;
+  }, [classes, abc, xyz]);
+};
+
+const fetchProductsPage = async (
+  filters: Filters,
+  tableState: ProductsTableState,
+  classSkus: number[] | null
+) => {
+  if (classSkus && classSkus.length === 0) {
+    return { data: [], totalCount: 0, totalPages: 0, unitsWithoutCost: 0 };
+  }
+
+  const source = await getDataSource();
+  // The classes come from the filtered products, so their SKUs stay
+  // within the SKU filter and can replace it
+  const periodParams = toPeriodParams(
+    classSkus ? { ...filters, sku: classSkus, skuExclude: false } : filters
+  );
+
+  // Get total count first
+  const countData = await source.getProductsMetrics(periodParams);
+  
+  const totalCount = toNumber(countData[0]?.total_products) || 0;
+  
+  // Get paginated data together with cost of goods per SKU
+  const [data, cogsRows] = await Promise.all([
+    source.getProductsPerformance({
+      ...periodParams,
+      searchTerm: tableState.search || null,
+      sortBy: tableState.sortBy,
+      sortOrder: tableState.sortOrder,
+      pageOffset: tableState.page * tableState.pageSize,
+      pageSize: tableState.pageSize,
+    }),
+    source.getCogsBreakdown({ ...periodParams, dateType: filters.dateType }),
+  ]);
+  const cogs = summarizeCogs(cogsRows);
+
+  const transformedData = data.map((item) =>
+    transformProductData(item, cogs.bySku.get(toNumber(item.sku)) || 0)
+  );
 
   return {
-    tableState,
-    updateTableState,
+    data: transformedData,
+    totalCount,
+    totalPages: Math.ceil(totalCount / tableState.pageSize),
+    unitsWithoutCost: cogs.unitsWithoutCost,
   };
 };
 
 export const useProductsData = (tableState: ProductsTableState) => {
   const { filters } = useFilters();
+  const { data: comparison } = useProductsComparison();
+  const { classes } = useProductsAbcXyz();
+  const classSkus = useClassFilterSkus(tableState);
   
   return useQuery({
-    queryKey: ['products', filters, tableState],
-    queryFn: async () => {
-      // Get total count first
-      const { data: countData, error: countError } = await supabase.rpc('get_products_metrics', {
-        start_date: formatMoscowDate(filters.dateFrom),
-        end_date: formatMoscowDate(filters.dateTo),
-        sku_filter: filters.sku ? parseInt(filters.sku) : null,
-        region_filter: filters.region || null,
-      });
-      
-      if (countError) throw countError;
-      
-      const totalCount = toNumber(countData?.[0]?.total_products) || 0;
-      
-      // Get paginated data
-      const { data, error } = await supabase.rpc('get_products_performance', {
-        start_date: formatMoscowDate(filters.dateFrom),
-        end_date: formatMoscowDate(filters.dateTo),
-        sku_filter: filters.sku ? parseInt(filters.sku) : null,
-        region_filter: filters.region || null,
-        search_term: tableState.search || null,
-        sort_by: tableState.sortBy === 'netProfit' ? 'revenue' : tableState.sortBy,
-        sort_order: tableState.sortOrder,
-        page_offset: tableState.page * tableState.pageSize,
-        page_size: tableState.pageSize,
-      });
-
-      if (error) throw error;
+    queryKey: ['products', filters, tableState, classSkus],
+    queryFn: () => fetchProductsPage(filters, tableState, classSkus ?? null),
+    select: (result) => ({
+      ...result,
+      data: withClasses(withComparison(result.data, comparison), classes),
+    }),
+    enabled: !!filters.dateFrom && !!filters.dateTo && classSkus !== undefined,
+  });
+};
 
-      const transformedData = (data || []).map(transformProductData);
+// Walks all pages of get_products_performance with the current filters and sort
+export const useProductsExport = (
+  tableState: ProductsTableState
+): TableExportSource<ProductPerformance> => {
+  const { filters } = useFilters();
+  const { data: comparison } = useProductsComparison();
+  const { classes } = useProductsAbcXyz();
+  const classSkus = useClassFilterSkus(tableState);
 
+  return {
+    fileName: `products_${formatMoscowDate(filters.dateFrom)}_${formatMoscowDate(filters.dateTo)}`,
+    pageSize: 500,
+    fetchPage: async (page, pageSize) => {
+      const result = await fetchProductsPage(filters, { ...tableState, page, pageSize }, classSkus ?? null);
       return {
-        data: transformedData,
-        totalCount,
-        totalPages: Math.ceil(totalCount / tableState.pageSize),
+        rows: withClasses(withComparison(result.data, comparison), classes),
+        totalCount: result.totalCount,
       };
     },
-    enabled: !!filters.dateFrom && !!filters.dateTo,
-  });
+  };
+};
+
+const fetchProductsMetrics = async (filters: Filters) => {
+  const source = await getDataSource();
+  const data = await source.getProductsMetrics(toPeriodParams(filters));
+  
+  const result = data[0] || {
+    total_products: 0,
+    total_revenue: 0,
+    total_units: 0,
+    total_orders: 0,
+    avg_revenue_per_product: 0,
+  };
+
+  return {
+    totalProducts: toNumber(result.total_products),
+    totalRevenue: toNumber(result.total_revenue),
+    totalUnits: toNumber(result.total_units),
+    totalOrders: toNumber(result.total_orders),
+    avgRevenuePerProduct: toNumber(result.avg_revenue_per_product),
+  };
 };
 
 export const useProductsMetrics = () => {
@@ -108,32 +244,107 @@ export const useProductsMetrics = () => {
   
   return useQuery({
     queryKey: ['productsMetrics', filters],
+    queryFn: () => fetchProductsMetrics(filters),
+    enabled: !!filters.dateFrom && !!filters.dateTo,
+  });
+};
+
+export const useComparisonProductsMetrics = () => {
+  const comparisonFilters = useComparisonFilters();
+  
+  return useQuery({
+    queryKey: ['productsMetrics', comparisonFilters],
+    queryFn: () => fetchProductsMetrics(comparisonFilters),
+    enabled: !!comparisonFilters.dateFrom && !!comparisonFilters.dateTo,
+  });
+};
+
+// Every product of the comparison period by SKU, for the revenue and units
+// delta columns (cost of goods is not loaded here). Kept apart from the
+// paginated table query so paging does not refetch it.
+export const useProductsComparison = () => {
+  const comparisonFilters = useComparisonFilters();
+
+  return useQuery({
+    queryKey: ['productsComparison', comparisonFilters],
     queryFn: async () => {
-      const { data, error } = await supabase.rpc('get_products_metrics', {
-        start_date: formatMoscowDate(filters.dateFrom),
-        end_date: formatMoscowDate(filters.dateTo),
-        sku_filter: filters.sku ? parseInt(filters.sku) : null,
-        region_filter: filters.region || null,
-      });
+      const source = await getDataSource();
+      const periodParams = toPeriodParams(comparisonFilters);
+      const { totalProducts } = await fetchProductsMetrics(comparisonFilters);
+      if (totalProducts === 0) return new Map<number, ProductPerformance>();
 
-      if (error) throw error;
-      
-      const result = data?.[0] || {
-        total_products: 0,
-        total_revenue: 0,
-        total_units: 0,
-        total_orders: 0,
-        avg_revenue_per_product: 0,
-      };
+      const data = await source.getProductsPerformance({
+        ...periodParams,
+        searchTerm: null,
+        sortBy: 'revenue',
+        sortOrder: 'desc',
+        pageOffset: 0,
+        pageSize: totalProducts,
+      });
 
-      return {
-        totalProducts: toNumber(result.total_products),
-        totalRevenue: toNumber(result.total_revenue),
-        totalUnits: toNumber(result.total_units),
-        totalOrders: toNumber(result.total_orders),
-        avgRevenuePerProduct: toNumber(result.avg_revenue_per_product),
-      };
+      return new Map(
+        data.map((item) => [toNumber(item.sku), transformProductData(item)] as const)
+      );
     },
+    enabled: !!comparisonFilters.dateFrom && !!comparisonFilters.dateTo,
+  });
+};
+
+// Every product of the period with its weekly units, the input of the
+// ABC/XYZ classes. Loaded once per filter change, like the comparison.
+const fetchProductsAbcXyz = async (filters: Filters) => {
+  const source = await getDataSource();
+  const periodParams = toPeriodParams(filters);
+  const { totalProducts } = await fetchProductsMetrics(filters);
+  const weeks = fullWeeks(periodParams.startDate, periodParams.endDate);
+  if (totalProducts === 0) return { products: [], weeklyUnits: new Map<number, number[]>(), weeks };
+
+  const [data, weeklyRows] = await Promise.all([
+    source.getProductsPerformance({
+      ...periodParams,
+      searchTerm: null,
+      sortBy: 'revenue',
+      sortOrder: 'desc',
+      pageOffset: 0,
+      pageSize: totalProducts,
+    }),
+    source.getSkuWeeklyUnits(periodParams),
+  ]);
+
+  return {
+    products: data.map((item) => ({ sku: toNumber(item.sku), revenue: toNumber(item.delivered_revenue) })),
+    weeklyUnits: toWeeklyUnits(weeklyRows, weeks),
+    weeks,
+  };
+};
+
+// ABC/XYZ classes of the period's products with the thresholds kept in the
+// page state; changing a threshold reclassifies without refetching
+export const useProductsAbcXyz = () => {
+  const { filters } = useFilters();
+  const [thresholds, updateThresholds] = usePageState('abcXyz', DEFAULT_ABC_XYZ_THRESHOLDS);
+
+  const query = useQuery({
+    queryKey: ['productsAbcXyz', filters],
+    queryFn: () => fetchProductsAbcXyz(filters),
     enabled: !!filters.dateFrom && !!filters.dateTo,
   });
-};
\ No newline at end of file
+
+  const { data } = query;
+  const classification = useMemo(() => {
+    if (!data) return null;
+    const classes = classifyAbcXyz(data.products, data.weeklyUnits, data.weeks, thresholds);
+    return { classes, cells: summarizeAbcXyz(data.products, classes) };
+  }, [data, thresholds]);
+
+  return {
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+    weeks: data?.weeks ?? 0,
+    classes: classification?.classes,
+    cells: classification?.cells,
+    thresholds,
+    updateThresholds,
+  };
+};
@@ -1,8 +1,9 @@
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../lib/supabase';
-import { useFilters } from './useFilters';
-import { formatMoscowDate } from '../lib/date-utils';
+import { getDataSource, toPeriodParams, RegionPerformanceRow } from '../lib/data-source';
+import { useFilters, useComparisonFilters, withProduct, Filters } from './useFilters';
 import { toNumber } from '../lib/format';
+import { summarizeCogs } from '../lib/cogs';
+import { percentChange, toComparisonFilters } from '../lib/comparison';
 
 export interface RegionPerformance {
   region: string;
@@ -11,81 +12,117 @@ export interface RegionPerformance {
   gmv: number;
   revenue: number;
   commissions: number;
+  cogs: number;
   netProfit: number;
   avgOrderValue: number;
+  // Same metrics in the comparison period; null when the region had no sales
+  previousRevenue: number | null;
+  previousUnits: number | null;
+  revenueChange: number | null;
 }
 
-const transformRegionData = (item: any): RegionPerformance => ({
+export const transformRegionData = (item: RegionPerformanceRow, cogs = 0): RegionPerformance => ({
   region: item.region || 'Не указан',
   orders: toNumber(item.delivered_orders),
   units: toNumber(item.delivered_units),
   gmv: toNumber(item.delivered_gmv),
   revenue: toNumber(item.delivered_revenue),
   commissions: Math.abs(toNumber(item.delivered_commissions)),
-  netProfit: toNumber(item.delivered_revenue) - Math.abs(toNumber(item.delivered_commissions)),
+  cogs,
+  netProfit: toNumber(item.delivered_revenue) - Math.abs(toNumber(item.delivered_commissions)) - cogs,
   avgOrderValue: toNumber(item.delivered_orders) > 0 
     ? toNumber(item.delivered_gmv) / toNumber(item.delivered_orders) 
     : 0,
+  previousRevenue: null,
+  previousUnits: null,
+  revenueChange: null,
 });
 
-export const useRegionsData = () => {
-  const { filters } = useFilters();
+const fetchRegionsPerformance = async (filters: Filters) => {
+  const source = await getDataSource();
+  const periodParams = toPeriodParams(filters);
+  const [data, cogsRows] = await Promise.all([
+    source.getRegionsPerformance(periodParams),
+    source.getCogsBreakdown({ ...periodParams, dateType: filters.dateType }),
+  ]);
+  const cogs = summarizeCogs(cogsRows);
+
+  return data.map((item) =>
+    transformRegionData(item, cogs.byRegion.get(item.region || 'Не указан') || 0)
+  );
+};
+
+// sku: the regional split of one product
+export const useRegionsData = (sku?: number) => {
+  const { filters: globalFilters } = useFilters();
+  const filters = sku ? withProduct(globalFilters, sku) : globalFilters;
   
   return useQuery({
     queryKey: ['regions', filters],
     queryFn: async () => {
-      const { data, error } = await supabase.rpc('get_regions_performance', {
-        start_date: formatMoscowDate(filters.dateFrom),
-        end_date: formatMoscowDate(filters.dateTo),
-        sku_filter: filters.sku ? parseInt(filters.sku) : null,
-        region_filter: filters.region || null,
-      });
-
-      if (error) throw error;
+      const [current, previous] = await Promise.all([
+        fetchRegionsPerformance(filters),
+        fetchRegionsPerformance(toComparisonFilters(filters)),
+      ]);
+      const previousByRegion = new Map(previous.map((item) => [item.region, item]));
 
-      return (data || []).map(transformRegionData);
+      return current.map((item): RegionPerformance => {
+        const before = previousByRegion.get(item.region);
+        return {
+          ...item,
+          previousRevenue: before?.revenue ?? null,
+          previousUnits: before?.units ?? null,
+          revenueChange: percentChange(item.revenue, before?.revenue),
+        };
+      });
     },
     enabled: !!filters.dateFrom && !!filters.dateTo,
   });
 };
 
+const fetchRegionsMetrics = async (filters: Filters) => {
+  const source = await getDataSource();
+  const data = await source.getRegionsMetrics(toPeriodParams(filters));
+  
+  const result = data[0] || {
+    total_regions: 0,
+    total_revenue: 0,
+    total_units: 0,
+    total_orders: 0,
+    total_gmv: 0,
+    avg_revenue_per_region: 0,
+    top_region: null,
+    top_region_revenue: 0,
+  };
+
+  return {
+    totalRegions: toNumber(result.total_regions),
+    totalRevenue: toNumber(result.total_revenue),
+    totalUnits: toNumber(result.total_units),
+    totalOrders: toNumber(result.total_orders),
+    totalGmv: toNumber(result.total_gmv),
+    avgRevenuePerRegion: toNumber(result.avg_revenue_per_region),
+    topRegion: result.top_region,
+    topRegionRevenue: toNumber(result.top_region_revenue),
+  };
+};
+
 export const useRegionsMetrics = () => {
   const { filters } = useFilters();
   
   return useQuery({
     queryKey: ['regionsMetrics', filters],
-    queryFn: async () => {
-      const { data, error } = await supabase.rpc('get_regions_metrics', {
-        start_date: formatMoscowDate(filters.dateFrom),
-        end_date: formatMoscowDate(filters.dateTo),
-        sku_filter: filters.sku ? parseInt(filters.sku) : null,
-        region_filter: filters.region || null,
-      });
-
-      if (error) throw error;
-      
-      const result = data?.[0] || {
-        total_regions: 0,
-        total_revenue: 0,
-        total_units: 0,
-        total_orders: 0,
-        total_gmv: 0,
-        avg_revenue_per_region: 0,
-        top_region: null,
-        top_region_revenue: 0,
-      };
-
-      return {
-        totalRegions: toNumber(result.total_regions),
-        totalRevenue: toNumber(result.total_revenue),
-        totalUnits: toNumber(result.total_units),
-        totalOrders: toNumber(result.total_orders),
-        totalGmv: toNumber(result.total_gmv),
-        avgRevenuePerRegion: toNumber(result.avg_revenue_per_region),
-        topRegion: result.top_region,
-        topRegionRevenue: toNumber(result.top_region_revenue),
-      };
-    },
+    queryFn: () => fetchRegionsMetrics(filters),
     enabled: !!filters.dateFrom && !!filters.dateTo,
   });
-};
\ No newline at end of file
+};
+
+export const useComparisonRegionsMetrics = () => {
+  const comparisonFilters = useComparisonFilters();
+  
+  return useQuery({
+    queryKey: ['regionsMetrics', comparisonFilters],
+    queryFn: () => fetchRegionsMetrics(comparisonFilters),
+    enabled: !!comparisonFilters.dateFrom && !!comparisonFilters.dateTo,
+  });
+};
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { getDataSource, ReplenishmentSettingsRow } from '../lib/data-source';
+import { usePageState } from '../contexts/PageStateContext';
+import { DEFAULT_REPLENISHMENT_SETTINGS } from '../lib/replenishment';
+
+// Purchasing parameters by SKU; SKUs without a row use the defaults
+export const useReplenishmentParams = () => {
+  return useQuery({
+    queryKey: ['replenishmentSettings'],
+    queryFn: async () => {
+      const source = await getDataSource();
+      const data = await source.getReplenishmentSettings();
+      return new Map(data.map((row) => [Number(row.sku), row] as const));
+    },
+  });
+};
+
+export const useReplenishmentParamsMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entries: ReplenishmentSettingsRow[]) => {
+      const source = await getDataSource();
+      await source.upsertReplenishmentSettings(entries);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['replenishmentSettings'] }),
+    onError: (error: Error) => {
+      console.error('Replenishment settings update failed:', error);
+      toast.error('Не удалось сохранить параметры закупки');
+    },
+  });
+};
+
+export const useReplenishmentSettings = () =>
+  usePageState('replenishment', DEFAULT_REPLENISHMENT_SETTINGS);
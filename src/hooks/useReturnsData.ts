@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import { getDataSource, toPeriodParams } from '../lib/data-source';
+import { useFilters, Filters } from './useFilters';
+import { usePageState } from '../contexts/PageStateContext';
+import { DEFAULT_RETURNS_SETTINGS } from '../lib/returns';
+import { toNumber } from '../lib/format';
+
+export interface ReturnsProduct {
+  offerId: string;
+  productName: string;
+}
+
+const fetchReturns = async (filters: Filters) => {
+  const source = await getDataSource();
+  const periodParams = toPeriodParams(filters);
+
+  const [rows, days] = await Promise.all([
+    source.getReturnsBreakdown(periodParams),
+    source.getReturnsDaily(periodParams),
+  ]);
+
+  const skus = Array.from(new Set(rows.map((row) => toNumber(row.sku))));
+  const options =
+    skus.length > 0 ? await source.searchProducts({ searchTerm: null, skus, limit: skus.length }) : [];
+
+  return {
+    rows,
+    days,
+    products: new Map(
+      options.map((option) => [
+        toNumber(option.sku),
+        { offerId: option.offer_id || '', productName: option.product_name || '' } as ReturnsProduct,
+      ])
+    ),
+  };
+};
+
+export const useReturnsData = () => {
+  const { filters } = useFilters();
+
+  return useQuery({
+    queryKey: ['returns', filters],
+    queryFn: () => fetchReturns(filters),
+    enabled: !!filters.dateFrom && !!filters.dateTo,
+  });
+};
+
+export const useReturnsSettings = () => usePageState('returns', DEFAULT_RETURNS_SETTINGS);
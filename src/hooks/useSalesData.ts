@@ -1,8 +1,11 @@
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../lib/supabase';
-import { useFilters } from './useFilters';
-import { formatMoscowDate, getPreviousPeriod } from '../lib/date-utils';
+import { getDataSource, toPeriodParams, SalesMetricsRow } from '../lib/data-source';
+import { useFilters, useComparisonFilters, Filters } from './useFilters';
+import { formatMoscowDate } from '../lib/date-utils';
 import { toNumber } from '../lib/format';
+import { summarizeCogs } from '../lib/cogs';
+import { addDays, fillDailyGaps, SalesBucket } from '../lib/sales-series';
+import { forecastSeries } from '../lib/forecast';
 
 export interface SalesMetrics {
   totalOrders: number;
@@ -18,19 +21,12 @@ export interface SalesMetrics {
   deliveredCommissions: number;
   cancelledGmv: number;
   inDeliveryGmv: number;
+  // Cost of goods of delivered units, already subtracted from netProfit
+  cogs: number;
   netProfit: number;
 }
 
-export interface DailySalesData {
-  date: string;
-  orders: number;
-  units: number;
-  gmv: number;
-  revenue: number;
-  avgOrderValue: number;
-}
-
-const transformSalesMetrics = (data: any): SalesMetrics => ({
+export const transformSalesMetrics = (data: SalesMetricsRow, cogs = 0): SalesMetrics => ({
   totalOrders: toNumber(data.total_orders),
   totalUnits: toNumber(data.total_units),
   totalGmv: toNumber(data.total_gmv),
@@ -44,79 +40,200 @@ const transformSalesMetrics = (data: any): SalesMetrics => ({
   deliveredCommissions: toNumber(data.delivered_commissions),
   cancelledGmv: toNumber(data.cancelled_gmv),
   inDeliveryGmv: toNumber(data.in_delivery_gmv),
-  netProfit: toNumber(data.net_profit),
+  cogs,
+  netProfit: toNumber(data.net_profit) - cogs,
 });
 
+const fetchSalesMetrics = async (filters: Filters) => {
+  const source = await getDataSource();
+  const params = { ...toPeriodParams(filters), dateType: filters.dateType };
+  const [data, cogsRows] = await Promise.all([
+    source.getSalesMetrics(params),
+    source.getCogsBreakdown(params),
+  ]);
+
+  return data[0] ? transformSalesMetrics(data[0], summarizeCogs(cogsRows).total) : null;
+};
+
 export const useSalesMetrics = () => {
   const { filters } = useFilters();
   
   return useQuery({
     queryKey: ['salesMetrics', filters],
-    queryFn: async () => {
-      const { data, error } = await supabase.rpc('get_sales_metrics_by_date_type', {
-        start_date: formatMoscowDate(filters.dateFrom),
-        end_date: formatMoscowDate(filters.dateTo),
-        date_type: filters.dateType,
-        sku_filter: filters.sku ? parseInt(filters.sku) : null,
-        region_filter: filters.region || null,
-      });
-
-      if (error) throw error;
-      return data?.[0] ? transformSalesMetrics(data[0]) : null;
-    },
+    queryFn: () => fetchSalesMetrics(filters),
     enabled: !!filters.dateFrom && !!filters.dateTo,
   });
 };
 
-export const usePreviousSalesMetrics = () => {
+export const useComparisonSalesMetrics = () => {
+  const comparisonFilters = useComparisonFilters();
+  
+  return useQuery({
+    queryKey: ['salesMetrics', comparisonFilters],
+    queryFn: () => fetchSalesMetrics(comparisonFilters),
+    enabled: !!comparisonFilters.dateFrom && !!comparisonFilters.dateTo,
+  });
+};
+
+// Days fetched before the period so a 28-day moving average is complete
+// from the first day of the chart
+export const DAILY_SALES_LEAD_IN_DAYS = 27;
+
+export interface DailySalesSeries {
+  // Gap-free, one entry per Moscow calendar day of the period
+  days: SalesBucket[];
+  // The DAILY_SALES_LEAD_IN_DAYS days right before the period
+  leadIn: SalesBucket[];
+}
+
+const fetchDailySales = async (filters: Filters, sku?: number): Promise<DailySalesSeries> => {
+  const source = await getDataSource();
+  const startDate = formatMoscowDate(filters.dateFrom);
+  const endDate = formatMoscowDate(filters.dateTo);
+  const leadInStart = addDays(startDate, -DAILY_SALES_LEAD_IN_DAYS);
+  const data = await source.getDailySales({
+    startDate: leadInStart,
+    endDate,
+    dateType: filters.dateType,
+    accountFilter: filters.accountId || null,
+    sku: sku ?? null,
+  });
+
+  const series = fillDailyGaps(
+    data.map((item) => ({
+      date: item.date_msk,
+      orders: toNumber(item.delivered_orders),
+      units: toNumber(item.delivered_units),
+      gmv: toNumber(item.delivered_gmv),
+      revenue: toNumber(item.delivered_revenue),
+    })),
+    leadInStart,
+    endDate
+  );
+
+  return {
+    days: series.slice(DAILY_SALES_LEAD_IN_DAYS),
+    leadIn: series.slice(0, DAILY_SALES_LEAD_IN_DAYS),
+  };
+};
+
+// sku: one product's series instead of the whole shop
+export const useDailySales = (sku?: number) => {
   const { filters } = useFilters();
-  const previousPeriod = getPreviousPeriod(filters.dateFrom, filters.dateTo);
   
   return useQuery({
-    queryKey: ['salesMetrics', 'previous', previousPeriod, filters.sku, filters.region, filters.dateType],
-    queryFn: async () => {
-      const { data, error } = await supabase.rpc('get_sales_metrics_by_date_type', {
-        start_date: formatMoscowDate(previousPeriod.from),
-        end_date: formatMoscowDate(previousPeriod.to),
-        date_type: filters.dateType,
-        sku_filter: filters.sku ? parseInt(filters.sku) : null,
-        region_filter: filters.region || null,
-      });
-
-      if (error) throw error;
-      return data?.[0] ? transformSalesMetrics(data[0]) : null;
-    },
+    queryKey: ['dailySales', filters, sku ?? null],
+    queryFn: () => fetchDailySales(filters, sku),
     enabled: !!filters.dateFrom && !!filters.dateTo,
   });
 };
 
-export const useDailySales = () => {
-  const { filters } = useFilters();
+export const useComparisonDailySales = (sku?: number) => {
+  const comparisonFilters = useComparisonFilters();
   
   return useQuery({
-    queryKey: ['dailySales', filters],
-    queryFn: async () => {
-      let query = supabase
-        .from('vw_daily_sales_by_date_type')
-        .select('*')
-        .eq('date_type', filters.dateType)
-        .gte('date_msk', formatMoscowDate(filters.dateFrom))
-        .lte('date_msk', formatMoscowDate(filters.dateTo))
-        .order('date_msk');
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      
-      return (data || []).map((item): DailySalesData => ({
-        date: item.date_msk,
-        orders: toNumber(item.delivered_orders),
-        units: toNumber(item.delivered_units),
-        gmv: toNumber(item.delivered_gmv),
-        revenue: toNumber(item.delivered_revenue),
-        avgOrderValue: toNumber(item.delivered_gmv) / Math.max(toNumber(item.delivered_orders), 1),
-      }));
+    queryKey: ['dailySales', comparisonFilters, sku ?? null],
+    queryFn: () => fetchDailySales(comparisonFilters, sku),
+    enabled: !!comparisonFilters.dateFrom && !!comparisonFilters.dateTo,
+  });
+};
+
+// Twelve full weeks of history for the forecast, whatever the period length
+const FORECAST_HISTORY_DAYS = 84;
+
+// Today's sales are still coming in, so the forecast is fitted on full days:
+// up to the period end, or up to yesterday for a period that reaches today
+export const lastCompleteDay = (endDate: string) => {
+  const yesterday = addDays(formatMoscowDate(new Date()), -1);
+  return endDate < yesterday ? endDate : yesterday;
+};
+
+const fetchForecastHistory = async (
+  filters: Filters,
+  endDate: string,
+  sku?: number
+): Promise<SalesBucket[]> => {
+  const source = await getDataSource();
+  const startDate = addDays(endDate, -(FORECAST_HISTORY_DAYS - 1));
+  const data = await source.getDailySales({
+    startDate,
+    endDate,
+    dateType: filters.dateType,
+    accountFilter: filters.accountId || null,
+    sku: sku ?? null,
+  });
+
+  return fillDailyGaps(
+    data.map((item) => ({
+      date: item.date_msk,
+      orders: toNumber(item.delivered_orders),
+      units: toNumber(item.delivered_units),
+      gmv: toNumber(item.delivered_gmv),
+      revenue: toNumber(item.delivered_revenue),
+    })),
+    startDate,
+    endDate
+  );
+};
+
+// Daily history the sales chart forecast is fitted on, ending at the last
+// complete day of the period. Only loaded while the forecast is switched on.
+export const useForecastHistory = (sku?: number, enabled = true) => {
+  const { filters } = useFilters();
+  const endDate = lastCompleteDay(formatMoscowDate(filters.dateTo));
+
+  return useQuery({
+    queryKey: ['forecastHistory', filters.dateType, filters.accountId, endDate, sku ?? null],
+    queryFn: () => fetchForecastHistory(filters, endDate, sku),
+    enabled: enabled && !!filters.dateTo,
+  });
+};
+
+export interface MonthEndForecast {
+  // Delivered GMV from the 1st of the current month through yesterday
+  actual: number;
+  // actual plus the forecast for today and the remaining days
+  projected: number;
+  lower80: number;
+  upper80: number;
+  // GMV of the whole previous month
+  previousMonth: number;
+}
+
+const daysInMonth = (date: string) => {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+// GMV of the current calendar month: actual days plus the forecast of the
+// rest. Independent of the selected period; follows the date type and account.
+export const useMonthEndForecast = () => {
+  const { filters } = useFilters();
+  const yesterday = addDays(formatMoscowDate(new Date()), -1);
+
+  return useQuery({
+    queryKey: ['forecastHistory', filters.dateType, filters.accountId, yesterday, null],
+    queryFn: () => fetchForecastHistory(filters, yesterday),
+    select: (days): MonthEndForecast | null => {
+      const today = addDays(yesterday, 1);
+      const monthStart = `${today.slice(0, 7)}-01`;
+      const previousMonthStart = `${addDays(monthStart, -1).slice(0, 7)}-01`;
+      const remaining = daysInMonth(today) - Number(today.slice(8, 10)) + 1;
+      const forecast = forecastSeries(days.map((day) => day.gmv), remaining);
+      if (!forecast) return null;
+
+      const sumGmv = (from: string, to: string) =>
+        days.filter((day) => day.date >= from && day.date <= to).reduce((sum, day) => sum + day.gmv, 0);
+      const actual = sumGmv(monthStart, yesterday);
+      // Day-level bands are summed as they are, which overstates the
+      // uncertainty of the total a little; good enough for a headline number
+      return {
+        actual,
+        projected: actual + forecast.reduce((sum, point) => sum + point.value, 0),
+        lower80: actual + forecast.reduce((sum, point) => sum + point.lower80, 0),
+        upper80: actual + forecast.reduce((sum, point) => sum + point.upper80, 0),
+        previousMonth: sumGmv(previousMonthStart, addDays(monthStart, -1)),
+      };
     },
-    enabled: !!filters.dateFrom && !!filters.dateTo,
   });
-};
\ No newline at end of file
+};
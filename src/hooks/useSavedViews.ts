@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { getSavedViewsStore, SavedViewInput } from '../lib/saved-views';
+
+export const useSavedViews = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['savedViews', user?.id],
+    queryFn: async () => {
+      const store = await getSavedViewsStore();
+      return store.list(user!.id);
+    },
+    enabled: !!user,
+  });
+};
+
+export const useSavedViewMutations = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['savedViews'] });
+  const onError = (error: Error) => {
+    console.error('Saved view update failed:', error);
+    toast.error('Не удалось сохранить вид');
+  };
+
+  const withStore = async () => {
+    if (!user) throw new Error('Not signed in');
+    return { store: await getSavedViewsStore(), userId: user.id };
+  };
+
+  const createView = useMutation({
+    mutationFn: async (view: SavedViewInput) => {
+      const { store, userId } = await withStore();
+      return store.create(userId, view);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteView = useMutation({
+    mutationFn: async (id: string) => {
+      const { store, userId } = await withStore();
+      await store.remove(userId, id);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const setDefaultView = useMutation({
+    mutationFn: async (id: string | null) => {
+      const { store, userId } = await withStore();
+      await store.setDefault(userId, id);
+    },
+    onSuccess,
+    onError,
+  });
+
+  return { createView, deleteView, setDefaultView };
+};
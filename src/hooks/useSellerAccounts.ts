@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { getDataSource } from '../lib/data-source';
+
+export interface SellerAccount {
+  id: string;
+  name: string;
+}
+
+export const useSellerAccounts = () => {
+  return useQuery({
+    queryKey: ['sellerAccounts'],
+    queryFn: async () => {
+      const source = await getDataSource();
+      const data = await source.getSellerAccounts();
+
+      return data.map((item): SellerAccount => ({
+        id: item.id,
+        name: item.name || item.id,
+      }));
+    },
+  });
+};
@@ -0,0 +1,69 @@
+import { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  exportTable,
+  ExportCancelledError,
+  ExportColumn,
+  ExportFormat,
+  ExportPage,
+  ExportProgress,
+} from '../lib/export';
+
+export interface TableExportSource<T> {
+  fileName: string;
+  // Fetches one page with the current filters and table state
+  fetchPage: (page: number, pageSize: number) => Promise<ExportPage<T>>;
+  pageSize?: number;
+}
+
+const DEFAULT_EXPORT_PAGE_SIZE = 500;
+
+export const useTableExport = <T>(
+  source: TableExportSource<T> | undefined,
+  columns: ExportColumn<T>[]
+) => {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const startExport = async (format: ExportFormat) => {
+    if (!source || abortRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ loaded: 0, total: 0 });
+
+    try {
+      const count = await exportTable({
+        columns,
+        fetchPage: source.fetchPage,
+        pageSize: source.pageSize ?? DEFAULT_EXPORT_PAGE_SIZE,
+        format,
+        fileName: source.fileName,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      toast.success(`Выгружено записей: ${count}`);
+    } catch (error) {
+      if (error instanceof ExportCancelledError) {
+        toast(error.message);
+      } else {
+        console.error('Export failed:', error);
+        toast.error('Не удалось выгрузить данные');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const cancelExport = () => {
+    abortRef.current?.abort();
+  };
+
+  return {
+    isExporting: progress !== null,
+    progress,
+    startExport,
+    cancelExport,
+  };
+};
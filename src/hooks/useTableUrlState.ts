@@ -0,0 +1,88 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+export interface BaseTableState {
+  page: number;
+  pageSize: number;
+  search: string;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+}
+
+// Page sizes offered by DataTable
+const PAGE_SIZES = [10, 20, 50, 100];
+
+// Table params are namespaced (products.page, transactions.sortBy) so
+// several tables can share the URL with the global filters
+const paramName = (namespace: string, key: string) => `${namespace}.${key}`;
+
+export const isTableParam = (name: string) => name.includes('.');
+
+// useFilters drops the page params when the filters change, so every table
+// starts over on its first page
+export const isTablePageParam = (name: string) => isTableParam(name) && name.endsWith('.page');
+
+const parseNumber = (value: string) => {
+  const number = Number(value);
+  return Number.isSafeInteger(number) && number >= 0 ? number : null;
+};
+
+/**
+ * Table state kept in the URL: survives a refresh, travels with shared links
+ * and tab switches, and every page or sort change is a history entry for
+ * back/forward. Only values that differ from `defaults` are written.
+ * `sortableColumns` lists the accepted sortBy values; anything else in the
+ * URL falls back to the default sort, since it ends up in the query.
+ */
+export const useTableUrlState = <T extends BaseTableState>(
+  namespace: string,
+  defaults: T,
+  sortableColumns: readonly string[]
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const tableState = useMemo((): T => {
+    const state = { ...defaults };
+
+    (Object.keys(defaults) as (keyof T & string)[]).forEach((key) => {
+      const value = searchParams.get(paramName(namespace, key));
+      if (value === null) return;
+
+      if (typeof defaults[key] === 'number') {
+        const number = parseNumber(value);
+        if (number !== null) state[key] = number as T[typeof key];
+      } else {
+        state[key] = value as T[typeof key];
+      }
+    });
+
+    if (!PAGE_SIZES.includes(state.pageSize)) state.pageSize = defaults.pageSize;
+    if (state.sortOrder !== 'asc' && state.sortOrder !== 'desc') state.sortOrder = defaults.sortOrder;
+    if (!sortableColumns.includes(state.sortBy)) {
+      state.sortBy = defaults.sortBy;
+      state.sortOrder = defaults.sortOrder;
+    }
+
+    return state;
+  }, [searchParams, namespace, defaults, sortableColumns]);
+
+  // replace: update the current history entry instead of adding one, for
+  // changes that come in bursts such as typing a search term
+  const updateTableState = (updates: Partial<T>, options?: { replace?: boolean }) => {
+    const params = new URLSearchParams(searchParams);
+    const next = { ...tableState, ...updates };
+
+    (Object.keys(defaults) as (keyof T & string)[]).forEach((key) => {
+      const name = paramName(namespace, key);
+      if (next[key] === defaults[key]) {
+        params.delete(name);
+      } else {
+        params.set(name, String(next[key]));
+      }
+    });
+
+    setSearchParams(params, { replace: options?.replace });
+  };
+
+  return { tableState, updateTableState };
+};
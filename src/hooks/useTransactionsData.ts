@@ -1,9 +1,15 @@
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '../lib/supabase';
-import { useFilters } from './useFilters';
+import { useMemo } from 'react';
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { getDataSource, toTransactionFilters, fetchAllTransactionDetails, TransactionDetailRow } from '../lib/data-source';
+import { useFilters, Filters } from './useFilters';
+import { TableExportSource } from './useTableExport';
+import { loadCategorizationRules } from './useFinanceRules';
+import { CategorizationRule, primaryCategory } from '../lib/finance-rules';
 import { formatMoscowDate } from '../lib/date-utils';
 import { toNumber } from '../lib/format';
-import { useState } from 'react';
+import { useTableUrlState } from './useTableUrlState';
+import { useDebouncedValue } from './useDebouncedValue';
+import { parseTransactionSearch } from '../lib/transaction-search';
 
 export interface TransactionDetail {
   transaction_id: number;
@@ -34,7 +40,10 @@ export interface TransactionsTableState {
   categoryFilter: string;
 }
 
-const transformTransactionData = (item: any): TransactionDetail => ({
+export const transformTransactionData = (
+  item: TransactionDetailRow,
+  rules: CategorizationRule[]
+): TransactionDetail => ({
   transaction_id: toNumber(item.transaction_id),
   operation_date_msk: item.operation_date_msk || '',
   posting_number: item.posting_number || '',
@@ -51,121 +60,165 @@ const transformTransactionData = (item: any): TransactionDetail => ({
   service_price: toNumber(item.service_price),
   item_sku: toNumber(item.item_sku),
   item_name: item.item_name || '',
-  category: item.category || 'other',
+  category: primaryCategory(item, rules),
 });
 
-export const useTransactionsTable = () => {
-  const [tableState, setTableState] = useState<TransactionsTableState>({
-    page: 0,
-    pageSize: 25,
-    search: '',
-    sortBy: 'operation_date_msk',
-    sortOrder: 'desc',
-    categoryFilter: '',
-  });
+const DEFAULT_TRANSACTIONS_TABLE_STATE: TransactionsTableState = {
+  page: 0,
+  pageSize: 25,
+  search: '',
+  sortBy: 'operation_date_msk',
+  sortOrder: 'desc',
+  categoryFilter: '',
+};
+
+// Columns with sortable: true on the transactions page
+const SORTABLE_TRANSACTIONS_COLUMNS = ['operation_date_msk', 'amount'];
+
+export const useTransactionsTable = () =>
+  useTableUrlState('transactions', DEFAULT_TRANSACTIONS_TABLE_STATE, SORTABLE_TRANSACTIONS_COLUMNS);
+
+const parseSearch = (input: string) => {
+  const { search, errors } = parseTransactionSearch(input);
+  if (errors.length > 0) {
+    throw new Error(`Ошибка в поиске: ${errors[0].message}`);
+  }
+  return search;
+};
+
+const fetchTransactionsPage = async (filters: Filters, tableState: TransactionsTableState) => {
+  const source = await getDataSource();
 
-  const updateTableState = (updates: Partial<TransactionsTableState>) => {
-    setTableState(prev => ({ ...prev, ...updates }));
+  const [rules, { rows, count }] = await Promise.all([
+    loadCategorizationRules(),
+    source.getTransactionDetails({
+      ...toTransactionFilters(filters),
+      search: parseSearch(tableState.search),
+      sortBy: tableState.sortBy,
+      sortOrder: tableState.sortOrder,
+      offset: tableState.page * tableState.pageSize,
+      limit: tableState.pageSize,
+      withCount: true,
+    }),
+  ]);
+
+  const transformedData = rows.map((row) => transformTransactionData(row, rules));
+
+  return {
+    data: transformedData,
+    totalCount: count || 0,
+    totalPages: Math.ceil((count || 0) / tableState.pageSize),
   };
+};
+
+// Categories come from the client-side rules engine, so a category filter
+// needs every row of the period. They are read once per filters and search;
+// category, sort and page are applied in memory.
+const fetchCategorizedTransactions = async (filters: Filters, search: string) => {
+  const [rules, rows] = await Promise.all([
+    loadCategorizationRules(),
+    fetchAllTransactionDetails({ ...toTransactionFilters(filters), search: parseSearch(search) }),
+  ]);
+  return rows.map((row) => transformTransactionData(row, rules));
+};
+
+const categorizedTransactionsQuery = (filters: Filters, search: string) => ({
+  queryKey: ['transactions', 'categorized', filters, search],
+  queryFn: () => fetchCategorizedTransactions(filters, search),
+});
+
+// Rows come in the order of the row key, a stable sort keeps it for ties
+// like the server does
+const pageCategorizedTransactions = (
+  rows: TransactionDetail[],
+  tableState: TransactionsTableState
+) => {
+  const sortColumn = tableState.sortBy as keyof TransactionDetail;
+  const direction = tableState.sortOrder === 'asc' ? 1 : -1;
+  const matching = rows
+    .filter((row) => row.category === tableState.categoryFilter)
+    .sort((a, b) => {
+      const left = a[sortColumn];
+      const right = b[sortColumn];
+      return (
+        (typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right))) * direction
+      );
+    });
+  const offset = tableState.page * tableState.pageSize;
 
   return {
-    tableState,
-    updateTableState,
+    data: matching.slice(offset, offset + tableState.pageSize),
+    totalCount: matching.length,
+    totalPages: Math.ceil(matching.length / tableState.pageSize),
   };
 };
 
+// The search box writes every keystroke to the URL; the query waits until
+// typing pauses and the input parses, showing the previous rows meanwhile
 export const useTransactionsData = (tableState: TransactionsTableState) => {
   const { filters } = useFilters();
-  
-  return useQuery({
-    queryKey: ['transactions', filters, tableState],
-    queryFn: async () => {
-      let query = supabase
-        .from('vw_transaction_details')
-        .select('*', { count: 'exact' })
-        .gte('operation_date_msk', formatMoscowDate(filters.dateFrom))
-        .lte('operation_date_msk', formatMoscowDate(filters.dateTo));
-
-      // Apply search filter
-      if (tableState.search) {
-        query = query.or(`posting_number.ilike.%${tableState.search}%,operation_type_name.ilike.%${tableState.search}%,service_name.ilike.%${tableState.search}%,item_name.ilike.%${tableState.search}%`);
-      }
-
-      // Apply category filter
-      if (tableState.categoryFilter) {
-        query = query.eq('category', tableState.categoryFilter);
-      }
-
-      // Apply SKU filter from global filters
-      if (filters.sku) {
-        query = query.eq('item_sku', parseInt(filters.sku));
-      }
-
-      // Apply region filter (temporarily disabled - need to verify postings table structure)
-      // if (filters.region) {
-      //   const { data: postings } = await supabase
-      //     .from('postings')
-      //     .select('posting_number')
-      //     .ilike('cluster_to', `%${filters.region}%`);
-      //   
-      //   if (postings && postings.length > 0) {
-      //     const postingNumbers = postings.map(p => p.posting_number).filter(Boolean);
-      //     if (postingNumbers.length > 0) {
-      //       query = query.in('posting_number', postingNumbers);
-      //     }
-      //   }
-      // }
-
-      // Apply sorting
-      query = query.order(tableState.sortBy, { ascending: tableState.sortOrder === 'asc' });
-
-      // Apply pagination
-      const from = tableState.page * tableState.pageSize;
-      const to = from + tableState.pageSize - 1;
-      query = query.range(from, to);
-
-      const { data, error, count } = await query;
-
-      if (error) throw error;
-
-      const transformedData = (data || []).map(transformTransactionData);
-
-      return {
-        data: transformedData,
-        totalCount: count || 0,
-        totalPages: Math.ceil((count || 0) / tableState.pageSize),
-      };
-    },
-    enabled: !!filters.dateFrom && !!filters.dateTo,
+  const search = useDebouncedValue(tableState.search);
+  const searchValid = useMemo(() => parseTransactionSearch(search).errors.length === 0, [search]);
+  const state = { ...tableState, search };
+  const enabled = !!filters.dateFrom && !!filters.dateTo && searchValid;
+  const categorized = !!tableState.categoryFilter;
+
+  const pageQuery = useQuery({
+    queryKey: ['transactions', filters, state],
+    queryFn: () => fetchTransactionsPage(filters, state),
+    enabled: enabled && !categorized,
+    placeholderData: keepPreviousData,
   });
+
+  const categorizedQuery = useQuery({
+    ...categorizedTransactionsQuery(filters, search),
+    enabled: enabled && categorized,
+    placeholderData: keepPreviousData,
+  });
+
+  const categorizedPage = useMemo(
+    () =>
+      categorizedQuery.data
+        ? pageCategorizedTransactions(categorizedQuery.data, tableState)
+        : undefined,
+    [categorizedQuery.data, tableState]
+  );
+
+  const query = categorized ? categorizedQuery : pageQuery;
+  return {
+    data: categorized ? categorizedPage : pageQuery.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
 };
 
-export const useTransactionCategories = () => {
-  return useQuery({
-    queryKey: ['transactionCategories'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('vw_transaction_details')
-        .select('category')
-        .not('category', 'is', null);
-      
-      if (error) throw error;
-      
-      const categories = [...new Set((data || []).map(item => item.category))]
-        .filter(Boolean)
-        .sort();
-      
-      return categories;
+// Walks all pages of vw_transaction_details with the current filters, search,
+// category and sort. PostgREST caps a response at 1000 rows.
+export const useTransactionsExport = (
+  tableState: TransactionsTableState
+): TableExportSource<TransactionDetail> => {
+  const { filters } = useFilters();
+  const queryClient = useQueryClient();
+
+  return {
+    fileName: `transactions_${formatMoscowDate(filters.dateFrom)}_${formatMoscowDate(filters.dateTo)}`,
+    // A category filter has every row of the period in the cache already
+    // (see fetchCategorizedTransactions), so it is exported as a single page
+    pageSize: tableState.categoryFilter ? Number.MAX_SAFE_INTEGER : 1000,
+    fetchPage: async (page, pageSize) => {
+      const state = { ...tableState, page, pageSize };
+      const result = tableState.categoryFilter
+        ? pageCategorizedTransactions(
+            await queryClient.fetchQuery(categorizedTransactionsQuery(filters, tableState.search)),
+            state
+          )
+        : await fetchTransactionsPage(filters, state);
+      return { rows: result.data, totalCount: result.totalCount };
     },
-  });
+  };
 };
 
-export const CATEGORY_LABELS: Record<string, string> = {
-  sales: 'Продажи',
-  commissions: 'Комиссии',
-  delivery: 'Доставка',
-  returns: 'Возвраты',
-  ads: 'Реклама',
-  services: 'Услуги',
-  other: 'Прочее',
-};
\ No newline at end of file
+export { CATEGORY_LABELS } from '../lib/finance-rules';
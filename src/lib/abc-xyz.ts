@@ -0,0 +1,143 @@
+import type { SkuWeeklyUnitsRow } from './data-source';
+import { toNumber } from './format';
+
+export type AbcClass = 'A' | 'B' | 'C';
+export type XyzClass = 'X' | 'Y' | 'Z';
+
+export const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+export const XYZ_CLASSES: XyzClass[] = ['X', 'Y', 'Z'];
+
+// All values in percent. A and B are cumulative revenue shares, X and Y
+// upper bounds of the coefficient of variation of weekly units.
+export interface AbcXyzThresholds {
+  a: number;
+  b: number;
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_ABC_XYZ_THRESHOLDS: AbcXyzThresholds = { a: 80, b: 95, x: 10, y: 25 };
+
+// Fewer full weeks give no meaningful variation, XYZ is left out then
+export const MIN_XYZ_WEEKS = 4;
+
+export interface AbcXyzClassification {
+  abc: AbcClass;
+  // null when the period is shorter than MIN_XYZ_WEEKS full weeks
+  xyz: XyzClass | null;
+  // Share of the period revenue, in percent
+  revenueShare: number;
+  // Coefficient of variation of weekly units, in percent; null without XYZ
+  variation: number | null;
+}
+
+export interface AbcXyzProduct {
+  sku: number;
+  revenue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Full 7-day buckets of the period; a shorter tail is not compared with them
+export const fullWeeks = (startDate: string, endDate: string) => {
+  const days =
+    Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / DAY_MS) + 1;
+  return Math.max(Math.floor(days / 7), 0);
+};
+
+// Weekly units per SKU over the full weeks; weeks without sales are zeros
+export const toWeeklyUnits = (rows: SkuWeeklyUnitsRow[], weeks: number) => {
+  const bySku = new Map<number, number[]>();
+  rows.forEach((row) => {
+    const week = toNumber(row.week_index);
+    if (week < 0 || week >= weeks) return;
+    const sku = toNumber(row.sku);
+    const units = bySku.get(sku) || new Array<number>(weeks).fill(0);
+    units[week] += toNumber(row.units);
+    bySku.set(sku, units);
+  });
+  return bySku;
+};
+
+const coefficientOfVariation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (mean <= 0) return null;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return (Math.sqrt(variance) / mean) * 100;
+};
+
+/**
+ * ABC by revenue: products sorted by revenue, a product is A while the
+ * revenue before it stays under the A share, then B under the B share, C
+ * after that. XYZ by how much weekly units vary; a product without sales in
+ * the full weeks is Z.
+ */
+export const classifyAbcXyz = (
+  products: AbcXyzProduct[],
+  weeklyUnits: Map<number, number[]>,
+  weeks: number,
+  thresholds: AbcXyzThresholds
+): Map<number, AbcXyzClassification> => {
+  const totalRevenue = products.reduce((sum, product) => sum + Math.max(product.revenue, 0), 0);
+  const result = new Map<number, AbcXyzClassification>();
+  let revenueBefore = 0;
+
+  [...products]
+    .sort((a, b) => b.revenue - a.revenue)
+    .forEach((product) => {
+      const shareBefore = totalRevenue > 0 ? (revenueBefore / totalRevenue) * 100 : 100;
+      const revenueShare = totalRevenue > 0 ? (Math.max(product.revenue, 0) / totalRevenue) * 100 : 0;
+      revenueBefore += Math.max(product.revenue, 0);
+
+      const abc: AbcClass =
+        product.revenue <= 0 ? 'C' : shareBefore < thresholds.a ? 'A' : shareBefore < thresholds.b ? 'B' : 'C';
+
+      let xyz: XyzClass | null = null;
+      let variation: number | null = null;
+      if (weeks >= MIN_XYZ_WEEKS) {
+        variation = coefficientOfVariation(weeklyUnits.get(product.sku) || new Array<number>(weeks).fill(0));
+        xyz =
+          variation === null ? 'Z' : variation <= thresholds.x ? 'X' : variation <= thresholds.y ? 'Y' : 'Z';
+      }
+
+      result.set(product.sku, { abc, xyz, revenueShare, variation });
+    });
+
+  return result;
+};
+
+export interface AbcXyzCell {
+  products: number;
+  revenue: number;
+}
+
+export const cellKey = (abc: AbcClass, xyz: XyzClass | null) => `${abc}${xyz ?? ''}`;
+
+// Number of SKUs and revenue per ABC×XYZ cell (per ABC class without XYZ)
+export const summarizeAbcXyz = (
+  products: AbcXyzProduct[],
+  classes: Map<number, AbcXyzClassification>
+) => {
+  const cells = new Map<string, AbcXyzCell>();
+  products.forEach((product) => {
+    const classification = classes.get(product.sku);
+    if (!classification) return;
+    const key = cellKey(classification.abc, classification.xyz);
+    const cell = cells.get(key) || { products: 0, revenue: 0 };
+    cells.set(key, { products: cell.products + 1, revenue: cell.revenue + product.revenue });
+  });
+  return cells;
+};
+
+// SKUs of the chosen classes; empty strings mean any class
+export const skusInClass = (
+  classes: Map<number, AbcXyzClassification>,
+  abc: string,
+  xyz: string
+) =>
+  Array.from(classes.entries())
+    .filter(
+      ([, classification]) =>
+        (!abc || classification.abc === abc) && (!xyz || classification.xyz === xyz)
+    )
+    .map(([sku]) => sku);
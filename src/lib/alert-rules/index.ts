@@ -0,0 +1,67 @@
+import { AUTH_KIND } from '../auth';
+import { formatCurrency, formatNumber } from '../format';
+import type { AlertDirection, AlertMetric, AlertRule, AlertRuleInput, AlertRulesStore } from './types';
+
+export type * from './types';
+
+export const ALERT_METRICS: AlertMetric[] = ['gmv', 'orders', 'cancelledGmv', 'commissionPerUnit'];
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  gmv: 'GMV',
+  orders: 'Заказы',
+  cancelledGmv: 'Отмены (GMV)',
+  commissionPerUnit: 'Комиссия на единицу',
+};
+
+export const ALERT_DIRECTION_LABELS: Record<AlertDirection, string> = {
+  drop: 'Падение',
+  spike: 'Рост',
+  both: 'Любое отклонение',
+};
+
+export const formatAlertValue = (metric: AlertMetric, value: number) =>
+  metric === 'orders' ? formatNumber(value) : formatCurrency(value);
+
+export const alertScopeLabel = (rule: Pick<AlertRule, 'sku' | 'region'>) =>
+  [rule.sku && `SKU ${rule.sku}`, rule.region].filter(Boolean).join(', ') || 'Весь кабинет';
+
+// Robust z-score of 3.5 flags roughly one ordinary day in a few thousand
+export const DEFAULT_ALERT_THRESHOLD = 3.5;
+
+const accountRule = (name: string, metric: AlertMetric, direction: AlertDirection): AlertRuleInput => ({
+  name,
+  metric,
+  direction,
+  threshold: DEFAULT_ALERT_THRESHOLD,
+  sku: null,
+  region: null,
+  enabled: true,
+});
+
+// Offered when the user has no rules yet
+export const DEFAULT_ALERT_RULES: AlertRuleInput[] = [
+  accountRule('Падение заказов', 'orders', 'drop'),
+  accountRule('Падение GMV', 'gmv', 'drop'),
+  accountRule('Всплеск отмен', 'cancelledGmv', 'spike'),
+  accountRule('Рост комиссии на единицу', 'commissionPerUnit', 'spike'),
+];
+
+let storePromise: Promise<AlertRulesStore> | null = null;
+
+// Rules belong to the signed-in user and are kept next to the saved views
+const loadStore = async (): Promise<AlertRulesStore> => {
+  if (AUTH_KIND === 'local') {
+    const { createLocalAlertRulesStore } = await import('./local-store');
+    return createLocalAlertRulesStore();
+  }
+
+  const { createSupabaseAlertRulesStore } = await import('./supabase-store');
+  return createSupabaseAlertRulesStore();
+};
+
+export const getAlertRulesStore = (): Promise<AlertRulesStore> => {
+  if (!storePromise) {
+    storePromise = loadStore();
+  }
+  return storePromise;
+};
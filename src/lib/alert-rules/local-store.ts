@@ -0,0 +1,43 @@
+import type { AlertRule, AlertRulesStore } from './types';
+
+const storageKey = (userId: string) => `alert-rules:${userId}`;
+
+const read = (userId: string): AlertRule[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const write = (userId: string, rules: AlertRule[]) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(rules));
+};
+
+export const createLocalAlertRulesStore = (): AlertRulesStore => ({
+  async list(userId) {
+    return read(userId).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async create(userId, input) {
+    const rule: AlertRule = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    write(userId, [...read(userId), rule]);
+    return rule;
+  },
+
+  async update(userId, id, input) {
+    write(
+      userId,
+      read(userId).map((rule) => (rule.id === id ? { ...rule, ...input } : rule))
+    );
+  },
+
+  async remove(userId, id) {
+    write(userId, read(userId).filter((rule) => rule.id !== id));
+  },
+});
@@ -0,0 +1,84 @@
+import { supabase } from '../supabase';
+import type { Numeric } from '../data-source';
+import { toNumber } from '../format';
+import type { AlertDirection, AlertMetric, AlertRule, AlertRuleInput, AlertRulesStore } from './types';
+
+interface AlertRuleRow {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  direction: AlertDirection;
+  threshold: Numeric;
+  sku: Numeric;
+  region: string | null;
+  enabled: boolean;
+  created_at: string;
+}
+
+const COLUMNS = 'id, name, metric, direction, threshold, sku, region, enabled, created_at';
+
+const toAlertRule = (row: AlertRuleRow): AlertRule => ({
+  id: row.id,
+  name: row.name,
+  metric: row.metric,
+  direction: row.direction,
+  threshold: toNumber(row.threshold),
+  sku: row.sku == null ? null : toNumber(row.sku),
+  region: row.region,
+  enabled: row.enabled,
+  createdAt: row.created_at,
+});
+
+const toRow = (rule: AlertRuleInput) => ({
+  name: rule.name,
+  metric: rule.metric,
+  direction: rule.direction,
+  threshold: rule.threshold,
+  sku: rule.sku,
+  region: rule.region,
+  enabled: rule.enabled,
+});
+
+// Row level security limits every query to the user's own rows; the
+// explicit user_id filters keep the intent visible and use the index
+export const createSupabaseAlertRulesStore = (): AlertRulesStore => ({
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select(COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+    return ((data || []) as AlertRuleRow[]).map(toAlertRule);
+  },
+
+  async create(userId, input) {
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .insert({ user_id: userId, ...toRow(input) })
+      .select(COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return toAlertRule(data as AlertRuleRow);
+  },
+
+  async update(userId, id, input) {
+    const { error } = await supabase
+      .from('alert_rules')
+      .update(toRow(input))
+      .eq('user_id', userId)
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async remove(userId, id) {
+    const { error } = await supabase
+      .from('alert_rules')
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id);
+    if (error) throw error;
+  },
+});
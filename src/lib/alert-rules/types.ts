@@ -0,0 +1,33 @@
+// Daily metrics the anomaly detector watches
+export type AlertMetric = 'gmv' | 'orders' | 'cancelledGmv' | 'commissionPerUnit';
+
+// Which side of the usual level triggers the rule
+export type AlertDirection = 'drop' | 'spike' | 'both';
+
+export interface AlertRuleInput {
+  name: string;
+  metric: AlertMetric;
+  direction: AlertDirection;
+  // Robust z-score the day has to reach, see lib/anomalies
+  threshold: number;
+  // Optional scope; null watches the whole account
+  sku: number | null;
+  region: string | null;
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Per-user storage of alert rules: the alert_rules table with Supabase Auth,
+ * localStorage with local sign-in.
+ */
+export interface AlertRulesStore {
+  list(userId: string): Promise<AlertRule[]>;
+  create(userId: string, rule: AlertRuleInput): Promise<AlertRule>;
+  update(userId: string, id: string, rule: AlertRuleInput): Promise<void>;
+  remove(userId: string, id: string): Promise<void>;
+}
@@ -0,0 +1,86 @@
+import type { AlertDirection, AlertMetric, AlertRule } from './alert-rules';
+
+/**
+ * Anomalies in daily metrics by robust z-score per weekday: each day is
+ * compared with the same weekday of the previous weeks, using the median and
+ * the median absolute deviation so that one earlier outlier does not hide
+ * the next one. Weekdays differ a lot on Ozon (weekend orders, Monday
+ * deliveries), comparing Monday with Monday keeps that out of the score.
+ */
+
+export interface DailyMetricsPoint {
+  // Moscow calendar date, YYYY-MM-DD; the series has no gaps
+  date: string;
+  gmv: number;
+  orders: number;
+  cancelledGmv: number;
+  // null on days without units
+  commissionPerUnit: number | null;
+}
+
+// Same weekdays looked back on, and how many of them must have a value
+export const BASELINE_WEEKS = 8;
+const MIN_BASELINE = 4;
+
+// Scales the MAD to the standard deviation of a normal distribution
+const MAD_SCALE = 1.4826;
+
+export interface Anomaly {
+  date: string;
+  value: number;
+  // Median of the same weekday over the baseline weeks
+  expected: number;
+  // Positive above the usual level, negative below; ±Infinity when the
+  // baseline has no spread at all
+  score: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Robust z-score of `value` against `baseline`. When more than half of the
+ * baseline is the same number the MAD is zero; the mean absolute deviation
+ * takes over then. Against a baseline without any spread (no cancellations
+ * for weeks) every other value is infinitely unusual.
+ */
+export const robustZScore = (value: number, baseline: number[]): number => {
+  const center = median(baseline);
+  const deviations = baseline.map((item) => Math.abs(item - center));
+  const mad = median(deviations) * MAD_SCALE;
+  const spread = mad > 0 ? mad : (deviations.reduce((sum, item) => sum + item, 0) / deviations.length) * 1.2533;
+  if (spread > 0) return (value - center) / spread;
+  return value === center ? 0 : Math.sign(value - center) * Infinity;
+};
+
+// Scores every day from `fromDate` on; the days before it serve as baseline
+export const detectAnomalies = (
+  days: DailyMetricsPoint[],
+  metric: AlertMetric,
+  fromDate: string
+): Anomaly[] =>
+  days.flatMap((day, index) => {
+    const value = day[metric];
+    if (day.date < fromDate || value === null) return [];
+
+    const baseline: number[] = [];
+    for (let week = 1; week <= BASELINE_WEEKS; week++) {
+      const previous = days[index - 7 * week]?.[metric];
+      if (previous != null) baseline.push(previous);
+    }
+    if (baseline.length < MIN_BASELINE) return [];
+
+    return [{ date: day.date, value, expected: median(baseline), score: robustZScore(value, baseline) }];
+  });
+
+export const exceedsThreshold = (score: number, direction: AlertDirection, threshold: number) =>
+  (direction !== 'drop' && score >= threshold) || (direction !== 'spike' && score <= -threshold);
+
+// Days from `fromDate` on where the rule fires, latest first
+export const evaluateRule = (rule: AlertRule, days: DailyMetricsPoint[], fromDate: string) =>
+  detectAnomalies(days, rule.metric, fromDate)
+    .filter((anomaly) => exceedsThreshold(anomaly.score, rule.direction, rule.threshold))
+    .reverse();
@@ -0,0 +1,43 @@
+import { DATA_SOURCE_KIND } from '../data-source';
+import type { AuthBackend, Permission, UserRole } from './types';
+
+export type * from './types';
+export { USER_ROLE_LABELS } from './types';
+
+export type AuthKind = 'supabase' | 'local';
+
+// The fixture demo has no Supabase project, so it signs in locally unless
+// VITE_AUTH says otherwise
+export const AUTH_KIND: AuthKind =
+  import.meta.env.VITE_AUTH === 'local' ||
+  (import.meta.env.VITE_AUTH !== 'supabase' && DATA_SOURCE_KIND === 'fixtures')
+    ? 'local'
+    : 'supabase';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ['viewFinance', 'viewProfit', 'editCosts', 'editSettings'],
+  analyst: ['viewFinance', 'viewProfit', 'editCosts'],
+  manager: [],
+};
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+let authBackendPromise: Promise<AuthBackend> | null = null;
+
+const loadAuthBackend = async (): Promise<AuthBackend> => {
+  if (AUTH_KIND === 'local') {
+    const { createLocalAuthBackend } = await import('./local-auth');
+    return createLocalAuthBackend();
+  }
+
+  const { createSupabaseAuthBackend } = await import('./supabase-auth');
+  return createSupabaseAuthBackend();
+};
+
+export const getAuthBackend = (): Promise<AuthBackend> => {
+  if (!authBackendPromise) {
+    authBackendPromise = loadAuthBackend();
+  }
+  return authBackendPromise;
+};
@@ -0,0 +1,66 @@
+import type { AuthBackend, AuthUser } from './types';
+
+// Development stand-in for Supabase Auth: a fixed set of users, one per role,
+// any non-empty password. Not a security boundary, never use it in production.
+export const LOCAL_AUTH_USERS: AuthUser[] = [
+  { id: 'local-owner', email: 'owner@local.test', role: 'owner' },
+  { id: 'local-analyst', email: 'analyst@local.test', role: 'analyst' },
+  { id: 'local-manager', email: 'manager@local.test', role: 'manager' },
+];
+
+const STORAGE_KEY = 'local-auth-user';
+
+const findUser = (email: string) => {
+  const user = LOCAL_AUTH_USERS.find(
+    (candidate) => candidate.email === email.trim().toLowerCase()
+  );
+  if (!user) {
+    throw new Error(
+      `Неизвестный пользователь. Доступны: ${LOCAL_AUTH_USERS.map((item) => item.email).join(', ')}`
+    );
+  }
+  return user;
+};
+
+export const createLocalAuthBackend = (): AuthBackend => {
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const setUser = (user: AuthUser | null) => {
+    if (user) {
+      localStorage.setItem(STORAGE_KEY, user.email);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    listeners.forEach((listener) => listener(user));
+  };
+
+  return {
+    async getUser() {
+      const email = localStorage.getItem(STORAGE_KEY);
+      return LOCAL_AUTH_USERS.find((user) => user.email === email) || null;
+    },
+
+    async signInWithPassword(email, password) {
+      const user = findUser(email);
+      if (!password) throw new Error('Введите пароль');
+      setUser(user);
+      return user;
+    },
+
+    // There is no mail delivery locally, the "link" signs in right away
+    async sendMagicLink(email) {
+      setUser(findUser(email));
+    },
+
+    async signOut() {
+      setUser(null);
+    },
+
+    onChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import type { AuthChangeEvent, Session, User } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { AuthBackend, AuthUser, UserRole } from './types';
+
+const ROLES: UserRole[] = ['owner', 'analyst', 'manager'];
+
+// Users without a user_roles row get the most restricted role
+const DEFAULT_ROLE: UserRole = 'manager';
+
+const toAuthUser = async (user: User): Promise<AuthUser> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  const role = data?.role as UserRole | undefined;
+
+  return {
+    id: user.id,
+    email: user.email || '',
+    role: role && ROLES.includes(role) ? role : DEFAULT_ROLE,
+  };
+};
+
+export const createSupabaseAuthBackend = (): AuthBackend => ({
+  async getUser() {
+    const { data, error } = await supabase.auth.getSession();
+    if (error) throw error;
+    return data.session ? toAuthUser(data.session.user) : null;
+  },
+
+  async signInWithPassword(email, password) {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return toAuthUser(data.user);
+  },
+
+  async sendMagicLink(email) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        // Only existing users may sign in; accounts are created by the owner
+        shouldCreateUser: false,
+        emailRedirectTo: window.location.origin,
+      },
+    });
+    if (error) throw error;
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  },
+
+  onChange(listener) {
+    const { data } = supabase.auth.onAuthStateChange((event: AuthChangeEvent, session: Session | null) => {
+      // Initial session is read through getUser()
+      if (event === 'INITIAL_SESSION') return;
+      // The role query must not run inside the callback, supabase-js holds
+      // its auth lock until the callback returns
+      setTimeout(() => {
+        if (!session) {
+          listener(null);
+          return;
+        }
+        toAuthUser(session.user)
+          .then(listener)
+          .catch((error) => {
+            console.error('Loading user role failed:', error);
+            listener(null);
+          });
+      }, 0);
+    });
+    return () => data.subscription.unsubscribe();
+  },
+});
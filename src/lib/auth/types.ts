@@ -0,0 +1,36 @@
+export type UserRole = 'owner' | 'analyst' | 'manager';
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Владелец',
+  analyst: 'Аналитик',
+  manager: 'Менеджер',
+};
+
+export type Permission =
+  // Finance and Transactions pages
+  | 'viewFinance'
+  // Cost of goods and profit figures on the other pages
+  | 'viewProfit'
+  | 'editCosts'
+  | 'editSettings';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * Sign-in backend behind AuthContext: Supabase Auth in production, a local
+ * stand-in for development and the fixture demo.
+ */
+export interface AuthBackend {
+  getUser(): Promise<AuthUser | null>;
+  signInWithPassword(email: string, password: string): Promise<AuthUser>;
+  // Sends a sign-in link; the session starts when the link is opened
+  sendMagicLink(email: string): Promise<void>;
+  signOut(): Promise<void>;
+  // Called with the new user after sign-in, sign-out or a token refresh;
+  // returns an unsubscribe function
+  onChange(listener: (user: AuthUser | null) => void): () => void;
+}
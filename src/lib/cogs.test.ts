@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseCostsCsv } from './cogs';
+
+describe('parseCostsCsv', () => {
+  it('reads both separators, Russian dates and decimal commas', () => {
+    const { entries, errors } = parseCostsCsv(
+      'sku;cost;effective_from\n1001;250,50;01.12.2024\n1002,300,2024-12-15\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(entries).toEqual([
+      { sku: 1001, cost: 250.5, effective_from: '2024-12-01' },
+      { sku: 1002, cost: 300, effective_from: '2024-12-15' },
+    ]);
+  });
+
+  it('rejects a SKU and date that were already in the file', () => {
+    const { entries, errors } = parseCostsCsv(
+      '1001;250;2024-12-01\n1001;260;2024-12-02\n1001;270;01.12.2024\n'
+    );
+
+    expect(entries).toEqual([
+      { sku: 1001, cost: 250, effective_from: '2024-12-01' },
+      { sku: 1001, cost: 260, effective_from: '2024-12-02' },
+    ]);
+    expect(errors).toEqual(['Строка 3: SKU 1001 с датой 2024-12-01 уже был в файле']);
+  });
+});
@@ -0,0 +1,91 @@
+import type { CogsBreakdownRow, ProductCostInput } from './data-source';
+import { toNumber } from './format';
+
+export interface CogsSummary {
+  total: number;
+  bySku: Map<number, number>;
+  byRegion: Map<string, number>;
+  // Delivered units of SKUs that had no cost on their sale date
+  unitsWithoutCost: number;
+}
+
+export const summarizeCogs = (rows: CogsBreakdownRow[]): CogsSummary => {
+  const summary: CogsSummary = {
+    total: 0,
+    bySku: new Map(),
+    byRegion: new Map(),
+    unitsWithoutCost: 0,
+  };
+
+  rows.forEach((row) => {
+    const sku = toNumber(row.sku);
+    const region = row.region || 'Не указан';
+    const cogs = toNumber(row.cogs);
+
+    summary.total += cogs;
+    summary.bySku.set(sku, (summary.bySku.get(sku) || 0) + cogs);
+    summary.byRegion.set(region, (summary.byRegion.get(region) || 0) + cogs);
+    summary.unitsWithoutCost += toNumber(row.units_without_cost);
+  });
+
+  return summary;
+};
+
+export interface CostsCsvResult {
+  entries: ProductCostInput[];
+  errors: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Accepts dd.mm.yyyy as exported by Russian Excel as well as ISO dates
+const normalizeDate = (value: string) => {
+  const match = value.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : value;
+};
+
+/**
+ * Parses a cost registry CSV with the columns sku, cost, effective_from.
+ * Both "," and ";" separators are accepted and a header row is optional.
+ * A SKU and date may appear once, the import upserts on that pair.
+ */
+export const parseCostsCsv = (text: string): CostsCsvResult => {
+  const entries: ProductCostInput[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      if (!line.trim()) return;
+
+      const cells = line.split(line.includes(';') ? ';' : ',');
+      const [skuCell, costCell, dateCell] = cells.map((cell) =>
+        cell.trim().replace(/^"|"$/g, '')
+      );
+
+      // Header row
+      if (index === 0 && isNaN(Number(skuCell))) return;
+
+      const sku = Number(skuCell);
+      const cost = Number((costCell || '').replace(',', '.').replace(/\s/g, ''));
+      const effectiveFrom = normalizeDate(dateCell || '');
+      const key = `${sku}|${effectiveFrom}`;
+
+      if (!Number.isInteger(sku) || sku <= 0) {
+        errors.push(`Строка ${index + 1}: неверный SKU «${skuCell}»`);
+      } else if (!Number.isFinite(cost) || cost < 0) {
+        errors.push(`Строка ${index + 1}: неверная себестоимость «${costCell}»`);
+      } else if (!DATE_PATTERN.test(effectiveFrom)) {
+        errors.push(`Строка ${index + 1}: неверная дата «${dateCell}»`);
+      } else if (seen.has(key)) {
+        errors.push(`Строка ${index + 1}: SKU ${sku} с датой ${effectiveFrom} уже был в файле`);
+      } else {
+        seen.add(key);
+        entries.push({ sku, cost, effective_from: effectiveFrom });
+      }
+    });
+
+  return { entries, errors };
+};
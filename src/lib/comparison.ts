@@ -0,0 +1,68 @@
+import type { Filters } from '../hooks/useFilters';
+import { formatMoscowDate, getPreviousPeriod, toMoscowTime } from './date-utils';
+
+export type ComparisonMode = 'previous' | 'year' | 'weekday_year' | 'custom';
+
+export const COMPARISON_MODES: ComparisonMode[] = ['previous', 'year', 'weekday_year', 'custom'];
+
+export const COMPARISON_MODE_LABELS: Record<ComparisonMode, string> = {
+  previous: 'Предыдущий период',
+  year: 'Тот же период год назад',
+  weekday_year: 'Те же дни недели год назад',
+  custom: 'Свой период',
+};
+
+export interface ComparisonPeriod {
+  from: Date;
+  to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date arithmetic on Moscow calendar dates, independent of the browser zone
+const shiftDays = (date: Date, days: number) => {
+  const shifted = new Date(Date.parse(`${formatMoscowDate(date)}T00:00:00Z`) + days * DAY_MS);
+  return toMoscowTime(shifted.toISOString().slice(0, 10));
+};
+
+// 29 February maps onto 28 February of the previous year
+const shiftYear = (date: Date) => {
+  const [year, month, day] = formatMoscowDate(date).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year - 1, month, 0)).getUTCDate();
+  const shifted = `${year - 1}-${String(month).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+  return toMoscowTime(shifted);
+};
+
+/**
+ * The period the selected one is compared against. Exactly 52 weeks back
+ * keeps weekdays aligned, which matters for sellers with weekly seasonality.
+ */
+export const getComparisonPeriod = (filters: Filters): ComparisonPeriod => {
+  switch (filters.compare) {
+    case 'year':
+      return { from: shiftYear(filters.dateFrom), to: shiftYear(filters.dateTo) };
+    case 'weekday_year':
+      return { from: shiftDays(filters.dateFrom, -364), to: shiftDays(filters.dateTo, -364) };
+    case 'custom':
+      if (filters.compareFrom && filters.compareTo) {
+        return { from: filters.compareFrom, to: filters.compareTo };
+      }
+      // An incomplete custom range falls back to the previous period
+      return getPreviousPeriod(filters.dateFrom, filters.dateTo);
+    default:
+      return getPreviousPeriod(filters.dateFrom, filters.dateTo);
+  }
+};
+
+// The same filters moved to the comparison period, so every hook can reuse
+// its query function for the comparison values
+export const toComparisonFilters = (filters: Filters): Filters => {
+  const period = getComparisonPeriod(filters);
+  return { ...filters, dateFrom: period.from, dateTo: period.to };
+};
+
+// Relative change in percent; null when there is nothing to compare against
+export const percentChange = (current: number, previous: number | null | undefined) => {
+  if (previous == null || previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
@@ -0,0 +1,846 @@
+import { formatMoscowDate } from '../date-utils';
+import { matchesTransactionSearch } from '../transaction-search';
+import type {
+  DashboardDataSource,
+  DateType,
+  PeriodParams,
+  SalesMetricsRow,
+  DailySalesRow,
+  DailyMetricsRow,
+  ProductPerformanceRow,
+  SkuWeeklyUnitsRow,
+  RegionPerformanceRow,
+  DashboardSummaryRow,
+  TransactionDetailRow,
+  PostingRow,
+  ProductCostRow,
+  FbsStockRow,
+  ReplenishmentSettingsRow,
+  CogsBreakdownRow,
+  ReturnOutcome,
+  ReturnsBreakdownRow,
+  ReturnsDailyRow,
+  CategorizationRuleRow,
+  SellerAccountRow,
+  ProductOptionRow,
+} from './types';
+
+export interface FixturePostingItem {
+  sku: number;
+  offer_id: string;
+  product_name: string;
+  quantity: number;
+  price_total: number;
+  revenue: number;
+  commission: number;
+}
+
+export interface FixturePosting {
+  posting_number: string;
+  status: string;
+  in_process_at: string;
+  shipment_date: string | null;
+  delivering_date: string | null;
+  region: string;
+  warehouse_id: number;
+  warehouse_name?: string;
+  // Set on cancelled postings, see postings_fbs.cancellation_*
+  cancel_reason?: string;
+  cancellation_initiator?: string;
+  // Missing in single-account fixtures, see DEFAULT_FIXTURE_ACCOUNT
+  account_id?: string;
+  items: FixturePostingItem[];
+}
+
+export interface DashboardFixtures {
+  // Date the fixture data was recorded around; see FixtureDataSourceOptions.today
+  anchorDate: string;
+  accounts?: SellerAccountRow[];
+  postings: FixturePosting[];
+  transactions: TransactionDetailRow[];
+  productCosts?: ProductCostRow[];
+  fbsStocks?: FbsStockRow[];
+  replenishmentSettings?: ReplenishmentSettingsRow[];
+}
+
+export interface FixtureDataSourceOptions {
+  fixtures: DashboardFixtures;
+  // When set, every fixture date is shifted so that anchorDate lands on this
+  // day (YYYY-MM-DD). Keeps the demo data inside the default "last 7 days".
+  today?: string | null;
+}
+
+const DEFAULT_FIXTURE_ACCOUNT: SellerAccountRow = { id: 'default', name: 'Основной кабинет' };
+
+// get_products_* and get_regions_* have no date_type argument and count
+// delivered postings, so the fixture backend groups them by delivery date.
+const PERIOD_DATE_TYPE: DateType = 'delivering_date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (date: string | null, days: number): string | null => {
+  if (!date || days === 0) return date;
+  const shifted = new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS
+  );
+
+const rebaseFixtures = (
+  fixtures: DashboardFixtures,
+  today: string | null | undefined
+): DashboardFixtures => {
+  const offset = today ? daysBetween(fixtures.anchorDate, today) : 0;
+  if (offset === 0) return fixtures;
+
+  return {
+    anchorDate: today as string,
+    accounts: fixtures.accounts,
+    postings: fixtures.postings.map((posting) => ({
+      ...posting,
+      in_process_at: shiftDate(posting.in_process_at, offset) as string,
+      shipment_date: shiftDate(posting.shipment_date, offset),
+      delivering_date: shiftDate(posting.delivering_date, offset),
+    })),
+    transactions: fixtures.transactions.map((transaction) => ({
+      ...transaction,
+      operation_date_msk: shiftDate(transaction.operation_date_msk, offset),
+    })),
+    productCosts: fixtures.productCosts?.map((entry) => ({
+      ...entry,
+      effective_from: shiftDate(entry.effective_from, offset) as string,
+    })),
+    fbsStocks: fixtures.fbsStocks?.map((stock) => ({
+      ...stock,
+      updated_at: shiftDate(stock.updated_at, offset) as string,
+    })),
+    replenishmentSettings: fixtures.replenishmentSettings,
+  };
+};
+
+// Case-insensitive substring match, the same semantics as PostgREST ilike %term%
+const ilike = (value: string | number | null | undefined, term: string) =>
+  String(value ?? '')
+    .toLowerCase()
+    .includes(term.toLowerCase());
+
+// Membership in an include/exclude list; excluding keeps rows without a value
+const inList = <T>(value: T | null | undefined, list: T[] | null | undefined, exclude?: boolean) => {
+  if (!list || list.length === 0) return true;
+  if (value == null) return !!exclude;
+  return list.includes(value) !== !!exclude;
+};
+
+const inAccount = (accountId: string | null | undefined, filter: string | null | undefined) =>
+  !filter || (accountId || DEFAULT_FIXTURE_ACCOUNT.id) === filter;
+
+const inRange = (date: string | null, from: string, to: string) =>
+  !!date && date.slice(0, 10) >= from && date.slice(0, 10) <= to;
+
+interface PostingLine {
+  posting: FixturePosting;
+  item: FixturePostingItem;
+}
+
+interface LineTotals {
+  orders: number;
+  units: number;
+  gmv: number;
+  revenue: number;
+  commissions: number;
+}
+
+const sumLines = (lines: PostingLine[]): LineTotals => ({
+  orders: new Set(lines.map((line) => line.posting.posting_number)).size,
+  units: lines.reduce((sum, line) => sum + line.item.quantity, 0),
+  gmv: lines.reduce((sum, line) => sum + line.item.price_total, 0),
+  revenue: lines.reduce((sum, line) => sum + line.item.revenue, 0),
+  commissions: lines.reduce((sum, line) => sum + line.item.commission, 0),
+});
+
+// Fixture postings keep totals per item; postings_fbs has the Ozon shape
+const toPostingRow = (posting: FixturePosting): PostingRow => ({
+  posting_number: posting.posting_number,
+  status: posting.status,
+  substatus: null,
+  in_process_at: posting.in_process_at,
+  shipment_date: posting.shipment_date,
+  delivering_date: posting.delivering_date,
+  warehouse_id: posting.warehouse_id,
+  warehouse_name: posting.warehouse_name || null,
+  cluster_from: null,
+  cluster_to: posting.region,
+  cancel_reason: posting.cancel_reason || null,
+  account_id: posting.account_id || DEFAULT_FIXTURE_ACCOUNT.id,
+  products: posting.items.map((item) => ({
+    sku: item.sku,
+    offer_id: item.offer_id,
+    name: item.product_name,
+    quantity: item.quantity,
+    price: item.quantity > 0 ? item.price_total / item.quantity : item.price_total,
+  })),
+  financial_products: posting.items.map((item) => ({
+    product_id: item.sku,
+    price: item.quantity > 0 ? item.price_total / item.quantity : item.price_total,
+    payout: item.revenue - item.commission,
+    commission_amount: item.commission,
+    quantity: item.quantity,
+  })),
+});
+
+const groupBy = <T>(items: T[], keyOf: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return groups;
+};
+
+const compareValues = (
+  a: string | number | null,
+  b: string | number | null,
+  sortOrder: 'asc' | 'desc'
+) => {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') {
+    return (a - b) * direction;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''), 'ru') * direction;
+};
+
+const isDelivered = (line: PostingLine) => line.posting.status === 'delivered';
+
+// Return logistics of one transaction row as a positive expense: the "Return"
+// services, or return_delivery_charge when no service is listed
+const returnCostOf = (transaction: TransactionDetailRow) => {
+  if (!ilike(transaction.operation_type, 'return') && !Number(transaction.return_delivery_charge)) {
+    return null;
+  }
+  if (!transaction.service_name) return -Number(transaction.return_delivery_charge || 0);
+  return ilike(transaction.service_name, 'return') ? -Number(transaction.service_price || 0) : 0;
+};
+
+export const createFixtureDataSource = ({
+  fixtures,
+  today,
+}: FixtureDataSourceOptions): DashboardDataSource => {
+  const data = rebaseFixtures(fixtures, today);
+  const lines: PostingLine[] = data.postings.flatMap((posting) =>
+    posting.items.map((item) => ({ posting, item }))
+  );
+  const regionByPosting = new Map(
+    data.postings.map((posting) => [posting.posting_number, posting.region])
+  );
+  // Postings with a return operation and their return logistics
+  const returnCosts = new Map<string, number>();
+  data.transactions.forEach((transaction) => {
+    const cost = returnCostOf(transaction);
+    if (cost === null || !transaction.posting_number) return;
+    returnCosts.set(
+      transaction.posting_number,
+      (returnCosts.get(transaction.posting_number) || 0) + cost
+    );
+  });
+  // Writable in memory so the cost registry can be edited in demos
+  let productCosts: ProductCostRow[] = [...(data.productCosts || [])];
+  let fbsStocks: FbsStockRow[] = [...(data.fbsStocks || [])];
+  const replenishmentSettings = new Map(
+    (data.replenishmentSettings || []).map((entry) => [entry.sku, entry])
+  );
+  let categorizationRules: CategorizationRuleRow[] = [];
+
+  const costOn = (sku: number, date: string) =>
+    productCosts
+      .filter((entry) => entry.sku === sku && entry.effective_from <= date)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+
+  const filterLines = (params: PeriodParams, dateType: DateType) =>
+    lines.filter(
+      ({ posting, item }) =>
+        inRange(posting[dateType], params.startDate, params.endDate) &&
+        inList(item.sku, params.skuFilter, params.skuExclude) &&
+        inList(posting.region, params.regionFilter, params.regionExclude) &&
+        inAccount(posting.account_id, params.accountFilter)
+    );
+
+  const filterTransactions = (
+    params: Pick<PeriodParams, 'startDate' | 'endDate'> &
+      Partial<
+        Pick<
+          PeriodParams,
+          'skuFilter' | 'skuExclude' | 'regionFilter' | 'regionExclude' | 'accountFilter'
+        >
+      >
+  ) =>
+    data.transactions.filter(
+      (transaction) =>
+        inRange(
+          transaction.operation_date_msk,
+          params.startDate,
+          params.endDate
+        ) &&
+        inList(
+          transaction.item_sku == null ? null : Number(transaction.item_sku),
+          params.skuFilter,
+          params.skuExclude
+        ) &&
+        inList(
+          regionByPosting.get(transaction.posting_number || ''),
+          params.regionFilter,
+          params.regionExclude
+        ) &&
+        inAccount(transaction.account_id, params.accountFilter)
+    );
+
+  const toPerformance = (periodLines: PostingLine[]) => {
+    const totals = sumLines(periodLines);
+    return {
+      delivered_orders: totals.orders,
+      delivered_units: totals.units,
+      delivered_gmv: totals.gmv,
+      delivered_revenue: totals.revenue,
+      delivered_commissions: -totals.commissions,
+    };
+  };
+
+  const productsPerformance = (params: PeriodParams) =>
+    Array.from(
+      groupBy(
+        filterLines(params, PERIOD_DATE_TYPE).filter(isDelivered),
+        (line) => String(line.item.sku)
+      ).values()
+    ).map((productLines): ProductPerformanceRow => {
+      const { item } = productLines[0];
+      const performance = toPerformance(productLines);
+      return {
+        sku: item.sku,
+        offer_id: item.offer_id,
+        product_name: item.product_name,
+        ...performance,
+        avg_price:
+          performance.delivered_units > 0
+            ? performance.delivered_gmv / performance.delivered_units
+            : 0,
+      };
+    });
+
+  // Lines of the postings ordered in the period with their outcome and share
+  // of the posting's return logistics, like posting_return_lines
+  const returnLines = (params: PeriodParams) =>
+    filterLines(params, 'in_process_at').map(({ posting, item }) => {
+      const outcome: ReturnOutcome =
+        posting.status === 'cancelled'
+          ? 'cancelled'
+          : returnCosts.has(posting.posting_number)
+            ? 'returned'
+            : 'ordered';
+      const postingGmv = posting.items.reduce((sum, line) => sum + line.price_total, 0);
+      const share =
+        postingGmv > 0 ? item.price_total / postingGmv : 1 / posting.items.length;
+      return {
+        posting,
+        item,
+        outcome,
+        returnCost: (returnCosts.get(posting.posting_number) || 0) * share,
+      };
+    });
+
+  const regionsPerformance = (params: PeriodParams) =>
+    Array.from(
+      groupBy(
+        filterLines(params, PERIOD_DATE_TYPE).filter(isDelivered),
+        (line) => line.posting.region
+      ).entries()
+    )
+      .map(
+        ([region, regionLines]): RegionPerformanceRow => ({
+          region,
+          ...toPerformance(regionLines),
+        })
+      )
+      .sort(
+        (a, b) => Number(b.delivered_revenue) - Number(a.delivered_revenue)
+      );
+
+  return {
+    async getSalesMetrics(params) {
+      const periodLines = filterLines(params, params.dateType);
+      const active = sumLines(
+        periodLines.filter((line) => line.posting.status !== 'cancelled')
+      );
+      const delivered = sumLines(periodLines.filter(isDelivered));
+      const cancelled = sumLines(
+        periodLines.filter((line) => line.posting.status === 'cancelled')
+      );
+      const inDelivery = sumLines(
+        periodLines.filter((line) => line.posting.status === 'delivering')
+      );
+
+      const row: SalesMetricsRow = {
+        total_orders: active.orders,
+        total_units: active.units,
+        total_gmv: active.gmv,
+        total_revenue: active.revenue,
+        total_commissions: -active.commissions,
+        avg_order_value:
+          delivered.orders > 0 ? delivered.gmv / delivered.orders : 0,
+        delivered_orders: delivered.orders,
+        delivered_units: delivered.units,
+        delivered_gmv: delivered.gmv,
+        delivered_revenue: delivered.revenue,
+        delivered_commissions: -delivered.commissions,
+        cancelled_gmv: cancelled.gmv,
+        in_delivery_gmv: inDelivery.gmv,
+        net_profit: delivered.revenue - delivered.commissions,
+      };
+      return [row];
+    },
+
+    async getDailySales(params) {
+      const periodLines = filterLines(
+        {
+          ...params,
+          skuFilter: params.sku ? [params.sku] : null,
+          skuExclude: false,
+          regionFilter: null,
+          regionExclude: false,
+        },
+        params.dateType
+      ).filter(isDelivered);
+
+      return Array.from(
+        groupBy(periodLines, (line) =>
+          (line.posting[params.dateType] as string).slice(0, 10)
+        ).entries()
+      )
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, dayLines]): DailySalesRow => {
+          const totals = sumLines(dayLines);
+          return {
+            date_msk: date,
+            date_type: params.dateType,
+            delivered_orders: totals.orders,
+            delivered_units: totals.units,
+            delivered_gmv: totals.gmv,
+            delivered_revenue: totals.revenue,
+          };
+        });
+    },
+
+    async getDailyMetrics(params) {
+      return Array.from(
+        groupBy(filterLines(params, params.dateType), (line) =>
+          (line.posting[params.dateType] as string).slice(0, 10)
+        ).entries()
+      )
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, dayLines]): DailyMetricsRow => {
+          const active = sumLines(
+            dayLines.filter((line) => line.posting.status !== 'cancelled')
+          );
+          const cancelled = sumLines(
+            dayLines.filter((line) => line.posting.status === 'cancelled')
+          );
+          return {
+            date_msk: date,
+            total_orders: active.orders,
+            total_units: active.units,
+            total_gmv: active.gmv,
+            total_commissions: -active.commissions,
+            cancelled_gmv: cancelled.gmv,
+          };
+        });
+    },
+
+    async getProductsMetrics(params) {
+      const products = productsPerformance(params);
+      const totalRevenue = products.reduce(
+        (sum, product) => sum + Number(product.delivered_revenue),
+        0
+      );
+      return [
+        {
+          total_products: products.length,
+          total_revenue: totalRevenue,
+          total_units: products.reduce(
+            (sum, product) => sum + Number(product.delivered_units),
+            0
+          ),
+          total_orders: new Set(
+            filterLines(params, PERIOD_DATE_TYPE)
+              .filter(isDelivered)
+              .map((line) => line.posting.posting_number)
+          ).size,
+          avg_revenue_per_product:
+            products.length > 0 ? totalRevenue / products.length : 0,
+        },
+      ];
+    },
+
+    async getProductsPerformance(params) {
+      const sortColumn = (
+        params.sortBy === 'sku' ? 'sku' : `delivered_${params.sortBy}`
+      ) as keyof ProductPerformanceRow;
+
+      return productsPerformance(params)
+        .filter(
+          (product) =>
+            !params.searchTerm ||
+            ilike(product.sku, params.searchTerm) ||
+            ilike(product.offer_id, params.searchTerm) ||
+            ilike(product.product_name, params.searchTerm)
+        )
+        .sort((a, b) =>
+          compareValues(a[sortColumn], b[sortColumn], params.sortOrder)
+        )
+        .slice(params.pageOffset, params.pageOffset + params.pageSize);
+    },
+
+    async getSkuWeeklyUnits(params) {
+      return Array.from(
+        groupBy(
+          filterLines(params, PERIOD_DATE_TYPE).filter(isDelivered),
+          (line) => {
+            const day = (line.posting[PERIOD_DATE_TYPE] as string).slice(0, 10);
+            return `${line.item.sku}:${Math.floor(daysBetween(params.startDate, day) / 7)}`;
+          }
+        ).entries()
+      ).map(([key, weekLines]): SkuWeeklyUnitsRow => {
+        const [sku, weekIndex] = key.split(':').map(Number);
+        return { sku, week_index: weekIndex, units: sumLines(weekLines).units };
+      });
+    },
+
+    async getRegionsPerformance(params) {
+      return regionsPerformance(params);
+    },
+
+    async getRegionsMetrics(params) {
+      const regions = regionsPerformance(params);
+      const deliveredLines = filterLines(params, PERIOD_DATE_TYPE).filter(
+        isDelivered
+      );
+      const totals = sumLines(deliveredLines);
+      return [
+        {
+          total_regions: regions.length,
+          total_revenue: totals.revenue,
+          total_units: totals.units,
+          total_orders: totals.orders,
+          total_gmv: totals.gmv,
+          avg_revenue_per_region:
+            regions.length > 0 ? totals.revenue / regions.length : 0,
+          top_region: regions[0]?.region ?? null,
+          top_region_revenue: regions[0]?.delivered_revenue ?? 0,
+        },
+      ];
+    },
+
+    async getDashboardSummary(params) {
+      return Array.from(
+        groupBy(
+          filterTransactions(params),
+          (transaction) => transaction.operation_date_msk as string
+        ).values()
+      ).map(
+        (dayTransactions): DashboardSummaryRow => ({
+          total_revenue: dayTransactions.reduce(
+            (sum, t) => sum + Number(t.accruals_for_sale),
+            0
+          ),
+          total_commission: dayTransactions.reduce(
+            (sum, t) => sum + Math.abs(Number(t.sale_commission)),
+            0
+          ),
+          total_service_costs: dayTransactions
+            .filter((t) => t.category !== 'sales')
+            .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0),
+          total_payout: dayTransactions.reduce(
+            (sum, t) => sum + Number(t.amount),
+            0
+          ),
+        })
+      );
+    },
+
+    async getFinanceSummary(params) {
+      const transactions = filterTransactions(params);
+      const totalFor = (category: string) =>
+        transactions
+          .filter((t) => t.category === category)
+          .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
+
+      const sales = transactions.reduce(
+        (sum, t) => sum + Number(t.accruals_for_sale),
+        0
+      );
+      const commissions = transactions.reduce(
+        (sum, t) => sum + Math.abs(Number(t.sale_commission)),
+        0
+      );
+      const delivery = totalFor('delivery');
+      const returns = totalFor('returns');
+      const ads = totalFor('ads');
+      const services = totalFor('services');
+      const expenses = commissions + delivery + returns + ads + services;
+
+      return [
+        {
+          total_sales: sales,
+          total_commissions: commissions,
+          total_delivery: delivery,
+          total_returns: returns,
+          total_ads: ads,
+          total_services: services,
+          total_income: sales,
+          total_expenses: expenses,
+          net_profit: sales - expenses,
+        },
+      ];
+    },
+
+    async getTransactionDetails(query) {
+      const search = query.search;
+      const rows = filterTransactions({
+        startDate: query.startDate,
+        endDate: query.endDate,
+        skuFilter: query.sku ?? null,
+        skuExclude: query.skuExclude,
+        regionFilter: query.region ?? null,
+        regionExclude: query.regionExclude,
+        accountFilter: query.accountId ?? null,
+      })
+        .filter((t) => !search || matchesTransactionSearch(t, search));
+
+      // Ties are broken by the row key, like in the Supabase source
+      const sortColumn = query.sortBy as keyof TransactionDetailRow | undefined;
+      rows.sort(
+        (a, b) =>
+          (sortColumn
+            ? compareValues(a[sortColumn], b[sortColumn], query.sortOrder || 'asc')
+            : 0) ||
+          compareValues(a.transaction_id, b.transaction_id, 'asc') ||
+          compareValues(a.service_id, b.service_id, 'asc') ||
+          compareValues(a.item_sku, b.item_sku, 'asc')
+      );
+
+      const offset = query.offset || 0;
+      return {
+        rows:
+          query.limit !== undefined
+            ? rows.slice(offset, offset + query.limit)
+            : rows,
+        count: query.withCount ? rows.length : null,
+      };
+    },
+
+    async getPosting(postingNumber) {
+      const posting = data.postings.find((item) => item.posting_number === postingNumber);
+      return posting ? toPostingRow(posting) : null;
+    },
+
+    async getPostingTransactions(postingNumber) {
+      return data.transactions
+        .filter((t) => t.posting_number === postingNumber)
+        .sort((a, b) => compareValues(a.operation_date_msk, b.operation_date_msk, 'asc'));
+    },
+
+    async getProductCosts() {
+      return [...productCosts].sort(
+        (a, b) =>
+          a.sku - b.sku || b.effective_from.localeCompare(a.effective_from)
+      );
+    },
+
+    async upsertProductCosts(entries) {
+      entries.forEach((entry) => {
+        const existing = productCosts.find(
+          (row) =>
+            row.sku === entry.sku && row.effective_from === entry.effective_from
+        );
+        if (existing) {
+          existing.cost = entry.cost;
+        } else {
+          const nextId =
+            Math.max(0, ...productCosts.map((row) => row.id)) + 1;
+          productCosts.push({ id: nextId, ...entry });
+        }
+      });
+    },
+
+    async deleteProductCost(id) {
+      productCosts = productCosts.filter((row) => row.id !== id);
+    },
+
+    async getCogsBreakdown(params) {
+      const deliveredLines = filterLines(params, params.dateType).filter(
+        isDelivered
+      );
+
+      return Array.from(
+        groupBy(
+          deliveredLines,
+          (line) => `${line.item.sku}|${line.posting.region}`
+        ).values()
+      ).map((groupLines): CogsBreakdownRow => {
+        let cogs = 0;
+        let unitsWithoutCost = 0;
+        groupLines.forEach(({ posting, item }) => {
+          const saleDate = (posting[params.dateType] as string).slice(0, 10);
+          const entry = costOn(item.sku, saleDate);
+          if (entry) {
+            cogs += Number(entry.cost) * item.quantity;
+          } else {
+            unitsWithoutCost += item.quantity;
+          }
+        });
+
+        return {
+          sku: groupLines[0].item.sku,
+          region: groupLines[0].posting.region,
+          units: sumLines(groupLines).units,
+          cogs,
+          units_without_cost: unitsWithoutCost,
+        };
+      });
+    },
+
+    async getReturnsBreakdown(params) {
+      return Array.from(
+        groupBy(returnLines(params), ({ posting, item, outcome }) =>
+          [
+            item.sku,
+            posting.region,
+            posting.warehouse_name || posting.warehouse_id,
+            outcome,
+            posting.cancel_reason,
+            posting.cancellation_initiator,
+          ].join('|')
+        ).values()
+      ).map((groupLines): ReturnsBreakdownRow => {
+        const [{ posting, item, outcome }] = groupLines;
+        const cancelled = outcome === 'cancelled';
+        return {
+          sku: item.sku,
+          region: posting.region,
+          warehouse_name: posting.warehouse_name || String(posting.warehouse_id),
+          outcome,
+          cancel_reason: cancelled ? posting.cancel_reason || null : null,
+          cancellation_initiator: cancelled ? posting.cancellation_initiator || null : null,
+          units: sumLines(groupLines).units,
+          gmv: sumLines(groupLines).gmv,
+          return_cost: groupLines.reduce((sum, line) => sum + line.returnCost, 0),
+        };
+      });
+    },
+
+    async getReturnsDaily(params) {
+      return Array.from(
+        groupBy(returnLines(params), (line) => line.posting.in_process_at.slice(0, 10)).entries()
+      )
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, dayLines]): ReturnsDailyRow => {
+          const unitsOf = (outcome: ReturnOutcome) =>
+            sumLines(dayLines.filter((line) => line.outcome === outcome)).units;
+          return {
+            date_msk: date,
+            units: sumLines(dayLines).units,
+            cancelled_units: unitsOf('cancelled'),
+            returned_units: unitsOf('returned'),
+            return_cost: dayLines.reduce((sum, line) => sum + line.returnCost, 0),
+          };
+        });
+    },
+
+    async getFbsStocks(params) {
+      return fbsStocks
+        .filter(
+          (stock) =>
+            inList(Number(stock.sku), params.skuFilter, params.skuExclude) &&
+            inAccount(stock.account_id, params.accountFilter)
+        )
+        .sort(
+          (a, b) =>
+            Number(a.sku) - Number(b.sku) ||
+            a.warehouse_name.localeCompare(b.warehouse_name, 'ru')
+        );
+    },
+
+    async replaceFbsStocks(accountId, stocks) {
+      const warehouses = new Set(stocks.map((stock) => stock.warehouse_name));
+      const updatedAt = new Date().toISOString();
+      fbsStocks = [
+        ...fbsStocks.filter(
+          (stock) =>
+            !warehouses.has(stock.warehouse_name) ||
+            (stock.account_id || DEFAULT_FIXTURE_ACCOUNT.id) !== accountId
+        ),
+        ...stocks.map((stock) => ({ ...stock, account_id: accountId, updated_at: updatedAt })),
+      ];
+    },
+
+    async getReplenishmentSettings() {
+      return Array.from(replenishmentSettings.values()).sort((a, b) => a.sku - b.sku);
+    },
+
+    async upsertReplenishmentSettings(entries) {
+      entries.forEach((entry) => replenishmentSettings.set(entry.sku, { ...entry }));
+    },
+
+    async searchProducts(params) {
+      const products = new Map<number, ProductOptionRow>();
+      lines.forEach(({ item }) => {
+        if (!products.has(item.sku)) {
+          products.set(item.sku, {
+            sku: item.sku,
+            offer_id: item.offer_id,
+            product_name: item.product_name,
+          });
+        }
+      });
+
+      const term = params.searchTerm;
+      return Array.from(products.values())
+        .filter((product) =>
+          params.skus
+            ? params.skus.includes(Number(product.sku))
+            : !term ||
+              ilike(product.sku, term) ||
+              ilike(product.offer_id, term) ||
+              ilike(product.product_name, term)
+        )
+        .sort((a, b) => compareValues(a.product_name, b.product_name, 'asc'))
+        .slice(0, params.limit);
+    },
+
+    async getRegions() {
+      return Array.from(new Set(data.postings.map((posting) => posting.region)))
+        .filter(Boolean)
+        .sort((a, b) => a.localeCompare(b, 'ru'));
+    },
+
+    async getSellerAccounts() {
+      return data.accounts?.length ? data.accounts : [DEFAULT_FIXTURE_ACCOUNT];
+    },
+
+    async getCategorizationRules() {
+      return [...categorizationRules].sort((a, b) => a.priority - b.priority);
+    },
+
+    async saveCategorizationRules(rules) {
+      categorizationRules = rules.map((rule) => ({ ...rule }));
+    },
+  };
+};
+
+export const createDemoFixtureDataSource = async () => {
+  const { default: fixtures } = await import('../../fixtures/dashboard.json');
+  return createFixtureDataSource({
+    fixtures: fixtures as DashboardFixtures,
+    today: formatMoscowDate(new Date()),
+  });
+};
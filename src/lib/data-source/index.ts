@@ -0,0 +1,108 @@
+import type { Filters } from '../../hooks/useFilters';
+import { formatMoscowDate } from '../date-utils';
+import type {
+  DashboardDataSource,
+  PeriodParams,
+  TransactionDetailRow,
+  TransactionDetailsQuery,
+} from './types';
+
+export type * from './types';
+
+export type DataSourceKind = 'supabase' | 'fixtures';
+
+export const DATA_SOURCE_KIND: DataSourceKind =
+  import.meta.env.VITE_DATA_SOURCE === 'fixtures' ? 'fixtures' : 'supabase';
+
+let dataSourcePromise: Promise<DashboardDataSource> | null = null;
+
+// Both backends are loaded lazily so that the fixture JSON never ends up in a
+// Supabase build and the Supabase client is never created in fixture mode.
+const loadDataSource = async (): Promise<DashboardDataSource> => {
+  if (DATA_SOURCE_KIND === 'fixtures') {
+    const { createDemoFixtureDataSource } = await import('./fixture-source');
+    return createDemoFixtureDataSource();
+  }
+
+  const { createSupabaseDataSource } = await import('./supabase-source');
+  return createSupabaseDataSource();
+};
+
+export const getDataSource = (): Promise<DashboardDataSource> => {
+  if (!dataSourcePromise) {
+    dataSourcePromise = loadDataSource();
+  }
+  return dataSourcePromise;
+};
+
+export const toPeriodParams = (filters: Filters): PeriodParams => ({
+  startDate: formatMoscowDate(filters.dateFrom),
+  endDate: formatMoscowDate(filters.dateTo),
+  skuFilter: filters.sku.length > 0 ? filters.sku : null,
+  skuExclude: filters.skuExclude,
+  regionFilter: filters.region.length > 0 ? filters.region : null,
+  regionExclude: filters.regionExclude,
+  accountFilter: filters.accountId || null,
+});
+
+// Filter part of a vw_transaction_details query
+export const toTransactionFilters = (filters: Filters) => ({
+  startDate: formatMoscowDate(filters.dateFrom),
+  endDate: formatMoscowDate(filters.dateTo),
+  sku: filters.sku.length > 0 ? filters.sku : null,
+  skuExclude: filters.skuExclude,
+  region: filters.region.length > 0 ? filters.region : null,
+  regionExclude: filters.regionExclude,
+  accountId: filters.accountId || null,
+});
+
+const TRANSACTION_PAGE_SIZE = 1000;
+
+// Reads every matching row of vw_transaction_details. PostgREST caps a
+// response at 1000 rows, so the rows are fetched page by page; without a
+// sort the data source orders them by transaction_id, service_id and
+// item_sku, a unique key, so pages neither overlap nor skip rows.
+export const fetchAllTransactionDetails = async (
+  query: Omit<TransactionDetailsQuery, 'sortBy' | 'sortOrder' | 'offset' | 'limit' | 'withCount'>
+): Promise<TransactionDetailRow[]> => {
+  const source = await getDataSource();
+  const rows: TransactionDetailRow[] = [];
+
+  for (let offset = 0; ; offset += TRANSACTION_PAGE_SIZE) {
+    const page = await source.getTransactionDetails({
+      ...query,
+      offset,
+      limit: TRANSACTION_PAGE_SIZE,
+    });
+    rows.push(...page.rows);
+    if (page.rows.length < TRANSACTION_PAGE_SIZE) return rows;
+  }
+};
+
+// Reads the rows of the latest `count` transactions, newest first. Rows of
+// one transaction are adjacent in this order, so pages are read only until
+// the next transaction starts.
+export const fetchLatestTransactionDetails = async (
+  query: Omit<TransactionDetailsQuery, 'sortBy' | 'sortOrder' | 'offset' | 'limit' | 'withCount'>,
+  count: number
+): Promise<TransactionDetailRow[]> => {
+  const source = await getDataSource();
+  const rows: TransactionDetailRow[] = [];
+  const transactions = new Set<string>();
+
+  for (let offset = 0; ; offset += TRANSACTION_PAGE_SIZE) {
+    const page = await source.getTransactionDetails({
+      ...query,
+      sortBy: 'operation_date_msk',
+      sortOrder: 'desc',
+      offset,
+      limit: TRANSACTION_PAGE_SIZE,
+    });
+    for (const row of page.rows) {
+      transactions.add(String(row.transaction_id));
+      if (transactions.size > count) return rows;
+      rows.push(row);
+    }
+    if (page.rows.length < TRANSACTION_PAGE_SIZE) return rows;
+  }
+};
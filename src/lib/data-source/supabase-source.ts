@@ -0,0 +1,449 @@
+import { supabase } from '../supabase';
+import { FREE_TEXT_COLUMNS } from '../transaction-search';
+import type {
+  DashboardDataSource,
+  PeriodParams,
+  TransactionDetailsQuery,
+  DatedPeriodParams,
+  DailySalesRow,
+  DashboardSummaryRow,
+  TransactionDetailRow,
+  PostingRow,
+  ProductCostRow,
+  FbsStockRow,
+  ReplenishmentSettingsRow,
+  CategorizationRuleRow,
+  SellerAccountRow,
+} from './types';
+
+// account_filter is only sent when an account is selected, so functions
+// created before multi-account support keep working for the combined view
+const toRpcArgs = (params: PeriodParams) => ({
+  start_date: params.startDate,
+  end_date: params.endDate,
+  sku_filter: params.skuFilter,
+  sku_exclude: params.skuExclude,
+  region_filter: params.regionFilter,
+  region_exclude: params.regionExclude,
+  ...(params.accountFilter ? { account_filter: params.accountFilter } : {}),
+});
+
+const toDatedRpcArgs = (params: DatedPeriodParams) => ({
+  ...toRpcArgs(params),
+  date_type: params.dateType,
+});
+
+// Values inside or=(...) are double-quoted so commas, dots and parentheses
+// stay part of the value; quotes and backslashes are escaped
+const quoteFilterValue = (value: string | number) =>
+  `"${String(value).replace(/["\\]/g, '\\$&')}"`;
+
+// PostgREST list literal for in.(...) inside or=(...)
+const toInList = (values: (string | number)[]) => `(${values.map(quoteFilterValue).join(',')})`;
+
+// Include or exclude a list of values. Excluding keeps rows without a value
+// (services without an item, operations without a posting), they belong to
+// none of the excluded SKUs or regions.
+interface ListFilterable<Q> {
+  in(column: string, values: (string | number)[]): Q;
+  or(filters: string): Q;
+}
+
+const applyListFilter = <Q extends ListFilterable<Q>>(
+  request: Q,
+  column: string,
+  values: (string | number)[] | null | undefined,
+  exclude: boolean | undefined
+): Q => {
+  if (!values || values.length === 0) return request;
+  return exclude
+    ? request.or(`${column}.is.null,${column}.not.in.${toInList(values)}`)
+    : request.in(column, values);
+};
+
+interface SearchFilterable<Q> {
+  filter(column: string, operator: string, value: string | number): Q;
+  or(filters: string): Q;
+}
+
+// Every condition and every free word narrows the result; a word matches if
+// any of the text columns contains it
+const applySearch = <Q extends SearchFilterable<Q>>(
+  request: Q,
+  search: TransactionDetailsQuery['search']
+): Q => {
+  if (!search) return request;
+
+  let filtered = request;
+  search.conditions.forEach((condition) => {
+    filtered = filtered.filter(condition.column, condition.operator, condition.value);
+  });
+  search.terms.forEach((term) => {
+    filtered = filtered.or(
+      FREE_TEXT_COLUMNS.map((column) => `${column}.ilike.${quoteFilterValue(term)}`).join(',')
+    );
+  });
+  return filtered;
+};
+
+const STOCKS_PAGE_SIZE = 1000;
+
+// vw_transaction_details repeats a transaction once per service and item.
+// Rows tied on the requested sort follow this key, so offset pages neither
+// overlap nor skip rows.
+const TRANSACTION_ROW_KEY = ['transaction_id', 'service_id', 'item_sku'];
+
+export const createSupabaseDataSource = (): DashboardDataSource => ({
+  async getSalesMetrics(params) {
+    const { data, error } = await supabase.rpc(
+      'get_sales_metrics_by_date_type',
+      toDatedRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getDailySales(params) {
+    let request = supabase
+      .from(params.sku ? 'vw_daily_sku_sales_by_date_type' : 'vw_daily_sales_by_date_type')
+      .select('*')
+      .eq('date_type', params.dateType)
+      .gte('date_msk', params.startDate)
+      .lte('date_msk', params.endDate)
+      .order('date_msk');
+
+    // Without an account filter the view returns one row per account and
+    // day; the hook sums them per day
+    if (params.accountFilter) {
+      request = request.eq('account_id', params.accountFilter);
+    }
+
+    if (params.sku) {
+      request = request.eq('sku', params.sku);
+    }
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return (data || []) as DailySalesRow[];
+  },
+
+  async getDailyMetrics(params) {
+    const { data, error } = await supabase.rpc(
+      'get_daily_metrics',
+      toDatedRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getProductsMetrics(params) {
+    const { data, error } = await supabase.rpc(
+      'get_products_metrics',
+      toRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getProductsPerformance(params) {
+    const { data, error } = await supabase.rpc('get_products_performance', {
+      ...toRpcArgs(params),
+      search_term: params.searchTerm,
+      sort_by: params.sortBy,
+      sort_order: params.sortOrder,
+      page_offset: params.pageOffset,
+      page_size: params.pageSize,
+    });
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getSkuWeeklyUnits(params) {
+    const { data, error } = await supabase.rpc(
+      'get_sku_weekly_units',
+      toRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getRegionsPerformance(params) {
+    const { data, error } = await supabase.rpc(
+      'get_regions_performance',
+      toRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getRegionsMetrics(params) {
+    const { data, error } = await supabase.rpc(
+      'get_regions_metrics',
+      toRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getDashboardSummary(params) {
+    let request = supabase
+      .from('dashboard_summary')
+      .select(
+        'total_revenue, total_commission, total_service_costs, total_payout'
+      )
+      .gte('date_field', params.startDate)
+      .lte('date_field', params.endDate);
+
+    if (params.accountFilter) {
+      request = request.eq('account_id', params.accountFilter);
+    }
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return (data || []) as DashboardSummaryRow[];
+  },
+
+  async getFinanceSummary(params) {
+    const { data, error } = await supabase.rpc(
+      'get_finance_summary',
+      toDatedRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getTransactionDetails(query) {
+    // vw_transaction_details_regions adds the posting's delivery cluster, so
+    // the region filter runs in the database like in the RPC functions
+    let request = supabase
+      .from(query.region?.length ? 'vw_transaction_details_regions' : 'vw_transaction_details')
+      .select('*', query.withCount ? { count: 'exact' } : undefined)
+      .gte('operation_date_msk', query.startDate)
+      .lte('operation_date_msk', query.endDate);
+
+    request = applySearch(request, query.search);
+
+    request = applyListFilter(request, 'item_sku', query.sku, query.skuExclude);
+
+    if (query.accountId) {
+      request = request.eq('account_id', query.accountId);
+    }
+
+    request = applyListFilter(request, 'region', query.region, query.regionExclude);
+
+    if (query.sortBy) {
+      request = request.order(query.sortBy, {
+        ascending: query.sortOrder === 'asc',
+      });
+    }
+    TRANSACTION_ROW_KEY.forEach((column) => {
+      request = request.order(column);
+    });
+
+    if (query.limit !== undefined) {
+      const from = query.offset || 0;
+      request = request.range(from, from + query.limit - 1);
+    }
+
+    const { data, error, count } = await request;
+
+    if (error) throw error;
+    return { rows: (data || []) as TransactionDetailRow[], count };
+  },
+
+  async getPosting(postingNumber) {
+    const { data, error } = await supabase
+      .from('postings_fbs')
+      .select('*')
+      .eq('posting_number', postingNumber)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as PostingRow | null) ?? null;
+  },
+
+  async getPostingTransactions(postingNumber) {
+    const { data, error } = await supabase
+      .from('vw_transaction_details')
+      .select('*')
+      .eq('posting_number', postingNumber)
+      .order('operation_date_msk')
+      .order('transaction_id');
+
+    if (error) throw error;
+    return (data || []) as TransactionDetailRow[];
+  },
+
+  async getProductCosts() {
+    const { data, error } = await supabase
+      .from('product_costs')
+      .select('id, sku, cost, effective_from')
+      .order('sku')
+      .order('effective_from', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as ProductCostRow[];
+  },
+
+  async upsertProductCosts(entries) {
+    const { error } = await supabase
+      .from('product_costs')
+      .upsert(entries, { onConflict: 'sku,effective_from' });
+    if (error) throw error;
+  },
+
+  async deleteProductCost(id) {
+    const { error } = await supabase.from('product_costs').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  async getCogsBreakdown(params) {
+    const { data, error } = await supabase.rpc(
+      'get_cogs_breakdown',
+      toDatedRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getReturnsBreakdown(params) {
+    const { data, error } = await supabase.rpc(
+      'get_returns_breakdown',
+      toRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getReturnsDaily(params) {
+    const { data, error } = await supabase.rpc(
+      'get_returns_daily',
+      toRpcArgs(params)
+    );
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getFbsStocks(params) {
+    // One row per SKU and warehouse can pass the 1000-row response cap of
+    // PostgREST, so the table is read page by page
+    const rows: FbsStockRow[] = [];
+    for (let offset = 0; ; offset += STOCKS_PAGE_SIZE) {
+      let request = supabase
+        .from('fbs_stocks')
+        .select('*')
+        .order('sku')
+        .order('warehouse_name')
+        .order('account_id')
+        .range(offset, offset + STOCKS_PAGE_SIZE - 1);
+
+      request = applyListFilter(request, 'sku', params.skuFilter, params.skuExclude);
+
+      if (params.accountFilter) {
+        request = request.eq('account_id', params.accountFilter);
+      }
+
+      const { data, error } = await request;
+      if (error) throw error;
+      rows.push(...((data || []) as FbsStockRow[]));
+      if (!data || data.length < STOCKS_PAGE_SIZE) return rows;
+    }
+  },
+
+  async replaceFbsStocks(accountId, stocks) {
+    if (stocks.length === 0) return;
+
+    // Every row of this upload gets the same timestamp; whatever else is
+    // left on the listed warehouses afterwards is no longer in stock
+    const updatedAt = new Date().toISOString();
+    const { error } = await supabase.from('fbs_stocks').upsert(
+      stocks.map((stock) => ({ ...stock, account_id: accountId, updated_at: updatedAt })),
+      { onConflict: 'account_id,warehouse_name,sku' }
+    );
+    if (error) throw error;
+
+    const warehouses = Array.from(new Set(stocks.map((stock) => stock.warehouse_name)));
+    const { error: pruneError } = await supabase
+      .from('fbs_stocks')
+      .delete()
+      .eq('account_id', accountId)
+      .in('warehouse_name', warehouses)
+      .neq('updated_at', updatedAt);
+    if (pruneError) throw pruneError;
+  },
+
+  async getReplenishmentSettings() {
+    const { data, error } = await supabase
+      .from('replenishment_settings')
+      .select('sku, supplier, lead_time_days, moq, pack_size, target_cover_days')
+      .order('sku');
+
+    if (error) throw error;
+    return (data || []) as ReplenishmentSettingsRow[];
+  },
+
+  async upsertReplenishmentSettings(entries) {
+    const { error } = await supabase
+      .from('replenishment_settings')
+      .upsert(
+        entries.map((entry) => ({ ...entry, updated_at: new Date().toISOString() })),
+        { onConflict: 'sku' }
+      );
+    if (error) throw error;
+  },
+
+  async searchProducts(params) {
+    const { data, error } = await supabase.rpc('search_products', {
+      search_term: params.searchTerm,
+      sku_list: params.skus,
+      result_limit: params.limit,
+    });
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getRegions() {
+    const { data, error } = await supabase.rpc('list_regions');
+    if (error) throw error;
+    return ((data || []) as { region: string }[]).map((row) => row.region);
+  },
+
+  async getSellerAccounts() {
+    const { data, error } = await supabase
+      .from('seller_accounts')
+      .select('id, name')
+      .order('name');
+
+    if (error) throw error;
+    return (data || []) as SellerAccountRow[];
+  },
+
+  async getCategorizationRules() {
+    const { data, error } = await supabase
+      .from('finance_category_rules')
+      .select('id, priority, operation_type, service_name, field, category')
+      .order('priority');
+
+    if (error) throw error;
+    return (data || []) as CategorizationRuleRow[];
+  },
+
+  async saveCategorizationRules(rules) {
+    if (rules.length > 0) {
+      const { error } = await supabase
+        .from('finance_category_rules')
+        .upsert(rules, { onConflict: 'id' });
+      if (error) throw error;
+    }
+
+    // Upsert first and prune afterwards, so readers never see an empty set
+    let prune = supabase.from('finance_category_rules').delete();
+    prune =
+      rules.length > 0
+        ? prune.not('id', 'in', `(${rules.map((rule) => `"${rule.id}"`).join(',')})`)
+        : prune.not('id', 'is', null);
+
+    const { error } = await prune;
+    if (error) throw error;
+  },
+});
@@ -0,0 +1,415 @@
+import type { TransactionSearch } from '../transaction-search';
+
+// Row shapes returned by the Supabase views and RPC functions. Numeric columns
+// come back from PostgREST either as numbers or as strings (numeric type), so
+// they are normalized with toNumber() in the hooks.
+export type Numeric = number | string | null;
+
+export type DateType = 'delivering_date' | 'shipment_date' | 'in_process_at';
+
+export interface SalesMetricsRow {
+  total_orders: Numeric;
+  total_units: Numeric;
+  total_gmv: Numeric;
+  total_revenue: Numeric;
+  total_commissions: Numeric;
+  avg_order_value: Numeric;
+  delivered_orders: Numeric;
+  delivered_units: Numeric;
+  delivered_gmv: Numeric;
+  delivered_revenue: Numeric;
+  delivered_commissions: Numeric;
+  cancelled_gmv: Numeric;
+  in_delivery_gmv: Numeric;
+  net_profit: Numeric;
+}
+
+export interface DailySalesRow {
+  date_msk: string;
+  date_type: DateType;
+  delivered_orders: Numeric;
+  delivered_units: Numeric;
+  delivered_gmv: Numeric;
+  delivered_revenue: Numeric;
+}
+
+// Per-day totals of all postings for anomaly detection: orders, units, GMV
+// and commissions of postings that were not cancelled, plus cancelled GMV
+export interface DailyMetricsRow {
+  date_msk: string;
+  total_orders: Numeric;
+  total_units: Numeric;
+  total_gmv: Numeric;
+  total_commissions: Numeric;
+  cancelled_gmv: Numeric;
+}
+
+export interface ProductPerformanceRow {
+  sku: Numeric;
+  offer_id: string | null;
+  product_name: string | null;
+  delivered_orders: Numeric;
+  delivered_units: Numeric;
+  delivered_gmv: Numeric;
+  delivered_revenue: Numeric;
+  delivered_commissions: Numeric;
+  avg_price: Numeric;
+}
+
+// Delivered units of one SKU in one 7-day bucket of the period; bucket 0
+// starts on the period's first day
+export interface SkuWeeklyUnitsRow {
+  sku: Numeric;
+  week_index: Numeric;
+  units: Numeric;
+}
+
+export interface ProductsMetricsRow {
+  total_products: Numeric;
+  total_revenue: Numeric;
+  total_units: Numeric;
+  total_orders: Numeric;
+  avg_revenue_per_product: Numeric;
+}
+
+export interface RegionPerformanceRow {
+  region: string | null;
+  delivered_orders: Numeric;
+  delivered_units: Numeric;
+  delivered_gmv: Numeric;
+  delivered_revenue: Numeric;
+  delivered_commissions: Numeric;
+}
+
+export interface RegionsMetricsRow {
+  total_regions: Numeric;
+  total_revenue: Numeric;
+  total_units: Numeric;
+  total_orders: Numeric;
+  total_gmv: Numeric;
+  avg_revenue_per_region: Numeric;
+  top_region: string | null;
+  top_region_revenue: Numeric;
+}
+
+export interface DashboardSummaryRow {
+  total_revenue: Numeric;
+  total_commission: Numeric;
+  total_service_costs: Numeric;
+  total_payout: Numeric;
+}
+
+export interface FinanceSummaryRow {
+  total_sales: Numeric;
+  total_commissions: Numeric;
+  total_delivery: Numeric;
+  total_returns: Numeric;
+  total_ads: Numeric;
+  total_services: Numeric;
+  total_income: Numeric;
+  total_expenses: Numeric;
+  net_profit: Numeric;
+}
+
+export interface TransactionDetailRow {
+  transaction_id: Numeric;
+  operation_date_msk: string | null;
+  posting_number: string | null;
+  operation_type: string | null;
+  operation_type_name: string | null;
+  type: string | null;
+  amount: Numeric;
+  accruals_for_sale: Numeric;
+  sale_commission: Numeric;
+  delivery_charge: Numeric;
+  return_delivery_charge: Numeric;
+  warehouse_id: Numeric;
+  // finance_transaction_services.id; null on rows without a service
+  service_id: Numeric;
+  service_name: string | null;
+  service_price: Numeric;
+  item_sku: Numeric;
+  item_name: string | null;
+  category: string | null;
+  account_id: string | null;
+}
+
+// Element of postings_fbs.products as returned by /v3/posting/fbs/list
+export interface PostingProductRow {
+  sku: Numeric;
+  offer_id: string | null;
+  name: string | null;
+  quantity: Numeric;
+  // Price of one unit
+  price: Numeric;
+}
+
+// Element of postings_fbs.financial_products; product_id is the SKU
+export interface PostingFinancialProductRow {
+  product_id: Numeric;
+  price: Numeric;
+  payout: Numeric;
+  commission_amount: Numeric;
+  quantity: Numeric;
+}
+
+export interface PostingRow {
+  posting_number: string;
+  status: string | null;
+  substatus: string | null;
+  in_process_at: string | null;
+  shipment_date: string | null;
+  delivering_date: string | null;
+  warehouse_id: Numeric;
+  warehouse_name: string | null;
+  cluster_from: string | null;
+  cluster_to: string | null;
+  cancel_reason: string | null;
+  account_id: string | null;
+  products: PostingProductRow[];
+  financial_products: PostingFinancialProductRow[];
+}
+
+export interface ProductCostRow {
+  id: number;
+  sku: number;
+  cost: Numeric;
+  effective_from: string;
+}
+
+export interface ProductCostInput {
+  sku: number;
+  cost: number;
+  effective_from: string;
+}
+
+// Delivered units and their cost of goods per SKU and region, each unit priced
+// with the product_costs entry valid on its sale date
+export interface CogsBreakdownRow {
+  sku: Numeric;
+  region: string | null;
+  units: Numeric;
+  cogs: Numeric;
+  units_without_cost: Numeric;
+}
+
+// What became of the postings ordered in a period: every one is "ordered",
+// "cancelled" or "returned" (not cancelled, with a return operation)
+export type ReturnOutcome = 'ordered' | 'cancelled' | 'returned';
+
+// Units, GMV and return logistics of postings ordered in the period per SKU,
+// region, warehouse and outcome. Reason and initiator are set for
+// cancellations only; return_cost is the posting's return logistics spread
+// over its lines by GMV, as a positive expense.
+export interface ReturnsBreakdownRow {
+  sku: Numeric;
+  region: string | null;
+  warehouse_name: string | null;
+  outcome: ReturnOutcome;
+  cancel_reason: string | null;
+  cancellation_initiator: string | null;
+  units: Numeric;
+  gmv: Numeric;
+  return_cost: Numeric;
+}
+
+// Units ordered on each day and how many of them were cancelled or returned
+export interface ReturnsDailyRow {
+  date_msk: string;
+  units: Numeric;
+  cancelled_units: Numeric;
+  returned_units: Numeric;
+  return_cost: Numeric;
+}
+
+// Stock of one SKU on one FBS warehouse as of updated_at
+export interface FbsStockRow {
+  sku: Numeric;
+  offer_id: string | null;
+  warehouse_id: Numeric;
+  warehouse_name: string;
+  // Units on the shelf, reserved ones included
+  present: Numeric;
+  reserved: Numeric;
+  updated_at: string;
+  account_id: string | null;
+}
+
+export interface FbsStockInput {
+  sku: number;
+  offer_id: string | null;
+  warehouse_id: number | null;
+  warehouse_name: string;
+  present: number;
+  reserved: number;
+}
+
+// Purchasing parameters of one SKU for the replenishment planner
+export interface ReplenishmentSettingsRow {
+  sku: number;
+  supplier: string | null;
+  lead_time_days: number;
+  moq: number;
+  pack_size: number;
+  target_cover_days: number;
+}
+
+// Finance categorization rule, evaluated in ascending priority order
+export interface CategorizationRuleRow {
+  id: string;
+  priority: number;
+  operation_type: string | null;
+  service_name: string | null;
+  field: string | null;
+  category: string;
+}
+
+// Ozon seller cabinet the synced rows belong to
+export interface SellerAccountRow {
+  id: string;
+  name: string;
+}
+
+// Common arguments of the period-based RPC functions
+export interface PeriodParams {
+  startDate: string;
+  endDate: string;
+  // null = no filter; otherwise the listed SKUs / regions only, or with the
+  // matching exclude flag everything but them
+  skuFilter: number[] | null;
+  skuExclude: boolean;
+  regionFilter: string[] | null;
+  regionExclude: boolean;
+  // null sums all seller accounts
+  accountFilter: string | null;
+}
+
+export interface DatedPeriodParams extends PeriodParams {
+  dateType: DateType;
+}
+
+export interface DailySalesParams {
+  startDate: string;
+  endDate: string;
+  dateType: DateType;
+  accountFilter: string | null;
+  // One product's series, for the product page; the global SKU filter does
+  // not apply to daily sales
+  sku?: number | null;
+}
+
+export interface ProductsPerformanceParams extends PeriodParams {
+  searchTerm: string | null;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  pageOffset: number;
+  pageSize: number;
+}
+
+export interface TransactionDetailsQuery {
+  startDate: string;
+  endDate: string;
+  sku?: number[] | null;
+  skuExclude?: boolean;
+  accountId?: string | null;
+  // Delivery clusters of the transaction's posting
+  region?: string[] | null;
+  regionExclude?: boolean;
+  // Parsed search box input, see lib/transaction-search
+  search?: TransactionSearch;
+  // Rows tied on it come by transaction_id, service_id and item_sku
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+  // Request an exact total count alongside the rows
+  withCount?: boolean;
+}
+
+export interface ProductSearchParams {
+  searchTerm: string | null;
+  // Look up these SKUs instead of searching
+  skus: number[] | null;
+  limit: number;
+}
+
+export interface ProductOptionRow {
+  sku: Numeric;
+  offer_id: string | null;
+  product_name: string | null;
+}
+
+export interface RowsPage<T> {
+  rows: T[];
+  count: number | null;
+}
+
+/**
+ * Everything the dashboard reads from and writes to the backend. Each method
+ * maps to one Supabase table, view or RPC function, named next to it.
+ */
+export interface DashboardDataSource {
+  // rpc get_sales_metrics_by_date_type
+  getSalesMetrics(params: DatedPeriodParams): Promise<SalesMetricsRow[]>;
+  // view vw_daily_sales_by_date_type
+  getDailySales(params: DailySalesParams): Promise<DailySalesRow[]>;
+  // rpc get_daily_metrics
+  getDailyMetrics(params: DatedPeriodParams): Promise<DailyMetricsRow[]>;
+  // rpc get_products_metrics
+  getProductsMetrics(params: PeriodParams): Promise<ProductsMetricsRow[]>;
+  // rpc get_products_performance
+  getProductsPerformance(
+    params: ProductsPerformanceParams
+  ): Promise<ProductPerformanceRow[]>;
+  // rpc get_sku_weekly_units
+  getSkuWeeklyUnits(params: PeriodParams): Promise<SkuWeeklyUnitsRow[]>;
+  // rpc get_regions_performance
+  getRegionsPerformance(params: PeriodParams): Promise<RegionPerformanceRow[]>;
+  // rpc get_regions_metrics
+  getRegionsMetrics(params: PeriodParams): Promise<RegionsMetricsRow[]>;
+  // view dashboard_summary
+  getDashboardSummary(
+    params: Pick<PeriodParams, 'startDate' | 'endDate' | 'accountFilter'>
+  ): Promise<DashboardSummaryRow[]>;
+  // rpc get_finance_summary
+  getFinanceSummary(params: DatedPeriodParams): Promise<FinanceSummaryRow[]>;
+  // view vw_transaction_details
+  getTransactionDetails(
+    query: TransactionDetailsQuery
+  ): Promise<RowsPage<TransactionDetailRow>>;
+  // table postings_fbs; null when the posting has not been synced
+  getPosting(postingNumber: string): Promise<PostingRow | null>;
+  // view vw_transaction_details: every operation of one posting, whatever its date
+  getPostingTransactions(postingNumber: string): Promise<TransactionDetailRow[]>;
+  // table product_costs
+  getProductCosts(): Promise<ProductCostRow[]>;
+  // Inserts or replaces entries by (sku, effective_from)
+  upsertProductCosts(entries: ProductCostInput[]): Promise<void>;
+  deleteProductCost(id: number): Promise<void>;
+  // rpc get_cogs_breakdown
+  getCogsBreakdown(params: DatedPeriodParams): Promise<CogsBreakdownRow[]>;
+  // rpc get_returns_breakdown: postings counted by order date
+  getReturnsBreakdown(params: PeriodParams): Promise<ReturnsBreakdownRow[]>;
+  // rpc get_returns_daily
+  getReturnsDaily(params: PeriodParams): Promise<ReturnsDailyRow[]>;
+  // table fbs_stocks
+  getFbsStocks(
+    params: Pick<PeriodParams, 'skuFilter' | 'skuExclude' | 'accountFilter'>
+  ): Promise<FbsStockRow[]>;
+  // Replaces the account's stock on the warehouses listed in `stocks`
+  replaceFbsStocks(accountId: string, stocks: FbsStockInput[]): Promise<void>;
+  // table replenishment_settings
+  getReplenishmentSettings(): Promise<ReplenishmentSettingsRow[]>;
+  // Inserts or replaces entries by sku
+  upsertReplenishmentSettings(entries: ReplenishmentSettingsRow[]): Promise<void>;
+  // rpc search_products: catalog of SKUs seen in postings
+  searchProducts(params: ProductSearchParams): Promise<ProductOptionRow[]>;
+  // rpc list_regions: every delivery cluster seen in postings
+  getRegions(): Promise<string[]>;
+  // table seller_accounts
+  getSellerAccounts(): Promise<SellerAccountRow[]>;
+  // table finance_category_rules
+  getCategorizationRules(): Promise<CategorizationRuleRow[]>;
+  // Replaces the whole rule set
+  saveCategorizationRules(rules: CategorizationRuleRow[]): Promise<void>;
+}
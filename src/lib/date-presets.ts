@@ -0,0 +1,108 @@
+import { formatMoscowDate, toMoscowTime } from './date-utils';
+
+export type DatePreset =
+  | 'today'
+  | 'yesterday'
+  | 'last_7_days'
+  | 'last_30_days'
+  | 'last_90_days'
+  | 'this_week'
+  | 'last_week'
+  | 'month_to_date'
+  | 'last_month'
+  | 'quarter_to_date'
+  | 'year_to_date';
+
+export const DATE_PRESETS: DatePreset[] = [
+  'today',
+  'yesterday',
+  'last_7_days',
+  'last_30_days',
+  'last_90_days',
+  'this_week',
+  'last_week',
+  'month_to_date',
+  'last_month',
+  'quarter_to_date',
+  'year_to_date',
+];
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  today: 'Сегодня',
+  yesterday: 'Вчера',
+  last_7_days: 'Последние 7 дней',
+  last_30_days: 'Последние 30 дней',
+  last_90_days: 'Последние 90 дней',
+  this_week: 'Эта неделя',
+  last_week: 'Прошлая неделя',
+  month_to_date: 'С начала месяца',
+  last_month: 'Прошлый месяц',
+  quarter_to_date: 'С начала квартала',
+  year_to_date: 'С начала года',
+};
+
+export const isDatePreset = (value: string | null): value is DatePreset =>
+  !!value && (DATE_PRESETS as string[]).includes(value);
+
+// Calendar arithmetic on the Moscow date, done on UTC midnights so the
+// browser's own time zone never shifts a day
+const utcDay = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+const toFilterDate = (date: Date) => toMoscowTime(date.toISOString().slice(0, 10));
+
+/**
+ * The date range a preset stands for on the day `now` falls on in Moscow.
+ * Called whenever the URL is read, so a shared `range=` link always means
+ * the same relative period. "Last N days" end today and include it.
+ */
+export const resolveDatePreset = (preset: DatePreset, now: Date = new Date()) => {
+  const [year, month, day] = formatMoscowDate(now).split('-').map(Number);
+  const today = utcDay(year, month - 1, day);
+  const daysAgo = (days: number) => utcDay(year, month - 1, day - days);
+  // ISO weeks start on Monday
+  const weekday = (today.getUTCDay() + 6) % 7;
+
+  let from: Date;
+  let to = today;
+
+  switch (preset) {
+    case 'today':
+      from = today;
+      break;
+    case 'yesterday':
+      from = daysAgo(1);
+      to = daysAgo(1);
+      break;
+    case 'last_7_days':
+      from = daysAgo(6);
+      break;
+    case 'last_30_days':
+      from = daysAgo(29);
+      break;
+    case 'last_90_days':
+      from = daysAgo(89);
+      break;
+    case 'this_week':
+      from = daysAgo(weekday);
+      break;
+    case 'last_week':
+      from = daysAgo(weekday + 7);
+      to = daysAgo(weekday + 1);
+      break;
+    case 'month_to_date':
+      from = utcDay(year, month - 1, 1);
+      break;
+    case 'last_month':
+      from = utcDay(year, month - 2, 1);
+      to = utcDay(year, month - 1, 0);
+      break;
+    case 'quarter_to_date':
+      from = utcDay(year, Math.floor((month - 1) / 3) * 3, 1);
+      break;
+    case 'year_to_date':
+      from = utcDay(year, 0, 1);
+      break;
+  }
+
+  return { from: toFilterDate(from), to: toFilterDate(to) };
+};
@@ -0,0 +1,131 @@
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportCell = string | number | null;
+
+export interface ExportColumn<T> {
+  label: string;
+  value: (row: T) => ExportCell;
+}
+
+export interface ExportPage<T> {
+  rows: T[];
+  totalCount: number;
+}
+
+export interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface ExportTableOptions<T> {
+  columns: ExportColumn<T>[];
+  fetchPage: (page: number, pageSize: number) => Promise<ExportPage<T>>;
+  pageSize: number;
+  format: ExportFormat;
+  fileName: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super('Экспорт отменён');
+    this.name = 'ExportCancelledError';
+  }
+}
+
+// Russian Excel uses ";" as list separator; the BOM makes it read UTF-8
+const CSV_SEPARATOR = ';';
+const CSV_BOM = '\uFEFF';
+
+const escapeCsvCell = (value: ExportCell) => {
+  if (value == null) return '';
+  const text = String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: ExportCell[][]) =>
+  CSV_BOM +
+  [header, ...rows]
+    .map((row) => row.map(escapeCsvCell).join(CSV_SEPARATOR))
+    .join('\r\n');
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const writeXlsx = async (
+  header: string[],
+  rows: ExportCell[][],
+  fileName: string
+) => {
+  // Loaded on demand: the library is large and only needed for exports
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...rows]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Данные');
+  XLSX.writeFile(workbook, fileName);
+};
+
+export const writeRows = async (
+  header: string[],
+  rows: ExportCell[][],
+  format: ExportFormat,
+  fileName: string
+) => {
+  if (format === 'xlsx') {
+    await writeXlsx(header, rows, `${fileName}.xlsx`);
+  } else {
+    downloadBlob(
+      new Blob([toCsv(header, rows)], { type: 'text/csv;charset=utf-8' }),
+      `${fileName}.csv`
+    );
+  }
+};
+
+/**
+ * Walks every page of a server-side paginated table and writes all rows to a
+ * CSV or XLSX file. Cancelling through `signal` stops before the next page.
+ */
+export const exportTable = async <T>({
+  columns,
+  fetchPage,
+  pageSize,
+  format,
+  fileName,
+  signal,
+  onProgress,
+}: ExportTableOptions<T>) => {
+  const rows: ExportCell[][] = [];
+  let total = 0;
+
+  for (let page = 0; page === 0 || rows.length < total; page++) {
+    if (signal?.aborted) throw new ExportCancelledError();
+
+    const result = await fetchPage(page, pageSize);
+    total = result.totalCount;
+    rows.push(
+      ...result.rows.map((row) => columns.map((column) => column.value(row)))
+    );
+    onProgress?.({ loaded: rows.length, total });
+
+    if (result.rows.length < pageSize) break;
+  }
+
+  if (signal?.aborted) throw new ExportCancelledError();
+
+  await writeRows(
+    columns.map((column) => column.label),
+    rows,
+    format,
+    fileName
+  );
+  return rows.length;
+};
@@ -0,0 +1,260 @@
+import type { CategorizationRuleRow, TransactionDetailRow } from './data-source';
+import { toNumber } from './format';
+
+export const FINANCE_CATEGORIES = [
+  'sales',
+  'commissions',
+  'delivery',
+  'returns',
+  'ads',
+  'services',
+  'other',
+] as const;
+
+export type FinanceCategoryKey = typeof FINANCE_CATEGORIES[number];
+
+export const CATEGORY_LABELS: Record<string, string> = {
+  sales: 'Продажи',
+  commissions: 'Комиссии',
+  delivery: 'Доставка',
+  returns: 'Возвраты',
+  ads: 'Реклама',
+  services: 'Услуги',
+  other: 'Прочее',
+};
+
+// Money columns of vw_transaction_details a rule can target. "amount" is the
+// part of the transaction total not covered by any of the other fields.
+export const AMOUNT_FIELDS = [
+  'accruals_for_sale',
+  'sale_commission',
+  'delivery_charge',
+  'return_delivery_charge',
+  'service_price',
+  'amount',
+] as const;
+
+export type AmountField = typeof AMOUNT_FIELDS[number];
+
+export const AMOUNT_FIELD_LABELS: Record<AmountField, string> = {
+  accruals_for_sale: 'Начисления за продажу',
+  sale_commission: 'Комиссия за продажу',
+  delivery_charge: 'Стоимость доставки',
+  return_delivery_charge: 'Доставка возврата',
+  service_price: 'Стоимость услуги',
+  amount: 'Остаток суммы',
+};
+
+/**
+ * One categorization rule. Rules are evaluated in list order and the first
+ * match wins. Empty patterns and a null field match anything; a pattern may
+ * list alternatives separated by "|", each compared as a case-insensitive
+ * substring.
+ */
+export interface CategorizationRule {
+  id: string;
+  // Matched against both the operation type code and its display name
+  operationType: string;
+  serviceName: string;
+  field: AmountField | null;
+  category: FinanceCategoryKey;
+}
+
+export const DEFAULT_CATEGORIZATION_RULES: CategorizationRule[] = [
+  { id: 'sales-accruals', operationType: '', serviceName: '', field: 'accruals_for_sale', category: 'sales' },
+  { id: 'sale-commission', operationType: '', serviceName: '', field: 'sale_commission', category: 'commissions' },
+  { id: 'return-services', operationType: '', serviceName: 'Return', field: 'service_price', category: 'returns' },
+  { id: 'return-delivery-charge', operationType: '', serviceName: '', field: 'return_delivery_charge', category: 'returns' },
+  { id: 'ads', operationType: 'MarketingAction|Promotion|продвиж|реклам', serviceName: '', field: null, category: 'ads' },
+  { id: 'logistics-services', operationType: '', serviceName: 'Logistic|DelivToCustomer|Dropoff|LastMile|Pickup', field: 'service_price', category: 'delivery' },
+  { id: 'delivery-charge', operationType: '', serviceName: '', field: 'delivery_charge', category: 'delivery' },
+  { id: 'return-operations', operationType: 'Return|возврат', serviceName: '', field: null, category: 'returns' },
+  { id: 'other-services', operationType: '', serviceName: '', field: 'service_price', category: 'services' },
+  { id: 'service-operations', operationType: 'Storage|размещ|услуг', serviceName: '', field: null, category: 'services' },
+];
+
+export const fromRuleRows = (rows: CategorizationRuleRow[]): CategorizationRule[] =>
+  [...rows]
+    .sort((a, b) => a.priority - b.priority)
+    .map((row) => ({
+      id: row.id,
+      operationType: row.operation_type || '',
+      serviceName: row.service_name || '',
+      field: (row.field as AmountField | null) || null,
+      category: row.category as FinanceCategoryKey,
+    }));
+
+export const toRuleRows = (rules: CategorizationRule[]): CategorizationRuleRow[] =>
+  rules.map((rule, index) => ({
+    id: rule.id,
+    priority: index + 1,
+    operation_type: rule.operationType.trim() || null,
+    service_name: rule.serviceName.trim() || null,
+    field: rule.field,
+    category: rule.category,
+  }));
+
+export interface AmountPart {
+  field: AmountField;
+  amount: number;
+  serviceName: string | null;
+}
+
+export interface CategorizedPart extends AmountPart {
+  // null when no rule matched; such parts are counted as "other"
+  category: FinanceCategoryKey | null;
+  ruleId: string | null;
+}
+
+const roundKopecks = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Splits one transaction into parts that add up to its amount exactly, so
+ * every rouble lands in a single category. vw_transaction_details repeats a
+ * transaction once per service and item, hence all its rows are passed in.
+ */
+export const splitTransaction = (rows: TransactionDetailRow[]): AmountPart[] => {
+  const [first] = rows;
+  const parts: AmountPart[] = [];
+  const push = (field: AmountField, amount: number, serviceName: string | null = null) => {
+    if (amount !== 0) parts.push({ field, amount, serviceName });
+  };
+
+  push('accruals_for_sale', toNumber(first.accruals_for_sale));
+  push('sale_commission', toNumber(first.sale_commission));
+
+  // Services repeat once per item row of the join. Two services of the same
+  // name and price are still two charges, so they are told apart by id.
+  const services = new Map<string, TransactionDetailRow>();
+  rows.forEach((row) => {
+    if (row.service_id != null) services.set(String(row.service_id), row);
+  });
+  services.forEach((row) =>
+    push('service_price', toNumber(row.service_price), row.service_name)
+  );
+
+  // delivery_charge and return_delivery_charge are legacy totals of the same
+  // logistics services, so they only count when no services are listed
+  if (services.size === 0) {
+    push('delivery_charge', toNumber(first.delivery_charge));
+    push('return_delivery_charge', toNumber(first.return_delivery_charge));
+  }
+
+  const covered = parts.reduce((sum, part) => sum + part.amount, 0);
+  push('amount', roundKopecks(toNumber(first.amount) - covered));
+
+  return parts;
+};
+
+const matchesPattern = (pattern: string, ...values: (string | null)[]) => {
+  const alternatives = pattern
+    .toLowerCase()
+    .split('|')
+    .map((alternative) => alternative.trim())
+    .filter(Boolean);
+
+  return (
+    alternatives.length === 0 ||
+    alternatives.some((alternative) =>
+      values.some((value) => value?.toLowerCase().includes(alternative))
+    )
+  );
+};
+
+export const findRule = (
+  rules: CategorizationRule[],
+  transaction: TransactionDetailRow,
+  part: AmountPart
+) =>
+  rules.find(
+    (rule) =>
+      (rule.field === null || rule.field === part.field) &&
+      matchesPattern(rule.operationType, transaction.operation_type, transaction.operation_type_name) &&
+      matchesPattern(rule.serviceName, part.serviceName)
+  );
+
+export const categorizeTransaction = (
+  rows: TransactionDetailRow[],
+  rules: CategorizationRule[]
+): CategorizedPart[] =>
+  splitTransaction(rows).map((part) => {
+    const rule = findRule(rules, rows[0], part);
+    return { ...part, category: rule?.category ?? null, ruleId: rule?.id ?? null };
+  });
+
+// Category of the largest part of a row, used for the badge in the
+// transactions table
+export const primaryCategory = (
+  row: TransactionDetailRow,
+  rules: CategorizationRule[]
+): FinanceCategoryKey => {
+  const parts = categorizeTransaction([row], rules);
+  const largest = parts.reduce<CategorizedPart | null>(
+    (best, part) => (!best || Math.abs(part.amount) > Math.abs(best.amount) ? part : best),
+    null
+  );
+  return largest?.category ?? 'other';
+};
+
+export interface UncategorizedOperation {
+  operationType: string;
+  operationTypeName: string;
+  serviceName: string | null;
+  field: AmountField;
+  amount: number;
+  count: number;
+}
+
+export interface CategorizationSummary {
+  // Signed totals: income is positive, expenses negative
+  totals: Record<FinanceCategoryKey, number>;
+  uncategorized: UncategorizedOperation[];
+}
+
+export const groupByTransaction = (rows: TransactionDetailRow[]) => {
+  const groups = new Map<string, TransactionDetailRow[]>();
+  rows.forEach((row, index) => {
+    const key = row.transaction_id != null ? String(row.transaction_id) : `row-${index}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  return Array.from(groups.values());
+};
+
+export const summarizeByCategory = (
+  rows: TransactionDetailRow[],
+  rules: CategorizationRule[]
+): CategorizationSummary => {
+  const totals = Object.fromEntries(
+    FINANCE_CATEGORIES.map((category) => [category, 0])
+  ) as Record<FinanceCategoryKey, number>;
+  const uncategorized = new Map<string, UncategorizedOperation>();
+
+  groupByTransaction(rows).forEach((transactionRows) => {
+    const [first] = transactionRows;
+
+    categorizeTransaction(transactionRows, rules).forEach((part) => {
+      totals[part.category ?? 'other'] += part.amount;
+      if (part.category) return;
+
+      const key = `${first.operation_type}|${part.serviceName}|${part.field}`;
+      const entry = uncategorized.get(key) || {
+        operationType: first.operation_type || '',
+        operationTypeName: first.operation_type_name || '',
+        serviceName: part.serviceName,
+        field: part.field,
+        amount: 0,
+        count: 0,
+      };
+      entry.amount += part.amount;
+      entry.count += 1;
+      uncategorized.set(key, entry);
+    });
+  });
+
+  return {
+    totals,
+    uncategorized: Array.from(uncategorized.values()).sort(
+      (a, b) => Math.abs(b.amount) - Math.abs(a.amount)
+    ),
+  };
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_FORECAST_HISTORY,
+  fitHoltWinters,
+  forecastHoltWinters,
+  forecastSeries,
+} from './forecast';
+
+// Deviations from the weekly mean, Monday to Sunday
+const WEEKLY_PATTERN = [0, 2, 4, 6, 4, 2, -18];
+
+// Deterministic noise in [-1, 1)
+const noise = (index: number) => (Math.sin(index * 12.9898) * 43758.5453) % 1;
+
+const series = (length: number, valueAt: (index: number) => number) =>
+  Array.from({ length }, (_, index) => valueAt(index));
+
+describe('fitHoltWinters', () => {
+  it('needs two full seasons of history', () => {
+    expect(fitHoltWinters(series(MIN_FORECAST_HISTORY - 1, () => 10))).toBeNull();
+    expect(fitHoltWinters(series(MIN_FORECAST_HISTORY, () => 10))).not.toBeNull();
+  });
+
+  it('fits a repeating weekly pattern exactly', () => {
+    const model = fitHoltWinters(series(56, (index) => 50 + WEEKLY_PATTERN[index % 7]));
+
+    expect(model?.residualStd).toBeCloseTo(0, 6);
+    expect(model?.level).toBeCloseTo(50, 6);
+    expect(model?.trend).toBeCloseTo(0, 6);
+  });
+
+  // The grid search picks whatever tracks the series best
+  it('picks fast level smoothing after a level shift', () => {
+    const model = fitHoltWinters(series(56, (index) => (index < 35 ? 20 : 60) + noise(index)));
+
+    expect(model?.params.alpha).toBe(0.7);
+    expect(model?.level).toBeCloseTo(60, 0);
+  });
+
+  it('picks fast seasonal smoothing when the weekly pattern changes', () => {
+    const values = series(56, (index) =>
+      50 + (index < 28 ? WEEKLY_PATTERN[index % 7] : -WEEKLY_PATTERN[index % 7])
+    );
+    const stable = fitHoltWinters(series(56, (index) => 50 + WEEKLY_PATTERN[index % 7]));
+
+    expect(fitHoltWinters(values)?.params.gamma).toBe(0.5);
+    expect(stable?.params.gamma).toBeLessThan(0.5);
+  });
+});
+
+describe('forecastHoltWinters', () => {
+  it('continues a trend with damping', () => {
+    const values = series(56, (index) => 10 + 0.5 * index);
+    const model = fitHoltWinters(values);
+    if (!model) throw new Error('no model');
+
+    const points = forecastHoltWinters(model, 21).map((point) => point.value);
+
+    expect(model.trend).toBeGreaterThan(0);
+    expect(points[0]).toBeGreaterThan(values[values.length - 1]);
+    // Same weekday a week apart: still growing, by less every week
+    const firstWeek = points[7] - points[0];
+    const secondWeek = points[14] - points[7];
+    expect(firstWeek).toBeGreaterThan(0);
+    expect(secondWeek).toBeGreaterThan(0);
+    expect(secondWeek).toBeLessThan(firstWeek);
+    // Undamped, the line would gain 0.5 a day
+    expect(points[20] - values[values.length - 1]).toBeLessThan(0.5 * 21);
+  });
+
+  it('repeats the weekly pattern in phase', () => {
+    const values = series(56, (index) => 50 + WEEKLY_PATTERN[index % 7]);
+    const model = fitHoltWinters(values);
+    if (!model) throw new Error('no model');
+
+    const points = forecastHoltWinters(model, 14);
+
+    points.forEach((point, step) => {
+      expect(point.value).toBeCloseTo(50 + WEEKLY_PATTERN[(values.length + step) % 7], 6);
+    });
+  });
+
+  it('widens the confidence bands with the horizon', () => {
+    const model = fitHoltWinters(series(56, (index) => 50 + WEEKLY_PATTERN[index % 7] + 3 * noise(index)));
+    if (!model) throw new Error('no model');
+
+    const points = forecastHoltWinters(model, 30);
+
+    expect(model.residualStd).toBeGreaterThan(0);
+    points.forEach((point, step) => {
+      expect(point.lower95).toBeLessThan(point.lower80);
+      expect(point.lower80).toBeLessThan(point.value);
+      expect(point.value).toBeLessThan(point.upper80);
+      expect(point.upper80).toBeLessThan(point.upper95);
+      if (step === 0) return;
+      const previous = points[step - 1];
+      expect(point.upper80 - point.lower80).toBeGreaterThan(previous.upper80 - previous.lower80);
+      expect(point.upper95 - point.lower95).toBeGreaterThan(previous.upper95 - previous.lower95);
+    });
+  });
+
+  it('never goes below zero', () => {
+    const model = fitHoltWinters(series(28, (index) => Math.max(28 - 2 * index, 0) + noise(index)));
+    if (!model) throw new Error('no model');
+
+    forecastHoltWinters(model, 30).forEach((point) => {
+      expect(point.value).toBeGreaterThanOrEqual(0);
+      expect(point.lower95).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
+
+describe('forecastSeries', () => {
+  it('returns null for a short series', () => {
+    expect(forecastSeries(series(10, (index) => index + 1), 7)).toBeNull();
+  });
+
+  it('returns null for a series without sales', () => {
+    expect(forecastSeries(series(28, () => 0), 7)).toBeNull();
+  });
+
+  it('forecasts a constant series flat with no spread', () => {
+    const points = forecastSeries(series(28, () => 5), 14);
+
+    expect(points).toHaveLength(14);
+    points?.forEach((point) => {
+      expect(point.value).toBeCloseTo(5, 6);
+      expect(point.upper95 - point.lower95).toBeCloseTo(0, 6);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Additive Holt-Winters (triple exponential smoothing) with a damped trend
+ * and weekly seasonality, for daily sales series. Everything runs in the
+ * browser; series are a few months of days, so the smoothing parameters are
+ * picked by a plain grid search on one-step-ahead errors.
+ */
+
+export const WEEKLY_SEASON = 7;
+
+// Two full seasons are needed to initialize level, trend and seasonality
+export const MIN_FORECAST_HISTORY = 2 * WEEKLY_SEASON;
+
+export const FORECAST_HORIZONS = [7, 14, 30] as const;
+
+// Damping keeps a month-long horizon from running away with a short-lived trend
+const DAMPING = 0.95;
+
+// Two-sided normal quantiles
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7];
+const BETAS = [0, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+export interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export interface HoltWintersModel {
+  params: HoltWintersParams;
+  seasonLength: number;
+  // Number of values the model was fitted on
+  length: number;
+  level: number;
+  trend: number;
+  // Seasonal components by position modulo seasonLength
+  seasonals: number[];
+  // Standard deviation of the one-step-ahead errors
+  residualStd: number;
+}
+
+export interface ForecastPoint {
+  value: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const smooth = (values: number[], seasonLength: number, params: HoltWintersParams) => {
+  const { alpha, beta, gamma } = params;
+  const firstSeason = values.slice(0, seasonLength);
+  let level = mean(firstSeason);
+  let trend = (mean(values.slice(seasonLength, 2 * seasonLength)) - level) / seasonLength;
+  const seasonals = firstSeason.map((value) => value - level);
+  let sse = 0;
+
+  for (let t = seasonLength; t < values.length; t++) {
+    const season = seasonals[t % seasonLength];
+    const error = values[t] - (level + DAMPING * trend + season);
+    sse += error * error;
+
+    const previousLevel = level;
+    level = alpha * (values[t] - season) + (1 - alpha) * (level + DAMPING * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+    seasonals[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * season;
+  }
+
+  return { level, trend, seasonals, sse, errors: values.length - seasonLength };
+};
+
+/**
+ * Fits the model with the parameters that give the smallest squared
+ * one-step-ahead error. Returns null for series shorter than two seasons.
+ */
+export const fitHoltWinters = (
+  values: number[],
+  seasonLength = WEEKLY_SEASON
+): HoltWintersModel | null => {
+  if (values.length < 2 * seasonLength) return null;
+
+  let best: (ReturnType<typeof smooth> & { params: HoltWintersParams }) | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const params = { alpha, beta, gamma };
+        const result = smooth(values, seasonLength, params);
+        if (!best || result.sse < best.sse) best = { ...result, params };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const { params, level, trend, seasonals, sse, errors } = best;
+  return {
+    params,
+    seasonLength,
+    length: values.length,
+    level,
+    trend,
+    seasonals,
+    residualStd: Math.sqrt(sse / errors),
+  };
+};
+
+/**
+ * Point forecast with 80% and 95% intervals for `horizon` steps after the
+ * fitted values. The interval width grows with the step as in the
+ * state-space form of the model. Sales cannot be negative, so all values
+ * are clamped at zero.
+ */
+export const forecastHoltWinters = (model: HoltWintersModel, horizon: number): ForecastPoint[] => {
+  const { params, seasonLength, length, level, trend, seasonals, residualStd } = model;
+  const points: ForecastPoint[] = [];
+  let dampedSum = 0;
+  // Sum of squared error weights of the steps before the current one
+  let weights = 0;
+
+  for (let h = 1; h <= horizon; h++) {
+    dampedSum += DAMPING ** h;
+    const value = level + dampedSum * trend + seasonals[(length + h - 1) % seasonLength];
+    const spread = residualStd * Math.sqrt(1 + weights);
+
+    points.push({
+      value: Math.max(value, 0),
+      lower80: Math.max(value - Z_80 * spread, 0),
+      upper80: Math.max(value + Z_80 * spread, 0),
+      lower95: Math.max(value - Z_95 * spread, 0),
+      upper95: Math.max(value + Z_95 * spread, 0),
+    });
+
+    const weight =
+      params.alpha * (1 + params.beta * dampedSum) + (h % seasonLength === 0 ? params.gamma : 0);
+    weights += weight * weight;
+  }
+
+  return points;
+};
+
+// Fit and forecast in one go; null when the history is too short or empty
+export const forecastSeries = (values: number[], horizon: number): ForecastPoint[] | null => {
+  if (values.every((value) => value === 0)) return null;
+  const model = fitHoltWinters(values);
+  return model && forecastHoltWinters(model, horizon);
+};
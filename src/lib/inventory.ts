@@ -0,0 +1,198 @@
+import type { FbsStockInput, FbsStockRow } from './data-source';
+import { addDays } from './sales-series';
+import { formatMoscowDate } from './date-utils';
+import { toNumber } from './format';
+
+// Page controls of the Остатки page
+export interface InventorySettings {
+  // SKUs whose stock lasts fewer days than this are flagged
+  coverDays: number;
+}
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = { coverDays: 14 };
+
+export interface WarehouseStock {
+  warehouseId: number | null;
+  warehouseName: string;
+  present: number;
+  reserved: number;
+  // Present minus reserved: what is left for new orders
+  available: number;
+}
+
+export interface InventoryItem {
+  sku: number;
+  offerId: string;
+  productName: string;
+  present: number;
+  reserved: number;
+  available: number;
+  // Delivered units in the period and per day of it
+  unitsSold: number;
+  velocity: number;
+  // Days the available stock lasts at that velocity; null without sales
+  daysOfCover: number | null;
+  // First day without stock, counted from the stock date; null without sales
+  outOfStockDate: string | null;
+  // Moscow date of the latest stock row of the SKU; null without stock rows
+  stockDate: string | null;
+  warehouses: WarehouseStock[];
+}
+
+export interface InventorySales {
+  sku: number;
+  offerId: string;
+  productName: string;
+  units: number;
+}
+
+/**
+ * Joins the stock rows with the delivered units of the period. SKUs that
+ * sold but have no stock row are out of stock everywhere; SKUs in stock
+ * without sales have no cover figure.
+ */
+export const buildInventory = (
+  stocks: FbsStockRow[],
+  sales: InventorySales[],
+  periodDays: number,
+  names: Map<number, string>
+): InventoryItem[] => {
+  const items = new Map<number, InventoryItem>();
+
+  const itemFor = (sku: number): InventoryItem => {
+    let item = items.get(sku);
+    if (!item) {
+      item = {
+        sku,
+        offerId: '',
+        productName: names.get(sku) || '',
+        present: 0,
+        reserved: 0,
+        available: 0,
+        unitsSold: 0,
+        velocity: 0,
+        daysOfCover: null,
+        outOfStockDate: null,
+        stockDate: null,
+        warehouses: [],
+      };
+      items.set(sku, item);
+    }
+    return item;
+  };
+
+  stocks.forEach((row) => {
+    const item = itemFor(toNumber(row.sku));
+    const present = toNumber(row.present);
+    const reserved = toNumber(row.reserved);
+    const stockDate = formatMoscowDate(new Date(row.updated_at));
+
+    item.offerId = item.offerId || row.offer_id || '';
+    item.present += present;
+    item.reserved += reserved;
+    if (!item.stockDate || stockDate > item.stockDate) item.stockDate = stockDate;
+    // Several accounts may ship from a warehouse of the same name
+    const warehouse = item.warehouses.find((entry) => entry.warehouseName === row.warehouse_name);
+    if (warehouse) {
+      warehouse.present += present;
+      warehouse.reserved += reserved;
+      warehouse.available = Math.max(warehouse.present - warehouse.reserved, 0);
+    } else {
+      item.warehouses.push({
+        warehouseId: row.warehouse_id == null ? null : toNumber(row.warehouse_id),
+        warehouseName: row.warehouse_name,
+        present,
+        reserved,
+        available: Math.max(present - reserved, 0),
+      });
+    }
+  });
+
+  sales.forEach((row) => {
+    const item = itemFor(row.sku);
+    item.offerId = item.offerId || row.offerId;
+    item.productName = item.productName || row.productName;
+    item.unitsSold += row.units;
+  });
+
+  const today = formatMoscowDate(new Date());
+  return Array.from(items.values()).map((item) => {
+    const available = item.warehouses.reduce((sum, warehouse) => sum + warehouse.available, 0);
+    const velocity = periodDays > 0 ? item.unitsSold / periodDays : 0;
+    const daysOfCover = velocity > 0 ? available / velocity : null;
+    return {
+      ...item,
+      available,
+      velocity,
+      daysOfCover,
+      outOfStockDate:
+        daysOfCover === null ? null : addDays(item.stockDate || today, Math.floor(daysOfCover)),
+    };
+  });
+};
+
+export const isBelowCover = (item: InventoryItem, coverDays: number) =>
+  item.daysOfCover !== null && item.daysOfCover < coverDays;
+
+export interface StocksCsvResult {
+  entries: FbsStockInput[];
+  errors: string[];
+}
+
+const parseCount = (value: string | undefined) =>
+  Number((value || '').replace(/\s/g, ''));
+
+/**
+ * Parses a stock CSV with the columns sku, warehouse, present and an
+ * optional reserved. Separators and the header row are handled like the
+ * cost registry import.
+ */
+export const parseStocksCsv = (text: string): StocksCsvResult => {
+  const entries: FbsStockInput[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      if (!line.trim()) return;
+
+      const cells = line.split(line.includes(';') ? ';' : ',');
+      const [skuCell, warehouseCell, presentCell, reservedCell] = cells.map((cell) =>
+        cell.trim().replace(/^"|"$/g, '')
+      );
+
+      // Header row
+      if (index === 0 && isNaN(Number(skuCell))) return;
+
+      const sku = Number(skuCell);
+      const present = parseCount(presentCell);
+      const reserved = reservedCell ? parseCount(reservedCell) : 0;
+      const key = `${sku}|${warehouseCell}`;
+
+      if (!Number.isInteger(sku) || sku <= 0) {
+        errors.push(`Строка ${index + 1}: неверный SKU «${skuCell}»`);
+      } else if (!warehouseCell) {
+        errors.push(`Строка ${index + 1}: не указан склад`);
+      } else if (!Number.isInteger(present) || present < 0) {
+        errors.push(`Строка ${index + 1}: неверный остаток «${presentCell}»`);
+      } else if (!Number.isInteger(reserved) || reserved < 0) {
+        errors.push(`Строка ${index + 1}: неверный резерв «${reservedCell}»`);
+      } else if (seen.has(key)) {
+        errors.push(`Строка ${index + 1}: SKU ${sku} на складе «${warehouseCell}» уже был в файле`);
+      } else {
+        seen.add(key);
+        entries.push({
+          sku,
+          offer_id: null,
+          warehouse_id: null,
+          warehouse_name: warehouseCell,
+          present,
+          reserved,
+        });
+      }
+    });
+
+  return { entries, errors };
+};
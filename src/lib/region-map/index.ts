@@ -0,0 +1,211 @@
+/**
+ * Shapes of the Russian federal subjects for the regions map, and matching of
+ * the region names that come with the data to them.
+ *
+ * russia-regions.json holds simplified subject boundaries in longitude and
+ * latitude, derived from the Natural Earth admin-1 data (public domain).
+ * Features are keyed by ISO 3166-2 code (e.g. RU-MOW) and carry a Russian
+ * `name`; a more detailed GeoJSON with the same ids can replace it.
+ */
+
+type Ring = [number, number][];
+
+export interface RegionFeature {
+  type: 'Feature';
+  // ISO 3166-2 code
+  id: string;
+  properties: {
+    name: string;
+  };
+  geometry:
+    | { type: 'Polygon'; coordinates: Ring[] }
+    | { type: 'MultiPolygon'; coordinates: Ring[][] };
+}
+
+export interface RegionFeatureCollection {
+  type: 'FeatureCollection';
+  features: RegionFeature[];
+}
+
+const polygonsOf = (feature: RegionFeature): Ring[][] =>
+  feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+
+const RADIANS = Math.PI / 180;
+
+// Albers equal-area conic with the parallels and central meridian commonly
+// used for maps of Russia. Longitudes are taken relative to the central
+// meridian, so Chukotka east of 180° stays next to the rest of the country.
+const CENTRAL_MERIDIAN = 100;
+const [PARALLEL_1, PARALLEL_2] = [52 * RADIANS, 64 * RADIANS];
+const CONE = (Math.sin(PARALLEL_1) + Math.sin(PARALLEL_2)) / 2;
+const CONE_C = Math.cos(PARALLEL_1) ** 2 + 2 * CONE * Math.sin(PARALLEL_1);
+
+// Plane coordinates in SVG orientation: y grows southwards
+const projectPoint = ([longitude, latitude]: [number, number]): [number, number] => {
+  const delta = ((longitude - CENTRAL_MERIDIAN + 540) % 360) - 180;
+  const radius = Math.sqrt(CONE_C - 2 * CONE * Math.sin(latitude * RADIANS)) / CONE;
+  const theta = CONE * delta * RADIANS;
+  return [radius * Math.sin(theta) * 100, radius * Math.cos(theta) * 100];
+};
+
+const projectFeature = (feature: RegionFeature): RegionFeature => ({
+  ...feature,
+  geometry: {
+    type: 'MultiPolygon',
+    coordinates: polygonsOf(feature).map((polygon) => polygon.map((ring) => ring.map(projectPoint))),
+  },
+});
+
+// Loaded on demand, only the regions page needs the shapes. They are
+// projected once here; everything below works in plane coordinates.
+export const loadRegionShapes = async (): Promise<RegionFeatureCollection> => {
+  const shapes = (await import('./russia-regions.json')).default as RegionFeatureCollection;
+  return { ...shapes, features: shapes.features.map(projectFeature) };
+};
+
+// SVG path of a projected feature
+export const featurePath = (feature: RegionFeature) =>
+  polygonsOf(feature)
+    .flat()
+    .map((ring) => `M${ring.map(([x, y]) => `${x.toFixed(2)},${y.toFixed(2)}`).join('L')}Z`)
+    .join('');
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const collectionBounds = (collection: RegionFeatureCollection): Bounds => {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  collection.features.forEach((feature) =>
+    polygonsOf(feature)
+      .flat(2)
+      .forEach(([x, y]) => {
+        bounds.minX = Math.min(bounds.minX, x);
+        bounds.maxX = Math.max(bounds.maxX, x);
+        bounds.minY = Math.min(bounds.minY, y);
+        bounds.maxY = Math.max(bounds.maxY, y);
+      })
+  );
+  return bounds;
+};
+
+// Words that vary between sources without changing the subject
+const STOP_WORDS = new Set([
+  'г',
+  'гор',
+  'город',
+  'обл',
+  'область',
+  'край',
+  'респ',
+  'республика',
+  'автономный',
+  'автономная',
+  'округ',
+  'ао',
+  'югра',
+  'кузбасс',
+  'алания',
+  'якутия',
+]);
+
+// "Республика Татарстан", "Татарстан Респ." and "татарстан" give the same key
+export const normalizeRegionName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .split(/[^a-zа-я0-9]+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .join(' ');
+
+// Cities, delivery clusters and short names seen in Ozon data, by the
+// normalized name. Subject names themselves come from the shapes.
+const REGION_ALIASES: Record<string, string> = {
+  'мо': 'RU-MOS',
+  'подмосковье': 'RU-MOS',
+  'москва и мо': 'RU-MOW',
+  'москва мо и дальние регионы': 'RU-MOW',
+  'спб': 'RU-SPE',
+  'санкт петербург и сзо': 'RU-SPE',
+  'архангельск': 'RU-ARK',
+  'барнаул': 'RU-ALT',
+  'белгород': 'RU-BEL',
+  'владивосток': 'RU-PRI',
+  'волгоград': 'RU-VGG',
+  'вологда': 'RU-VLG',
+  'воронеж': 'RU-VOR',
+  'екатеринбург': 'RU-SVE',
+  'ижевск': 'RU-UD',
+  'иркутск': 'RU-IRK',
+  'казань': 'RU-TA',
+  'калининград': 'RU-KGD',
+  'кемерово': 'RU-KEM',
+  'киров': 'RU-KIR',
+  'краснодар': 'RU-KDA',
+  'красноярск': 'RU-KYA',
+  'курск': 'RU-KRS',
+  'липецк': 'RU-LIP',
+  'махачкала': 'RU-DA',
+  'мурманск': 'RU-MUR',
+  'нижний новгород': 'RU-NIZ',
+  'новокузнецк': 'RU-KEM',
+  'новосибирск': 'RU-NVS',
+  'омск': 'RU-OMS',
+  'оренбург': 'RU-ORE',
+  'пенза': 'RU-PNZ',
+  'пермь': 'RU-PER',
+  'петрозаводск': 'RU-KR',
+  'ростов': 'RU-ROS',
+  'ростов на дону': 'RU-ROS',
+  'рязань': 'RU-RYA',
+  'самара': 'RU-SAM',
+  'саратов': 'RU-SAR',
+  'симферополь': 'RU-CR',
+  'сочи': 'RU-KDA',
+  'ставрополь': 'RU-STA',
+  'сургут': 'RU-KHM',
+  'тверь': 'RU-TVE',
+  'томск': 'RU-TOM',
+  'тула': 'RU-TUL',
+  'тюмень': 'RU-TYU',
+  'уфа': 'RU-BA',
+  'ульяновск': 'RU-ULY',
+  'хабаровск': 'RU-KHA',
+  'чебоксары': 'RU-CU',
+  'челябинск': 'RU-CHE',
+  'якутск': 'RU-SA',
+  'ярославль': 'RU-YAR',
+};
+
+export interface RegionMatch {
+  // Data region names that landed on each feature id
+  namesById: Map<string, string[]>;
+  // Data region names no feature matched
+  unmatched: string[];
+}
+
+export const matchRegions = (names: string[], collection: RegionFeatureCollection): RegionMatch => {
+  const ids = new Set(collection.features.map((feature) => feature.id));
+  const index = new Map<string, string>();
+  Object.entries(REGION_ALIASES).forEach(([alias, id]) => {
+    if (ids.has(id)) index.set(alias, id);
+  });
+  collection.features.forEach((feature) =>
+    index.set(normalizeRegionName(feature.properties.name), feature.id)
+  );
+
+  const match: RegionMatch = { namesById: new Map(), unmatched: [] };
+  names.forEach((name) => {
+    const id = ids.has(name.toUpperCase()) ? name.toUpperCase() : index.get(normalizeRegionName(name));
+    if (id) {
+      match.namesById.set(id, [...(match.namesById.get(id) || []), name]);
+    } else {
+      match.unmatched.push(name);
+    }
+  });
+
+  return match;
+};
@@ -0,0 +1,160 @@
+import type { ReplenishmentSettingsRow } from './data-source';
+import type { ExportCell } from './export';
+import type { InventoryItem } from './inventory';
+import { addDays, daysBetween } from './sales-series';
+
+/**
+ * Reorder suggestions from stock, sales velocity and the purchasing
+ * parameters of each SKU. The order is placed when the stock left would
+ * last exactly the lead time, and sized to cover the target days after it
+ * arrives: velocity × (lead time + target cover) minus the stock on the
+ * order date, raised to the MOQ and rounded up to whole packs.
+ */
+
+export interface ReplenishmentParams {
+  supplier: string;
+  leadTimeDays: number;
+  moq: number;
+  packSize: number;
+  targetCoverDays: number;
+}
+
+// Used for SKUs nobody has set up yet
+export const DEFAULT_REPLENISHMENT_PARAMS: ReplenishmentParams = {
+  supplier: '',
+  leadTimeDays: 14,
+  moq: 0,
+  packSize: 1,
+  targetCoverDays: 30,
+};
+
+// Page controls of the planner
+export interface ReplenishmentSettings {
+  // Orders due within this many days go into the purchase order
+  horizonDays: number;
+}
+
+export const DEFAULT_REPLENISHMENT_SETTINGS: ReplenishmentSettings = { horizonDays: 7 };
+
+export const toReplenishmentParams = (row: ReplenishmentSettingsRow | undefined): ReplenishmentParams =>
+  row
+    ? {
+        supplier: row.supplier || '',
+        leadTimeDays: row.lead_time_days,
+        moq: row.moq,
+        packSize: Math.max(row.pack_size, 1),
+        targetCoverDays: row.target_cover_days,
+      }
+    : DEFAULT_REPLENISHMENT_PARAMS;
+
+export const toReplenishmentSettingsRow = (
+  sku: number,
+  params: ReplenishmentParams
+): ReplenishmentSettingsRow => ({
+  sku,
+  supplier: params.supplier.trim() || null,
+  lead_time_days: params.leadTimeDays,
+  moq: params.moq,
+  pack_size: params.packSize,
+  target_cover_days: params.targetCoverDays,
+});
+
+export interface ReplenishmentPlan {
+  // Day to place the order, never before today; null without sales
+  orderDate: string | null;
+  arrivalDate: string | null;
+  quantity: number;
+  // The stock runs out before an order placed today would arrive
+  stockoutBeforeArrival: boolean;
+}
+
+// Raises a quantity to the MOQ and rounds it up to whole packs
+export const roundOrderQuantity = (units: number, moq: number, packSize: number) => {
+  if (units <= 0) return 0;
+  const pack = Math.max(packSize, 1);
+  return Math.ceil(Math.max(Math.ceil(units), moq) / pack) * pack;
+};
+
+export const planReplenishment = (
+  item: InventoryItem,
+  params: ReplenishmentParams,
+  today: string
+): ReplenishmentPlan => {
+  if (item.velocity <= 0 || item.daysOfCover === null) {
+    return { orderDate: null, arrivalDate: null, quantity: 0, stockoutBeforeArrival: false };
+  }
+
+  const stockDate = item.stockDate || today;
+  const dueDate = addDays(stockDate, Math.floor(item.daysOfCover - params.leadTimeDays));
+  const orderDate = dueDate > today ? dueDate : today;
+  // Stock expected to be left on the order date
+  const stockAtOrder = Math.max(item.available - item.velocity * daysBetween(stockDate, orderDate), 0);
+  const needed = item.velocity * (params.leadTimeDays + params.targetCoverDays) - stockAtOrder;
+  const arrivalDate = addDays(orderDate, params.leadTimeDays);
+
+  return {
+    orderDate,
+    arrivalDate,
+    quantity: roundOrderQuantity(needed, params.moq, params.packSize),
+    stockoutBeforeArrival: !!item.outOfStockDate && item.outOfStockDate < arrivalDate,
+  };
+};
+
+export interface PurchaseOrderLine {
+  supplier: string;
+  sku: number;
+  offerId: string;
+  productName: string;
+  quantity: number;
+  packSize: number;
+  orderDate: string;
+  arrivalDate: string;
+}
+
+export const PURCHASE_ORDER_HEADER = [
+  'Поставщик',
+  'SKU',
+  'Артикул',
+  'Товар',
+  'Количество',
+  'Упаковок',
+  'Дата заказа',
+  'Ожидаемая поставка',
+];
+
+const NO_SUPPLIER = 'Без поставщика';
+
+/**
+ * Purchase order rows grouped by supplier, each group closed by a total
+ * line. Suppliers are sorted by name, lines without one come last.
+ */
+export const toPurchaseOrderRows = (lines: PurchaseOrderLine[]): ExportCell[][] => {
+  const groups = new Map<string, PurchaseOrderLine[]>();
+  lines.forEach((line) => {
+    const supplier = line.supplier || NO_SUPPLIER;
+    groups.set(supplier, [...(groups.get(supplier) || []), line]);
+  });
+
+  const suppliers = Array.from(groups.keys()).sort((a, b) =>
+    a === NO_SUPPLIER ? 1 : b === NO_SUPPLIER ? -1 : a.localeCompare(b, 'ru')
+  );
+
+  return suppliers.flatMap((supplier) => {
+    const group = groups
+      .get(supplier)!
+      .sort((a, b) => (a.productName || a.offerId).localeCompare(b.productName || b.offerId, 'ru'));
+    return [
+      ...group.map((line): ExportCell[] => [
+        supplier,
+        line.sku,
+        line.offerId,
+        line.productName,
+        line.quantity,
+        Math.ceil(line.quantity / line.packSize),
+        line.orderDate,
+        line.arrivalDate,
+      ]),
+      [supplier, null, null, 'Итого', group.reduce((sum, line) => sum + line.quantity, 0), null, null, null],
+    ];
+  });
+};
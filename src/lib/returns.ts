@@ -0,0 +1,184 @@
+import type { ReturnsBreakdownRow, ReturnsDailyRow } from './data-source';
+import { toNumber } from './format';
+import { Granularity, bucketStart } from './sales-series';
+
+/**
+ * Cancellations and returns of the postings ordered in a period. Rates are
+ * shares of units, so they add up along every breakdown: the cancellation
+ * rate over all ordered units, the return rate over the units that were not
+ * cancelled. Return cost is the reverse logistics Ozon charged, attributed to
+ * SKUs by their share of the posting's GMV.
+ */
+
+export type ReturnsDimension = 'sku' | 'region' | 'warehouse';
+
+export const RETURNS_DIMENSIONS: ReturnsDimension[] = ['sku', 'region', 'warehouse'];
+
+export const RETURNS_DIMENSION_LABELS: Record<ReturnsDimension, string> = {
+  sku: 'Товар',
+  region: 'Регион',
+  warehouse: 'Склад',
+};
+
+// Page controls of the returns page
+export interface ReturnsSettings {
+  dimension: ReturnsDimension;
+  granularity: Granularity;
+}
+
+export const DEFAULT_RETURNS_SETTINGS: ReturnsSettings = { dimension: 'sku', granularity: 'week' };
+
+export type CancellationInitiator = 'customer' | 'seller' | 'ozon' | 'unknown';
+
+export const CANCELLATION_INITIATORS: CancellationInitiator[] = ['customer', 'seller', 'ozon', 'unknown'];
+
+export const INITIATOR_LABELS: Record<CancellationInitiator, string> = {
+  customer: 'Покупатель',
+  seller: 'Продавец',
+  ozon: 'Ozon',
+  unknown: 'Не указан',
+};
+
+// Ozon reports the initiator as free text, in Russian or English
+export const toCancellationInitiator = (value: string | null): CancellationInitiator => {
+  const text = (value || '').toLowerCase();
+  if (/продав|seller/.test(text)) return 'seller';
+  if (/покупат|клиент|client|customer|buyer/.test(text)) return 'customer';
+  if (/ozon|озон|систем|system/.test(text)) return 'ozon';
+  return 'unknown';
+};
+
+export interface ReturnsTotals {
+  units: number;
+  cancelledUnits: number;
+  returnedUnits: number;
+  cancelledGmv: number;
+  returnedGmv: number;
+  returnCost: number;
+}
+
+const emptyTotals = (): ReturnsTotals => ({
+  units: 0,
+  cancelledUnits: 0,
+  returnedUnits: 0,
+  cancelledGmv: 0,
+  returnedGmv: 0,
+  returnCost: 0,
+});
+
+const addRow = (totals: ReturnsTotals, row: ReturnsBreakdownRow) => {
+  const units = toNumber(row.units);
+  const gmv = toNumber(row.gmv);
+  totals.units += units;
+  totals.returnCost += toNumber(row.return_cost);
+  if (row.outcome === 'cancelled') {
+    totals.cancelledUnits += units;
+    totals.cancelledGmv += gmv;
+  } else if (row.outcome === 'returned') {
+    totals.returnedUnits += units;
+    totals.returnedGmv += gmv;
+  }
+};
+
+export const sumReturns = (rows: ReturnsBreakdownRow[]) => {
+  const totals = emptyTotals();
+  rows.forEach((row) => addRow(totals, row));
+  return totals;
+};
+
+// Percentages; null without units to compare against
+export const cancellationRate = (totals: Pick<ReturnsTotals, 'units' | 'cancelledUnits'>) =>
+  totals.units > 0 ? (totals.cancelledUnits / totals.units) * 100 : null;
+
+export const returnRate = (totals: Pick<ReturnsTotals, 'units' | 'cancelledUnits' | 'returnedUnits'>) => {
+  const kept = totals.units - totals.cancelledUnits;
+  return kept > 0 ? (totals.returnedUnits / kept) * 100 : null;
+};
+
+export interface ReturnsGroup extends ReturnsTotals {
+  // SKU as a string, region or warehouse name; '' when Ozon did not say
+  key: string;
+}
+
+const dimensionKey = (row: ReturnsBreakdownRow, dimension: ReturnsDimension) => {
+  switch (dimension) {
+    case 'sku':
+      return String(toNumber(row.sku));
+    case 'region':
+      return row.region || '';
+    case 'warehouse':
+      return row.warehouse_name || '';
+  }
+};
+
+export const groupReturns = (rows: ReturnsBreakdownRow[], dimension: ReturnsDimension): ReturnsGroup[] => {
+  const groups = new Map<string, ReturnsGroup>();
+  rows.forEach((row) => {
+    const key = dimensionKey(row, dimension);
+    const group = groups.get(key) || { key, ...emptyTotals() };
+    addRow(group, row);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
+
+export interface CancellationReason {
+  reason: string;
+  initiator: CancellationInitiator;
+  units: number;
+  gmv: number;
+}
+
+// Cancelled units per reason and initiator, largest first
+export const groupCancellationReasons = (rows: ReturnsBreakdownRow[]): CancellationReason[] => {
+  const reasons = new Map<string, CancellationReason>();
+  rows.forEach((row) => {
+    if (row.outcome !== 'cancelled') return;
+    const reason = row.cancel_reason || '';
+    const initiator = toCancellationInitiator(row.cancellation_initiator);
+    const key = `${initiator}|${reason}`;
+    const entry = reasons.get(key) || { reason, initiator, units: 0, gmv: 0 };
+    entry.units += toNumber(row.units);
+    entry.gmv += toNumber(row.gmv);
+    reasons.set(key, entry);
+  });
+  return Array.from(reasons.values()).sort((a, b) => b.units - a.units || b.gmv - a.gmv);
+};
+
+export interface ReturnsTrendPoint {
+  // First day of the bucket
+  date: string;
+  units: number;
+  cancelledUnits: number;
+  returnedUnits: number;
+  cancellationRate: number | null;
+  returnRate: number | null;
+}
+
+// Rates per day, week or month; buckets without orders are left out
+export const returnsTrend = (days: ReturnsDailyRow[], granularity: Granularity): ReturnsTrendPoint[] => {
+  const buckets = new Map<string, ReturnsTrendPoint>();
+  days.forEach((day) => {
+    const date = bucketStart(day.date_msk.slice(0, 10), granularity);
+    const bucket = buckets.get(date) || {
+      date,
+      units: 0,
+      cancelledUnits: 0,
+      returnedUnits: 0,
+      cancellationRate: null,
+      returnRate: null,
+    };
+    bucket.units += toNumber(day.units);
+    bucket.cancelledUnits += toNumber(day.cancelled_units);
+    bucket.returnedUnits += toNumber(day.returned_units);
+    buckets.set(date, bucket);
+  });
+
+  return Array.from(buckets.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((bucket) => ({
+      ...bucket,
+      cancellationRate: cancellationRate(bucket),
+      returnRate: returnRate(bucket),
+    }));
+};
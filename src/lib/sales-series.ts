@@ -0,0 +1,156 @@
+export type Granularity = 'day' | 'week' | 'month';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Дни',
+  week: 'Недели',
+  month: 'Месяцы',
+};
+
+export type SalesSeriesMetric = 'gmv' | 'revenue' | 'orders' | 'units' | 'aov';
+
+export interface SalesTotals {
+  orders: number;
+  units: number;
+  gmv: number;
+  revenue: number;
+}
+
+export interface SalesBucket extends SalesTotals {
+  // First calendar day of the bucket (Monday for ISO weeks), YYYY-MM-DD
+  date: string;
+  // First and last day of the bucket that fall into the requested period
+  firstDay: string;
+  lastDay: string;
+}
+
+export const MOVING_AVERAGE_WINDOWS = [7, 28] as const;
+export type MovingAverageWindow = typeof MOVING_AVERAGE_WINDOWS[number];
+
+// Controls of the sales chart; part of the page state saved with a view
+export interface SalesChartState {
+  mode: SalesSeriesMetric;
+  granularity: Granularity;
+  showComparison: boolean;
+  movingAverages: MovingAverageWindow[];
+  // Days forecast after the last complete day, 0 = no forecast. Missing in
+  // views saved before the forecast existed.
+  forecastDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// All dates here are Moscow calendar dates as YYYY-MM-DD strings. They are
+// handled as UTC midnights so the browser time zone never shifts a day.
+const parseDay = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+
+const formatDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number) => formatDay(parseDay(date) + days * DAY_MS);
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDay(to) - parseDay(from)) / DAY_MS);
+
+export const bucketStart = (date: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'week': {
+      // getUTCDay: 0 = Sunday; ISO weeks start on Monday
+      const weekday = (new Date(parseDay(date)).getUTCDay() + 6) % 7;
+      return addDays(date, -weekday);
+    }
+    case 'month':
+      return `${date.slice(0, 7)}-01`;
+    default:
+      return date.slice(0, 10);
+  }
+};
+
+const emptyTotals = (): SalesTotals => ({ orders: 0, units: 0, gmv: 0, revenue: 0 });
+
+const addTotals = (target: SalesTotals, source: SalesTotals) => {
+  target.orders += source.orders;
+  target.units += source.units;
+  target.gmv += source.gmv;
+  target.revenue += source.revenue;
+};
+
+/**
+ * One entry per calendar day from `from` to `to` inclusive. Days without
+ * sales are not returned by the views, but moving averages and the
+ * day-offset alignment with the comparison period both need them as zeros.
+ */
+export const fillDailyGaps = <T extends SalesTotals & { date: string }>(
+  rows: T[],
+  from: string,
+  to: string
+): SalesBucket[] => {
+  const byDate = new Map<string, SalesTotals>();
+  rows.forEach((row) => {
+    const totals = byDate.get(row.date.slice(0, 10)) || emptyTotals();
+    addTotals(totals, row);
+    byDate.set(row.date.slice(0, 10), totals);
+  });
+
+  const days: SalesBucket[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push({ date, firstDay: date, lastDay: date, ...(byDate.get(date) || emptyTotals()) });
+  }
+  return days;
+};
+
+// Expects a gap-free daily series in date order, see fillDailyGaps
+export const bucketize = (days: SalesBucket[], granularity: Granularity): SalesBucket[] => {
+  if (granularity === 'day') return days;
+
+  const buckets: SalesBucket[] = [];
+  days.forEach((day) => {
+    const start = bucketStart(day.date, granularity);
+    let bucket = buckets[buckets.length - 1];
+    if (!bucket || bucket.date !== start) {
+      bucket = { date: start, firstDay: day.date, lastDay: day.date, ...emptyTotals() };
+      buckets.push(bucket);
+    }
+    bucket.lastDay = day.date;
+    addTotals(bucket, day);
+  });
+  return buckets;
+};
+
+// Average order value is a ratio of sums, never an average of daily ratios
+export const metricValue = (totals: SalesTotals, metric: SalesSeriesMetric) => {
+  switch (metric) {
+    case 'aov':
+      return totals.orders > 0 ? totals.gmv / totals.orders : 0;
+    default:
+      return totals[metric];
+  }
+};
+
+/**
+ * Trailing moving average over `window` days, null until the window is full
+ * so the line does not start with a misleading ramp.
+ */
+export const movingAverage = (
+  days: SalesTotals[],
+  window: number,
+  metric: SalesSeriesMetric
+): (number | null)[] => {
+  const sum = emptyTotals();
+
+  return days.map((day, index) => {
+    addTotals(sum, day);
+    if (index >= window) {
+      const dropped = days[index - window];
+      sum.orders -= dropped.orders;
+      sum.units -= dropped.units;
+      sum.gmv -= dropped.gmv;
+      sum.revenue -= dropped.revenue;
+    }
+    if (index < window - 1) return null;
+
+    // For sums the average is per day; AOV is already a ratio
+    const value = metricValue(sum, metric);
+    return metric === 'aov' ? value : value / window;
+  });
+};
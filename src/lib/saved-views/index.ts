@@ -0,0 +1,54 @@
+import { AUTH_KIND } from '../auth';
+import type { SavedViewsStore } from './types';
+
+export type * from './types';
+
+let storePromise: Promise<SavedViewsStore> | null = null;
+
+const loadLocalStore = async (): Promise<SavedViewsStore> => {
+  const { createLocalSavedViewsStore } = await import('./local-store');
+  return createLocalSavedViewsStore();
+};
+
+// Once the saved_views table fails (not migrated, unreachable) views are
+// kept in the browser for the rest of the session instead
+const withLocalFallback = (remote: SavedViewsStore): SavedViewsStore => {
+  let local: Promise<SavedViewsStore> | null = null;
+
+  const run = async <T>(call: (store: SavedViewsStore) => Promise<T>): Promise<T> => {
+    if (!local) {
+      try {
+        return await call(remote);
+      } catch (error) {
+        console.warn('saved_views not available, keeping views in the browser:', error);
+        local = loadLocalStore();
+      }
+    }
+    return call(await local);
+  };
+
+  return {
+    list: (userId) => run((store) => store.list(userId)),
+    create: (userId, view) => run((store) => store.create(userId, view)),
+    remove: (userId, id) => run((store) => store.remove(userId, id)),
+    setDefault: (userId, id) => run((store) => store.setDefault(userId, id)),
+  };
+};
+
+// Views belong to the signed-in user, so they are kept wherever the user
+// comes from: Supabase for Supabase Auth, the browser for local sign-in
+const loadStore = async (): Promise<SavedViewsStore> => {
+  if (AUTH_KIND === 'local') {
+    return loadLocalStore();
+  }
+
+  const { createSupabaseSavedViewsStore } = await import('./supabase-store');
+  return withLocalFallback(createSupabaseSavedViewsStore());
+};
+
+export const getSavedViewsStore = (): Promise<SavedViewsStore> => {
+  if (!storePromise) {
+    storePromise = loadStore();
+  }
+  return storePromise;
+};
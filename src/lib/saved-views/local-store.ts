@@ -0,0 +1,44 @@
+import type { SavedView, SavedViewsStore } from './types';
+
+const storageKey = (userId: string) => `saved-views:${userId}`;
+
+const read = (userId: string): SavedView[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const write = (userId: string, views: SavedView[]) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(views));
+};
+
+export const createLocalSavedViewsStore = (): SavedViewsStore => ({
+  async list(userId) {
+    return read(userId).sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+  },
+
+  async create(userId, input) {
+    const view: SavedView = {
+      ...input,
+      id: crypto.randomUUID(),
+      isDefault: false,
+      createdAt: new Date().toISOString(),
+    };
+    write(userId, [...read(userId), view]);
+    return view;
+  },
+
+  async remove(userId, id) {
+    write(userId, read(userId).filter((view) => view.id !== id));
+  },
+
+  async setDefault(userId, id) {
+    write(
+      userId,
+      read(userId).map((view) => ({ ...view, isDefault: view.id === id }))
+    );
+  },
+});
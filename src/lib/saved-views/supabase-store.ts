@@ -0,0 +1,84 @@
+import { supabase } from '../supabase';
+import type { PageState, SavedView, SavedViewsStore } from './types';
+
+interface SavedViewRow {
+  id: string;
+  name: string;
+  path: string;
+  search: string;
+  page_state: PageState | null;
+  is_default: boolean;
+  created_at: string;
+}
+
+const COLUMNS = 'id, name, path, search, page_state, is_default, created_at';
+
+const toSavedView = (row: SavedViewRow): SavedView => ({
+  id: row.id,
+  name: row.name,
+  path: row.path,
+  search: row.search,
+  pageState: row.page_state || {},
+  isDefault: row.is_default,
+  createdAt: row.created_at,
+});
+
+// Row level security limits every query to the user's own rows; the
+// explicit user_id filters keep the intent visible and use the index
+export const createSupabaseSavedViewsStore = (): SavedViewsStore => ({
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select(COLUMNS)
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) throw error;
+    return ((data || []) as SavedViewRow[]).map(toSavedView);
+  },
+
+  async create(userId, input) {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .insert({
+        user_id: userId,
+        name: input.name,
+        path: input.path,
+        search: input.search,
+        page_state: input.pageState,
+      })
+      .select(COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return toSavedView(data as SavedViewRow);
+  },
+
+  async remove(userId, id) {
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async setDefault(userId, id) {
+    // Clear first: a unique index allows one default per user
+    const { error: clearError } = await supabase
+      .from('saved_views')
+      .update({ is_default: false })
+      .eq('user_id', userId)
+      .eq('is_default', true);
+    if (clearError) throw clearError;
+
+    if (!id) return;
+
+    const { error } = await supabase
+      .from('saved_views')
+      .update({ is_default: true })
+      .eq('user_id', userId)
+      .eq('id', id);
+    if (error) throw error;
+  },
+});
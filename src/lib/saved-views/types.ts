@@ -0,0 +1,49 @@
+import type { SalesChartState } from '../sales-series';
+import type { AbcXyzThresholds } from '../abc-xyz';
+import type { InventorySettings } from '../inventory';
+import type { ReplenishmentSettings } from '../replenishment';
+import type { ReturnsSettings } from '../returns';
+
+// Page controls that live outside the URL (table state is in the query
+// string). A missing entry means defaults.
+export interface PageState {
+  salesChart?: SalesChartState;
+  // Class thresholds of the products page
+  abcXyz?: AbcXyzThresholds;
+  // Cover threshold of the inventory page
+  inventory?: InventorySettings;
+  // Order horizon of the replenishment planner
+  replenishment?: ReplenishmentSettings;
+  // Breakdown and trend granularity of the returns page
+  returns?: ReturnsSettings;
+}
+
+export type PageStateKey = keyof PageState;
+
+export interface SavedViewInput {
+  name: string;
+  // Page the view opens, e.g. /products
+  path: string;
+  // Query string without '?': filters and table state
+  search: string;
+  pageState: PageState;
+}
+
+export interface SavedView extends SavedViewInput {
+  id: string;
+  // Opened on load when the dashboard is entered without filters
+  isDefault: boolean;
+  createdAt: string;
+}
+
+/**
+ * Per-user storage of saved views: the saved_views table with Supabase Auth,
+ * localStorage with local sign-in or when the table fails.
+ */
+export interface SavedViewsStore {
+  list(userId: string): Promise<SavedView[]>;
+  create(userId: string, view: SavedViewInput): Promise<SavedView>;
+  remove(userId: string, id: string): Promise<void>;
+  // null clears the default
+  setDefault(userId: string, id: string | null): Promise<void>;
+}
@@ -0,0 +1,290 @@
+import type { TransactionDetailRow } from './data-source';
+
+/**
+ * Search syntax of the transactions table:
+ *
+ *   sku:123456 type:"доставка" amount<-500 posting:0123-* возврат
+ *
+ * `field:value` matches a part of text fields or equals a number or date,
+ * `field=value` matches a whole text field, `>`, `>=`, `<`, `<=` compare
+ * numbers and dates. `*` is a wildcard; a text value containing it has to
+ * match as a whole. Words without a field search the posting number,
+ * operation type, service and product name. Quotes keep spaces and special
+ * characters together, `\"` inside quotes is a literal quote.
+ */
+
+export type SearchColumn = keyof Pick<
+  TransactionDetailRow,
+  | 'item_sku'
+  | 'posting_number'
+  | 'operation_type_name'
+  | 'service_name'
+  | 'item_name'
+  | 'amount'
+  | 'operation_date_msk'
+  | 'warehouse_id'
+>;
+
+export type SearchOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'ilike';
+
+type FieldKind = 'text' | 'integer' | 'number' | 'date';
+
+export interface SearchField {
+  name: string;
+  column: SearchColumn;
+  kind: FieldKind;
+  label: string;
+}
+
+export const SEARCH_FIELDS: SearchField[] = [
+  { name: 'sku', column: 'item_sku', kind: 'integer', label: 'SKU товара' },
+  { name: 'posting', column: 'posting_number', kind: 'text', label: 'Номер отправления' },
+  { name: 'type', column: 'operation_type_name', kind: 'text', label: 'Тип операции' },
+  { name: 'service', column: 'service_name', kind: 'text', label: 'Услуга' },
+  { name: 'item', column: 'item_name', kind: 'text', label: 'Название товара' },
+  { name: 'amount', column: 'amount', kind: 'number', label: 'Сумма' },
+  { name: 'date', column: 'operation_date_msk', kind: 'date', label: 'Дата операции, ГГГГ-ММ-ДД' },
+  { name: 'warehouse', column: 'warehouse_id', kind: 'integer', label: 'Склад' },
+];
+
+// Columns a word without a field is looked up in
+export const FREE_TEXT_COLUMNS: SearchColumn[] = [
+  'posting_number',
+  'operation_type_name',
+  'service_name',
+  'item_name',
+];
+
+export interface SearchCondition {
+  column: SearchColumn;
+  operator: SearchOperator;
+  // LIKE pattern for ilike, otherwise the number or YYYY-MM-DD date
+  value: string | number;
+}
+
+export interface TransactionSearch {
+  conditions: SearchCondition[];
+  // LIKE patterns; each has to match one of FREE_TEXT_COLUMNS
+  terms: string[];
+}
+
+export interface SearchParseError {
+  message: string;
+  // Offending part of the input, [start, end)
+  start: number;
+  end: number;
+}
+
+export interface ParsedTransactionSearch {
+  search: TransactionSearch;
+  errors: SearchParseError[];
+}
+
+interface Token {
+  field: string | null;
+  operator: string | null;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS: Record<string, SearchOperator> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+const FIELD_PREFIX = /^([a-z_]+)(>=|<=|:|=|>|<)/i;
+
+const isSpace = (char: string) => /\s/.test(char);
+
+const tokenize = (input: string, errors: SearchParseError[]) => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (isSpace(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let field: string | null = null;
+    let operator: string | null = null;
+    let value = '';
+
+    const prefix = FIELD_PREFIX.exec(input.slice(i));
+    if (prefix) {
+      field = prefix[1].toLowerCase();
+      operator = prefix[2];
+      i += prefix[0].length;
+    }
+
+    if (input[i] === '"') {
+      let closed = false;
+      i++;
+      while (i < input.length) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          value += input[i + 1];
+          i += 2;
+        } else if (input[i] === '"') {
+          closed = true;
+          i++;
+          break;
+        } else {
+          value += input[i++];
+        }
+      }
+      if (!closed) {
+        errors.push({ message: 'Не закрыта кавычка', start, end: input.length });
+      } else if (i < input.length && !isSpace(input[i])) {
+        const tailStart = i;
+        while (i < input.length && !isSpace(input[i])) i++;
+        errors.push({ message: 'После кавычки нужен пробел', start: tailStart, end: i });
+      }
+    } else {
+      while (i < input.length && !isSpace(input[i])) {
+        value += input[i++];
+      }
+    }
+
+    tokens.push({ field, operator, value, start, end: i });
+  }
+
+  return tokens;
+};
+
+// LIKE pattern for a user value: % _ and \ are literal, * is the wildcard.
+// Without a wildcard the value may appear anywhere unless exact is set.
+const toLikePattern = (value: string, exact: boolean) => {
+  const pattern = value.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%');
+  return exact || value.includes('*') ? pattern : `%${pattern}%`;
+};
+
+const parseNumber = (value: string, kind: 'integer' | 'number') => {
+  const normalized = value.replace(',', '.');
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) return null;
+  const number = Number(normalized);
+  return kind === 'integer' && !Number.isSafeInteger(number) ? null : number;
+};
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) === value;
+
+const toCondition = (
+  token: Token,
+  field: SearchField
+): SearchCondition | string => {
+  const { value } = token;
+  const operator = token.operator as string;
+
+  if (!value) return `Пустое значение для ${field.name}`;
+
+  if (field.kind === 'text') {
+    if (OPERATORS[operator]) return `Поле ${field.name} сравнивается только через «:» или «=»`;
+    return { column: field.column, operator: 'ilike', value: toLikePattern(value, operator === '=') };
+  }
+
+  let parsed: string | number | null;
+  if (field.kind === 'date') {
+    parsed = isValidDate(value) ? value : null;
+    if (parsed === null) return `Дата в формате ГГГГ-ММ-ДД, получено «${value}»`;
+  } else {
+    parsed = parseNumber(value, field.kind);
+    if (parsed === null) {
+      return field.kind === 'integer'
+        ? `Ожидалось целое число, получено «${value}»`
+        : `Ожидалось число, получено «${value}»`;
+    }
+  }
+
+  return { column: field.column, operator: OPERATORS[operator] || 'eq', value: parsed };
+};
+
+export const parseTransactionSearch = (input: string): ParsedTransactionSearch => {
+  const errors: SearchParseError[] = [];
+  const search: TransactionSearch = { conditions: [], terms: [] };
+
+  tokenize(input, errors).forEach((token) => {
+    if (!token.field) {
+      if (token.value) search.terms.push(toLikePattern(token.value, false));
+      return;
+    }
+
+    const field = SEARCH_FIELDS.find((candidate) => candidate.name === token.field);
+    if (!field) {
+      errors.push({
+        message: `Неизвестное поле «${token.field}». Доступны: ${SEARCH_FIELDS.map((item) => item.name).join(', ')}`,
+        start: token.start,
+        end: token.end,
+      });
+      return;
+    }
+
+    const condition = toCondition(token, field);
+    if (typeof condition === 'string') {
+      errors.push({ message: condition, start: token.start, end: token.end });
+    } else {
+      search.conditions.push(condition);
+    }
+  });
+
+  return { search, errors: errors.sort((a, b) => a.start - b.start) };
+};
+
+const likeToRegExp = (pattern: string) => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'is');
+};
+
+const matchesCondition = (row: TransactionDetailRow, condition: SearchCondition) => {
+  const cell = row[condition.column];
+  if (cell === null || cell === undefined) return false;
+
+  if (condition.operator === 'ilike') {
+    return likeToRegExp(String(condition.value)).test(String(cell));
+  }
+
+  // Dates are YYYY-MM-DD strings, so they compare as text
+  const right = condition.value;
+  const order =
+    typeof right === 'number'
+      ? Number(cell) - right
+      : String(cell).slice(0, 10).localeCompare(right);
+
+  switch (condition.operator) {
+    case 'gt':
+      return order > 0;
+    case 'gte':
+      return order >= 0;
+    case 'lt':
+      return order < 0;
+    case 'lte':
+      return order <= 0;
+    default:
+      return order === 0;
+  }
+};
+
+// The same semantics in memory, for the fixture backend
+export const matchesTransactionSearch = (row: TransactionDetailRow, search: TransactionSearch) =>
+  search.conditions.every((condition) => matchesCondition(row, condition)) &&
+  search.terms.every((term) =>
+    FREE_TEXT_COLUMNS.some((column) =>
+      matchesCondition(row, { column, operator: 'ilike', value: term })
+    )
+  );
@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  useAlertRules,
+  useAlertRuleMutations,
+  useTriggeredAlerts,
+  ALERT_LOOKBACK_DAYS,
+} from '../hooks/useAlerts';
+import { useRegionOptions } from '../hooks/useFilterOptions';
+import {
+  ALERT_DIRECTION_LABELS,
+  ALERT_METRICS,
+  ALERT_METRIC_LABELS,
+  DEFAULT_ALERT_RULES,
+  DEFAULT_ALERT_THRESHOLD,
+  AlertDirection,
+  AlertMetric,
+  AlertRuleInput,
+  alertScopeLabel,
+} from '../lib/alert-rules';
+import { AlertItem } from '../components/alerts/AlertItem';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../components/ui/ErrorMessage';
+
+const inputClassName =
+  'w-full px-2 py-1.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent';
+
+const EMPTY_RULE: AlertRuleInput = {
+  name: '',
+  metric: 'orders',
+  direction: 'drop',
+  threshold: DEFAULT_ALERT_THRESHOLD,
+  sku: null,
+  region: null,
+  enabled: true,
+};
+
+export const AlertsPage: React.FC = () => {
+  const { data: rules, isLoading, error, refetch } = useAlertRules();
+  const { createRules, updateRule, deleteRule } = useAlertRuleMutations();
+  const { alerts, isLoading: alertsLoading, error: alertsError } = useTriggeredAlerts();
+  const { data: regions } = useRegionOptions();
+  // id of the rule being edited; null for a new one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AlertRuleInput>(EMPTY_RULE);
+  const [skuInput, setSkuInput] = useState('');
+
+  const skuValid = skuInput.trim() === '' || /^\d+$/.test(skuInput.trim());
+  const canSave = !!draft.name.trim() && draft.threshold > 0 && skuValid;
+
+  const resetForm = () => {
+    setEditing(null);
+    setDraft(EMPTY_RULE);
+    setSkuInput('');
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    const rule: AlertRuleInput = {
+      ...draft,
+      name: draft.name.trim(),
+      sku: skuInput.trim() ? Number(skuInput.trim()) : null,
+    };
+    if (editing) {
+      updateRule.mutate({ id: editing, rule }, { onSuccess: resetForm });
+    } else {
+      createRules.mutate([rule], { onSuccess: resetForm });
+    }
+  };
+
+  if (error) {
+    return <ErrorMessage message="Не удалось загрузить правила уведомлений" onRetry={() => refetch()} />;
+  }
+
+  if (isLoading || !rules) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Уведомления</h1>
+        <p className="text-gray-600 mt-1">
+          Каждый день сравнивается с тем же днём недели за прошлые 8 недель по медиане. Правило
+          срабатывает, когда отклонение (robust z-score) достигает порога. Дни считаются по дате заказа.
+        </p>
+      </div>
+
+      {/* Rules */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Правила</h2>
+          {rules.length === 0 && (
+            <button
+              onClick={() => createRules.mutate(DEFAULT_ALERT_RULES)}
+              disabled={createRules.isPending}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Добавить типовые правила
+            </button>
+          )}
+        </div>
+
+        {rules.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Вкл.</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Название</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Метрика</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Отклонение</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Порог z</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Область</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rules.map((rule) => (
+                  <tr key={rule.id} className={rule.enabled ? '' : 'text-gray-400'}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) =>
+                          updateRule.mutate({ id: rule.id, rule: { ...rule, enabled: e.target.checked } })
+                        }
+                        className="rounded border-gray-300 text-ozon-600 focus:ring-ozon-500"
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm">{rule.name}</td>
+                    <td className="px-4 py-2 text-sm">{ALERT_METRIC_LABELS[rule.metric]}</td>
+                    <td className="px-4 py-2 text-sm">{ALERT_DIRECTION_LABELS[rule.direction]}</td>
+                    <td className="px-4 py-2 text-sm text-right">{rule.threshold}</td>
+                    <td className="px-4 py-2 text-sm">{alertScopeLabel(rule)}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          onClick={() => {
+                            setEditing(rule.id);
+                            setDraft(rule);
+                            setSkuInput(rule.sku ? String(rule.sku) : '');
+                          }}
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title="Изменить"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (window.confirm(`Удалить правило «${rule.name}»?`)) {
+                              deleteRule.mutate(rule.id);
+                              if (editing === rule.id) resetForm();
+                            }
+                          }}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Удалить"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="p-4 border-t border-gray-200">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 items-end">
+            <label className="text-xs text-gray-600 lg:col-span-2">
+              <span className="block mb-1">Название</span>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Например, падение заказов в Москве"
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              <span className="block mb-1">Метрика</span>
+              <select
+                value={draft.metric}
+                onChange={(e) => setDraft({ ...draft, metric: e.target.value as AlertMetric })}
+                className={inputClassName}
+              >
+                {ALERT_METRICS.map((metric) => (
+                  <option key={metric} value={metric}>{ALERT_METRIC_LABELS[metric]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              <span className="block mb-1">Отклонение</span>
+              <select
+                value={draft.direction}
+                onChange={(e) => setDraft({ ...draft, direction: e.target.value as AlertDirection })}
+                className={inputClassName}
+              >
+                {(Object.keys(ALERT_DIRECTION_LABELS) as AlertDirection[]).map((direction) => (
+                  <option key={direction} value={direction}>{ALERT_DIRECTION_LABELS[direction]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              <span className="block mb-1">Порог z</span>
+              <input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={Number.isFinite(draft.threshold) ? draft.threshold : ''}
+                onChange={(e) => setDraft({ ...draft, threshold: e.target.valueAsNumber })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              <span className="block mb-1">SKU</span>
+              <input
+                value={skuInput}
+                onChange={(e) => setSkuInput(e.target.value)}
+                placeholder="все"
+                className={`${inputClassName} ${skuValid ? '' : 'border-red-400'}`}
+              />
+            </label>
+            <label className="text-xs text-gray-600 lg:col-span-2">
+              <span className="block mb-1">Регион</span>
+              <select
+                value={draft.region || ''}
+                onChange={(e) => setDraft({ ...draft, region: e.target.value || null })}
+                className={inputClassName}
+              >
+                <option value="">Все регионы</option>
+                {/* Keep a saved region that is no longer in the list */}
+                {draft.region && !regions?.includes(draft.region) && (
+                  <option value={draft.region}>{draft.region}</option>
+                )}
+                {regions?.map((region) => (
+                  <option key={region} value={region}>{region}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex gap-2 lg:col-span-2">
+              <button
+                type="submit"
+                disabled={!canSave || createRules.isPending || updateRule.isPending}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-ozon-600 text-white text-sm rounded-lg hover:bg-ozon-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {editing ? 'Сохранить' : 'Добавить правило'}
+              </button>
+              {editing && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900"
+                >
+                  Отмена
+                </button>
+              )}
+            </div>
+          </div>
+        </form>
+      </div>
+
+      {/* Triggered alerts */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Сработавшие правила за {ALERT_LOOKBACK_DAYS} дней
+          </h2>
+        </div>
+        {alertsLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : alertsError ? (
+          <ErrorMessage message="Не удалось проверить правила" />
+        ) : alerts.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">Отклонений не найдено</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {alerts.map((alert) => (
+              <AlertItem key={alert.id} alert={alert} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../components/ui/ErrorMessage';
+import { useProductCosts, useProductCostMutations, ProductCost } from '../hooks/useProductCosts';
+import { parseCostsCsv } from '../lib/cogs';
+import { formatMoscowDate } from '../lib/date-utils';
+import { formatCurrency, formatNumber } from '../lib/format';
+
+export const CostsPage: React.FC = () => {
+  const { data: costs, isLoading, error, refetch } = useProductCosts();
+  const { upsertCosts, deleteCost } = useProductCostMutations();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [sku, setSku] = useState('');
+  const [cost, setCost] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(formatMoscowDate(new Date()));
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  // The entry valid today for each SKU; older entries still price past sales
+  const currentIds = useMemo(() => {
+    const today = formatMoscowDate(new Date());
+    const current = new Map<number, ProductCost>();
+    (costs || []).forEach((entry) => {
+      const best = current.get(entry.sku);
+      if (entry.effectiveFrom <= today && (!best || entry.effectiveFrom > best.effectiveFrom)) {
+        current.set(entry.sku, entry);
+      }
+    });
+    return new Set(Array.from(current.values()).map((entry) => entry.id));
+  }, [costs]);
+
+  const parsedSku = Number(sku);
+  const parsedCost = Number(cost.replace(',', '.'));
+  const canSubmit =
+    Number.isInteger(parsedSku) && parsedSku > 0 &&
+    cost !== '' && Number.isFinite(parsedCost) && parsedCost >= 0 &&
+    !!effectiveFrom;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    upsertCosts.mutate(
+      [{ sku: parsedSku, cost: parsedCost, effective_from: effectiveFrom }],
+      {
+        onSuccess: () => {
+          toast.success('Себестоимость сохранена');
+          setSku('');
+          setCost('');
+        },
+      }
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { entries, errors } = parseCostsCsv(await file.text());
+    setImportErrors(errors);
+
+    if (entries.length === 0) {
+      toast.error('В файле нет корректных строк');
+      return;
+    }
+
+    upsertCosts.mutate(entries, {
+      onSuccess: (count) => toast.success(`Импортировано записей: ${count}`),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Себестоимость</h1>
+        <p className="text-gray-600 mt-1">
+          Закупочная стоимость товаров для расчёта чистой прибыли. Продажи прошлых периодов
+          считаются по себестоимости, действовавшей на дату продажи.
+        </p>
+      </div>
+
+      {/* Add / Import */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+            <label className="text-sm text-gray-700">
+              SKU
+              <input
+                type="text"
+                inputMode="numeric"
+                value={sku}
+                onChange={(e) => setSku(e.target.value.trim())}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent w-40"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Себестоимость, ₽
+              <input
+                type="text"
+                inputMode="decimal"
+                value={cost}
+                onChange={(e) => setCost(e.target.value.trim())}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent w-32"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Действует с
+              <input
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!canSubmit || upsertCosts.isPending}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-ozon-600 text-white text-sm rounded-lg hover:bg-ozon-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              Добавить
+            </button>
+          </form>
+
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={upsertCosts.isPending}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              title="CSV со столбцами: sku; cost; effective_from"
+            >
+              <Upload className="w-4 h-4" />
+              Импорт из CSV
+            </button>
+          </div>
+        </div>
+
+        {importErrors.length > 0 && (
+          <div className="mt-4 p-3 bg-red-50 rounded-lg text-sm text-red-700 space-y-1">
+            <div className="font-medium">Пропущены строки с ошибками:</div>
+            {importErrors.slice(0, 10).map((message) => (
+              <div key={message}>{message}</div>
+            ))}
+            {importErrors.length > 10 && (
+              <div>…и ещё {importErrors.length - 10}</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Costs Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {error ? (
+          <ErrorMessage message="Не удалось загрузить себестоимость" onRetry={() => refetch()} />
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Себестоимость
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Действует с
+                  </th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {!costs || costs.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
+                      Себестоимость ещё не задана. Без неё чистая прибыль не учитывает закупку.
+                    </td>
+                  </tr>
+                ) : (
+                  costs.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap font-mono text-sm">
+                        {formatNumber(entry.sku)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {formatCurrency(entry.cost)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {new Date(entry.effectiveFrom).toLocaleDateString('ru-RU')}
+                        {currentIds.has(entry.id) && (
+                          <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                            текущая
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => deleteCost.mutate(entry.id)}
+                          disabled={deleteCost.isPending}
+                          className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                          title="Удалить"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,37 +1,113 @@
 import React from 'react';
-import { DollarSign, TrendingUp, TrendingDown, Activity } from 'lucide-react';
+import { DollarSign, TrendingUp, TrendingDown, Activity, Info, AlertTriangle } from 'lucide-react';
 import { FinancePieChart } from '../components/charts/FinancePieChart';
 import { StatCard } from '../components/ui/StatCard';
-import { useFinanceData } from '../hooks/useFinanceData';
+import {
+  useFinanceData,
+  useComparisonFinanceData,
+  FinanceField,
+  FinanceProvenance,
+  FINANCE_SOURCE_LABELS,
+} from '../hooks/useFinanceData';
+import { CATEGORY_LABELS } from '../lib/finance-rules';
+
+const categoryCards: {
+  key: FinanceField;
+  title: string;
+  background: string;
+  dot: string;
+  label: string;
+  value: string;
+}[] = [
+  { key: 'sales', title: 'Продажи', background: 'bg-green-50', dot: 'bg-green-500', label: 'text-green-800', value: 'text-green-600' },
+  { key: 'commissions', title: 'Комиссии', background: 'bg-red-50', dot: 'bg-red-500', label: 'text-red-800', value: 'text-red-600' },
+  { key: 'delivery', title: 'Доставка', background: 'bg-amber-50', dot: 'bg-amber-500', label: 'text-amber-800', value: 'text-amber-600' },
+  { key: 'returns', title: 'Возвраты', background: 'bg-violet-50', dot: 'bg-violet-500', label: 'text-violet-800', value: 'text-violet-600' },
+  { key: 'ads', title: 'Реклама', background: 'bg-cyan-50', dot: 'bg-cyan-500', label: 'text-cyan-800', value: 'text-cyan-600' },
+  { key: 'services', title: 'Услуги', background: 'bg-lime-50', dot: 'bg-lime-500', label: 'text-lime-800', value: 'text-lime-600' },
+  { key: 'other', title: 'Прочее', background: 'bg-gray-50', dot: 'bg-gray-500', label: 'text-gray-800', value: 'text-gray-600' },
+];
+
+const fieldList = (fields: FinanceField[]) =>
+  fields.map((field) => CATEGORY_LABELS[field] || field).join(', ');
+
+const FinanceProvenanceNotice: React.FC<{ provenance: FinanceProvenance; hasData: boolean }> = ({
+  provenance,
+  hasData,
+}) => {
+  const degraded =
+    provenance.fallbacks.length > 0 ||
+    provenance.estimatedFields.length > 0 ||
+    provenance.ignoredFilters.length > 0;
+  // "Прочее" only exists where the categorization rules run, no need to list it
+  const missingFields = provenance.unavailableFields.filter((field) => field !== 'other');
+
+  return (
+    <div
+      className={`p-4 rounded-lg border text-sm space-y-1 ${
+        degraded ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-blue-50 border-blue-200 text-blue-900'
+      }`}
+    >
+      <div className="flex items-center gap-2 font-medium">
+        {degraded ? <AlertTriangle className="w-4 h-4" /> : <Info className="w-4 h-4" />}
+        Источник данных: {FINANCE_SOURCE_LABELS[provenance.source]}
+      </div>
+      {!hasData && <div>За выбранный период источник не вернул ни одной операции.</div>}
+      {hasData && provenance.estimatedFields.length > 0 && (
+        <div>Оценка, а не факт: {fieldList(provenance.estimatedFields)}.</div>
+      )}
+      {hasData && provenance.notes.map((note) => <div key={note}>{note}.</div>)}
+      {hasData && missingFields.length > 0 && (
+        <div>Нет в источнике: {fieldList(missingFields)}.</div>
+      )}
+      {provenance.ignoredFilters.length > 0 && (
+        <div>Источник не учитывает фильтры: {provenance.ignoredFilters.join(', ')}.</div>
+      )}
+      {provenance.fallbacks.map((fallback) => (
+        <div key={fallback.source}>
+          Пропущен источник «{FINANCE_SOURCE_LABELS[fallback.source]}»: {fallback.reason}
+        </div>
+      ))}
+    </div>
+  );
+};
 
 export const FinancePage: React.FC = () => {
   const { data } = useFinanceData();
+  const { data: comparison } = useComparisonFinanceData();
+  const previous = comparison?.hasData ? comparison.summary : null;
 
   const statsConfig = [
     {
       title: 'Общий доход',
       icon: <TrendingUp className="w-5 h-5" />,
-      value: data?.summary.totalIncome,
+      value: data?.hasData ? data.summary.totalIncome : null,
+      previousValue: previous?.totalIncome,
       format: 'currency' as const,
     },
     {
       title: 'Общие расходы',
       icon: <TrendingDown className="w-5 h-5" />,
-      value: data?.summary.totalExpenses,
+      value: data?.hasData ? data.summary.totalExpenses : null,
+      previousValue: previous?.totalExpenses,
       format: 'currency' as const,
     },
     {
       title: 'Чистая прибыль',
       icon: <DollarSign className="w-5 h-5" />,
-      value: data?.summary.netProfit,
+      value: data?.hasData ? data.summary.netProfit : null,
+      previousValue: previous?.netProfit,
       format: 'currency' as const,
     },
     {
       title: 'Рентабельность',
       icon: <Activity className="w-5 h-5" />,
-      value: data?.summary.totalIncome > 0 
+      value: data?.hasData && data.summary.totalIncome > 0 
         ? (data.summary.netProfit / data.summary.totalIncome) * 100
-        : 0,
+        : null,
+      previousValue: previous && previous.totalIncome > 0
+        ? (previous.netProfit / previous.totalIncome) * 100
+        : null,
       format: 'percentage' as const,
     },
   ];
@@ -53,6 +129,7 @@ export const FinancePage: React.FC = () => {
             key={stat.title}
             title={stat.title}
             value={stat.value ?? null}
+            previousValue={stat.previousValue ?? null}
             format={stat.format}
             icon={stat.icon}
             loading={!data}
@@ -60,100 +137,52 @@ export const FinancePage: React.FC = () => {
         ))}
       </div>
 
+      {/* Data Provenance */}
+      {data && <FinanceProvenanceNotice provenance={data.provenance} hasData={data.hasData} />}
+
       {/* Finance Pie Chart */}
       <FinancePieChart />
 
       {/* Additional Financial Breakdown */}
-      {data && (
+      {data?.hasData && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">
             Детализация по категориям
           </h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <div className="p-4 bg-green-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-3 h-3 bg-green-500 rounded-full" />
-                <span className="font-medium text-green-800">Продажи</span>
-              </div>
-              <div className="text-2xl font-bold text-green-600">
-                {Intl.NumberFormat('ru-RU', { 
-                  style: 'currency', 
-                  currency: 'RUB',
-                  minimumFractionDigits: 0 
-                }).format(data.summary.sales)}
-              </div>
-            </div>
-
-            <div className="p-4 bg-red-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-3 h-3 bg-red-500 rounded-full" />
-                <span className="font-medium text-red-800">Комиссии</span>
-              </div>
-              <div className="text-2xl font-bold text-red-600">
-                {Intl.NumberFormat('ru-RU', { 
-                  style: 'currency', 
-                  currency: 'RUB',
-                  minimumFractionDigits: 0 
-                }).format(Math.abs(data.summary.commissions))}
-              </div>
-            </div>
-
-            <div className="p-4 bg-amber-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-3 h-3 bg-amber-500 rounded-full" />
-                <span className="font-medium text-amber-800">Доставка</span>
-              </div>
-              <div className="text-2xl font-bold text-amber-600">
-                {Intl.NumberFormat('ru-RU', { 
-                  style: 'currency', 
-                  currency: 'RUB',
-                  minimumFractionDigits: 0 
-                }).format(Math.abs(data.summary.delivery))}
-              </div>
-            </div>
-
-            <div className="p-4 bg-violet-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-3 h-3 bg-violet-500 rounded-full" />
-                <span className="font-medium text-violet-800">Возвраты</span>
-              </div>
-              <div className="text-2xl font-bold text-violet-600">
-                {Intl.NumberFormat('ru-RU', { 
-                  style: 'currency', 
-                  currency: 'RUB',
-                  minimumFractionDigits: 0 
-                }).format(Math.abs(data.summary.returns))}
-              </div>
-            </div>
-
-            <div className="p-4 bg-cyan-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-3 h-3 bg-cyan-500 rounded-full" />
-                <span className="font-medium text-cyan-800">Реклама</span>
-              </div>
-              <div className="text-2xl font-bold text-cyan-600">
-                {Intl.NumberFormat('ru-RU', { 
-                  style: 'currency', 
-                  currency: 'RUB',
-                  minimumFractionDigits: 0 
-                }).format(Math.abs(data.summary.ads))}
-              </div>
-            </div>
+            {categoryCards
+              .filter((card) => card.key !== 'other' || data.summary.other !== 0)
+              .map((card) => {
+                const estimated = data.provenance.estimatedFields.includes(card.key);
+                const unavailable = data.provenance.unavailableFields.includes(card.key);
 
-            <div className="p-4 bg-lime-50 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-3 h-3 bg-lime-500 rounded-full" />
-                <span className="font-medium text-lime-800">Услуги</span>
-              </div>
-              <div className="text-2xl font-bold text-lime-600">
-                {Intl.NumberFormat('ru-RU', { 
-                  style: 'currency', 
-                  currency: 'RUB',
-                  minimumFractionDigits: 0 
-                }).format(Math.abs(data.summary.services))}
-              </div>
-            </div>
+                return (
+                  <div key={card.key} className={`p-4 rounded-lg ${card.background}`}>
+                    <div className="flex items-center gap-2 mb-2">
+                      <div className={`w-3 h-3 rounded-full ${card.dot}`} />
+                      <span className={`font-medium ${card.label}`}>{card.title}</span>
+                      {estimated && (
+                        <span className="ml-auto px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                          оценка
+                        </span>
+                      )}
+                    </div>
+                    {unavailable ? (
+                      <div className="text-sm text-gray-500 py-1.5">Нет данных в источнике</div>
+                    ) : (
+                      <div className={`text-2xl font-bold ${card.value}`}>
+                        {estimated && '≈ '}
+                        {Intl.NumberFormat('ru-RU', { 
+                          style: 'currency', 
+                          currency: 'RUB',
+                          minimumFractionDigits: 0 
+                        }).format(Math.abs(data.summary[card.key]))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
           </div>
         </div>
       )}
@@ -0,0 +1,394 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import {
+  AlertTriangle,
+  Boxes,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  PackageX,
+  Upload,
+  Warehouse,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { StatCard } from '../components/ui/StatCard';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../components/ui/ErrorMessage';
+import { useInventoryData, useInventorySettings, useFbsStockMutations } from '../hooks/useInventoryData';
+import { useSellerAccounts } from '../hooks/useSellerAccounts';
+import { useFilters } from '../hooks/useFilters';
+import { InventoryItem, isBelowCover, parseStocksCsv } from '../lib/inventory';
+import { formatNumber } from '../lib/format';
+
+type SortColumn = 'productName' | 'available' | 'reserved' | 'unitsSold' | 'velocity' | 'daysOfCover';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('ru-RU');
+
+// SKUs without sales sort after every SKU with a cover figure
+const sortValue = (item: InventoryItem, column: Exclude<SortColumn, 'productName'>, order: 'asc' | 'desc') => {
+  const value = item[column];
+  if (value === null) return order === 'asc' ? Infinity : -Infinity;
+  return value;
+};
+
+export const InventoryPage: React.FC = () => {
+  const { data, isLoading, error, refetch } = useInventoryData();
+  const [settings, updateSettings] = useInventorySettings();
+  const { replaceStocks } = useFbsStockMutations();
+  const { data: accounts } = useSellerAccounts();
+  const { filters } = useFilters();
+  const location = useLocation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [sortBy, setSortBy] = useState<SortColumn>('daysOfCover');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [onlyBelow, setOnlyBelow] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  // A file holds one cabinet's stock; with several cabinets one has to be picked
+  const uploadAccountId = filters.accountId || (accounts?.length === 1 ? accounts[0].id : '');
+
+  const items = useMemo(() => data?.items ?? [], [data]);
+  const belowCount = items.filter((item) => isBelowCover(item, settings.coverDays)).length;
+
+  const sortedItems = useMemo(() => {
+    const visible = onlyBelow ? items.filter((item) => isBelowCover(item, settings.coverDays)) : items;
+    return [...visible].sort((a, b) => {
+      if (sortBy === 'productName') {
+        const result = (a.productName || String(a.sku)).localeCompare(b.productName || String(b.sku), 'ru');
+        return sortOrder === 'asc' ? result : -result;
+      }
+      const aValue = sortValue(a, sortBy, sortOrder);
+      const bValue = sortValue(b, sortBy, sortOrder);
+      if (aValue === bValue) return b.unitsSold - a.unitsSold;
+      return sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
+    });
+  }, [items, onlyBelow, settings.coverDays, sortBy, sortOrder]);
+
+  const handleSort = (column: SortColumn) => {
+    if (sortBy === column) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortOrder(column === 'daysOfCover' || column === 'productName' ? 'asc' : 'desc');
+    }
+  };
+
+  const getSortIcon = (column: SortColumn) => {
+    if (sortBy !== column) return <ChevronUp className="w-4 h-4 text-gray-300" />;
+    return sortOrder === 'asc'
+      ? <ChevronUp className="w-4 h-4 text-gray-600" />
+      : <ChevronDown className="w-4 h-4 text-gray-600" />;
+  };
+
+  const toggleExpanded = (sku: number) => {
+    setExpanded((previous) => {
+      const next = new Set(previous);
+      if (next.has(sku)) {
+        next.delete(sku);
+      } else {
+        next.add(sku);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !uploadAccountId) return;
+
+    const { entries, errors } = parseStocksCsv(await file.text());
+    setImportErrors(errors);
+
+    if (entries.length === 0) {
+      toast.error('В файле нет корректных строк');
+      return;
+    }
+
+    replaceStocks.mutate(
+      { accountId: uploadAccountId, stocks: entries },
+      { onSuccess: (count) => toast.success(`Загружено строк: ${count}`) }
+    );
+  };
+
+  const statsConfig = [
+    {
+      title: 'SKU в наличии',
+      icon: <Boxes className="w-5 h-5" />,
+      value: items.filter((item) => item.available > 0).length,
+    },
+    {
+      title: 'Доступно, шт.',
+      icon: <Warehouse className="w-5 h-5" />,
+      value: items.reduce((sum, item) => sum + item.available, 0),
+    },
+    {
+      title: `Запас меньше ${settings.coverDays} дн.`,
+      icon: <AlertTriangle className="w-5 h-5" />,
+      value: belowCount,
+    },
+    {
+      title: 'Закончились',
+      icon: <PackageX className="w-5 h-5" />,
+      value: items.filter((item) => item.available === 0 && item.unitsSold > 0).length,
+    },
+  ];
+
+  const headerClassName =
+    'px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100';
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Остатки</h1>
+        <p className="text-gray-600 mt-1">
+          Остатки FBS по складам и на сколько дней их хватит. Скорость продаж — доставленные единицы
+          за выбранный период в день, по всем регионам.
+        </p>
+      </div>
+
+      {/* Settings / Import */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-700">
+              Порог запаса, дней
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.coverDays}
+                onChange={(e) => {
+                  const value = e.target.valueAsNumber;
+                  if (Number.isInteger(value) && value > 0) updateSettings({ coverDays: value });
+                }}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent w-28"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={onlyBelow}
+                onChange={(e) => setOnlyBelow(e.target.checked)}
+                className="rounded border-gray-300 text-ozon-600 focus:ring-ozon-500"
+              />
+              Только ниже порога
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {data?.updatedAt && (
+              <span className="text-xs text-gray-500">
+                Обновлено {new Date(data.updatedAt).toLocaleString('ru-RU')}
+              </span>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!uploadAccountId || replaceStocks.isPending}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              title={
+                uploadAccountId
+                  ? 'CSV со столбцами: sku; warehouse; present; reserved. Заменяет остатки складов из файла'
+                  : 'Выберите кабинет, к которому относится файл'
+              }
+            >
+              <Upload className="w-4 h-4" />
+              Загрузить CSV
+            </button>
+          </div>
+        </div>
+
+        {importErrors.length > 0 && (
+          <div className="mt-4 p-3 bg-red-50 rounded-lg text-sm text-red-700 space-y-1">
+            <div className="font-medium">Пропущены строки с ошибками:</div>
+            {importErrors.slice(0, 10).map((message) => (
+              <div key={message}>{message}</div>
+            ))}
+            {importErrors.length > 10 && (
+              <div>…и ещё {importErrors.length - 10}</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Summary Metrics */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {statsConfig.map((stat) => (
+          <StatCard
+            key={stat.title}
+            title={stat.title}
+            value={data ? stat.value : null}
+            icon={stat.icon}
+            loading={isLoading}
+          />
+        ))}
+      </div>
+
+      {/* Stock Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {error ? (
+          <ErrorMessage message="Не удалось загрузить остатки" onRetry={() => refetch()} />
+        ) : isLoading || !data ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !data.hasStocks ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Остатков пока нет. Они появятся после синхронизации с Ozon (npm run sync:ozon) или
+            загрузки CSV.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="w-10" />
+                  <th className={`${headerClassName} text-left`} onClick={() => handleSort('productName')}>
+                    <div className="flex items-center gap-1">
+                      Товар
+                      {getSortIcon('productName')}
+                    </div>
+                  </th>
+                  <th className={`${headerClassName} text-right`} onClick={() => handleSort('available')}>
+                    <div className="flex items-center justify-end gap-1">
+                      Доступно
+                      {getSortIcon('available')}
+                    </div>
+                  </th>
+                  <th className={`${headerClassName} text-right`} onClick={() => handleSort('reserved')}>
+                    <div className="flex items-center justify-end gap-1">
+                      Резерв
+                      {getSortIcon('reserved')}
+                    </div>
+                  </th>
+                  <th className={`${headerClassName} text-right`} onClick={() => handleSort('unitsSold')}>
+                    <div className="flex items-center justify-end gap-1">
+                      Продано
+                      {getSortIcon('unitsSold')}
+                    </div>
+                  </th>
+                  <th className={`${headerClassName} text-right`} onClick={() => handleSort('velocity')}>
+                    <div className="flex items-center justify-end gap-1">
+                      В день
+                      {getSortIcon('velocity')}
+                    </div>
+                  </th>
+                  <th className={`${headerClassName} text-right`} onClick={() => handleSort('daysOfCover')}>
+                    <div className="flex items-center justify-end gap-1">
+                      Запас, дней
+                      {getSortIcon('daysOfCover')}
+                    </div>
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Закончится
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedItems.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                      {onlyBelow ? 'Все товары с продажами обеспечены запасом выше порога' : 'Товары не найдены'}
+                    </td>
+                  </tr>
+                ) : (
+                  sortedItems.map((item) => {
+                    const below = isBelowCover(item, settings.coverDays);
+                    const isOpen = expanded.has(item.sku);
+                    return (
+                      <React.Fragment key={item.sku}>
+                        <tr className={below ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}>
+                          <td className="pl-4 py-4">
+                            {item.warehouses.length > 0 && (
+                              <button
+                                onClick={() => toggleExpanded(item.sku)}
+                                className="p-1 text-gray-400 hover:text-gray-700"
+                                title={isOpen ? 'Скрыть склады' : 'Показать склады'}
+                              >
+                                {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                              </button>
+                            )}
+                          </td>
+                          <td className="px-6 py-4">
+                            <Link
+                              to={`/products/${item.sku}${location.search}`}
+                              className="text-sm font-medium text-gray-900 hover:text-ozon-600"
+                            >
+                              {item.productName || `Товар ${item.sku}`}
+                            </Link>
+                            <div className="text-xs text-gray-500 font-mono">
+                              {item.offerId ? `${item.offerId} · ` : ''}{item.sku}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-medium">
+                            {formatNumber(item.available)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                            {formatNumber(item.reserved)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                            {formatNumber(item.unitsSold)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                            {formatNumber(item.velocity, { maximumFractionDigits: 1 })}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {item.daysOfCover === null ? (
+                              <span className="text-gray-400" title="Нет продаж за период">—</span>
+                            ) : (
+                              <span className={below ? 'font-medium text-red-600' : 'text-gray-900'}>
+                                {formatNumber(item.daysOfCover, { maximumFractionDigits: 0 })}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {item.available === 0 && item.unitsSold > 0 ? (
+                              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                                нет в наличии
+                              </span>
+                            ) : item.outOfStockDate ? (
+                              <span className={below ? 'text-red-600' : 'text-gray-700'}>
+                                {formatDate(item.outOfStockDate)}
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                        </tr>
+                        {isOpen &&
+                          item.warehouses.map((warehouse) => (
+                            <tr key={`${item.sku}-${warehouse.warehouseName}`} className="bg-gray-50 text-sm">
+                              <td />
+                              <td className="px-6 py-2 text-gray-600">
+                                <div className="flex items-center gap-2">
+                                  <Warehouse className="w-4 h-4 text-gray-400" />
+                                  {warehouse.warehouseName}
+                                </div>
+                              </td>
+                              <td className="px-6 py-2 text-right text-gray-700">{formatNumber(warehouse.available)}</td>
+                              <td className="px-6 py-2 text-right text-gray-500">{formatNumber(warehouse.reserved)}</td>
+                              <td colSpan={4} />
+                            </tr>
+                          ))}
+                      </React.Fragment>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { TrendingUp, Mail, KeyRound } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AUTH_KIND, USER_ROLE_LABELS } from '../lib/auth';
+import { LOCAL_AUTH_USERS } from '../lib/auth/local-auth';
+
+type LoginMethod = 'password' | 'magicLink';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent';
+
+const errorText = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : 'Не удалось войти';
+
+export const LoginPage: React.FC = () => {
+  const { user, signInWithPassword, sendMagicLink } = useAuth();
+  const location = useLocation();
+  const [method, setMethod] = useState<LoginMethod>('password');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  // Where the route guard sent the user from, including the filter params
+  const from = (location.state as { from?: string } | null)?.from || '/sales';
+
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      if (method === 'password') {
+        await signInWithPassword(email, password);
+      } else {
+        await sendMagicLink(email);
+        setLinkSentTo(email);
+      }
+    } catch (submitError) {
+      setError(errorText(submitError));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center justify-center mb-6">
+          <div className="w-8 h-8 bg-ozon-600 rounded-lg flex items-center justify-center">
+            <TrendingUp className="w-5 h-5 text-white" />
+          </div>
+          <span className="ml-3 text-lg font-semibold text-gray-900 dark:text-white">
+            Ozon Analytics
+          </span>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setMethod('password')}
+            className={`flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+              method === 'password'
+                ? 'bg-ozon-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <KeyRound className="w-4 h-4" />
+            Пароль
+          </button>
+          <button
+            onClick={() => setMethod('magicLink')}
+            className={`flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+              method === 'magicLink'
+                ? 'bg-ozon-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Mail className="w-4 h-4" />
+            Ссылка на почту
+          </button>
+        </div>
+
+        {linkSentTo ? (
+          <div className="p-4 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">
+            Ссылка для входа отправлена на {linkSentTo}. Откройте её в этом браузере.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClassName}
+            />
+            {method === 'password' && (
+              <input
+                type="password"
+                required
+                autoComplete="current-password"
+                placeholder="Пароль"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+              />
+            )}
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-4 py-2 bg-ozon-600 text-white text-sm rounded-lg hover:bg-ozon-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {method === 'password' ? 'Войти' : 'Получить ссылку'}
+            </button>
+          </form>
+        )}
+
+        {AUTH_KIND === 'local' && (
+          <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-900 space-y-1">
+            <div className="font-medium">Локальный вход для разработки, пароль любой:</div>
+            {LOCAL_AUTH_USERS.map((localUser) => (
+              <div key={localUser.id}>
+                {localUser.email} — {USER_ROLE_LABELS[localUser.role]}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,322 @@
+import React from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, MapPin, Package, Warehouse } from 'lucide-react';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../components/ui/ErrorMessage';
+import { usePostingDetail, PostingPnl } from '../hooks/usePostingDetail';
+import { useFilters } from '../hooks/useFilters';
+import { CATEGORY_LABELS } from '../lib/finance-rules';
+import type { DateType } from '../lib/data-source';
+import { formatCurrency, formatNumber } from '../lib/format';
+
+const STATUS_LABELS: Record<string, string> = {
+  awaiting_registration: 'Ожидает регистрации',
+  acceptance_in_progress: 'Идёт приёмка',
+  awaiting_approve: 'Ожидает подтверждения',
+  awaiting_packaging: 'Ожидает сборки',
+  awaiting_deliver: 'Ожидает отгрузки',
+  arbitration: 'Арбитраж',
+  client_arbitration: 'Клиентский арбитраж',
+  delivering: 'Доставляется',
+  driver_pickup: 'У водителя',
+  delivered: 'Доставлено',
+  cancelled: 'Отменено',
+  not_accepted: 'Не принято на сортировке',
+};
+
+const statusColor = (status: string) => {
+  switch (status) {
+    case 'delivered':
+      return 'bg-green-100 text-green-800';
+    case 'cancelled':
+    case 'not_accepted':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-amber-100 text-amber-800';
+  }
+};
+
+const DATE_LABELS: { key: DateType; label: string }[] = [
+  { key: 'in_process_at', label: 'Заказ' },
+  { key: 'shipment_date', label: 'Отгрузка' },
+  { key: 'delivering_date', label: 'Доставка' },
+];
+
+const PNL_ROWS: { key: keyof PostingPnl; label: string }[] = [
+  { key: 'accruals', label: 'Начислено за продажу' },
+  { key: 'commission', label: 'Комиссия' },
+  { key: 'logistics', label: 'Логистика' },
+  { key: 'returns', label: 'Возвраты' },
+  { key: 'other', label: 'Прочие услуги' },
+];
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('ru-RU', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: 'Europe/Moscow',
+      })
+    : '—';
+
+const cardClassName = 'bg-white rounded-lg shadow-sm border border-gray-200';
+
+export const PostingDetailPage: React.FC = () => {
+  const { postingNumber = '' } = useParams();
+  const location = useLocation();
+  const { filters } = useFilters();
+  const { data, isLoading, error, refetch } = usePostingDetail(postingNumber);
+
+  const header = (
+    <div>
+      <Link
+        to={`/transactions${location.search}`}
+        className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Все операции
+      </Link>
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        <h1 className="text-2xl font-bold text-gray-900 font-mono">{postingNumber}</h1>
+        {data?.posting && (
+          <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusColor(data.posting.status)}`}>
+            {STATUS_LABELS[data.posting.status] || data.posting.status || '—'}
+          </span>
+        )}
+      </div>
+      <p className="text-gray-600 mt-1">Отправление: товары, операции и экономика заказа</p>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <div className={cardClassName}>
+          {error ? (
+            <ErrorMessage message="Не удалось загрузить отправление" onRetry={() => refetch()} />
+          ) : (
+            <div className="text-center text-gray-500 py-12">
+              Отправление не найдено — возможно, оно ещё не синхронизировано
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { posting, items, transactions, pnl } = data;
+  const booked = transactions.length > 0;
+
+  return (
+    <div className="space-y-6">
+      {header}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Posting record */}
+        <div className={`${cardClassName} p-6 space-y-4`}>
+          <h2 className="text-lg font-semibold text-gray-900">Отправление</h2>
+          {posting ? (
+            <>
+              <div className="space-y-2">
+                {DATE_LABELS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 text-gray-600">
+                      <Calendar className="w-4 h-4 text-gray-400" />
+                      {label}
+                      {key === filters.dateType && (
+                        <span className="text-xs text-ozon-600" title="По этой дате считаются периоды">
+                          (период)
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-gray-900">{formatDateTime(posting.dates[key])}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-gray-600">
+                  <Warehouse className="w-4 h-4 text-gray-400" />
+                  Склад
+                </span>
+                <span className="text-gray-900 text-right">
+                  {posting.warehouseName || (posting.warehouseId > 0 ? posting.warehouseId : '—')}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-gray-600">
+                  <MapPin className="w-4 h-4 text-gray-400" />
+                  Кластер
+                </span>
+                <span className="text-gray-900 text-right">
+                  {[posting.clusterFrom, posting.clusterTo].filter(Boolean).join(' → ') || '—'}
+                </span>
+              </div>
+              {posting.cancelReason && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                  Причина отмены: {posting.cancelReason}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-sm text-gray-500">
+              Отправления нет в postings_fbs — показаны только финансовые операции
+            </div>
+          )}
+        </div>
+
+        {/* P&L */}
+        <div className={`${cardClassName} p-6 lg:col-span-2`}>
+          <h2 className="text-lg font-semibold text-gray-900">Экономика заказа</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {booked
+              ? 'По проведённым операциям Ozon, разнесённым по правилам категорий'
+              : 'Ozon ещё не провёл операции по отправлению — выплата по данным заказа'}
+          </p>
+          <table className="w-full">
+            <tbody className="divide-y divide-gray-200">
+              <tr>
+                <td className="py-2 text-sm text-gray-600">Стоимость товаров для покупателя</td>
+                <td className="py-2 text-sm text-gray-900 text-right">{formatCurrency(pnl.priceTotal)}</td>
+              </tr>
+              {booked &&
+                PNL_ROWS.filter(({ key }) => key === 'accruals' || key === 'commission' || pnl[key] !== 0).map(
+                  ({ key, label }) => (
+                    <tr key={key}>
+                      <td className="py-2 text-sm text-gray-600">{label}</td>
+                      <td className={`py-2 text-sm text-right ${pnl[key] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(pnl[key])}
+                      </td>
+                    </tr>
+                  )
+                )}
+              <tr className="font-medium">
+                <td className="py-2 text-sm text-gray-900">{booked ? 'Выплата' : 'Ожидаемая выплата'}</td>
+                <td className={`py-2 text-sm text-right ${(booked ? pnl.payout : pnl.expectedPayout) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(booked ? pnl.payout : pnl.expectedPayout)}
+                </td>
+              </tr>
+              {booked && items.length > 0 && (
+                <tr>
+                  <td className="py-2 text-xs text-gray-500">Ожидалось по данным заказа</td>
+                  <td className="py-2 text-xs text-gray-500 text-right">{formatCurrency(pnl.expectedPayout)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Items */}
+      {items.length > 0 && (
+        <div className={cardClassName}>
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+              <Package className="w-5 h-5 text-gray-400" />
+              Товары
+            </h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Товар</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Кол-во</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Цена</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Сумма</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Комиссия</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">К выплате</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map((item) => (
+                  <tr key={item.sku} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm">
+                      <Link
+                        to={`/products/${item.sku}${location.search}`}
+                        className="font-mono text-xs text-ozon-600 hover:text-ozon-800 hover:underline"
+                      >
+                        SKU: {formatNumber(item.sku)}
+                      </Link>
+                      <div className="text-gray-900">{item.name || '—'}</div>
+                      {item.offerId && <div className="font-mono text-xs text-gray-500">{item.offerId}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatNumber(item.quantity)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatCurrency(item.price)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900 text-right">{formatCurrency(item.priceTotal)}</td>
+                    <td className="px-6 py-4 text-sm text-red-600 text-right">{formatCurrency(-item.commission)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900 text-right font-medium">{formatCurrency(item.payout)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Finance operations */}
+      <div className={cardClassName}>
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Операции</h2>
+          <p className="text-sm text-gray-600">Все начисления и удержания по отправлению, без учёта выбранного периода</p>
+        </div>
+        {transactions.length === 0 ? (
+          <div className="text-center text-gray-500 py-12">Операций пока нет</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Дата</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Тип операции</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Категория</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Услуга</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Сумма</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {transactions.map((transaction, index) => (
+                  <tr key={`${transaction.transaction_id}-${index}`} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {transaction.operation_date_msk
+                        ? new Date(transaction.operation_date_msk).toLocaleDateString('ru-RU')
+                        : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{transaction.operation_type_name || '—'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{CATEGORY_LABELS[transaction.category]}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {transaction.service_name ? (
+                        <span title={transaction.service_name}>
+                          {transaction.service_name} · {formatCurrency(transaction.service_price)}
+                        </span>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(transaction.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
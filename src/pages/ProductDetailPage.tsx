@@ -0,0 +1,318 @@
+import React from 'react';
+import { Link, Navigate, useLocation, useParams } from 'react-router-dom';
+import { ArrowLeft, DollarSign, ShoppingCart, Tag, TrendingUp, AlertTriangle, MapPin } from 'lucide-react';
+import { DailySalesChart } from '../components/charts/DailySalesChart';
+import { PriceHistoryChart } from '../components/charts/PriceHistoryChart';
+import { StatCard } from '../components/ui/StatCard';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../components/ui/ErrorMessage';
+import { useProductSummary, useProductFinance } from '../hooks/useProductDetail';
+import { useSelectedProducts } from '../hooks/useFilterOptions';
+import { useRegionsData } from '../hooks/useRegionsData';
+import { useAuth } from '../contexts/AuthContext';
+import { CATEGORY_LABELS, FINANCE_CATEGORIES } from '../lib/finance-rules';
+import { formatCurrency, formatNumber, formatPercentage } from '../lib/format';
+
+const REGIONS_SHOWN = 10;
+
+const cardClassName = 'bg-white rounded-lg shadow-sm border border-gray-200';
+
+export const ProductDetailPage: React.FC = () => {
+  const { sku: skuParam } = useParams();
+  const sku = Number(skuParam);
+
+  if (!Number.isSafeInteger(sku) || sku <= 0) {
+    return <Navigate to="/products" replace />;
+  }
+
+  return <ProductDetail sku={sku} />;
+};
+
+const ProductDetail: React.FC<{ sku: number }> = ({ sku }) => {
+  const location = useLocation();
+  const { can } = useAuth();
+  const showProfit = can('viewProfit');
+  const showFinance = can('viewFinance');
+  const { data: summary, isLoading, error, refetch } = useProductSummary(sku);
+  const { data: products } = useSelectedProducts([sku]);
+  const { data: regions, isLoading: regionsLoading } = useRegionsData(sku);
+  const { data: finance, isLoading: financeLoading, error: financeError } = useProductFinance(sku, showFinance);
+
+  const product = products?.[0];
+  const current = summary?.current;
+  const previous = summary?.previous;
+  const units = current?.units || 0;
+  const perUnit = (value: number) => (units > 0 ? value / units : null);
+
+  // The transactions page with the same filters and the SKU in its search box
+  const transactionsParams = new URLSearchParams(location.search);
+  transactionsParams.set('transactions.search', `sku:${sku}`);
+  transactionsParams.delete('transactions.page');
+
+  const regionRows = [...(regions || [])]
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, REGIONS_SHOWN);
+  const regionsRevenue = (regions || []).reduce((sum, region) => sum + region.revenue, 0);
+
+  const statsConfig = [
+    {
+      title: 'Выручка',
+      icon: <DollarSign className="w-5 h-5" />,
+      value: current?.revenue ?? 0,
+      previousValue: previous?.revenue ?? 0,
+      format: 'currency' as const,
+    },
+    {
+      title: 'Продано единиц',
+      icon: <ShoppingCart className="w-5 h-5" />,
+      value: current?.units ?? 0,
+      previousValue: previous?.units ?? 0,
+      format: 'number' as const,
+    },
+    {
+      title: 'Средняя цена',
+      icon: <Tag className="w-5 h-5" />,
+      value: current?.avgPrice ?? null,
+      previousValue: previous?.avgPrice ?? null,
+      format: 'currency' as const,
+    },
+    ...(showProfit
+      ? [
+          {
+            title: 'Чистая прибыль',
+            icon: <TrendingUp className="w-5 h-5" />,
+            value: current?.netProfit ?? 0,
+            previousValue: previous?.netProfit ?? 0,
+            format: 'currency' as const,
+          },
+        ]
+      : []),
+  ];
+
+  const economicsRows = finance
+    ? FINANCE_CATEGORIES.filter((category) => finance.totals[category] !== 0).map((category) => ({
+        label: CATEGORY_LABELS[category],
+        total: finance.totals[category],
+      }))
+    : [];
+  if (finance && showProfit && current) {
+    economicsRows.push({ label: 'Себестоимость', total: -current.cogs });
+  }
+  const economicsTotal = economicsRows.reduce((sum, row) => sum + row.total, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <Link
+          to={`/products${location.search}`}
+          className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Все товары
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900 mt-2">
+          {product?.productName || current?.product_name || `Товар ${formatNumber(sku)}`}
+        </h1>
+        <p className="text-gray-600 mt-1 font-mono text-sm">
+          SKU {sku}
+          {(product?.offerId || current?.offer_id) && ` · ${product?.offerId || current?.offer_id}`}
+        </p>
+      </div>
+
+      {error ? (
+        <div className={cardClassName}>
+          <ErrorMessage message="Не удалось загрузить показатели товара" onRetry={() => refetch()} />
+        </div>
+      ) : (
+        <div className={`grid grid-cols-1 sm:grid-cols-2 ${showProfit ? 'lg:grid-cols-4' : 'lg:grid-cols-3'} gap-4`}>
+          {statsConfig.map((stat) => (
+            <StatCard
+              key={stat.title}
+              title={stat.title}
+              value={stat.value}
+              previousValue={stat.previousValue}
+              format={stat.format}
+              icon={stat.icon}
+              loading={isLoading}
+            />
+          ))}
+        </div>
+      )}
+
+      {showProfit && !!summary?.unitsWithoutCost && (
+        <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Для {formatNumber(summary.unitsWithoutCost)} ед. не задана себестоимость — прибыль завышена.{' '}
+            {can('editCosts') && (
+              <Link to="/costs" className="font-medium underline">
+                Заполнить себестоимость
+              </Link>
+            )}
+          </span>
+        </div>
+      )}
+
+      <DailySalesChart sku={sku} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <PriceHistoryChart sku={sku} />
+
+        {/* Regional split */}
+        <div className={cardClassName}>
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">По регионам</h2>
+            <p className="text-sm text-gray-600">Доля выручки товара по кластерам доставки</p>
+          </div>
+          {regionsLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : regionRows.length === 0 ? (
+            <div className="text-center text-gray-500 py-12">Нет продаж за выбранный период</div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Регион</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Единицы</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Выручка</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Доля</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {regionRows.map((region) => (
+                  <tr key={region.region} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      <div className="flex items-center">
+                        <MapPin className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+                        <span className="truncate">{region.region}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900 text-right">{formatNumber(region.units)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900 text-right">{formatCurrency(region.revenue)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600 text-right">
+                      {regionsRevenue > 0 ? formatPercentage((region.revenue / regionsRevenue) * 100) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {showFinance && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Unit economics */}
+          <div className={cardClassName}>
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Юнит-экономика</h2>
+              <p className="text-sm text-gray-600">
+                Начисления и удержания по операциям с товаром, на единицу — из {formatNumber(units)} проданных.
+                Операции по отправлениям с несколькими товарами учтены целиком.
+              </p>
+            </div>
+            {financeLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : financeError ? (
+              <ErrorMessage message="Не удалось загрузить операции по товару" />
+            ) : economicsRows.length === 0 ? (
+              <div className="text-center text-gray-500 py-12">Нет операций за выбранный период</div>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Статья</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Всего</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">На единицу</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {[...economicsRows, { label: 'Итого', total: economicsTotal }].map((row) => {
+                    const unitValue = perUnit(row.total);
+                    const isTotal = row.label === 'Итого';
+                    return (
+                      <tr key={row.label} className={isTotal ? 'bg-gray-50 font-medium' : undefined}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{row.label}</td>
+                        <td className={`px-4 py-2 text-sm text-right ${row.total >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(row.total)}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                          {unitValue != null ? formatCurrency(unitValue) : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Recent transactions */}
+          <div className={cardClassName}>
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Последние операции</h2>
+                <p className="text-sm text-gray-600">
+                  {finance ? `${formatNumber(finance.transactionCount)} операций за период` : 'Операции по товару'}
+                </p>
+              </div>
+              <Link
+                to={`/transactions?${transactionsParams.toString()}`}
+                className="text-sm font-medium text-ozon-600 hover:text-ozon-800 whitespace-nowrap"
+              >
+                Все операции
+              </Link>
+            </div>
+            {financeLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : !finance || finance.recent.length === 0 ? (
+              <div className="text-center text-gray-500 py-12">Нет операций за выбранный период</div>
+            ) : (
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-200">
+                  {finance.recent.map((transaction) => (
+                    <tr key={transaction.transaction_id} className="hover:bg-gray-50">
+                      <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">
+                        {transaction.operation_date_msk
+                          ? new Date(transaction.operation_date_msk).toLocaleDateString('ru-RU')
+                          : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <div className="text-gray-900 truncate max-w-[220px]" title={transaction.operation_type_name}>
+                          {transaction.operation_type_name || '—'}
+                        </div>
+                        <div className="font-mono text-xs text-gray-500">
+                          {transaction.posting_number ? (
+                            <Link
+                              to={`/postings/${encodeURIComponent(transaction.posting_number)}${location.search}`}
+                              className="text-blue-600 hover:text-blue-800 hover:underline"
+                            >
+                              {transaction.posting_number}
+                            </Link>
+                          ) : (
+                            '—'
+                          )}{' '}
+                          · {CATEGORY_LABELS[transaction.category]}
+                        </div>
+                      </td>
+                      <td className={`px-4 py-2 text-sm text-right whitespace-nowrap ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(transaction.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,44 @@
 import React from 'react';
-import { Package, TrendingUp, ShoppingCart, DollarSign } from 'lucide-react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Package, TrendingUp, ShoppingCart, DollarSign, AlertTriangle } from 'lucide-react';
 import { DataTable, Column } from '../components/ui/DataTable';
 import { StatCard } from '../components/ui/StatCard';
-import { useProductsTable, useProductsData, useProductsMetrics, ProductPerformance } from '../hooks/useProductsData';
+import { DeltaBadge } from '../components/ui/DeltaBadge';
+import { AbcXyzMatrix } from '../components/products/AbcXyzMatrix';
+import {
+  useProductsTable,
+  useProductsData,
+  useProductsMetrics,
+  useComparisonProductsMetrics,
+  useProductsComparison,
+  useProductsExport,
+  useProductsAbcXyz,
+  ProductPerformance,
+} from '../hooks/useProductsData';
+import { useAuth } from '../contexts/AuthContext';
 import { formatCurrency, formatNumber } from '../lib/format';
+import { ABC_CLASSES, MIN_XYZ_WEEKS, XYZ_CLASSES } from '../lib/abc-xyz';
+
+const classBadgeColors: Record<string, string> = {
+  A: 'bg-green-50 text-green-700',
+  B: 'bg-yellow-50 text-yellow-700',
+  C: 'bg-gray-100 text-gray-600',
+};
+
+const selectClassName =
+  'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent';
 
 export const ProductsPage: React.FC = () => {
   const { tableState, updateTableState } = useProductsTable();
   const { data: tableData, isLoading, error, refetch } = useProductsData(tableState);
   const { data: metrics } = useProductsMetrics();
+  const { data: previousMetrics } = useComparisonProductsMetrics();
+  const { data: comparison } = useProductsComparison();
+  const exportSource = useProductsExport(tableState);
+  const abcXyz = useProductsAbcXyz();
+  const { can } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
 
   const columns: Column<ProductPerformance>[] = [
     {
@@ -39,6 +69,16 @@ export const ProductsPage: React.FC = () => {
         </div>
       ),
     },
+    {
+      key: 'abcXyz',
+      label: 'ABC/XYZ',
+      render: (value) =>
+        value ? (
+          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${classBadgeColors[value[0]]}`}>
+            {value}
+          </span>
+        ) : '…',
+    },
     {
       key: 'units',
       label: 'Единицы',
@@ -61,18 +101,55 @@ export const ProductsPage: React.FC = () => {
       className: 'text-right',
     },
     {
-      key: 'netProfit',
-      label: 'Чистая прибыль',
-      sortable: true,
-      render: (value) => (
-        <span className={value >= 0 ? 'text-green-600' : 'text-red-600'}>
-          {formatCurrency(value)}
-        </span>
-      ),
+      key: 'revenueChange',
+      label: 'Δ выручки',
+      render: (_, row) =>
+        comparison ? (
+          <DeltaBadge
+            current={row.revenue}
+            previous={row.previousRevenue}
+            title={row.previousRevenue != null ? `Было: ${formatCurrency(row.previousRevenue)}` : undefined}
+          />
+        ) : '…',
+      className: 'text-right',
+    },
+    {
+      key: 'unitsChange',
+      label: 'Δ единиц',
+      render: (_, row) =>
+        comparison ? (
+          <DeltaBadge
+            current={row.units}
+            previous={row.previousUnits}
+            title={row.previousUnits != null ? `Было: ${formatNumber(row.previousUnits)}` : undefined}
+          />
+        ) : '…',
       className: 'text-right',
     },
   ];
 
+  if (can('viewProfit')) {
+    columns.push(
+      {
+        key: 'cogs',
+        label: 'Себестоимость',
+        render: (value) => formatCurrency(value),
+        className: 'text-right',
+      },
+      {
+        key: 'netProfit',
+        label: 'Чистая прибыль',
+        // Profit includes cost of goods, which the server cannot sort by
+        render: (value) => (
+          <span className={value >= 0 ? 'text-green-600' : 'text-red-600'}>
+            {formatCurrency(value)}
+          </span>
+        ),
+        className: 'text-right',
+      }
+    );
+  }
+
   const handlePageChange = (newPage: number) => {
     updateTableState({ page: newPage });
   };
@@ -85,8 +162,13 @@ export const ProductsPage: React.FC = () => {
     updateTableState({ sortBy, sortOrder });
   };
 
+  const handleClassChange = (abc: string, xyz: string) => {
+    updateTableState({ abc, xyz, page: 0 });
+  };
+
+  // One history entry per search, not per keystroke
   const handleSearchChange = (search: string) => {
-    updateTableState({ search, page: 0 });
+    updateTableState({ search, page: 0 }, { replace: true });
   };
 
   const statsConfig = [
@@ -94,24 +176,28 @@ export const ProductsPage: React.FC = () => {
       title: 'Всего товаров',
       icon: <Package className="w-5 h-5" />,
       value: metrics?.totalProducts,
+      previousValue: previousMetrics?.totalProducts,
       format: 'number' as const,
     },
     {
       title: 'Общая выручка',
       icon: <DollarSign className="w-5 h-5" />,
       value: metrics?.totalRevenue,
+      previousValue: previousMetrics?.totalRevenue,
       format: 'currency' as const,
     },
     {
       title: 'Общие продажи',
       icon: <ShoppingCart className="w-5 h-5" />,
       value: metrics?.totalUnits,
+      previousValue: previousMetrics?.totalUnits,
       format: 'number' as const,
     },
     {
       title: 'Средняя выручка с товара',
       icon: <TrendingUp className="w-5 h-5" />,
       value: metrics?.avgRevenuePerProduct,
+      previousValue: previousMetrics?.avgRevenuePerProduct,
       format: 'currency' as const,
     },
   ];
@@ -133,6 +219,7 @@ export const ProductsPage: React.FC = () => {
             key={stat.title}
             title={stat.title}
             value={stat.value ?? null}
+            previousValue={stat.previousValue ?? null}
             format={stat.format}
             icon={stat.icon}
             loading={!metrics}
@@ -140,6 +227,67 @@ export const ProductsPage: React.FC = () => {
         ))}
       </div>
 
+      {can('viewProfit') && !!tableData?.unitsWithoutCost && (
+        <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Для {formatNumber(tableData.unitsWithoutCost)} ед. проданных товаров не задана себестоимость —
+            чистая прибыль по ним завышена.{' '}
+            {can('editCosts') && (
+              <Link to="/costs" className="font-medium underline">
+                Заполнить себестоимость
+              </Link>
+            )}
+          </span>
+        </div>
+      )}
+
+      <AbcXyzMatrix
+        cells={abcXyz.cells}
+        weeks={abcXyz.weeks}
+        thresholds={abcXyz.thresholds}
+        onThresholdsChange={abcXyz.updateThresholds}
+        selectedAbc={tableState.abc}
+        selectedXyz={tableState.xyz}
+        onSelect={handleClassChange}
+        loading={abcXyz.isLoading}
+        error={abcXyz.error}
+        onRetry={() => abcXyz.refetch()}
+      />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Класс:</span>
+        <select
+          value={tableState.abc}
+          onChange={(e) => handleClassChange(e.target.value, tableState.xyz)}
+          className={selectClassName}
+        >
+          <option value="">ABC: все</option>
+          {ABC_CLASSES.map((abc) => (
+            <option key={abc} value={abc}>{abc}</option>
+          ))}
+        </select>
+        <select
+          value={tableState.xyz}
+          onChange={(e) => handleClassChange(tableState.abc, e.target.value)}
+          disabled={abcXyz.weeks < MIN_XYZ_WEEKS}
+          className={`${selectClassName} disabled:opacity-50`}
+        >
+          <option value="">XYZ: все</option>
+          {XYZ_CLASSES.map((xyz) => (
+            <option key={xyz} value={xyz}>{xyz}</option>
+          ))}
+        </select>
+        {(tableState.abc || tableState.xyz) && (
+          <button
+            onClick={() => handleClassChange('', '')}
+            className="text-sm font-medium text-ozon-600 hover:text-ozon-700"
+          >
+            Сбросить
+          </button>
+        )}
+      </div>
+
       {/* Products Table */}
       <DataTable<ProductPerformance>
         columns={columns}
@@ -159,6 +307,9 @@ export const ProductsPage: React.FC = () => {
         onRetry={() => refetch()}
         searchPlaceholder="Поиск по SKU, Offer ID или названию товара..."
         emptyMessage="Товары не найдены. Попробуйте изменить фильтры или период."
+        exportSource={exportSource}
+        // The filters travel along; the product page reads the same period
+        onRowClick={(row) => navigate(`/products/${row.sku}${location.search}`)}
       />
     </div>
   );
@@ -1,16 +1,29 @@
 import React, { useState } from 'react';
-import { MapPin, TrendingUp, ShoppingCart, DollarSign, Award } from 'lucide-react';
+import { MapPin, ShoppingCart, DollarSign, Award, ChevronUp, ChevronDown } from 'lucide-react';
 import { StatCard } from '../components/ui/StatCard';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { ErrorMessage } from '../components/ui/ErrorMessage';
-import { useRegionsData, useRegionsMetrics, RegionPerformance } from '../hooks/useRegionsData';
+import { DeltaBadge } from '../components/ui/DeltaBadge';
+import { RegionMap } from '../components/charts/RegionMap';
+import {
+  useRegionsData,
+  useRegionsMetrics,
+  useComparisonRegionsMetrics,
+  RegionPerformance,
+} from '../hooks/useRegionsData';
+import { useFilters } from '../hooks/useFilters';
+import { useAuth } from '../contexts/AuthContext';
 import { formatCurrency, formatNumber } from '../lib/format';
 
 export const RegionsPage: React.FC = () => {
   const { data: regionsData, isLoading, error, refetch } = useRegionsData();
   const { data: metrics } = useRegionsMetrics();
+  const { data: previousMetrics } = useComparisonRegionsMetrics();
   const [sortBy, setSortBy] = useState<keyof RegionPerformance>('revenue');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const { filters, updateFilters } = useFilters();
+  const { can } = useAuth();
+  const showProfit = can('viewProfit');
 
   const handleSort = (column: keyof RegionPerformance) => {
     if (sortBy === column) {
@@ -42,8 +55,20 @@ export const RegionsPage: React.FC = () => {
   }, [regionsData, sortBy, sortOrder]);
 
   const getSortIcon = (column: keyof RegionPerformance) => {
-    if (sortBy !== column) return '↕️';
-    return sortOrder === 'asc' ? '⬆️' : '⬇️';
+    if (sortBy !== column) return <ChevronUp className="w-4 h-4 text-gray-300" />;
+    return sortOrder === 'asc'
+      ? <ChevronUp className="w-4 h-4 text-gray-600" />
+      : <ChevronDown className="w-4 h-4 text-gray-600" />;
+  };
+
+  // A click on the map narrows the dashboard to that region; clicking the
+  // selected region again clears the filter
+  const handleMapSelect = (names: string[]) => {
+    const alreadySelected =
+      !filters.regionExclude &&
+      filters.region.length === names.length &&
+      names.every((name) => filters.region.includes(name));
+    updateFilters({ region: alreadySelected ? [] : names, regionExclude: false });
   };
 
   const statsConfig = [
@@ -51,18 +76,21 @@ export const RegionsPage: React.FC = () => {
       title: 'Всего регионов',
       icon: <MapPin className="w-5 h-5" />,
       value: metrics?.totalRegions,
+      previousValue: previousMetrics?.totalRegions,
       format: 'number' as const,
     },
     {
       title: 'Общая выручка',
       icon: <DollarSign className="w-5 h-5" />,
       value: metrics?.totalRevenue,
+      previousValue: previousMetrics?.totalRevenue,
       format: 'currency' as const,
     },
     {
       title: 'Общие продажи',
       icon: <ShoppingCart className="w-5 h-5" />,
       value: metrics?.totalUnits,
+      previousValue: previousMetrics?.totalUnits,
       format: 'number' as const,
     },
     {
@@ -105,6 +133,7 @@ export const RegionsPage: React.FC = () => {
             <StatCard
               title={stat.title}
               value={stat.value ?? null}
+              previousValue={stat.previousValue ?? null}
               format={stat.format}
               icon={stat.icon}
               loading={!metrics}
@@ -118,6 +147,16 @@ export const RegionsPage: React.FC = () => {
         ))}
       </div>
 
+      {/* Regions Map */}
+      {regionsData && (
+        <RegionMap
+          regions={regionsData}
+          selected={filters.regionExclude ? [] : filters.region}
+          showProfit={showProfit}
+          onSelect={handleMapSelect}
+        />
+      )}
+
       {/* Regions Table */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="p-4 border-b border-gray-200">
@@ -147,7 +186,7 @@ export const RegionsPage: React.FC = () => {
                   >
                     <div className="flex items-center gap-1">
                       Регион
-                      <span className="text-xs">{getSortIcon('region')}</span>
+                      {getSortIcon('region')}
                     </div>
                   </th>
                   <th 
@@ -156,7 +195,7 @@ export const RegionsPage: React.FC = () => {
                   >
                     <div className="flex items-center justify-end gap-1">
                       Заказы
-                      <span className="text-xs">{getSortIcon('orders')}</span>
+                      {getSortIcon('orders')}
                     </div>
                   </th>
                   <th 
@@ -165,7 +204,7 @@ export const RegionsPage: React.FC = () => {
                   >
                     <div className="flex items-center justify-end gap-1">
                       Единицы
-                      <span className="text-xs">{getSortIcon('units')}</span>
+                      {getSortIcon('units')}
                     </div>
                   </th>
                   <th 
@@ -174,7 +213,7 @@ export const RegionsPage: React.FC = () => {
                   >
                     <div className="flex items-center justify-end gap-1">
                       GMV
-                      <span className="text-xs">{getSortIcon('gmv')}</span>
+                      {getSortIcon('gmv')}
                     </div>
                   </th>
                   <th 
@@ -183,25 +222,36 @@ export const RegionsPage: React.FC = () => {
                   >
                     <div className="flex items-center justify-end gap-1">
                       Выручка
-                      <span className="text-xs">{getSortIcon('revenue')}</span>
+                      {getSortIcon('revenue')}
                     </div>
                   </th>
                   <th 
                     className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                    onClick={() => handleSort('netProfit')}
+                    onClick={() => handleSort('revenueChange')}
                   >
                     <div className="flex items-center justify-end gap-1">
-                      Прибыль
-                      <span className="text-xs">{getSortIcon('netProfit')}</span>
+                      Δ выручки
+                      {getSortIcon('revenueChange')}
                     </div>
                   </th>
+                  {showProfit && (
+                    <th 
+                      className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                      onClick={() => handleSort('netProfit')}
+                    >
+                      <div className="flex items-center justify-end gap-1">
+                        Прибыль
+                        {getSortIcon('netProfit')}
+                      </div>
+                    </th>
+                  )}
                   <th 
                     className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
                     onClick={() => handleSort('avgOrderValue')}
                   >
                     <div className="flex items-center justify-end gap-1">
                       Ср. чек
-                      <span className="text-xs">{getSortIcon('avgOrderValue')}</span>
+                      {getSortIcon('avgOrderValue')}
                     </div>
                   </th>
                 </tr>
@@ -209,7 +259,7 @@ export const RegionsPage: React.FC = () => {
               <tbody className="bg-white divide-y divide-gray-200">
                 {sortedData.length === 0 ? (
                   <tr>
-                    <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                    <td colSpan={showProfit ? 9 : 8} className="px-6 py-12 text-center text-gray-500">
                       Нет данных по регионам за выбранный период
                     </td>
                   </tr>
@@ -239,11 +289,20 @@ export const RegionsPage: React.FC = () => {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-medium">
                         {formatCurrency(region.revenue)}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
-                        <span className={region.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}>
-                          {formatCurrency(region.netProfit)}
-                        </span>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <DeltaBadge
+                          current={region.revenue}
+                          previous={region.previousRevenue}
+                          title={region.previousRevenue != null ? `Было: ${formatCurrency(region.previousRevenue)}` : undefined}
+                        />
                       </td>
+                      {showProfit && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                          <span className={region.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}>
+                            {formatCurrency(region.netProfit)}
+                          </span>
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
                         {formatCurrency(region.avgOrderValue)}
                       </td>
@@ -0,0 +1,388 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { AlertTriangle, Download, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../components/ui/ErrorMessage';
+import { useInventoryData } from '../hooks/useInventoryData';
+import {
+  useReplenishmentParams,
+  useReplenishmentParamsMutation,
+  useReplenishmentSettings,
+} from '../hooks/useReplenishment';
+import { InventoryItem } from '../lib/inventory';
+import {
+  PURCHASE_ORDER_HEADER,
+  PurchaseOrderLine,
+  ReplenishmentParams,
+  ReplenishmentPlan,
+  planReplenishment,
+  toPurchaseOrderRows,
+  toReplenishmentParams,
+  toReplenishmentSettingsRow,
+} from '../lib/replenishment';
+import { writeRows } from '../lib/export';
+import { addDays } from '../lib/sales-series';
+import { formatMoscowDate } from '../lib/date-utils';
+import { formatNumber } from '../lib/format';
+
+const inputClassName =
+  'px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('ru-RU');
+
+interface ParamInputProps {
+  value: string | number;
+  // Returns false when the input is not acceptable; the field then reverts
+  onCommit: (value: string) => boolean;
+  type?: 'text' | 'number';
+  className?: string;
+  list?: string;
+  placeholder?: string;
+}
+
+// Saves on blur or Enter, so typing does not send a request per keystroke
+const ParamInput: React.FC<ParamInputProps> = ({ value, onCommit, type = 'number', className, list, placeholder }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    if (draft === String(value)) return;
+    if (!onCommit(draft)) setDraft(String(value));
+  };
+
+  return (
+    <input
+      type={type}
+      min={type === 'number' ? 0 : undefined}
+      value={draft}
+      list={list}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className={`${inputClassName} ${className || ''}`}
+    />
+  );
+};
+
+interface PlannerRow {
+  item: InventoryItem;
+  params: ReplenishmentParams;
+  plan: ReplenishmentPlan;
+  // Quantity to order: the buyer's override or the suggestion
+  quantity: number;
+  overridden: boolean;
+  due: boolean;
+}
+
+export const ReplenishmentPage: React.FC = () => {
+  const { data: inventory, isLoading, error, refetch } = useInventoryData();
+  const { data: paramsBySku, isLoading: paramsLoading, error: paramsError } = useReplenishmentParams();
+  const saveParams = useReplenishmentParamsMutation();
+  const [settings, updateSettings] = useReplenishmentSettings();
+  const location = useLocation();
+
+  const [onlyDue, setOnlyDue] = useState(true);
+  // Quantities the buyer typed over the suggestion, by SKU
+  const [overrides, setOverrides] = useState<Map<number, number>>(new Map());
+
+  const today = formatMoscowDate(new Date());
+  const horizonEnd = addDays(today, settings.horizonDays);
+
+  const rows = useMemo((): PlannerRow[] => {
+    if (!inventory || !paramsBySku) return [];
+    return inventory.items
+      .filter((item) => item.velocity > 0)
+      .map((item) => {
+        const params = toReplenishmentParams(paramsBySku.get(item.sku));
+        const plan = planReplenishment(item, params, today);
+        const override = overrides.get(item.sku);
+        const quantity = override ?? plan.quantity;
+        return {
+          item,
+          params,
+          plan,
+          quantity,
+          overridden: override !== undefined,
+          // A quantity typed over the suggestion goes into the order whatever the date
+          due: quantity > 0 && (override !== undefined || (!!plan.orderDate && plan.orderDate <= horizonEnd)),
+        };
+      })
+      .sort(
+        (a, b) =>
+          (a.plan.orderDate || '').localeCompare(b.plan.orderDate || '') ||
+          b.item.velocity - a.item.velocity
+      );
+  }, [inventory, paramsBySku, overrides, today, horizonEnd]);
+
+  const visibleRows = onlyDue ? rows.filter((row) => row.due) : rows;
+  const dueRows = rows.filter((row) => row.due);
+  const suppliers = useMemo(
+    () =>
+      Array.from(
+        new Set(Array.from(paramsBySku?.values() || []).flatMap((row) => (row.supplier ? [row.supplier] : [])))
+      ).sort((a, b) => a.localeCompare(b, 'ru')),
+    [paramsBySku]
+  );
+
+  const updateParams = (sku: number, params: ReplenishmentParams, updates: Partial<ReplenishmentParams>) => {
+    saveParams.mutate([toReplenishmentSettingsRow(sku, { ...params, ...updates })]);
+    // A new suggestion replaces what was typed over the old one
+    setOverrides((previous) => {
+      const next = new Map(previous);
+      next.delete(sku);
+      return next;
+    });
+  };
+
+  // Whole numbers from `min` on; anything else is rejected
+  const commitNumber =
+    (row: PlannerRow, key: Exclude<keyof ReplenishmentParams, 'supplier'>, min: number) => (value: string) => {
+      const parsed = Number(value);
+      if (value.trim() === '' || !Number.isInteger(parsed) || parsed < min) return false;
+      updateParams(row.item.sku, row.params, { [key]: parsed });
+      return true;
+    };
+
+  const setOverride = (sku: number, quantity: number | null) => {
+    setOverrides((previous) => {
+      const next = new Map(previous);
+      if (quantity === null) {
+        next.delete(sku);
+      } else {
+        next.set(sku, quantity);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const lines: PurchaseOrderLine[] = dueRows.map((row) => ({
+      supplier: row.params.supplier,
+      sku: row.item.sku,
+      offerId: row.item.offerId,
+      productName: row.item.productName,
+      quantity: row.quantity,
+      packSize: row.params.packSize,
+      orderDate: row.plan.orderDate || today,
+      arrivalDate: row.plan.arrivalDate || addDays(today, row.params.leadTimeDays),
+    }));
+
+    try {
+      await writeRows(PURCHASE_ORDER_HEADER, toPurchaseOrderRows(lines), 'csv', `purchase_order_${today}`);
+      toast.success(`Выгружено позиций: ${lines.length}`);
+    } catch (exportError) {
+      console.error('Purchase order export failed:', exportError);
+      toast.error('Не удалось выгрузить заказ');
+    }
+  };
+
+  const loadError = error || paramsError;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Закупки</h1>
+        <p className="text-gray-600 mt-1">
+          Когда и сколько заказывать: заказ нужен, когда остатка хватает только на срок поставки, и
+          покрывает целевой запас после прихода. Скорость продаж — как на странице{' '}
+          <Link to={`/inventory${location.search}`} className="text-ozon-600 hover:text-ozon-700">
+            Остатки
+          </Link>
+          , за выбранный период.
+        </p>
+      </div>
+
+      {/* Settings / Export */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-700">
+              Заказы на ближайшие, дней
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={settings.horizonDays}
+                onChange={(e) => {
+                  const value = e.target.valueAsNumber;
+                  if (Number.isInteger(value) && value >= 0) updateSettings({ horizonDays: value });
+                }}
+                className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ozon-500 focus:border-transparent w-28"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={onlyDue}
+                onChange={(e) => setOnlyDue(e.target.checked)}
+                className="rounded border-gray-300 text-ozon-600 focus:ring-ozon-500"
+              />
+              Только к заказу
+            </label>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={dueRows.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-ozon-600 text-white text-sm rounded-lg hover:bg-ozon-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="CSV с позициями к заказу, сгруппированными по поставщикам"
+          >
+            <Download className="w-4 h-4" />
+            Заказ поставщикам ({dueRows.length})
+          </button>
+        </div>
+      </div>
+
+      {/* Planner Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {loadError ? (
+          <ErrorMessage message="Не удалось загрузить данные для планирования" onRetry={() => refetch()} />
+        ) : isLoading || paramsLoading || !inventory ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !inventory.hasStocks ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Без остатков заказы не рассчитать. Загрузите их на странице{' '}
+            <Link to={`/inventory${location.search}`} className="text-ozon-600 hover:text-ozon-700">
+              Остатки
+            </Link>
+            .
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <datalist id="replenishment-suppliers">
+              {suppliers.map((supplier) => (
+                <option key={supplier} value={supplier} />
+              ))}
+            </datalist>
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Товар</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Поставщик</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" title="Срок поставки, дней">Срок, дн.</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" title="Минимальная партия">MOQ</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" title="Кратность упаковки">Кратн.</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" title="Целевой запас после поставки, дней">Запас, дн.</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Доступно</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">В день</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Заказать</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Поставка</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Кол-во</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={11} className="px-6 py-12 text-center text-gray-500">
+                      {onlyDue
+                        ? `В ближайшие ${settings.horizonDays} дн. заказывать нечего`
+                        : 'Нет товаров с продажами за выбранный период'}
+                    </td>
+                  </tr>
+                ) : (
+                  visibleRows.map((row) => {
+                    const { item, params, plan } = row;
+                    return (
+                      <tr key={item.sku} className="hover:bg-gray-50">
+                        <td className="px-4 py-2">
+                          <Link
+                            to={`/products/${item.sku}${location.search}`}
+                            className="text-sm font-medium text-gray-900 hover:text-ozon-600"
+                          >
+                            {item.productName || `Товар ${item.sku}`}
+                          </Link>
+                          <div className="text-xs text-gray-500 font-mono">
+                            {item.offerId ? `${item.offerId} · ` : ''}{item.sku}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2">
+                          <ParamInput
+                            type="text"
+                            value={params.supplier}
+                            list="replenishment-suppliers"
+                            placeholder="не указан"
+                            className="w-40"
+                            onCommit={(value) => {
+                              updateParams(item.sku, params, { supplier: value });
+                              return true;
+                            }}
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <ParamInput value={params.leadTimeDays} className="w-16 text-right" onCommit={commitNumber(row, 'leadTimeDays', 0)} />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <ParamInput value={params.moq} className="w-16 text-right" onCommit={commitNumber(row, 'moq', 0)} />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <ParamInput value={params.packSize} className="w-16 text-right" onCommit={commitNumber(row, 'packSize', 1)} />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <ParamInput value={params.targetCoverDays} className="w-16 text-right" onCommit={commitNumber(row, 'targetCoverDays', 1)} />
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                          {formatNumber(item.available)}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                          {formatNumber(item.velocity, { maximumFractionDigits: 1 })}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right">
+                          {plan.orderDate && (
+                            <span className={plan.orderDate <= today ? 'font-medium text-red-600' : 'text-gray-700'}>
+                              {plan.orderDate <= today ? 'сегодня' : formatDate(plan.orderDate)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+                          <div className="flex items-center justify-end gap-1">
+                            {plan.stockoutBeforeArrival && (
+                              <span title="Остаток закончится раньше, чем придёт поставка">
+                                <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                              </span>
+                            )}
+                            {plan.arrivalDate && formatDate(plan.arrivalDate)}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <div className="flex items-center justify-end gap-1">
+                            {row.overridden && (
+                              <button
+                                onClick={() => setOverride(item.sku, null)}
+                                className="p-1 text-gray-400 hover:text-gray-700"
+                                title={`Вернуть расчёт: ${formatNumber(plan.quantity)}`}
+                              >
+                                <RotateCcw className="w-3 h-3" />
+                              </button>
+                            )}
+                            <ParamInput
+                              value={row.quantity}
+                              className={`w-20 text-right ${row.overridden ? 'bg-yellow-50' : ''}`}
+                              onCommit={(value) => {
+                                const parsed = Number(value);
+                                if (value.trim() === '' || !Number.isInteger(parsed) || parsed < 0) return false;
+                                setOverride(item.sku, parsed === plan.quantity ? null : parsed);
+                                return true;
+                              }}
+                            />
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
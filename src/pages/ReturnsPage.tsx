@@ -0,0 +1,383 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Ban, ChevronDown, ChevronUp, Coins, RotateCcw, Undo2 } from 'lucide-react';
+import { StatCard } from '../components/ui/StatCard';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../components/ui/ErrorMessage';
+import { ReturnsTrendChart } from '../components/charts/ReturnsTrendChart';
+import { useReturnsData, useReturnsSettings } from '../hooks/useReturnsData';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  CANCELLATION_INITIATORS,
+  INITIATOR_LABELS,
+  RETURNS_DIMENSIONS,
+  RETURNS_DIMENSION_LABELS,
+  ReturnsGroup,
+  cancellationRate,
+  groupCancellationReasons,
+  groupReturns,
+  returnRate,
+  returnsTrend,
+  sumReturns,
+} from '../lib/returns';
+import { GRANULARITIES, GRANULARITY_LABELS } from '../lib/sales-series';
+import { formatCurrency, formatNumber, formatPercentage } from '../lib/format';
+
+type SortColumn = 'units' | 'cancelledUnits' | 'cancellationRate' | 'returnedUnits' | 'returnRate' | 'returnCost';
+
+const buttonClassName = (active: boolean) =>
+  `px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+    active ? 'bg-ozon-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+const initiatorColors = {
+  customer: 'bg-blue-500',
+  seller: 'bg-red-500',
+  ozon: 'bg-ozon-500',
+  unknown: 'bg-gray-400',
+};
+
+const sortValue = (group: ReturnsGroup, column: SortColumn) => {
+  switch (column) {
+    case 'cancellationRate':
+      return cancellationRate(group) ?? -1;
+    case 'returnRate':
+      return returnRate(group) ?? -1;
+    default:
+      return group[column];
+  }
+};
+
+export const ReturnsPage: React.FC = () => {
+  const { data, isLoading, error, refetch } = useReturnsData();
+  const [settings, updateSettings] = useReturnsSettings();
+  const { can } = useAuth();
+  const showCost = can('viewFinance');
+  const location = useLocation();
+
+  const [sortBy, setSortBy] = useState<SortColumn>('cancelledUnits');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+
+  const rows = useMemo(() => data?.rows ?? [], [data]);
+  const totals = useMemo(() => sumReturns(rows), [rows]);
+  const trend = useMemo(
+    () => returnsTrend(data?.days ?? [], settings.granularity),
+    [data, settings.granularity]
+  );
+  const reasons = useMemo(() => groupCancellationReasons(rows), [rows]);
+
+  const initiators = useMemo(
+    () =>
+      CANCELLATION_INITIATORS.map((initiator) => ({
+        initiator,
+        units: reasons
+          .filter((reason) => reason.initiator === initiator)
+          .reduce((sum, reason) => sum + reason.units, 0),
+      })).filter((entry) => entry.units > 0),
+    [reasons]
+  );
+
+  const groups = useMemo(
+    () =>
+      groupReturns(rows, settings.dimension)
+        .filter((group) => group.cancelledUnits > 0 || group.returnedUnits > 0 || group.returnCost > 0)
+        .sort((a, b) => {
+          const result = sortValue(a, sortBy) - sortValue(b, sortBy);
+          return (sortOrder === 'asc' ? result : -result) || b.units - a.units;
+        }),
+    [rows, settings.dimension, sortBy, sortOrder]
+  );
+
+  const handleSort = (column: SortColumn) => {
+    if (sortBy === column) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortOrder('desc');
+    }
+  };
+
+  const getSortIcon = (column: SortColumn) => {
+    if (sortBy !== column) return <ChevronUp className="w-4 h-4 text-gray-300" />;
+    return sortOrder === 'asc'
+      ? <ChevronUp className="w-4 h-4 text-gray-600" />
+      : <ChevronDown className="w-4 h-4 text-gray-600" />;
+  };
+
+  const renderGroupName = (group: ReturnsGroup) => {
+    if (settings.dimension !== 'sku') {
+      return <span className="text-sm font-medium text-gray-900">{group.key || 'Не указан'}</span>;
+    }
+    const product = data?.products.get(Number(group.key));
+    return (
+      <>
+        <Link
+          to={`/products/${group.key}${location.search}`}
+          className="text-sm font-medium text-gray-900 hover:text-ozon-600"
+        >
+          {product?.productName || `Товар ${group.key}`}
+        </Link>
+        <div className="text-xs text-gray-500 font-mono">
+          {product?.offerId ? `${product.offerId} · ` : ''}{group.key}
+        </div>
+      </>
+    );
+  };
+
+  const statsConfig = [
+    {
+      title: 'Доля отмен',
+      icon: <Ban className="w-5 h-5" />,
+      value: cancellationRate(totals),
+      format: 'percentage' as const,
+      hint: `${formatNumber(totals.cancelledUnits)} из ${formatNumber(totals.units)} ед.`,
+    },
+    {
+      title: 'Доля возвратов',
+      icon: <Undo2 className="w-5 h-5" />,
+      value: returnRate(totals),
+      format: 'percentage' as const,
+      hint: `${formatNumber(totals.returnedUnits)} из ${formatNumber(totals.units - totals.cancelledUnits)} ед.`,
+    },
+    {
+      title: 'Отменено на сумму',
+      icon: <RotateCcw className="w-5 h-5" />,
+      value: totals.cancelledGmv,
+      format: 'currency' as const,
+    },
+    ...(showCost
+      ? [
+          {
+            title: 'Логистика возвратов',
+            icon: <Coins className="w-5 h-5" />,
+            value: totals.returnCost,
+            format: 'currency' as const,
+          },
+        ]
+      : []),
+  ];
+
+  const headerClassName =
+    'px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100';
+
+  const sortableHeader = (column: SortColumn, label: string) => (
+    <th className={`${headerClassName} text-right`} onClick={() => handleSort(column)}>
+      <div className="flex items-center justify-end gap-1">
+        {label}
+        {getSortIcon(column)}
+      </div>
+    </th>
+  );
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <ErrorMessage message="Не удалось загрузить отмены и возвраты" onRetry={() => refetch()} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Отмены и возвраты</h1>
+        <p className="text-gray-600 mt-1">
+          Что стало с заказами выбранного периода (по дате заказа): доля отменённых единиц и доля
+          возвратов среди неотменённых. Свежие заказы ещё могут вернуть.
+        </p>
+      </div>
+
+      {/* Summary Metrics */}
+      <div className={`grid grid-cols-1 sm:grid-cols-2 ${showCost ? 'lg:grid-cols-4' : 'lg:grid-cols-3'} gap-4`}>
+        {statsConfig.map((stat) => (
+          <StatCard
+            key={stat.title}
+            title={stat.title}
+            value={data ? stat.value : null}
+            format={stat.format}
+            icon={stat.icon}
+            hint={data ? stat.hint : undefined}
+            loading={isLoading}
+          />
+        ))}
+      </div>
+
+      {/* Rate Trends */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Динамика отмен и возвратов</h2>
+          <div className="flex flex-wrap gap-2">
+            {GRANULARITIES.map((item) => (
+              <button
+                key={item}
+                onClick={() => updateSettings({ granularity: item })}
+                className={buttonClassName(settings.granularity === item)}
+              >
+                {GRANULARITY_LABELS[item]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center h-72">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <ReturnsTrendChart points={trend} granularity={settings.granularity} />
+        )}
+      </div>
+
+      {/* Cancellation Initiators and Reasons */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Кто отменил</h2>
+          {initiators.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">Отмен нет</div>
+          ) : (
+            <div className="space-y-4">
+              {initiators.map(({ initiator, units }) => {
+                const share = totals.cancelledUnits > 0 ? (units / totals.cancelledUnits) * 100 : 0;
+                return (
+                  <div key={initiator}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-700">{INITIATOR_LABELS[initiator]}</span>
+                      <span className="text-gray-900 font-medium">
+                        {formatPercentage(share)}
+                        <span className="text-gray-500 font-normal"> · {formatNumber(units)} ед.</span>
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className={`h-full ${initiatorColors[initiator]}`} style={{ width: `${share}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">Причины отмен</h2>
+          {reasons.length === 0 ? (
+            <div className="text-center text-gray-500 pb-8">Отмен нет</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Причина</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Инициатор</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Единиц</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Доля отмен</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Сумма</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {reasons.map((reason) => (
+                    <tr key={`${reason.initiator}|${reason.reason}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-3 text-sm text-gray-900">{reason.reason || 'Не указана'}</td>
+                      <td className="px-6 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {INITIATOR_LABELS[reason.initiator]}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatNumber(reason.units)}</td>
+                      <td className="px-6 py-3 text-sm text-gray-900 text-right">
+                        {formatPercentage(totals.cancelledUnits > 0 ? (reason.units / totals.cancelledUnits) * 100 : 0)}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900 text-right whitespace-nowrap">
+                        {formatCurrency(reason.gmv)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Breakdown Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-4 px-6 pt-6 pb-4">
+          <h2 className="text-lg font-semibold text-gray-900">
+            По {settings.dimension === 'sku' ? 'товарам' : settings.dimension === 'region' ? 'регионам' : 'складам'}
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {RETURNS_DIMENSIONS.map((dimension) => (
+              <button
+                key={dimension}
+                onClick={() => updateSettings({ dimension })}
+                className={buttonClassName(settings.dimension === dimension)}
+              >
+                {RETURNS_DIMENSION_LABELS[dimension]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {RETURNS_DIMENSION_LABELS[settings.dimension]}
+                  </th>
+                  {sortableHeader('units', 'Заказано')}
+                  {sortableHeader('cancelledUnits', 'Отменено')}
+                  {sortableHeader('cancellationRate', '% отмен')}
+                  {sortableHeader('returnedUnits', 'Возвращено')}
+                  {sortableHeader('returnRate', '% возвратов')}
+                  {showCost && sortableHeader('returnCost', 'Логистика возвратов')}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {groups.length === 0 ? (
+                  <tr>
+                    <td colSpan={showCost ? 7 : 6} className="px-6 py-12 text-center text-gray-500">
+                      Отмен и возвратов за период нет
+                    </td>
+                  </tr>
+                ) : (
+                  groups.map((group) => {
+                    const cancelled = cancellationRate(group);
+                    const returned = returnRate(group);
+                    return (
+                      <tr key={group.key} className="hover:bg-gray-50">
+                        <td className="px-6 py-4">{renderGroupName(group)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                          {formatNumber(group.units)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                          {formatNumber(group.cancelledUnits)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-medium">
+                          {cancelled === null ? '—' : formatPercentage(cancelled)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                          {formatNumber(group.returnedUnits)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-medium">
+                          {returned === null ? '—' : formatPercentage(returned)}
+                        </td>
+                        {showCost && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                            {formatCurrency(group.returnCost)}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
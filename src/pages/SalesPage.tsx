@@ -6,17 +6,22 @@ import {
   DollarSign,
   Target,
   XCircle,
-  Truck
+  Truck,
+  CalendarClock
 } from 'lucide-react';
 import { StatCard } from '../components/ui/StatCard';
 import { DailySalesChart } from '../components/charts/DailySalesChart';
-import { useSalesMetrics, usePreviousSalesMetrics } from '../hooks/useSalesData';
+import { useSalesMetrics, useComparisonSalesMetrics, useMonthEndForecast } from '../hooks/useSalesData';
 import { useFilters } from '../hooks/useFilters';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../lib/format';
 
 export const SalesPage: React.FC = () => {
   const { data: currentMetrics, isLoading } = useSalesMetrics();
-  const { data: previousMetrics } = usePreviousSalesMetrics();
+  const { data: previousMetrics } = useComparisonSalesMetrics();
+  const { data: monthEnd, isLoading: monthEndLoading } = useMonthEndForecast();
   const { filters, updateFilters } = useFilters();
+  const { can } = useAuth();
 
   const statsConfig = [
     {
@@ -39,6 +44,7 @@ export const SalesPage: React.FC = () => {
       value: currentMetrics?.netProfit,
       previousValue: previousMetrics?.netProfit,
       format: 'currency' as const,
+      permission: 'viewProfit' as const,
     },
     {
       title: 'Заказы',
@@ -129,7 +135,7 @@ export const SalesPage: React.FC = () => {
 
       {/* Metrics Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-        {statsConfig.map((stat) => (
+        {statsConfig.filter((stat) => !stat.permission || can(stat.permission)).map((stat) => (
           <StatCard
             key={stat.title}
             title={stat.title}
@@ -140,6 +146,20 @@ export const SalesPage: React.FC = () => {
             loading={isLoading}
           />
         ))}
+        {/* Always the current calendar month, compared with the whole previous one */}
+        <StatCard
+          title="Прогноз GMV на конец месяца"
+          value={monthEnd?.projected ?? null}
+          previousValue={monthEnd?.previousMonth ?? null}
+          format="currency"
+          icon={<CalendarClock className="w-5 h-5" />}
+          loading={monthEndLoading}
+          hint={
+            monthEnd
+              ? `80%: ${formatCurrency(monthEnd.lower80)} – ${formatCurrency(monthEnd.upper80)}, уже ${formatCurrency(monthEnd.actual)}`
+              : 'Мало данных для прогноза'
+          }
+        />
       </div>
     </div>
   );
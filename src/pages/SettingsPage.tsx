@@ -0,0 +1,18 @@
+import React from 'react';
+import { FinanceRulesEditor } from '../components/settings/FinanceRulesEditor';
+
+export const SettingsPage: React.FC = () => {
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Настройки</h1>
+        <p className="text-gray-600 mt-1">
+          Правила распределения финансовых операций по категориям
+        </p>
+      </div>
+
+      <FinanceRulesEditor />
+    </div>
+  );
+};
@@ -1,13 +1,17 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { FileText, Hash, Calendar, DollarSign } from 'lucide-react';
 import { DataTable, Column } from '../components/ui/DataTable';
+import { QueryInput } from '../components/ui/QueryInput';
 import { 
   useTransactionsTable, 
   useTransactionsData, 
-  useTransactionCategories,
+  useTransactionsExport,
   TransactionDetail,
   CATEGORY_LABELS 
 } from '../hooks/useTransactionsData';
+import { FINANCE_CATEGORIES } from '../lib/finance-rules';
+import { SEARCH_FIELDS, parseTransactionSearch } from '../lib/transaction-search';
 import { formatCurrency, formatNumber } from '../lib/format';
 
 const getCategoryColor = (category: string): string => {
@@ -26,7 +30,13 @@ const getCategoryColor = (category: string): string => {
 export const TransactionsPage: React.FC = () => {
   const { tableState, updateTableState } = useTransactionsTable();
   const { data: tableData, isLoading, error, refetch } = useTransactionsData(tableState);
-  const { data: categories } = useTransactionCategories();
+  const categories = FINANCE_CATEGORIES;
+  const exportSource = useTransactionsExport(tableState);
+  const location = useLocation();
+  const searchErrors = useMemo(
+    () => parseTransactionSearch(tableState.search).errors,
+    [tableState.search]
+  );
 
   const columns: Column<TransactionDetail>[] = [
     {
@@ -51,11 +61,17 @@ export const TransactionsPage: React.FC = () => {
     {
       key: 'posting_number',
       label: 'Номер отправления',
-      render: (value) => (
-        <span className="font-mono text-sm text-blue-600">
-          {value || '—'}
-        </span>
-      ),
+      render: (value) =>
+        value ? (
+          <Link
+            to={`/postings/${encodeURIComponent(value)}${location.search}`}
+            className="font-mono text-sm text-blue-600 hover:text-blue-800 hover:underline"
+          >
+            {value}
+          </Link>
+        ) : (
+          <span className="font-mono text-sm text-blue-600">—</span>
+        ),
     },
     {
       key: 'operation_type_name',
@@ -74,6 +90,7 @@ export const TransactionsPage: React.FC = () => {
           {CATEGORY_LABELS[value] || value}
         </span>
       ),
+      exportValue: (row) => CATEGORY_LABELS[row.category] || row.category,
     },
     {
       key: 'amount',
@@ -117,9 +134,12 @@ export const TransactionsPage: React.FC = () => {
           return (
             <div className="text-sm">
               {row.item_sku > 0 && (
-                <div className="font-mono text-xs text-gray-500">
+                <Link
+                  to={`/products/${row.item_sku}${location.search}`}
+                  className="block font-mono text-xs text-ozon-600 hover:text-ozon-800 hover:underline"
+                >
                   SKU: {formatNumber(row.item_sku)}
-                </div>
+                </Link>
               )}
               {value && (
                 <div className="text-gray-900 max-w-[150px] truncate" title={value}>
@@ -156,8 +176,9 @@ export const TransactionsPage: React.FC = () => {
     updateTableState({ sortBy, sortOrder });
   };
 
+  // One history entry per search, not per keystroke
   const handleSearchChange = (search: string) => {
-    updateTableState({ search, page: 0 });
+    updateTableState({ search, page: 0 }, { replace: true });
   };
 
   const handleCategoryFilterChange = (category: string) => {
@@ -193,7 +214,7 @@ export const TransactionsPage: React.FC = () => {
             <Hash className="w-8 h-8 text-green-600" />
             <div>
               <div className="text-2xl font-bold text-gray-900">
-                {formatNumber(categories?.length || 0)}
+                {formatNumber(categories.length)}
               </div>
               <div className="text-sm text-gray-600">Категорий</div>
             </div>
@@ -226,7 +247,7 @@ export const TransactionsPage: React.FC = () => {
       </div>
 
       {/* Category Filter */}
-      {categories && categories.length > 0 && (
+      {categories.length > 0 && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
           <div className="flex items-center gap-4">
             <span className="text-sm font-medium text-gray-700">Фильтр по категории:</span>
@@ -276,8 +297,17 @@ export const TransactionsPage: React.FC = () => {
         onSortChange={handleSortChange}
         onSearchChange={handleSearchChange}
         onRetry={() => refetch()}
-        searchPlaceholder="Поиск по номеру отправления, типу операции, услуге или товару..."
+        searchInput={
+          <QueryInput
+            value={tableState.search}
+            onChange={handleSearchChange}
+            fields={SEARCH_FIELDS}
+            errors={searchErrors}
+            placeholder='Текст или sku:123 type:"доставка" amount<-500'
+          />
+        }
         emptyMessage="Транзакции не найдены. Попробуйте изменить фильтры или период."
+        exportSource={exportSource}
       />
     </div>
   );
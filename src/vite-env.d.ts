@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_DATA_SOURCE?: 'supabase' | 'fixtures';
+  readonly VITE_AUTH?: 'supabase' | 'local';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
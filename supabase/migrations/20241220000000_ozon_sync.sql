@@ -0,0 +1,85 @@
+-- Tables filled by the Ozon Seller API sync worker (npm run sync:ozon).
+-- "if not exists" keeps the migration safe on projects where the tables were
+-- created by hand before the worker existed.
+
+create table if not exists postings_fbs (
+  posting_number text primary key,
+  order_id bigint,
+  order_number text,
+  status text,
+  substatus text,
+  in_process_at timestamptz,
+  shipment_date timestamptz,
+  delivering_date timestamptz,
+  warehouse_id bigint,
+  warehouse_name text,
+  region text,
+  city text,
+  cluster_from text,
+  cluster_to text,
+  cancel_reason_id bigint,
+  cancel_reason text,
+  cancellation_type text,
+  cancellation_initiator text,
+  products jsonb not null default '[]',
+  financial_products jsonb not null default '[]',
+  synced_at timestamptz not null default now()
+);
+
+create table if not exists finance_transactions (
+  operation_id bigint primary key,
+  operation_type text,
+  operation_type_name text,
+  operation_date timestamptz,
+  type text,
+  amount numeric,
+  accruals_for_sale numeric,
+  sale_commission numeric,
+  delivery_charge numeric,
+  return_delivery_charge numeric,
+  posting_number text,
+  delivery_schema text,
+  order_date timestamptz,
+  warehouse_id bigint,
+  synced_at timestamptz not null default now()
+);
+
+create table if not exists finance_transaction_services (
+  id bigserial primary key,
+  operation_id bigint not null references finance_transactions (operation_id) on delete cascade,
+  name text,
+  price numeric
+);
+
+create table if not exists finance_transaction_items (
+  id bigserial primary key,
+  operation_id bigint not null references finance_transactions (operation_id) on delete cascade,
+  sku bigint,
+  name text
+);
+
+create index if not exists finance_transactions_operation_date_idx
+  on finance_transactions (operation_date);
+create index if not exists finance_transactions_posting_number_idx
+  on finance_transactions (posting_number);
+create index if not exists finance_transaction_services_operation_id_idx
+  on finance_transaction_services (operation_id);
+create index if not exists finance_transaction_items_operation_id_idx
+  on finance_transaction_items (operation_id);
+
+-- One row per sync run; cursor_to of the last successful run is where the
+-- next run continues.
+create table if not exists sync_runs (
+  id bigserial primary key,
+  stream text not null,
+  status text not null check (status in ('running', 'success', 'failed')),
+  cursor_from timestamptz not null,
+  cursor_to timestamptz not null,
+  rows_synced integer,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists sync_runs_stream_status_idx
+  on sync_runs (stream, status, cursor_to desc);
@@ -0,0 +1,65 @@
+-- Cost of goods registry: purchase cost per SKU, valid from effective_from
+-- until the next entry of the same SKU.
+create table if not exists product_costs (
+  id bigserial primary key,
+  sku bigint not null,
+  cost numeric not null check (cost >= 0),
+  effective_from date not null,
+  created_at timestamptz not null default now(),
+  unique (sku, effective_from)
+);
+
+-- Delivered units and cost of goods per SKU and region for a period. Each
+-- unit is priced with the cost that was valid on its sale date, so editing
+-- today's cost does not rewrite historical profit.
+create or replace function get_cogs_breakdown(
+  start_date date,
+  end_date date,
+  date_type text default 'shipment_date',
+  sku_filter bigint default null,
+  region_filter text default null
+)
+returns table (
+  sku bigint,
+  region text,
+  units bigint,
+  cogs numeric,
+  units_without_cost bigint
+)
+language sql
+stable
+as $$
+  with lines as (
+    select
+      (item ->> 'sku')::bigint as sku,
+      p.cluster_to as region,
+      (item ->> 'quantity')::int as quantity,
+      ((case date_type
+          when 'delivering_date' then p.delivering_date
+          when 'in_process_at' then p.in_process_at
+          else p.shipment_date
+        end) at time zone 'Europe/Moscow')::date as sale_date
+    from postings_fbs p
+    cross join lateral jsonb_array_elements(p.products) as item
+    where p.status = 'delivered'
+  )
+  select
+    l.sku,
+    l.region,
+    sum(l.quantity)::bigint as units,
+    sum(l.quantity * coalesce(c.cost, 0)) as cogs,
+    sum(case when c.cost is null then l.quantity else 0 end)::bigint as units_without_cost
+  from lines l
+  left join lateral (
+    select pc.cost
+    from product_costs pc
+    where pc.sku = l.sku
+      and pc.effective_from <= l.sale_date
+    order by pc.effective_from desc
+    limit 1
+  ) c on true
+  where l.sale_date between start_date and end_date
+    and (sku_filter is null or l.sku = sku_filter)
+    and (region_filter is null or l.region ilike '%' || region_filter || '%')
+  group by l.sku, l.region;
+$$;
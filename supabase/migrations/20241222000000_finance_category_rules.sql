@@ -0,0 +1,26 @@
+-- Finance categorization rules, evaluated client-side in ascending priority.
+-- Empty patterns and a null field match anything. An empty table means the
+-- built-in default rules of the dashboard apply.
+create table if not exists finance_category_rules (
+  id text primary key,
+  priority integer not null,
+  operation_type text,
+  service_name text,
+  field text check (
+    field in (
+      'accruals_for_sale',
+      'sale_commission',
+      'delivery_charge',
+      'return_delivery_charge',
+      'service_price',
+      'amount'
+    )
+  ),
+  category text not null check (
+    category in ('sales', 'commissions', 'delivery', 'returns', 'ads', 'services', 'other')
+  ),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists finance_category_rules_priority_idx
+  on finance_category_rules (priority);
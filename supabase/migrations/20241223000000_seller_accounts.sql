@@ -0,0 +1,87 @@
+-- Ozon seller cabinets. Every synced row carries the account it came from;
+-- rows synced before multi-account support belong to 'default'.
+create table if not exists seller_accounts (
+  id text primary key,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+insert into seller_accounts (id, name)
+values ('default', 'Основной кабинет')
+on conflict (id) do nothing;
+
+alter table postings_fbs
+  add column if not exists account_id text not null default 'default'
+  references seller_accounts (id);
+alter table finance_transactions
+  add column if not exists account_id text not null default 'default'
+  references seller_accounts (id);
+alter table sync_runs
+  add column if not exists account_id text not null default 'default'
+  references seller_accounts (id);
+
+create index if not exists postings_fbs_account_id_idx
+  on postings_fbs (account_id);
+create index if not exists finance_transactions_account_id_idx
+  on finance_transactions (account_id);
+
+drop index if exists sync_runs_stream_status_idx;
+create index if not exists sync_runs_account_stream_status_idx
+  on sync_runs (account_id, stream, status, cursor_to desc);
+
+-- Same as before plus account_filter; null sums all accounts
+drop function if exists get_cogs_breakdown(date, date, text, bigint, text);
+
+create or replace function get_cogs_breakdown(
+  start_date date,
+  end_date date,
+  date_type text default 'shipment_date',
+  sku_filter bigint default null,
+  region_filter text default null,
+  account_filter text default null
+)
+returns table (
+  sku bigint,
+  region text,
+  units bigint,
+  cogs numeric,
+  units_without_cost bigint
+)
+language sql
+stable
+as $$
+  with lines as (
+    select
+      (item ->> 'sku')::bigint as sku,
+      p.cluster_to as region,
+      (item ->> 'quantity')::int as quantity,
+      ((case date_type
+          when 'delivering_date' then p.delivering_date
+          when 'in_process_at' then p.in_process_at
+          else p.shipment_date
+        end) at time zone 'Europe/Moscow')::date as sale_date
+    from postings_fbs p
+    cross join lateral jsonb_array_elements(p.products) as item
+    where p.status = 'delivered'
+      and (account_filter is null or p.account_id = account_filter)
+  )
+  select
+    l.sku,
+    l.region,
+    sum(l.quantity)::bigint as units,
+    sum(l.quantity * coalesce(c.cost, 0)) as cogs,
+    sum(case when c.cost is null then l.quantity else 0 end)::bigint as units_without_cost
+  from lines l
+  left join lateral (
+    select pc.cost
+    from product_costs pc
+    where pc.sku = l.sku
+      and pc.effective_from <= l.sale_date
+    order by pc.effective_from desc
+    limit 1
+  ) c on true
+  where l.sale_date between start_date and end_date
+    and (sku_filter is null or l.sku = sku_filter)
+    and (region_filter is null or l.region ilike '%' || region_filter || '%')
+  group by l.sku, l.region;
+$$;
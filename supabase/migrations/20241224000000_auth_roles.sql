@@ -0,0 +1,85 @@
+-- Dashboard roles. Users sign in through Supabase Auth; a user without a
+-- row here is treated as 'manager', the most restricted role.
+create table if not exists user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'analyst', 'manager')),
+  created_at timestamptz not null default now()
+);
+
+-- security definer so policies can read user_roles without recursing into
+-- its own policies
+create or replace function current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select role from user_roles where user_id = auth.uid()),
+    'manager'
+  );
+$$;
+
+alter table user_roles enable row level security;
+alter table seller_accounts enable row level security;
+alter table postings_fbs enable row level security;
+alter table finance_transactions enable row level security;
+alter table finance_transaction_services enable row level security;
+alter table finance_transaction_items enable row level security;
+alter table product_costs enable row level security;
+alter table finance_category_rules enable row level security;
+-- Only the sync worker (service role, bypasses RLS) touches sync_runs
+alter table sync_runs enable row level security;
+
+create policy "own role is readable" on user_roles
+  for select to authenticated
+  using (user_id = auth.uid() or current_user_role() = 'owner');
+create policy "owners manage roles" on user_roles
+  for all to authenticated
+  using (current_user_role() = 'owner')
+  with check (current_user_role() = 'owner');
+
+create policy "signed-in users read accounts" on seller_accounts
+  for select to authenticated using (true);
+
+create policy "signed-in users read postings" on postings_fbs
+  for select to authenticated using (true);
+
+-- Finance operations, cost of goods and categorization rules are hidden
+-- from managers
+create policy "finance roles read transactions" on finance_transactions
+  for select to authenticated
+  using (current_user_role() in ('owner', 'analyst'));
+create policy "finance roles read transaction services" on finance_transaction_services
+  for select to authenticated
+  using (current_user_role() in ('owner', 'analyst'));
+create policy "finance roles read transaction items" on finance_transaction_items
+  for select to authenticated
+  using (current_user_role() in ('owner', 'analyst'));
+
+create policy "finance roles read costs" on product_costs
+  for select to authenticated
+  using (current_user_role() in ('owner', 'analyst'));
+create policy "finance roles edit costs" on product_costs
+  for all to authenticated
+  using (current_user_role() in ('owner', 'analyst'))
+  with check (current_user_role() in ('owner', 'analyst'));
+
+create policy "finance roles read category rules" on finance_category_rules
+  for select to authenticated
+  using (current_user_role() in ('owner', 'analyst'));
+create policy "owners edit category rules" on finance_category_rules
+  for all to authenticated
+  using (current_user_role() = 'owner')
+  with check (current_user_role() = 'owner');
+
+-- Views run with their owner's rights by default, which would bypass the
+-- policies above
+alter view if exists vw_daily_sales_by_date_type set (security_invoker = true);
+alter view if exists dashboard_summary set (security_invoker = true);
+alter view if exists vw_transaction_details set (security_invoker = true);
+alter view if exists vw_finance_breakdown set (security_invoker = true);
+alter view if exists vw_products_performance set (security_invoker = true);
+alter view if exists vw_regions_performance set (security_invoker = true);
+alter view if exists vw_daily_sales set (security_invoker = true);
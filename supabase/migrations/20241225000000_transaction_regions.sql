@@ -0,0 +1,12 @@
+-- vw_transaction_details plus the delivery cluster of the transaction's
+-- posting, the same region the get_* functions filter on. Operations without
+-- a posting (ads, subscriptions) have no region and drop out of a region
+-- filter.
+create or replace view vw_transaction_details_regions
+with (security_invoker = true)
+as
+select
+  t.*,
+  p.cluster_to as region
+from vw_transaction_details t
+left join postings_fbs p on p.posting_number = t.posting_number;
@@ -0,0 +1,110 @@
+-- SKU and region filters are lists with an exclude flag. An empty or null
+-- list means no filter; with the exclude flag the listed values are skipped.
+drop function if exists get_cogs_breakdown(date, date, text, bigint, text, text);
+
+create or replace function get_cogs_breakdown(
+  start_date date,
+  end_date date,
+  date_type text default 'shipment_date',
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  sku bigint,
+  region text,
+  units bigint,
+  cogs numeric,
+  units_without_cost bigint
+)
+language sql
+stable
+as $$
+  with lines as (
+    select
+      (item ->> 'sku')::bigint as sku,
+      p.cluster_to as region,
+      (item ->> 'quantity')::int as quantity,
+      ((case date_type
+          when 'delivering_date' then p.delivering_date
+          when 'in_process_at' then p.in_process_at
+          else p.shipment_date
+        end) at time zone 'Europe/Moscow')::date as sale_date
+    from postings_fbs p
+    cross join lateral jsonb_array_elements(p.products) as item
+    where p.status = 'delivered'
+      and (account_filter is null or p.account_id = account_filter)
+  )
+  select
+    l.sku,
+    l.region,
+    sum(l.quantity)::bigint as units,
+    sum(l.quantity * coalesce(c.cost, 0)) as cogs,
+    sum(case when c.cost is null then l.quantity else 0 end)::bigint as units_without_cost
+  from lines l
+  left join lateral (
+    select pc.cost
+    from product_costs pc
+    where pc.sku = l.sku
+      and pc.effective_from <= l.sale_date
+    order by pc.effective_from desc
+    limit 1
+  ) c on true
+  where l.sale_date between start_date and end_date
+    and (coalesce(cardinality(sku_filter), 0) = 0
+      or (l.sku = any(sku_filter)) <> sku_exclude)
+    and (coalesce(cardinality(region_filter), 0) = 0
+      or coalesce(l.region = any(region_filter), false) <> region_exclude)
+  group by l.sku, l.region;
+$$;
+
+-- Catalog typeahead for the SKU filter: the latest name and offer id of
+-- every product seen in postings
+create or replace function search_products(
+  search_term text default null,
+  sku_list bigint[] default null,
+  result_limit int default 20
+)
+returns table (
+  sku bigint,
+  offer_id text,
+  product_name text
+)
+language sql
+stable
+as $$
+  with products as (
+    select distinct on ((item ->> 'sku')::bigint)
+      (item ->> 'sku')::bigint as sku,
+      item ->> 'offer_id' as offer_id,
+      item ->> 'name' as product_name
+    from postings_fbs p
+    cross join lateral jsonb_array_elements(p.products) as item
+    order by (item ->> 'sku')::bigint, p.in_process_at desc
+  )
+  select pr.sku, pr.offer_id, pr.product_name
+  from products pr
+  where case
+      when sku_list is not null then pr.sku = any(sku_list)
+      when coalesce(search_term, '') = '' then true
+      else pr.sku::text ilike '%' || search_term || '%'
+        or pr.offer_id ilike '%' || search_term || '%'
+        or pr.product_name ilike '%' || search_term || '%'
+    end
+  order by pr.product_name
+  limit result_limit;
+$$;
+
+-- Delivery clusters for the region filter
+create or replace function list_regions()
+returns table (region text)
+language sql
+stable
+as $$
+  select distinct p.cluster_to as region
+  from postings_fbs p
+  where p.cluster_to is not null
+  order by 1;
+$$;
@@ -0,0 +1,26 @@
+-- Named filter and table-state snapshots, private to the user who saved them
+create table if not exists saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  path text not null,
+  -- Filter query string as written to the URL, without '?'
+  search text not null default '',
+  -- Table sort, paging and chart controls, see PageState in src/lib/saved-views
+  page_state jsonb not null default '{}',
+  is_default boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_views_user_id_idx on saved_views (user_id);
+
+-- At most one view per user opens on load
+create unique index if not exists saved_views_one_default_idx
+  on saved_views (user_id) where is_default;
+
+alter table saved_views enable row level security;
+
+create policy "users manage own views" on saved_views
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
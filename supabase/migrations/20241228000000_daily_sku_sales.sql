@@ -0,0 +1,42 @@
+-- Daily delivered sales per SKU for the product page, in the shape of
+-- vw_daily_sales_by_date_type plus a sku column. Revenue is the payout of
+-- the matching financial_products entry, which Ozon lists in the same order
+-- as products.
+create or replace view vw_daily_sku_sales_by_date_type
+with (security_invoker = true)
+as
+with lines as (
+  select
+    p.account_id,
+    p.posting_number,
+    p.in_process_at,
+    p.shipment_date,
+    p.delivering_date,
+    (item.value ->> 'sku')::bigint as sku,
+    (item.value ->> 'quantity')::int as quantity,
+    (item.value ->> 'price')::numeric as price,
+    (fin.value ->> 'payout')::numeric as payout
+  from postings_fbs p
+  cross join lateral jsonb_array_elements(p.products) with ordinality as item (value, position)
+  left join lateral jsonb_array_elements(p.financial_products) with ordinality as fin (value, position)
+    on fin.position = item.position
+  where p.status = 'delivered'
+)
+select
+  d.date_type,
+  (d.happened_at at time zone 'Europe/Moscow')::date as date_msk,
+  l.account_id,
+  l.sku,
+  count(distinct l.posting_number) as delivered_orders,
+  sum(l.quantity)::bigint as delivered_units,
+  sum(l.quantity * coalesce(l.price, 0)) as delivered_gmv,
+  sum(coalesce(l.payout, 0)) as delivered_revenue
+from lines l
+cross join lateral (
+  values
+    ('delivering_date', l.delivering_date),
+    ('shipment_date', l.shipment_date),
+    ('in_process_at', l.in_process_at)
+) as d (date_type, happened_at)
+where d.happened_at is not null
+group by 1, 2, 3, 4;
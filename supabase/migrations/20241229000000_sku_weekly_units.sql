@@ -0,0 +1,45 @@
+-- Delivered units per SKU in consecutive 7-day buckets of the period, for the
+-- XYZ classification on the products page. Like get_products_performance it
+-- counts delivered postings by delivery date. Bucket 0 starts on start_date;
+-- weeks without sales are simply missing.
+create or replace function get_sku_weekly_units(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  sku bigint,
+  week_index int,
+  units bigint
+)
+language sql
+stable
+as $$
+  with lines as (
+    select
+      (item ->> 'sku')::bigint as sku,
+      p.cluster_to as region,
+      (item ->> 'quantity')::int as quantity,
+      (p.delivering_date at time zone 'Europe/Moscow')::date as sale_date
+    from postings_fbs p
+    cross join lateral jsonb_array_elements(p.products) as item
+    where p.status = 'delivered'
+      and p.delivering_date is not null
+      and (account_filter is null or p.account_id = account_filter)
+  )
+  select
+    l.sku,
+    ((l.sale_date - start_date) / 7)::int as week_index,
+    sum(l.quantity)::bigint as units
+  from lines l
+  where l.sale_date between start_date and end_date
+    and (coalesce(cardinality(sku_filter), 0) = 0
+      or (l.sku = any(sku_filter)) <> sku_exclude)
+    and (coalesce(cardinality(region_filter), 0) = 0
+      or coalesce(l.region = any(region_filter), false) <> region_exclude)
+  group by 1, 2;
+$$;
@@ -0,0 +1,88 @@
+-- Per-day totals for anomaly detection. Orders, units, GMV and commissions
+-- count postings that were not cancelled, like the total_* columns of
+-- get_sales_metrics_by_date_type; cancelled GMV is reported apart.
+-- Commissions come from financial_products, so they are known long before
+-- delivery.
+create or replace function get_daily_metrics(
+  start_date date,
+  end_date date,
+  date_type text default 'shipment_date',
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  date_msk date,
+  total_orders bigint,
+  total_units bigint,
+  total_gmv numeric,
+  total_commissions numeric,
+  cancelled_gmv numeric
+)
+language sql
+stable
+as $$
+  with lines as (
+    select
+      p.posting_number,
+      p.status,
+      p.cluster_to as region,
+      (item.value ->> 'sku')::bigint as sku,
+      (item.value ->> 'quantity')::int as quantity,
+      (item.value ->> 'price')::numeric as price,
+      (fin.value ->> 'commission_amount')::numeric as commission,
+      ((case date_type
+          when 'delivering_date' then p.delivering_date
+          when 'in_process_at' then p.in_process_at
+          else p.shipment_date
+        end) at time zone 'Europe/Moscow')::date as sale_date
+    from postings_fbs p
+    cross join lateral jsonb_array_elements(p.products) with ordinality as item (value, position)
+    left join lateral jsonb_array_elements(p.financial_products) with ordinality as fin (value, position)
+      on fin.position = item.position
+    where account_filter is null or p.account_id = account_filter
+  )
+  select
+    l.sale_date as date_msk,
+    count(distinct l.posting_number) filter (where l.status <> 'cancelled') as total_orders,
+    coalesce(sum(l.quantity) filter (where l.status <> 'cancelled'), 0)::bigint as total_units,
+    coalesce(sum(l.quantity * coalesce(l.price, 0)) filter (where l.status <> 'cancelled'), 0) as total_gmv,
+    -coalesce(sum(abs(coalesce(l.commission, 0))) filter (where l.status <> 'cancelled'), 0) as total_commissions,
+    coalesce(sum(l.quantity * coalesce(l.price, 0)) filter (where l.status = 'cancelled'), 0) as cancelled_gmv
+  from lines l
+  where l.sale_date between start_date and end_date
+    and (coalesce(cardinality(sku_filter), 0) = 0
+      or (l.sku = any(sku_filter)) <> sku_exclude)
+    and (coalesce(cardinality(region_filter), 0) = 0
+      or coalesce(l.region = any(region_filter), false) <> region_exclude)
+  group by l.sale_date
+  order by l.sale_date;
+$$;
+
+-- Alert rules, private to the user who set them up
+create table if not exists alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  -- See AlertMetric in src/lib/alert-rules
+  metric text not null check (metric in ('gmv', 'orders', 'cancelledGmv', 'commissionPerUnit')),
+  direction text not null default 'both' check (direction in ('drop', 'spike', 'both')),
+  -- Robust z-score the day has to reach
+  threshold numeric not null default 3.5 check (threshold > 0),
+  -- Optional scope; null watches the whole account
+  sku bigint,
+  region text,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists alert_rules_user_id_idx on alert_rules (user_id);
+
+alter table alert_rules enable row level security;
+
+create policy "users manage own alert rules" on alert_rules
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,29 @@
+-- FBS stock per SKU and seller warehouse. The sync worker replaces an
+-- account's rows with every run; a CSV upload on the Остатки page replaces
+-- the warehouses listed in the file. updated_at is when the row was read.
+create table if not exists fbs_stocks (
+  account_id text not null default 'default' references seller_accounts (id),
+  sku bigint not null,
+  offer_id text,
+  -- Ozon warehouse id; empty for warehouses known only by name from a CSV
+  warehouse_id bigint,
+  warehouse_name text not null,
+  -- Units on the shelf, including the reserved ones
+  present integer not null default 0 check (present >= 0),
+  -- Units held for postings that have not shipped yet
+  reserved integer not null default 0 check (reserved >= 0),
+  updated_at timestamptz not null default now(),
+  primary key (account_id, warehouse_name, sku)
+);
+
+create index if not exists fbs_stocks_sku_idx on fbs_stocks (sku);
+
+alter table fbs_stocks enable row level security;
+
+-- Stock carries no money figures: every role reads it and can upload a file
+create policy "signed-in users read stocks" on fbs_stocks
+  for select to authenticated using (true);
+create policy "signed-in users upload stocks" on fbs_stocks
+  for all to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,23 @@
+-- Purchasing parameters per SKU for the replenishment planner. A SKU
+-- without a row is planned with the defaults of src/lib/replenishment.
+create table if not exists replenishment_settings (
+  sku bigint primary key,
+  supplier text,
+  -- Days from placing an order to the goods being on the FBS warehouse
+  lead_time_days integer not null default 14 check (lead_time_days >= 0),
+  -- Minimum order quantity and the multiple the supplier ships in
+  moq integer not null default 0 check (moq >= 0),
+  pack_size integer not null default 1 check (pack_size >= 1),
+  -- Days of sales an order should cover once it arrives
+  target_cover_days integer not null default 30 check (target_cover_days >= 1),
+  updated_at timestamptz not null default now()
+);
+
+alter table replenishment_settings enable row level security;
+
+create policy "signed-in users read replenishment settings" on replenishment_settings
+  for select to authenticated using (true);
+create policy "signed-in users edit replenishment settings" on replenishment_settings
+  for all to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,184 @@
+-- Cancellations and returns of postings_fbs. Postings are counted by order
+-- date (in_process_at), so cancellations that never shipped are included.
+-- A posting is returned when it was not cancelled and has a return operation
+-- in finance_transactions. Its return logistics (the "Return" services, or
+-- return_delivery_charge when no services are listed) is spread over the
+-- posting's lines by their share of its GMV; cancelled postings carry the
+-- cost of bringing them back too.
+create or replace function posting_return_lines(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  posting_number text,
+  order_date date,
+  sku bigint,
+  region text,
+  warehouse_name text,
+  outcome text,
+  cancel_reason text,
+  cancellation_initiator text,
+  units int,
+  gmv numeric,
+  return_cost numeric
+)
+language sql
+stable
+as $$
+  with postings as (
+    select p.*
+    from postings_fbs p
+    where (p.in_process_at at time zone 'Europe/Moscow')::date between start_date and end_date
+      and (account_filter is null or p.account_id = account_filter)
+  ),
+  return_operations as (
+    select
+      t.posting_number,
+      coalesce(
+        (select sum(s.price) from finance_transaction_services s
+          where s.operation_id = t.operation_id and s.name ilike '%return%'),
+        case
+          when not exists (select 1 from finance_transaction_services s where s.operation_id = t.operation_id)
+            then t.return_delivery_charge
+        end,
+        0
+      ) as cost
+    from finance_transactions t
+    where t.posting_number in (select posting_number from postings)
+      and (t.operation_type ilike '%return%' or coalesce(t.return_delivery_charge, 0) <> 0)
+  ),
+  posting_returns as (
+    select r.posting_number, -sum(r.cost) as cost
+    from return_operations r
+    group by r.posting_number
+  ),
+  lines as (
+    select
+      p.posting_number,
+      (p.in_process_at at time zone 'Europe/Moscow')::date as order_date,
+      (item ->> 'sku')::bigint as sku,
+      p.cluster_to as region,
+      coalesce(p.warehouse_name, p.warehouse_id::text) as warehouse_name,
+      case
+        when p.status = 'cancelled' then 'cancelled'
+        when r.posting_number is not null then 'returned'
+        else 'ordered'
+      end as outcome,
+      case when p.status = 'cancelled' then p.cancel_reason end as cancel_reason,
+      case when p.status = 'cancelled' then p.cancellation_initiator end as cancellation_initiator,
+      (item ->> 'quantity')::int as units,
+      (item ->> 'quantity')::int * coalesce((item ->> 'price')::numeric, 0) as gmv,
+      coalesce(r.cost, 0) as posting_return_cost
+    from postings p
+    cross join lateral jsonb_array_elements(p.products) as item
+    left join posting_returns r on r.posting_number = p.posting_number
+  ),
+  -- Shares are taken before the SKU and region filters, so a filtered SKU
+  -- keeps only its part of a mixed posting's cost
+  shared as (
+    select
+      l.*,
+      l.posting_return_cost * coalesce(
+        l.gmv / nullif(sum(l.gmv) over (partition by l.posting_number), 0),
+        1.0 / count(*) over (partition by l.posting_number)
+      ) as return_cost
+    from lines l
+  )
+  select
+    l.posting_number,
+    l.order_date,
+    l.sku,
+    l.region,
+    l.warehouse_name,
+    l.outcome,
+    l.cancel_reason,
+    l.cancellation_initiator,
+    l.units,
+    l.gmv,
+    l.return_cost
+  from shared l
+  where (coalesce(cardinality(sku_filter), 0) = 0
+      or (l.sku = any(sku_filter)) <> sku_exclude)
+    and (coalesce(cardinality(region_filter), 0) = 0
+      or coalesce(l.region = any(region_filter), false) <> region_exclude);
+$$;
+
+-- Units, GMV and return cost per SKU, region, warehouse, outcome and
+-- cancellation reason. Rates are taken over units, so the rows add up along
+-- any of the dimensions.
+create or replace function get_returns_breakdown(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  sku bigint,
+  region text,
+  warehouse_name text,
+  outcome text,
+  cancel_reason text,
+  cancellation_initiator text,
+  units bigint,
+  gmv numeric,
+  return_cost numeric
+)
+language sql
+stable
+as $$
+  select
+    l.sku,
+    l.region,
+    l.warehouse_name,
+    l.outcome,
+    l.cancel_reason,
+    l.cancellation_initiator,
+    sum(l.units)::bigint as units,
+    sum(l.gmv) as gmv,
+    sum(l.return_cost) as return_cost
+  from posting_return_lines(
+    start_date, end_date, sku_filter, sku_exclude, region_filter, region_exclude, account_filter
+  ) l
+  group by 1, 2, 3, 4, 5, 6;
+$$;
+
+-- Ordered, cancelled and returned units per order date, for the rate trends
+create or replace function get_returns_daily(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  date_msk date,
+  units bigint,
+  cancelled_units bigint,
+  returned_units bigint,
+  return_cost numeric
+)
+language sql
+stable
+as $$
+  select
+    l.order_date as date_msk,
+    sum(l.units)::bigint as units,
+    coalesce(sum(l.units) filter (where l.outcome = 'cancelled'), 0)::bigint as cancelled_units,
+    coalesce(sum(l.units) filter (where l.outcome = 'returned'), 0)::bigint as returned_units,
+    sum(l.return_cost) as return_cost
+  from posting_return_lines(
+    start_date, end_date, sku_filter, sku_exclude, region_filter, region_exclude, account_filter
+  ) l
+  group by l.order_date
+  order by l.order_date;
+$$;
@@ -0,0 +1,49 @@
+-- vw_transaction_details joins every transaction with its services and
+-- items, so a transaction repeats once per service and item. service_id is
+-- the id of the service row, the only way to tell two charges of the same
+-- name and price apart once the join has repeated them.
+--
+-- The view is older than these migrations, so the deployed definition is
+-- kept as it is and only gets the id of its finance_transaction_services
+-- row appended. A new column can only go last, and
+-- vw_transaction_details_regions, which selects t.*, is recreated after.
+drop view if exists vw_transaction_details_regions;
+
+do $$
+declare
+  definition text := pg_get_viewdef('vw_transaction_details'::regclass);
+  services_alias text;
+  from_position int;
+begin
+  if definition !~ 'finance_transaction_services' then
+    raise exception 'vw_transaction_details does not join finance_transaction_services';
+  end if;
+
+  services_alias := coalesce(
+    substring(definition from 'finance_transaction_services (\w+) ON'),
+    'finance_transaction_services'
+  );
+  -- The top-level FROM; those of subqueries are indented deeper
+  from_position := position(E'\n   FROM ' in definition);
+
+  execute format(
+    'create or replace view vw_transaction_details as %s, %I.id as service_id%s',
+    left(definition, from_position - 1),
+    services_alias,
+    substr(definition, from_position)
+  );
+end;
+$$;
+
+-- create or replace resets the view options
+alter view vw_transaction_details set (security_invoker = true);
+
+-- Same as in 20241225000000_transaction_regions
+create view vw_transaction_details_regions
+with (security_invoker = true)
+as
+select
+  t.*,
+  p.cluster_to as region
+from vw_transaction_details t
+left join postings_fbs p on p.posting_number = t.posting_number;
@@ -0,0 +1,483 @@
+-- Seller account dimension and list filters for the views and functions the
+-- dashboard reads. Views get an account_id column and return one row per
+-- account, the client filters on it or sums over it. Functions get
+-- account_filter, null sums all accounts, and take SKU and region lists with
+-- an exclude flag like get_cogs_breakdown in 20241226000000_filter_lists: an
+-- empty or null list means no filter, with the exclude flag the listed
+-- values are skipped.
+
+-- Appends a column of one of the tables a view reads and keeps the rest of
+-- the deployed definition as it is. The table has to be joined at the top
+-- level of the view; an aggregating view is grouped by the column as well.
+-- A view that already has the column is left alone.
+create function pg_temp.append_view_column(view_name regclass, table_name text, column_name text)
+returns void
+language plpgsql
+as $$
+declare
+  definition text := pg_get_viewdef(view_name);
+  options text[];
+  table_alias text;
+begin
+  if exists (
+    select 1
+    from pg_attribute a
+    where a.attrelid = view_name and a.attname = column_name and not a.attisdropped
+  ) then
+    return;
+  end if;
+
+  if definition !~ ('\m' || table_name || '\M') then
+    raise exception '% does not read %', view_name, table_name;
+  end if;
+
+  table_alias := substring(definition from '\m' || table_name || ' (\w+)');
+  if table_alias is null or table_alias = 'ON' then
+    table_alias := table_name;
+  end if;
+
+  -- The top-level clauses of every UNION branch; those of subqueries are
+  -- indented deeper
+  definition := replace(
+    definition,
+    E'\n   FROM ',
+    format(E', %I.%I\n   FROM ', table_alias, column_name)
+  );
+  definition := replace(
+    definition,
+    E'\n  GROUP BY ',
+    format(E'\n  GROUP BY %I.%I, ', table_alias, column_name)
+  );
+
+  -- create or replace resets the view options
+  select c.reloptions into options from pg_class c where c.oid = view_name;
+  execute format('create or replace view %s as %s', view_name, definition);
+  if options is not null then
+    execute format('alter view %s set (%s)', view_name, array_to_string(options, ', '));
+  end if;
+end;
+$$;
+
+select pg_temp.append_view_column('vw_daily_sales_by_date_type', 'postings_fbs', 'account_id');
+select pg_temp.append_view_column('dashboard_summary', 'finance_transactions', 'account_id');
+
+-- vw_transaction_details_regions selects t.*, so it is recreated to pick
+-- up the new column
+drop view if exists vw_transaction_details_regions;
+select pg_temp.append_view_column('vw_transaction_details', 'finance_transactions', 'account_id');
+
+-- Same as in 20241225000000_transaction_regions
+create view vw_transaction_details_regions
+with (security_invoker = true)
+as
+select
+  t.*,
+  p.cluster_to as region
+from vw_transaction_details t
+left join postings_fbs p on p.posting_number = t.posting_number;
+
+-- Lines of every posting with the matching financial_products entry, which
+-- Ozon lists in the same order as products. Dates are Moscow days; amounts
+-- as in vw_daily_sku_sales_by_date_type and get_daily_metrics: GMV is price
+-- times quantity, revenue the payout, commissions are negative.
+create or replace function posting_lines(account_filter text default null)
+returns table (
+  posting_number text,
+  status text,
+  account_id text,
+  region text,
+  in_process_date date,
+  shipment_date date,
+  delivering_date date,
+  sku bigint,
+  offer_id text,
+  product_name text,
+  quantity int,
+  gmv numeric,
+  revenue numeric,
+  commission numeric
+)
+language sql
+stable
+as $$
+  select
+    p.posting_number,
+    p.status,
+    p.account_id,
+    p.cluster_to,
+    (p.in_process_at at time zone 'Europe/Moscow')::date,
+    (p.shipment_date at time zone 'Europe/Moscow')::date,
+    (p.delivering_date at time zone 'Europe/Moscow')::date,
+    (item.value ->> 'sku')::bigint,
+    item.value ->> 'offer_id',
+    item.value ->> 'name',
+    (item.value ->> 'quantity')::int,
+    (item.value ->> 'quantity')::int * coalesce((item.value ->> 'price')::numeric, 0),
+    coalesce((fin.value ->> 'payout')::numeric, 0),
+    -abs(coalesce((fin.value ->> 'commission_amount')::numeric, 0))
+  from postings_fbs p
+  cross join lateral jsonb_array_elements(p.products) with ordinality as item (value, position)
+  left join lateral jsonb_array_elements(p.financial_products) with ordinality as fin (value, position)
+    on fin.position = item.position
+  where account_filter is null or p.account_id = account_filter;
+$$;
+
+-- The functions below replace the versions with a single SKU and region
+drop function if exists get_sales_metrics_by_date_type(date, date, text, bigint, text);
+drop function if exists get_products_performance(date, date, bigint, text, text, text, text, int, int);
+drop function if exists get_products_metrics(date, date, bigint, text);
+drop function if exists get_regions_performance(date, date, bigint, text);
+drop function if exists get_regions_metrics(date, date, bigint, text);
+drop function if exists get_finance_summary(date, date, text, bigint, text);
+
+-- Totals of the postings in the period by the chosen date. total_* count
+-- postings that were not cancelled, delivered_* the delivered ones.
+create or replace function get_sales_metrics_by_date_type(
+  start_date date,
+  end_date date,
+  date_type text default 'shipment_date',
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  total_orders bigint,
+  total_units bigint,
+  total_gmv numeric,
+  total_revenue numeric,
+  total_commissions numeric,
+  avg_order_value numeric,
+  delivered_orders bigint,
+  delivered_units bigint,
+  delivered_gmv numeric,
+  delivered_revenue numeric,
+  delivered_commissions numeric,
+  cancelled_gmv numeric,
+  in_delivery_gmv numeric,
+  net_profit numeric
+)
+language sql
+stable
+as $$
+  with lines as (
+    select
+      l.*,
+      case date_type
+        when 'delivering_date' then l.delivering_date
+        when 'in_process_at' then l.in_process_date
+        else l.shipment_date
+      end as sale_date
+    from posting_lines(account_filter) l
+  ),
+  period as (
+    select *
+    from lines l
+    where l.sale_date between start_date and end_date
+      and (coalesce(cardinality(sku_filter), 0) = 0
+        or (l.sku = any(sku_filter)) <> sku_exclude)
+      and (coalesce(cardinality(region_filter), 0) = 0
+        or coalesce(l.region = any(region_filter), false) <> region_exclude)
+  )
+  select
+    count(distinct l.posting_number) filter (where l.status <> 'cancelled'),
+    coalesce(sum(l.quantity) filter (where l.status <> 'cancelled'), 0)::bigint,
+    coalesce(sum(l.gmv) filter (where l.status <> 'cancelled'), 0),
+    coalesce(sum(l.revenue) filter (where l.status <> 'cancelled'), 0),
+    coalesce(sum(l.commission) filter (where l.status <> 'cancelled'), 0),
+    coalesce(
+      sum(l.gmv) filter (where l.status = 'delivered')
+        / nullif(count(distinct l.posting_number) filter (where l.status = 'delivered'), 0),
+      0
+    ),
+    count(distinct l.posting_number) filter (where l.status = 'delivered'),
+    coalesce(sum(l.quantity) filter (where l.status = 'delivered'), 0)::bigint,
+    coalesce(sum(l.gmv) filter (where l.status = 'delivered'), 0),
+    coalesce(sum(l.revenue) filter (where l.status = 'delivered'), 0),
+    coalesce(sum(l.commission) filter (where l.status = 'delivered'), 0),
+    coalesce(sum(l.gmv) filter (where l.status = 'cancelled'), 0),
+    coalesce(sum(l.gmv) filter (where l.status = 'delivering'), 0),
+    coalesce(sum(l.revenue + l.commission) filter (where l.status = 'delivered'), 0)
+  from period l;
+$$;
+
+-- Delivered postings per SKU by delivery date. sort_by is a metric without
+-- the delivered_ prefix or 'sku'; anything else sorts by revenue.
+create or replace function get_products_performance(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null,
+  search_term text default null,
+  sort_by text default 'revenue',
+  sort_order text default 'desc',
+  page_offset int default 0,
+  page_size int default 50
+)
+returns table (
+  sku bigint,
+  offer_id text,
+  product_name text,
+  delivered_orders bigint,
+  delivered_units bigint,
+  delivered_gmv numeric,
+  delivered_revenue numeric,
+  delivered_commissions numeric,
+  avg_price numeric
+)
+language sql
+stable
+as $$
+  with products as (
+    select
+      l.sku,
+      (array_agg(l.offer_id order by l.delivering_date desc))[1] as offer_id,
+      (array_agg(l.product_name order by l.delivering_date desc))[1] as product_name,
+      count(distinct l.posting_number) as delivered_orders,
+      sum(l.quantity)::bigint as delivered_units,
+      sum(l.gmv) as delivered_gmv,
+      sum(l.revenue) as delivered_revenue,
+      sum(l.commission) as delivered_commissions,
+      coalesce(sum(l.gmv) / nullif(sum(l.quantity), 0), 0) as avg_price
+    from posting_lines(account_filter) l
+    where l.status = 'delivered'
+      and l.delivering_date between start_date and end_date
+      and (coalesce(cardinality(sku_filter), 0) = 0
+        or (l.sku = any(sku_filter)) <> sku_exclude)
+      and (coalesce(cardinality(region_filter), 0) = 0
+        or coalesce(l.region = any(region_filter), false) <> region_exclude)
+    group by l.sku
+  ),
+  sorted as (
+    select
+      pr.*,
+      case sort_by
+        when 'sku' then pr.sku::numeric
+        when 'orders' then pr.delivered_orders
+        when 'units' then pr.delivered_units
+        when 'gmv' then pr.delivered_gmv
+        when 'commissions' then pr.delivered_commissions
+        else pr.delivered_revenue
+      end as sort_value
+    from products pr
+    where coalesce(search_term, '') = ''
+      or pr.sku::text ilike '%' || search_term || '%'
+      or pr.offer_id ilike '%' || search_term || '%'
+      or pr.product_name ilike '%' || search_term || '%'
+  )
+  select
+    s.sku,
+    s.offer_id,
+    s.product_name,
+    s.delivered_orders,
+    s.delivered_units,
+    s.delivered_gmv,
+    s.delivered_revenue,
+    s.delivered_commissions,
+    s.avg_price
+  from sorted s
+  order by
+    case when sort_order = 'asc' then s.sort_value end asc,
+    case when sort_order <> 'asc' then s.sort_value end desc,
+    s.sku
+  offset page_offset
+  limit page_size;
+$$;
+
+create or replace function get_products_metrics(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  total_products bigint,
+  total_revenue numeric,
+  total_units bigint,
+  total_orders bigint,
+  avg_revenue_per_product numeric
+)
+language sql
+stable
+as $$
+  select
+    count(distinct l.sku),
+    coalesce(sum(l.revenue), 0),
+    coalesce(sum(l.quantity), 0)::bigint,
+    count(distinct l.posting_number),
+    coalesce(sum(l.revenue) / nullif(count(distinct l.sku), 0), 0)
+  from posting_lines(account_filter) l
+  where l.status = 'delivered'
+    and l.delivering_date between start_date and end_date
+    and (coalesce(cardinality(sku_filter), 0) = 0
+      or (l.sku = any(sku_filter)) <> sku_exclude)
+    and (coalesce(cardinality(region_filter), 0) = 0
+      or coalesce(l.region = any(region_filter), false) <> region_exclude);
+$$;
+
+-- Delivered postings per delivery cluster by delivery date, best first
+create or replace function get_regions_performance(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  region text,
+  delivered_orders bigint,
+  delivered_units bigint,
+  delivered_gmv numeric,
+  delivered_revenue numeric,
+  delivered_commissions numeric
+)
+language sql
+stable
+as $$
+  select
+    l.region,
+    count(distinct l.posting_number),
+    sum(l.quantity)::bigint,
+    sum(l.gmv),
+    sum(l.revenue),
+    sum(l.commission)
+  from posting_lines(account_filter) l
+  where l.status = 'delivered'
+    and l.delivering_date between start_date and end_date
+    and (coalesce(cardinality(sku_filter), 0) = 0
+      or (l.sku = any(sku_filter)) <> sku_exclude)
+    and (coalesce(cardinality(region_filter), 0) = 0
+      or coalesce(l.region = any(region_filter), false) <> region_exclude)
+  group by l.region
+  order by 5 desc;
+$$;
+
+create or replace function get_regions_metrics(
+  start_date date,
+  end_date date,
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  total_regions bigint,
+  total_revenue numeric,
+  total_units bigint,
+  total_orders bigint,
+  total_gmv numeric,
+  avg_revenue_per_region numeric,
+  top_region text,
+  top_region_revenue numeric
+)
+language sql
+stable
+as $$
+  with regions as (
+    select *
+    from get_regions_performance(
+      start_date, end_date, sku_filter, sku_exclude, region_filter, region_exclude, account_filter
+    )
+  )
+  select
+    count(*),
+    coalesce(sum(r.delivered_revenue), 0),
+    coalesce(sum(r.delivered_units), 0)::bigint,
+    coalesce(sum(r.delivered_orders), 0)::bigint,
+    coalesce(sum(r.delivered_gmv), 0),
+    coalesce(sum(r.delivered_revenue) / nullif(count(*), 0), 0),
+    (select r2.region from regions r2 order by r2.delivered_revenue desc limit 1),
+    coalesce((select max(r2.delivered_revenue) from regions r2), 0)
+  from regions r;
+$$;
+
+-- Finance totals of the operations in the period by operation date;
+-- date_type is accepted for a uniform signature and not used. Operations
+-- fall into a category by type, then by service name; expenses are
+-- positive. The SKU filter keeps operations with one of the listed items,
+-- or with the exclude flag operations with none of them.
+create or replace function get_finance_summary(
+  start_date date,
+  end_date date,
+  date_type text default 'shipment_date',
+  sku_filter bigint[] default null,
+  sku_exclude boolean default false,
+  region_filter text[] default null,
+  region_exclude boolean default false,
+  account_filter text default null
+)
+returns table (
+  total_sales numeric,
+  total_commissions numeric,
+  total_delivery numeric,
+  total_returns numeric,
+  total_ads numeric,
+  total_services numeric,
+  total_income numeric,
+  total_expenses numeric,
+  net_profit numeric
+)
+language sql
+stable
+as $$
+  with operations as (
+    select
+      t.accruals_for_sale,
+      t.sale_commission,
+      t.amount,
+      case
+        when t.type = 'orders' then 'sales'
+        when t.type = 'returns' then 'returns'
+        when coalesce(s.names, t.operation_type) ilike '%Logistic%' then 'delivery'
+        when coalesce(s.names, t.operation_type) ilike '%MarketingAction%' then 'ads'
+        else 'services'
+      end as category
+    from finance_transactions t
+    left join postings_fbs p on p.posting_number = t.posting_number
+    left join lateral (
+      select string_agg(fs.name, ' ') as names
+      from finance_transaction_services fs
+      where fs.operation_id = t.operation_id
+    ) s on true
+    where (t.operation_date at time zone 'Europe/Moscow')::date between start_date and end_date
+      and (account_filter is null or t.account_id = account_filter)
+      and (coalesce(cardinality(sku_filter), 0) = 0
+        or exists (
+          select 1 from finance_transaction_items i
+          where i.operation_id = t.operation_id and i.sku = any(sku_filter)
+        ) <> sku_exclude)
+      and (coalesce(cardinality(region_filter), 0) = 0
+        or coalesce(p.cluster_to = any(region_filter), false) <> region_exclude)
+  ),
+  totals as (
+    select
+      coalesce(sum(o.accruals_for_sale), 0) as sales,
+      coalesce(sum(abs(o.sale_commission)), 0) as commissions,
+      coalesce(sum(abs(o.amount)) filter (where o.category = 'delivery'), 0) as delivery,
+      coalesce(sum(abs(o.amount)) filter (where o.category = 'returns'), 0) as returns,
+      coalesce(sum(abs(o.amount)) filter (where o.category = 'ads'), 0) as ads,
+      coalesce(sum(abs(o.amount)) filter (where o.category = 'services'), 0) as services
+    from operations o
+  )
+  select
+    t.sales,
+    t.commissions,
+    t.delivery,
+    t.returns,
+    t.ads,
+    t.services,
+    t.sales,
+    t.commissions + t.delivery + t.returns + t.ads + t.services,
+    t.sales - (t.commissions + t.delivery + t.returns + t.ads + t.services)
+  from totals t;
+$$;